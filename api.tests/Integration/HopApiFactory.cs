@@ -1,6 +1,11 @@
 using HOPTranscribe.Api.Data;
+using HOPTranscribe.Api.Models.Passages;
 using HOPTranscribe.Api.Models.Sessions;
+using HOPTranscribe.Api.Models.Translation;
 using HOPTranscribe.Api.Services.Broadcast;
+using HOPTranscribe.Api.Services.Notes;
+using HOPTranscribe.Api.Services.Passages;
+using HOPTranscribe.Api.Services.Translation;
 using Microsoft.AspNetCore.Hosting;
 using Microsoft.AspNetCore.Mvc.Testing;
 using Microsoft.Data.Sqlite;
@@ -13,9 +18,9 @@ namespace HOPTranscribe.Api.Tests.Integration;
 
 /// <summary>
 /// Boots the real <c>HOPTranscribe.Api</c> host with an in-memory SQLite
-/// database and a no-op session broadcaster (the real one calls SignalR,
-/// which would need a live hub). Disposing the factory releases the
-/// connection and drops the data.
+/// database, a no-op session broadcaster (the real one calls SignalR,
+/// which would need a live hub) and local stand-ins for the translation,
+/// passage and sermon notes models. Disposing the factory releases the connection and drops the data.
 /// </summary>
 public class HopApiFactory : WebApplicationFactory<Program>
 {
@@ -24,6 +29,8 @@ public class HopApiFactory : WebApplicationFactory<Program>
     public const string Audience = "test-audience";
 
     public RecordingSessionBroadcaster Broadcaster { get; } = new();
+    public StubTranslationService Translation { get; } = new();
+    public StubPassageService Passages { get; } = new();
 
     private readonly SqliteConnection _connection;
 
@@ -71,6 +78,30 @@ public class HopApiFactory : WebApplicationFactory<Program>
             if (broadcasterDescriptor is not null) services.Remove(broadcasterDescriptor);
 
             services.AddSingleton<ISessionBroadcaster>(Broadcaster);
+
+            // Replace the OpenAI translator with one that tags text instead of translating it.
+            foreach (var d in services.Where(d => d.ServiceType == typeof(ITranslationService)).ToList())
+                services.Remove(d);
+
+            services.AddSingleton<ITranslationService>(Translation);
+
+            // Replace the OpenAI passage lookup with one that numbers placeholder verses.
+            foreach (var d in services.Where(d => d.ServiceType == typeof(IPassageService)).ToList())
+                services.Remove(d);
+
+            services.AddSingleton<IPassageService>(Passages);
+
+            // Write sermon notes from the transcript itself instead of asking a model.
+            foreach (var d in services.Where(d => d.ServiceType == typeof(ISermonNotesGenerator)).ToList())
+                services.Remove(d);
+
+            services.AddSingleton<ISermonNotesGenerator, ExtractiveSermonNotesGenerator>();
+
+            // Write sermon notes before the request returns, so tests don't race the worker.
+            foreach (var d in services.Where(d => d.ServiceType == typeof(ISermonNotesQueue)).ToList())
+                services.Remove(d);
+
+            services.AddSingleton<ISermonNotesQueue, InlineSermonNotesQueue>();
         });
     }
 
@@ -103,6 +134,9 @@ public class HopApiFactory : WebApplicationFactory<Program>
 public class RecordingSessionBroadcaster : ISessionBroadcaster
 {
     public List<(string Code, TranscriptSegmentDto Segment)> Transcripts { get; } = new();
+    public List<(string Code, TranscriptSegmentDto Segment)> TranscriptUpdates { get; } = new();
+    public List<(string Code, Guid SegmentId)> TranscriptDeletions { get; } = new();
+    public List<(string Code, string Text)> Partials { get; } = new();
     public List<(string Code, SessionDto Session)> SessionUpdates { get; } = new();
 
     public Task TranscriptAppendedAsync(string sessionCode, TranscriptSegmentDto segment)
@@ -111,9 +145,87 @@ public class RecordingSessionBroadcaster : ISessionBroadcaster
         return Task.CompletedTask;
     }
 
+    public Task TranscriptUpdatedAsync(string sessionCode, TranscriptSegmentDto segment)
+    {
+        TranscriptUpdates.Add((sessionCode, segment));
+        return Task.CompletedTask;
+    }
+
+    public Task TranscriptDeletedAsync(string sessionCode, Guid segmentId)
+    {
+        TranscriptDeletions.Add((sessionCode, segmentId));
+        return Task.CompletedTask;
+    }
+
+    public Task PartialUpdatedAsync(string sessionCode, string text)
+    {
+        Partials.Add((sessionCode, text));
+        return Task.CompletedTask;
+    }
+
     public Task SessionUpdatedAsync(string sessionCode, SessionDto session)
     {
         SessionUpdates.Add((sessionCode, session));
         return Task.CompletedTask;
     }
 }
+
+/// <summary>Writes sermon notes straight away in a scope of its own, in place of the background worker.</summary>
+public class InlineSermonNotesQueue : ISermonNotesQueue
+{
+    private readonly IServiceScopeFactory _scopes;
+
+    public InlineSermonNotesQueue(IServiceScopeFactory scopes) => _scopes = scopes;
+
+    public async ValueTask EnqueueAsync(Guid sessionId, bool regenerate = false)
+    {
+        using var scope = _scopes.CreateScope();
+        await scope.ServiceProvider.GetRequiredService<SermonNotesBuilder>().WriteAsync(sessionId, regenerate);
+    }
+
+    public bool IsPending(Guid sessionId) => false;
+}
+
+/// <summary>Prefixes text and quotes with the target language and version, and counts what it was asked to translate.</summary>
+public class StubTranslationService : ITranslationService
+{
+    public int TranslatedSegments { get; set; }
+
+    public Task<List<SegmentTranslationDto>> TranslateAsync(
+        IReadOnlyList<TranslationItem> items,
+        string sourceLanguage,
+        string targetLanguage,
+        CancellationToken ct = default)
+    {
+        TranslatedSegments += items.Count;
+        return Task.FromResult(items.Select(i => new SegmentTranslationDto
+        {
+            SegmentId = i.SegmentId,
+            Language = targetLanguage,
+            Text = $"[{targetLanguage}] {i.Text}",
+            Quotes = i.Quotes
+                .Select(q => new TranslatedQuoteDto { MatchId = q.MatchId, Version = q.Version, Quote = $"[{q.Version}] {q.Reference}" })
+                .ToList(),
+        }).ToList());
+    }
+}
+
+/// <summary>Returns three placeholder verses tagged with the version, and records what it was asked for.</summary>
+public class StubPassageService : IPassageService
+{
+    public List<(string Book, int Chapter, string Version)> Requests { get; } = new();
+
+    public Task<PassageDto> GetChapterAsync(string book, int chapter, string version, CancellationToken ct = default)
+    {
+        Requests.Add((book, chapter, version));
+        return Task.FromResult(new PassageDto
+        {
+            Book = book,
+            Chapter = chapter,
+            Version = version,
+            Verses = Enumerable.Range(1, 3)
+                .Select(v => new PassageVerseDto { Verse = v, Text = $"[{version}] {book} {chapter}:{v}" })
+                .ToList(),
+        });
+    }
+}
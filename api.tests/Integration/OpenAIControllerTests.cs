@@ -0,0 +1,52 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using System.Text.Json;
+using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Sessions;
+
+namespace HOPTranscribe.Api.Tests.Integration;
+
+public class OpenAIControllerTests : IClassFixture<HopApiFactory>
+{
+    private readonly HopApiFactory _factory;
+
+    private static readonly JsonSerializerOptions Json = new() { PropertyNameCaseInsensitive = true };
+
+    public OpenAIControllerTests(HopApiFactory factory)
+    {
+        _factory = factory;
+    }
+
+    private static MultipartFormDataContent ChunkForm(string sessionCode, byte[]? audio)
+    {
+        var form = new MultipartFormDataContent { { new StringContent(sessionCode), "sessionCode" } };
+        if (audio is not null)
+        {
+            var file = new ByteArrayContent(audio);
+            file.Headers.ContentType = new MediaTypeHeaderValue("audio/wav");
+            form.Add(file, "file", "chunk.wav");
+        }
+        return form;
+    }
+
+    [Fact]
+    public async Task TranscribeChunk_Requires_Owner_And_Audio()
+    {
+        var aliceClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(aliceClient, "import-alice");
+        var createResp = await aliceClient.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Recorded sermon" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+
+        var malloryClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(malloryClient, "import-mallory");
+        var forbidden = await malloryClient.PostAsync("/api/openai/transcriptions", ChunkForm(created.Code, new byte[] { 1, 2, 3 }));
+        forbidden.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        var missingAudio = await aliceClient.PostAsync("/api/openai/transcriptions", ChunkForm(created.Code, null));
+        missingAudio.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var unknown = await aliceClient.PostAsync("/api/openai/transcriptions", ChunkForm("ZZZZZZ", new byte[] { 1, 2, 3 }));
+        unknown.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+}
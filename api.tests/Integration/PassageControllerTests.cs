@@ -0,0 +1,52 @@
+using System.Net;
+using System.Net.Http.Json;
+using System.Text.Json;
+using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Passages;
+
+namespace HOPTranscribe.Api.Tests.Integration;
+
+public class PassageControllerTests : IClassFixture<HopApiFactory>
+{
+    private readonly HopApiFactory _factory;
+
+    private static readonly JsonSerializerOptions Json = new() { PropertyNameCaseInsensitive = true };
+
+    public PassageControllerTests(HopApiFactory factory)
+    {
+        _factory = factory;
+    }
+
+    [Fact]
+    public async Task GetChapter_Resolves_Book_Aliases_And_Normalizes_Version()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "passage-alice");
+
+        var resp = await client.GetAsync("/api/passages?book=rev&chapter=8&version=nkjv");
+        resp.StatusCode.Should().Be(HttpStatusCode.OK);
+        var passage = (await resp.Content.ReadFromJsonAsync<ApiResponse<PassageDto>>(Json))!.Data!;
+        passage.Book.Should().Be("Revelation");
+        passage.Version.Should().Be("NKJV");
+        passage.Verses.Select(v => v.Verse).Should().Equal(1, 2, 3);
+        _factory.Passages.Requests.Should().Contain(("Revelation", 8, "NKJV"));
+    }
+
+    [Fact]
+    public async Task GetChapter_Rejects_Unknown_Books_Chapters_And_Missing_Version()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "passage-bob");
+
+        (await client.GetAsync("/api/passages?book=Tobit&chapter=1&version=KJV")).StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        (await client.GetAsync("/api/passages?book=Jude&chapter=2&version=KJV")).StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        (await client.GetAsync("/api/passages?book=John&chapter=3")).StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task GetChapter_Requires_Authentication()
+    {
+        var resp = await _factory.CreateClient().GetAsync("/api/passages?book=John&chapter=3&version=KJV");
+        resp.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+}
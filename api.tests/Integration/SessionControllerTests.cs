@@ -2,7 +2,9 @@ using System.Net;
 using System.Net.Http.Json;
 using System.Text.Json;
 using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Notes;
 using HOPTranscribe.Api.Models.Sessions;
+using HOPTranscribe.Api.Models.Translation;
 
 namespace HOPTranscribe.Api.Tests.Integration;
 
@@ -18,6 +20,9 @@ public class SessionControllerTests : IClassFixture<HopApiFactory>
         // Reset captured broadcasts between tests (xUnit reuses the fixture).
         _factory.Broadcaster.SessionUpdates.Clear();
         _factory.Broadcaster.Transcripts.Clear();
+        _factory.Broadcaster.TranscriptUpdates.Clear();
+        _factory.Broadcaster.TranscriptDeletions.Clear();
+        _factory.Broadcaster.Partials.Clear();
     }
 
     [Fact]
@@ -166,6 +171,338 @@ public class SessionControllerTests : IClassFixture<HopApiFactory>
         appendResp.StatusCode.Should().Be(HttpStatusCode.Forbidden);
     }
 
+    [Fact]
+    public async Task AppendTranscript_With_A_Segment_Id_From_Another_Session_Returns_409()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "dup-alice");
+        var firstResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Morning" });
+        var first = (await firstResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var secondResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Evening" });
+        var second = (await secondResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var segmentId = Guid.NewGuid();
+
+        var storedResp = await client.PostAsJsonAsync($"/api/sessions/{first.Code}/transcripts", new AppendTranscriptRequest
+        {
+            Id = segmentId,
+            Text = "In the beginning",
+        });
+        storedResp.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var reusedResp = await client.PostAsJsonAsync($"/api/sessions/{second.Code}/transcripts", new AppendTranscriptRequest
+        {
+            Id = segmentId,
+            Text = "In the beginning",
+        });
+
+        reusedResp.StatusCode.Should().Be(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task RelayPartial_Broadcasts_Owner_Text_And_Rejects_Others()
+    {
+        var aliceClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(aliceClient, "partial-alice");
+        var createResp = await aliceClient.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+
+        var malloryClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(malloryClient, "partial-mallory");
+        var forbidden = await malloryClient.PostAsJsonAsync(
+            $"/api/sessions/{created.Code}/partial", new PartialTranscriptRequest { Text = "spoofed" });
+        forbidden.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        var relayResp = await aliceClient.PostAsJsonAsync(
+            $"/api/sessions/{created.Code}/partial", new PartialTranscriptRequest { Text = " For God so " });
+        relayResp.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        _factory.Broadcaster.Partials.Should().ContainSingle()
+            .Which.Should().Be((created.Code, "For God so"));
+    }
+
+    [Fact]
+    public async Task Edit_And_Delete_Transcript_Broadcast_To_Viewers()
+    {
+        var aliceClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(aliceClient, "edit-alice");
+        var createResp = await aliceClient.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var appendResp = await aliceClient.PostAsJsonAsync($"/api/sessions/{created.Code}/transcripts", new AppendTranscriptRequest
+        {
+            Text = "Turn to the book of Jon",
+        });
+        var segment = (await appendResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+
+        var malloryClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(malloryClient, "edit-mallory");
+        var forbidden = await malloryClient.PatchAsJsonAsync(
+            $"/api/sessions/{created.Code}/transcripts/{segment.Id}",
+            new UpdateTranscriptRequest { Text = "vandalised" });
+        forbidden.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        var patchResp = await aliceClient.PatchAsJsonAsync(
+            $"/api/sessions/{created.Code}/transcripts/{segment.Id}",
+            new UpdateTranscriptRequest { Text = "Turn to the book of John" });
+        patchResp.StatusCode.Should().Be(HttpStatusCode.OK);
+        var updated = (await patchResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+        updated.Text.Should().Be("Turn to the book of John");
+        updated.EditedAt.Should().NotBeNull();
+        _factory.Broadcaster.TranscriptUpdates.Should().ContainSingle(u => u.Segment.Id == segment.Id);
+
+        var deleteResp = await aliceClient.DeleteAsync($"/api/sessions/{created.Code}/transcripts/{segment.Id}");
+        deleteResp.StatusCode.Should().Be(HttpStatusCode.NoContent);
+        _factory.Broadcaster.TranscriptDeletions.Should().ContainSingle(d => d.SegmentId == segment.Id);
+
+        var again = await aliceClient.DeleteAsync($"/api/sessions/{created.Code}/transcripts/{segment.Id}");
+        again.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task Pause_And_Resume_Notify_Viewers_And_Store_A_Marker()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "pause-alice");
+        var createResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        created.RecordingState.Should().Be("idle");
+        var recordingUrl = $"/api/sessions/{created.Code}/recording";
+
+        var malloryClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(malloryClient, "pause-mallory");
+        var forbidden = await malloryClient.PatchAsJsonAsync(recordingUrl, new UpdateRecordingStateRequest { State = "paused" });
+        forbidden.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        var bogus = await client.PatchAsJsonAsync(recordingUrl, new UpdateRecordingStateRequest { State = "muted" });
+        bogus.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var pauseResp = await client.PatchAsJsonAsync(recordingUrl, new UpdateRecordingStateRequest { State = "Paused" });
+        pauseResp.StatusCode.Should().Be(HttpStatusCode.OK);
+        _factory.Broadcaster.SessionUpdates.Should().ContainSingle()
+            .Which.Session.RecordingState.Should().Be("paused");
+
+        var markerResp = await client.PostAsJsonAsync($"/api/sessions/{created.Code}/transcripts", new AppendTranscriptRequest
+        {
+            Text = "Paused",
+            Kind = "pause",
+        });
+        var marker = (await markerResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+        marker.Kind.Should().Be("pause");
+
+        await client.PatchAsJsonAsync(recordingUrl, new UpdateRecordingStateRequest { State = "recording" });
+        await client.PatchAsync($"/api/sessions/{created.Code}/end", null);
+        _factory.Broadcaster.SessionUpdates[^1].Session.RecordingState.Should().Be("idle");
+
+        var afterEnd = await client.PatchAsJsonAsync(recordingUrl, new UpdateRecordingStateRequest { State = "recording" });
+        afterEnd.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var listResp = await client.GetFromJsonAsync<ApiResponse<List<TranscriptSegmentDto>>>(
+            $"/api/sessions/{created.Code}/transcripts", Json);
+        listResp!.Data!.Should().ContainSingle().Which.Kind.Should().Be("pause");
+    }
+
+    [Fact]
+    public async Task Owner_Can_Change_Language_And_Viewers_Are_Notified()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "lang-alice");
+        var createResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Culto", Language = "es" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        created.Language.Should().Be("es");
+        var languageUrl = $"/api/sessions/{created.Code}/language";
+
+        var malloryClient = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(malloryClient, "lang-mallory");
+        var forbidden = await malloryClient.PatchAsJsonAsync(languageUrl, new UpdateLanguageRequest { Language = "en" });
+        forbidden.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        var bogus = await client.PatchAsJsonAsync(languageUrl, new UpdateLanguageRequest { Language = "klingon" });
+        bogus.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var resp = await client.PatchAsJsonAsync(languageUrl, new UpdateLanguageRequest { Language = "AUTO" });
+        resp.StatusCode.Should().Be(HttpStatusCode.OK);
+        (await resp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!.Language.Should().Be("auto");
+        _factory.Broadcaster.SessionUpdates.Should().Contain(u => u.Session.Code == created.Code && u.Session.Language == "auto");
+    }
+
+    [Fact]
+    public async Task Gap_Markers_Are_Stored_And_Unknown_Kinds_Are_Speech()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "gap-alice");
+        var createResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var transcriptsUrl = $"/api/sessions/{created.Code}/transcripts";
+
+        var gapResp = await client.PostAsJsonAsync(transcriptsUrl, new AppendTranscriptRequest { Text = "Connection lost", Kind = "gap" });
+        (await gapResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!.Kind.Should().Be("gap");
+
+        var oddResp = await client.PostAsJsonAsync(transcriptsUrl, new AppendTranscriptRequest { Text = "Amen", Kind = "song" });
+        (await oddResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!.Kind.Should().Be("speech");
+    }
+
+    [Fact]
+    public async Task Owner_Can_Add_And_Curate_Matches_And_Viewers_Are_Notified()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "curate-alice");
+        var createResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var appendResp = await client.PostAsJsonAsync($"/api/sessions/{created.Code}/transcripts", new AppendTranscriptRequest
+        {
+            Text = "For God so loved the world",
+        });
+        var segment = (await appendResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+        var matchesUrl = $"/api/sessions/{created.Code}/transcripts/{segment.Id}/matches";
+
+        var invalid = await client.PostAsJsonAsync(matchesUrl, new AddScriptureMatchRequest { Book = "John", Chapter = 30, VerseStart = 1 });
+        invalid.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var addResp = await client.PostAsJsonAsync(matchesUrl, new AddScriptureMatchRequest { Book = "john", Chapter = 3, VerseStart = 16 });
+        addResp.StatusCode.Should().Be(HttpStatusCode.OK);
+        var withManual = (await addResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+        var manual = withManual.Matches.Should().ContainSingle().Subject;
+        manual.Reference.Should().Be("John 3:16");
+        manual.Source.Should().Be("manual");
+        manual.Status.Should().Be("pinned");
+
+        var rejectResp = await client.PatchAsJsonAsync($"{matchesUrl}/{manual.Id}", new UpdateMatchStatusRequest { Status = "rejected" });
+        rejectResp.StatusCode.Should().Be(HttpStatusCode.OK);
+        var bogus = await client.PatchAsJsonAsync($"{matchesUrl}/{manual.Id}", new UpdateMatchStatusRequest { Status = "hidden" });
+        bogus.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        _factory.Broadcaster.TranscriptUpdates.Should().HaveCount(2);
+        _factory.Broadcaster.TranscriptUpdates[^1].Segment.Matches.Single().Status.Should().Be("rejected");
+    }
+
+    [Fact]
+    public async Task Viewers_Get_Cached_Translations_With_Quotes_In_Their_Version()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "translate-alice");
+        var createResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var transcriptsUrl = $"/api/sessions/{created.Code}/transcripts";
+        var appendResp = await client.PostAsJsonAsync(transcriptsUrl, new AppendTranscriptRequest
+        {
+            Text = "For God so loved the world",
+            Matches = new List<ScriptureMatchDto>
+            {
+                new() { Reference = "John 3:16", Book = "John", Chapter = 3, VerseStart = 16, Version = "NKJV", Quote = "For God so loved the world...", Confidence = 0.9 },
+            },
+        });
+        var segment = (await appendResp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+        await client.PostAsJsonAsync(transcriptsUrl, new AppendTranscriptRequest { Text = "Recording paused", Kind = "pause" });
+
+        var viewer = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(viewer, "translate-bob");
+        var translationsUrl = $"{transcriptsUrl}/translations";
+
+        var before = _factory.Translation.TranslatedSegments;
+        var spanish = (await viewer.GetFromJsonAsync<ApiResponse<SessionTranslationsDto>>($"{translationsUrl}?language=ES", Json))!.Data!;
+        spanish.Language.Should().Be("es");
+        spanish.Pending.Should().Be(0);
+        var translated = spanish.Translations.Should().ContainSingle().Subject;
+        translated.SegmentId.Should().Be(segment.Id);
+        translated.Text.Should().Be("[es] For God so loved the world");
+        translated.Quotes.Should().ContainSingle().Which.Version.Should().Be("RVR1960");
+
+        await viewer.GetFromJsonAsync<ApiResponse<SessionTranslationsDto>>($"{translationsUrl}?language=es", Json);
+        _factory.Translation.TranslatedSegments.Should().Be(before + 1);
+
+        await client.PatchAsJsonAsync($"{transcriptsUrl}/{segment.Id}", new UpdateTranscriptRequest { Text = "For God so loved the whole world" });
+        var edited = (await viewer.GetFromJsonAsync<ApiResponse<SessionTranslationsDto>>($"{translationsUrl}?language=es", Json))!.Data!;
+        edited.Translations.Single().Text.Should().Be("[es] For God so loved the whole world");
+        _factory.Translation.TranslatedSegments.Should().Be(before + 2);
+
+        var original = (await viewer.GetFromJsonAsync<ApiResponse<SessionTranslationsDto>>($"{translationsUrl}?language=en", Json))!.Data!;
+        original.Translations.Single().Text.Should().Be("For God so loved the whole world");
+        _factory.Translation.TranslatedSegments.Should().Be(before + 2);
+
+        (await viewer.GetAsync($"{translationsUrl}?language=auto")).StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        (await viewer.GetAsync($"{translationsUrl}?language=klingon")).StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        (await viewer.GetAsync("/api/sessions/NOPE00/transcripts/translations?language=es")).StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task Ending_A_Session_Writes_Notes_With_Anchored_Outline_And_Scriptures_In_Order()
+    {
+        var client = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(client, "notes-alice");
+        var createResp = await client.PostAsJsonAsync("/api/sessions", new CreateSessionRequest { Title = "Sunday service" });
+        var created = (await createResp.Content.ReadFromJsonAsync<ApiResponse<SessionDto>>(Json))!.Data!;
+        var transcriptsUrl = $"/api/sessions/{created.Code}/transcripts";
+        var notesUrl = $"/api/sessions/{created.Code}/notes";
+        var start = DateTimeOffset.UtcNow.AddMinutes(-30);
+
+        async Task<TranscriptSegmentDto> Append(int minute, string text, params ScriptureMatchDto[] matches)
+        {
+            var resp = await client.PostAsJsonAsync(transcriptsUrl, new AppendTranscriptRequest
+            {
+                Text = text,
+                StartedAt = start.AddMinutes(minute),
+                EndedAt = start.AddMinutes(minute + 1),
+                Matches = matches.ToList(),
+            });
+            return (await resp.Content.ReadFromJsonAsync<ApiResponse<TranscriptSegmentDto>>(Json))!.Data!;
+        }
+
+        static ScriptureMatchDto Match(string book, int chapter, int verse, double confidence) => new()
+        {
+            Reference = $"{book} {chapter}:{verse}", Book = book, Chapter = chapter, VerseStart = verse,
+            Version = "NKJV", Quote = "...", Confidence = confidence,
+        };
+
+        var opening = await Append(0, "God's love comes first. Everything else follows from it.", Match("John", 3, 16, 0.9));
+        await Append(1, "He gave his Son so that we would not perish.", Match("John", 3, 16, 0.8), Match("Genesis", 1, 1, 0.2));
+        var romans = await Append(2, "And we know that all things work together for good.", Match("Romans", 8, 28, 0.7));
+
+        var viewer = _factory.CreateClient();
+        await TestAuthHelper.AuthenticateAsync(viewer, "notes-bob");
+        (await viewer.GetAsync(notesUrl)).StatusCode.Should().Be(HttpStatusCode.Conflict);
+
+        // Ending the session writes the notes; reading them never does.
+        await client.PatchAsync($"/api/sessions/{created.Code}/end", null);
+        var notesResp = await viewer.GetAsync(notesUrl);
+        notesResp.StatusCode.Should().Be(HttpStatusCode.OK);
+        var state = (await notesResp.Content.ReadFromJsonAsync<ApiResponse<SessionNotesDto>>(Json))!.Data!;
+        state.Status.Should().Be("ready");
+        var notes = state.Notes!;
+
+        notes.Generator.Should().Be("extractive");
+        var point = notes.Outline.Should().ContainSingle().Subject;
+        point.SegmentId.Should().Be(opening.Id);
+        point.Title.Should().Be("God's love comes first");
+        notes.Scriptures.Select(s => s.Reference).Should().Equal("John 3:16", "Romans 8:28");
+        notes.Scriptures[0].SegmentId.Should().Be(opening.Id);
+        notes.Summary.Should().Contain("Scriptures cited: John 3:16, Romans 8:28.");
+
+        var again = (await viewer.GetFromJsonAsync<ApiResponse<SessionNotesDto>>(notesUrl, Json))!.Data!;
+        again.Notes!.GeneratedAt.Should().Be(notes.GeneratedAt);
+
+        // Corrections after the session ends are written into the notes.
+        await client.PatchAsJsonAsync($"{transcriptsUrl}/{opening.Id}", new UpdateTranscriptRequest { Text = "Love is where it starts." });
+        var edited = (await viewer.GetFromJsonAsync<ApiResponse<SessionNotesDto>>(notesUrl, Json))!.Data!;
+        edited.Notes!.Outline.Single().Title.Should().Be("Love is where it starts");
+
+        var romansMatch = romans.Matches.Single();
+        await client.PatchAsJsonAsync(
+            $"{transcriptsUrl}/{romans.Id}/matches/{romansMatch.Id}", new UpdateMatchStatusRequest { Status = "rejected" });
+        var curated = (await viewer.GetFromJsonAsync<ApiResponse<SessionNotesDto>>(notesUrl, Json))!.Data!;
+        curated.Notes!.Scriptures.Select(s => s.Reference).Should().Equal("John 3:16");
+
+        // Segments delivered late by the outbox are written in as well.
+        await Append(3, "The Lord is my shepherd.", Match("Psalm", 23, 1, 0.9));
+        var late = (await viewer.GetFromJsonAsync<ApiResponse<SessionNotesDto>>(notesUrl, Json))!.Data!;
+        late.Notes!.Scriptures.Select(s => s.Reference).Should().Equal("John 3:16", "Psalm 23:1");
+
+        (await viewer.PostAsync($"{notesUrl}/regenerate", null)).StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        var regenerated = await client.PostAsync($"{notesUrl}/regenerate", null);
+        regenerated.StatusCode.Should().Be(HttpStatusCode.Accepted);
+        (await regenerated.Content.ReadFromJsonAsync<ApiResponse<SessionNotesDto>>(Json))!.Data!.Notes!.GeneratedAt
+            .Should().BeAfter(late.Notes!.GeneratedAt);
+        (await viewer.GetAsync("/api/sessions/NOPE00/notes")).StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
     [Fact]
     public async Task Get_Missing_Session_Returns_404()
     {
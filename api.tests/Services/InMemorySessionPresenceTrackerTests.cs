@@ -0,0 +1,52 @@
+using HOPTranscribe.Api.Services.Presence;
+
+namespace HOPTranscribe.Api.Tests.Services;
+
+public class InMemorySessionPresenceTrackerTests
+{
+    private readonly InMemorySessionPresenceTracker _tracker = new();
+
+    [Fact]
+    public void Join_ReturnsEveryoneInTheSession_IncludingTheCaller()
+    {
+        _tracker.Join("abc123", "conn-1", "alice");
+        var viewers = _tracker.Join("ABC123", "conn-2", "bob");
+
+        viewers.Select(v => v.Username).Should().Equal("alice", "bob");
+        _tracker.GetViewers("other").Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Join_IsIdempotentPerConnection()
+    {
+        var first = _tracker.Join("ABC123", "conn-1", "alice").Single();
+        var again = _tracker.Join("ABC123", "conn-1", "alice");
+
+        again.Should().ContainSingle().Which.JoinedAt.Should().Be(first.JoinedAt);
+    }
+
+    [Fact]
+    public void Leave_RemovesOnlyThatConnection()
+    {
+        _tracker.Join("ABC123", "conn-1", "alice");
+        _tracker.Join("ABC123", "conn-2", "alice");
+
+        _tracker.Leave("abc123", "conn-1")!.ConnectionId.Should().Be("conn-1");
+        _tracker.Leave("ABC123", "conn-1").Should().BeNull();
+        _tracker.GetViewers("ABC123").Should().ContainSingle().Which.ConnectionId.Should().Be("conn-2");
+    }
+
+    [Fact]
+    public void LeaveAll_RemovesTheConnectionFromEverySession()
+    {
+        _tracker.Join("AAA111", "conn-1", "alice");
+        _tracker.Join("BBB222", "conn-1", "alice");
+        _tracker.Join("BBB222", "conn-2", "bob");
+
+        var removed = _tracker.LeaveAll("conn-1");
+
+        removed.Select(r => r.SessionCode).Should().BeEquivalentTo("AAA111", "BBB222");
+        _tracker.GetViewers("AAA111").Should().BeEmpty();
+        _tracker.GetViewers("BBB222").Should().ContainSingle().Which.Username.Should().Be("bob");
+    }
+}
@@ -1,4 +1,5 @@
 using HOPTranscribe.Api.Data;
+using HOPTranscribe.Api.Models.Matching;
 using HOPTranscribe.Api.Models.Sessions;
 using HOPTranscribe.Api.Services.Sessions;
 using Microsoft.Data.Sqlite;
@@ -89,6 +90,21 @@ public class SqliteSessionServiceTests : IDisposable
         dto.Language.Should().Be("en");
     }
 
+    [Fact]
+    public async Task CreateAsync_Normalizes_Language_And_Falls_Back_For_Unknown_Codes()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+
+        var spanish = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Culto", Language = " ES " });
+        var detected = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service", Language = "auto" });
+        var unknown = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service", Language = "xx" });
+
+        spanish.Language.Should().Be("es");
+        detected.Language.Should().Be("auto");
+        unknown.Language.Should().Be("en");
+    }
+
     [Fact]
     public async Task GetByCodeAsync_Returns_Null_For_Missing_Session()
     {
@@ -114,6 +130,136 @@ public class SqliteSessionServiceTests : IDisposable
         dto!.SegmentCount.Should().Be(2);
     }
 
+    [Fact]
+    public async Task AppendSegmentAsync_With_Same_Client_Id_Returns_Stored_Segment_Instead_Of_Duplicating()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+        var created = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service" });
+        var clientId = Guid.NewGuid();
+        var matches = new[] { new ScriptureMatchDto { Reference = "John 3:16", Book = "John", Chapter = 3, VerseStart = 16, Version = "NKJV", Confidence = 0.9 } };
+
+        var first = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Id = clientId, Text = "For God so loved" }, matches);
+        var retry = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Id = clientId, Text = "For God so loved" }, matches);
+
+        first.Id.Should().Be(clientId);
+        retry.Id.Should().Be(clientId);
+        retry.Matches.Should().ContainSingle().Which.Reference.Should().Be("John 3:16");
+        (await svc.ListSegmentsAsync(created.Code)).Should().ContainSingle();
+    }
+
+    [Fact]
+    public async Task UpdateSegmentAsync_Replaces_Text_And_Matches_And_Stamps_EditedAt()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+        var created = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service" });
+        var segment = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Text = "Jon three sixteen" },
+            new[] { new ScriptureMatchDto { Reference = "Jonah 3:1", Book = "Jonah", Chapter = 3, VerseStart = 1, Version = "NKJV" } });
+
+        var updated = await svc.UpdateSegmentAsync(created.Code, segment.Id, "ALICE", new UpdateTranscriptRequest
+        {
+            Text = "  John three sixteen ",
+            Matches = new List<ScriptureMatchDto> { new() { Reference = "John 3:16", Book = "John", Chapter = 3, VerseStart = 16, Version = "NKJV" } },
+        });
+
+        updated!.Text.Should().Be("John three sixteen");
+        updated.EditedAt.Should().NotBeNull();
+        updated.Matches.Should().ContainSingle().Which.Reference.Should().Be("John 3:16");
+        (await db.ScriptureMatches.CountAsync()).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task UpdateSegmentAsync_Keeps_Matches_When_None_Supplied_And_Rejects_Non_Owner()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+        var created = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service" });
+        var segment = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Text = "first" },
+            new[] { new ScriptureMatchDto { Reference = "John 3:16", Book = "John", Chapter = 3, VerseStart = 16, Version = "NKJV" } });
+
+        var updated = await svc.UpdateSegmentAsync(created.Code, segment.Id, "alice", new UpdateTranscriptRequest { Text = "First" });
+        updated!.Matches.Should().ContainSingle();
+
+        var act = () => svc.UpdateSegmentAsync(created.Code, segment.Id, "mallory", new UpdateTranscriptRequest { Text = "x" });
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+        (await svc.UpdateSegmentAsync(created.Code, Guid.NewGuid(), "alice", new UpdateTranscriptRequest { Text = "x" })).Should().BeNull();
+    }
+
+    [Fact]
+    public async Task UpdateSegmentAsync_Keeps_Curated_Matches_When_Replacing_Suggestions()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+        var created = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service" });
+        var segment = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Text = "loved the world" }, new[]
+        {
+            new ScriptureMatchDto { Reference = "John 3:16", Book = "John", Chapter = 3, VerseStart = 16, Version = "NKJV" },
+            new ScriptureMatchDto { Reference = "Jonah 3:1", Book = "Jonah", Chapter = 3, VerseStart = 1, Version = "NKJV" },
+            new ScriptureMatchDto { Reference = "Romans 5:8", Book = "Romans", Chapter = 5, VerseStart = 8, Version = "NKJV" },
+        });
+        await svc.SetMatchStatusAsync(created.Code, segment.Id, segment.Matches[0].Id, "alice", "pinned");
+        await svc.SetMatchStatusAsync(created.Code, segment.Id, segment.Matches[1].Id, "alice", "rejected");
+
+        var updated = await svc.UpdateSegmentAsync(created.Code, segment.Id, "alice", new UpdateTranscriptRequest
+        {
+            Text = "God so loved the world",
+            Matches = new List<ScriptureMatchDto>
+            {
+                new() { Reference = "Jonah 3:1", Book = "Jonah", Chapter = 3, VerseStart = 1, Version = "NKJV" },
+                new() { Reference = "1 John 4:9", Book = "1 John", Chapter = 4, VerseStart = 9, Version = "NKJV" },
+            },
+        });
+
+        updated!.Matches.Select(m => (m.Reference, m.Status)).Should().Equal(
+            ("John 3:16", "pinned"),
+            ("Jonah 3:1", "rejected"),
+            ("1 John 4:9", "suggested"));
+    }
+
+    [Fact]
+    public async Task AddManualMatchAsync_Appends_A_Pinned_Manual_Match_Or_Pins_An_Existing_One()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+        var created = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service" });
+        var segment = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Text = "grace" },
+            new[] { new ScriptureMatchDto { Reference = "Ephesians 2:8", Book = "Ephesians", Chapter = 2, VerseStart = 8, Version = "NKJV" } });
+
+        var added = await svc.AddManualMatchAsync(created.Code, segment.Id, "alice", new ScriptureMatch
+        {
+            Reference = "Romans 3:23-24", Book = "Romans", Chapter = 3, VerseStart = 23, VerseEnd = 24, Version = "NKJV",
+        });
+        added!.Matches.Should().HaveCount(2);
+        added.Matches[1].Should().BeEquivalentTo(new { Reference = "Romans 3:23-24", Status = "pinned", Source = "manual", Confidence = 1.0, Rank = 1 });
+
+        var repinned = await svc.AddManualMatchAsync(created.Code, segment.Id, "alice", new ScriptureMatch
+        {
+            Reference = "Ephesians 2:8", Book = "Ephesians", Chapter = 2, VerseStart = 8, Version = "NKJV",
+        });
+        repinned!.Matches.Should().HaveCount(2);
+        repinned.Matches[0].Status.Should().Be("pinned");
+        repinned.Matches[0].Source.Should().Be("matcher");
+
+        var act = () => svc.SetMatchStatusAsync(created.Code, segment.Id, added.Matches[1].Id, "mallory", "rejected");
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    [Fact]
+    public async Task DeleteSegmentAsync_Removes_Segment_And_Its_Matches()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+        var created = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Service" });
+        var segment = await svc.AppendSegmentAsync(created.Code, new AppendTranscriptRequest { Text = "first" },
+            new[] { new ScriptureMatchDto { Reference = "John 3:16", Book = "John", Chapter = 3, VerseStart = 16, Version = "NKJV" } });
+
+        (await svc.DeleteSegmentAsync(created.Code, segment.Id, "alice")).Should().BeTrue();
+        (await svc.DeleteSegmentAsync(created.Code, segment.Id, "alice")).Should().BeFalse();
+        (await db.TranscriptSegments.AnyAsync()).Should().BeFalse();
+        (await db.ScriptureMatches.AnyAsync()).Should().BeFalse();
+    }
+
     [Fact]
     public async Task ListForUserAsync_Returns_Only_Sessions_For_The_User_Ordered_By_Most_Recent()
     {
@@ -174,6 +320,55 @@ public class SqliteSessionServiceTests : IDisposable
         huge.PageSize.Should().Be(100);
     }
 
+    [Fact]
+    public async Task ListForUserAsync_Filters_By_Search_And_Status()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+
+        var morning = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Sunday Morning" });
+        await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Sunday Evening" });
+        await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Midweek Study" });
+        await svc.EndAsync(morning.Code, "alice");
+
+        var sundays = await svc.ListForUserAsync("alice", 1, 10, new SessionListFilter { Search = "sunday" });
+        sundays.TotalCount.Should().Be(2);
+
+        var ended = await svc.ListForUserAsync("alice", 1, 10, new SessionListFilter { Status = "ended" });
+        ended.Items.Should().ContainSingle().Which.Code.Should().Be(morning.Code);
+
+        var activeSundays = await svc.ListForUserAsync("alice", 1, 10, new SessionListFilter { Search = "SUNDAY", Status = "active" });
+        activeSundays.Items.Should().ContainSingle().Which.Title.Should().Be("Sunday Evening");
+
+        var byCode = await svc.ListForUserAsync("alice", 1, 10, new SessionListFilter { Search = morning.Code.ToLowerInvariant() });
+        byCode.Items.Should().ContainSingle().Which.Code.Should().Be(morning.Code);
+    }
+
+    [Fact]
+    public async Task ListForUserAsync_Filters_By_Created_Date_Range()
+    {
+        await using var db = NewContext();
+        var svc = NewService(db);
+
+        var old = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "Last month" });
+        var recent = await svc.CreateAsync("alice", new CreateSessionRequest { Title = "This week" });
+        var entity = await db.Sessions.SingleAsync(s => s.Code == old.Code);
+        entity.CreatedAt = DateTimeOffset.UtcNow.AddDays(-30);
+        await db.SaveChangesAsync();
+
+        var sinceLastWeek = await svc.ListForUserAsync("alice", 1, 10, new SessionListFilter
+        {
+            From = DateTimeOffset.UtcNow.AddDays(-7),
+        });
+        sinceLastWeek.Items.Should().ContainSingle().Which.Code.Should().Be(recent.Code);
+
+        var beforeLastWeek = await svc.ListForUserAsync("alice", 1, 10, new SessionListFilter
+        {
+            To = DateTimeOffset.UtcNow.AddDays(-7),
+        });
+        beforeLastWeek.Items.Should().ContainSingle().Which.Code.Should().Be(old.Code);
+    }
+
     [Fact]
     public async Task EndAsync_Marks_Session_Ended_For_Owner()
     {
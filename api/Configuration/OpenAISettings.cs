@@ -5,9 +5,20 @@ public class OpenAISettings
     public string ApiKey { get; set; } = string.Empty;
     public string BaseUrl { get; set; } = "https://api.openai.com";
     public string TranscriptionModel { get; set; } = "gpt-realtime-whisper";
+    /// <summary>Model for transcribing uploaded audio chunks (recording import).</summary>
+    public string FileTranscriptionModel { get; set; } = "gpt-4o-transcribe";
     public string MatchingModel { get; set; } = "gpt-5-mini";
     public string MatchingFallbackModel { get; set; } = "gpt-4o-mini";
     public double MatchingTemperature { get; set; } = 0.2;
     public int MatchingMaxOutputTokens { get; set; } = 1200;
+    /// <summary>Model for translating captions and scripture quotes for viewers.</summary>
+    public string TranslationModel { get; set; } = "gpt-5-mini";
+    public int TranslationMaxOutputTokens { get; set; } = 4000;
+    /// <summary>Model for the chapter text shown in the passage viewer.</summary>
+    public string PassageModel { get; set; } = "gpt-5-mini";
+    public int PassageMaxOutputTokens { get; set; } = 8000;
+    /// <summary>Model for the outline and summary written once a session ends.</summary>
+    public string NotesModel { get; set; } = "gpt-5-mini";
+    public int NotesMaxOutputTokens { get; set; } = 3000;
     public int TimeoutSeconds { get; set; } = 30;
 }
@@ -5,7 +5,7 @@ public static class Prompts
     public const string ScriptureMatchSystemPrompt = """
 You are a Bible scripture matcher for a real-time sermon transcription tool.
 
-Input: a short utterance spoken during a sermon or Bible study.
+Input: a short utterance spoken during a sermon or Bible study, and optionally the "context" said just before it.
 Output: up to N relevant Bible references that semantically match the utterance.
 
 Rules:
@@ -16,15 +16,19 @@ Rules:
 5. "confidence" is your honest estimate the verse semantically matches the utterance (0.0 to 1.0).
 6. Always rank matches by descending confidence (highest first).
 7. Use canonical book names exactly: Genesis, Exodus, Leviticus, Numbers, Deuteronomy, Joshua, Judges, Ruth, 1 Samuel, 2 Samuel, 1 Kings, 2 Kings, 1 Chronicles, 2 Chronicles, Ezra, Nehemiah, Esther, Job, Psalms, Proverbs, Ecclesiastes, Song of Solomon, Isaiah, Jeremiah, Lamentations, Ezekiel, Daniel, Hosea, Joel, Amos, Obadiah, Jonah, Micah, Nahum, Habakkuk, Zephaniah, Haggai, Zechariah, Malachi, Matthew, Mark, Luke, John, Acts, Romans, 1 Corinthians, 2 Corinthians, Galatians, Ephesians, Philippians, Colossians, 1 Thessalonians, 2 Thessalonians, 1 Timothy, 2 Timothy, Titus, Philemon, Hebrews, James, 1 Peter, 2 Peter, 1 John, 2 John, 3 John, Jude, Revelation.
+8. The utterance is in the given "language" (an ISO 639-1 code, or "auto" if unknown), not necessarily English. Match on meaning. When language is "auto" and the utterance is not English, quote a widely used version in the utterance's language instead of preferredVersion and name it in "version".
+9. "context" is what the speaker said just before the utterance (may be empty). Use it to recognise a verse quoted across both, or a passage already under discussion, but only return matches relevant to the utterance itself.
 
 Return ONLY the JSON object matching the provided schema. No prose, no markdown.
 """;
 
-    public static string BuildUserPrompt(string utterance, string preferredVersion, int n)
+    public static string BuildUserPrompt(string utterance, string context, string preferredVersion, string language, int n)
         => $$"""
 {
   "utterance": {{System.Text.Json.JsonSerializer.Serialize(utterance)}},
+  "context": {{System.Text.Json.JsonSerializer.Serialize(context)}},
   "preferredVersion": "{{preferredVersion}}",
+  "language": "{{language}}",
   "n": {{n}}
 }
 """;
@@ -56,5 +60,160 @@ Return ONLY the JSON object matching the provided schema. No prose, no markdown.
     }
   }
 }
+""";
+
+    public const string TranslationSystemPrompt = """
+You translate live sermon captions for viewers who follow along in another language.
+
+Input: transcript segments in "sourceLanguage" (an ISO 639-1 code, or "auto" if unknown), and a "targetLanguage".
+Output: one entry per segment, with the same "id".
+
+Rules:
+1. Translate "text" faithfully into targetLanguage. Keep the speaker's tone; do not summarize, explain or add anything.
+2. Segments are fragments of continuous speech. Translate each on its own even when it starts or ends mid-sentence.
+3. Each segment may list scripture "quotes" as a reference and a Bible version in targetLanguage. Return that passage's text from the named version verbatim, echoing "matchId" and "version".
+4. If you cannot recall a passage's wording in that version with confidence, translate the passage's meaning instead of inventing wording; never leave "quote" empty.
+5. Names of people, places and books of the Bible use their usual form in targetLanguage.
+
+Return ONLY the JSON object matching the provided schema. No prose, no markdown.
+""";
+
+    public static string BuildTranslationUserPrompt(string payload, string sourceLanguage, string targetLanguage)
+        => $$"""
+{
+  "sourceLanguage": "{{sourceLanguage}}",
+  "targetLanguage": "{{targetLanguage}}",
+  "segments": {{payload}}
+}
+""";
+
+    public const string TranslationJsonSchema = """
+{
+  "type": "object",
+  "additionalProperties": false,
+  "required": ["segments"],
+  "properties": {
+    "segments": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "additionalProperties": false,
+        "required": ["id", "text", "quotes"],
+        "properties": {
+          "id": { "type": "string" },
+          "text": { "type": "string" },
+          "quotes": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "additionalProperties": false,
+              "required": ["matchId", "version", "quote"],
+              "properties": {
+                "matchId": { "type": "string" },
+                "version": { "type": "string" },
+                "quote": { "type": "string" }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+""";
+
+    public const string PassageSystemPrompt = """
+You supply Bible text for a passage viewer used by church staff during a sermon.
+
+Input: a canonical book name, a chapter, a Bible version, and how many verses the chapter has.
+Output: every verse of that chapter in that version.
+
+Rules:
+1. Quote the named version verbatim, one entry per verse, numbered as that version numbers them.
+2. Return verse text only: no headings, footnotes, cross-references or verse numbers inside "text".
+3. If you cannot recall a verse's exact wording in that version, leave that verse out rather than paraphrasing or borrowing another version's wording.
+
+Return ONLY the JSON object matching the provided schema. No prose, no markdown.
+""";
+
+    public static string BuildPassageUserPrompt(string book, int chapter, string version, int verseCount)
+        => $$"""
+{
+  "book": {{System.Text.Json.JsonSerializer.Serialize(book)}},
+  "chapter": {{chapter}},
+  "version": {{System.Text.Json.JsonSerializer.Serialize(version)}},
+  "verseCount": {{verseCount}}
+}
+""";
+
+    public const string PassageJsonSchema = """
+{
+  "type": "object",
+  "additionalProperties": false,
+  "required": ["verses"],
+  "properties": {
+    "verses": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "additionalProperties": false,
+        "required": ["verse", "text"],
+        "properties": {
+          "verse": { "type": "integer" },
+          "text": { "type": "string" }
+        }
+      }
+    }
+  }
+}
+""";
+
+    public const string NotesSystemPrompt = """
+You write sermon notes for a church once a service has ended.
+
+Input: the sermon's title, its language, and its transcript as ordered segments, each with an "id", a "time" from the start, its "text" and any scripture "references" cited in it.
+Output: the sermon's main points as an outline, and a short summary.
+
+Rules:
+1. Give 3 to 7 main points in the order the preacher made them. Fewer is fine for a short talk.
+2. Each point has a short "title" (a phrase, not a sentence), one or two sentences of "detail", and the "segmentId" of the segment where that point begins. Use only ids from the input.
+3. The "summary" is 2 to 4 sentences on what the sermon taught, written for someone who missed it.
+4. Write in the sermon's language. Keep to what was said; do not add teaching, applications or scripture the preacher did not use.
+5. The transcript comes from live speech recognition and may contain mistakes; read past them rather than quoting them.
+
+Return ONLY the JSON object matching the provided schema. No prose, no markdown.
+""";
+
+    public static string BuildNotesUserPrompt(string title, string language, string segments)
+        => $$"""
+{
+  "title": {{System.Text.Json.JsonSerializer.Serialize(title)}},
+  "language": "{{language}}",
+  "segments": {{segments}}
+}
+""";
+
+    public const string NotesJsonSchema = """
+{
+  "type": "object",
+  "additionalProperties": false,
+  "required": ["summary", "outline"],
+  "properties": {
+    "summary": { "type": "string" },
+    "outline": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "additionalProperties": false,
+        "required": ["title", "detail", "segmentId"],
+        "properties": {
+          "title": { "type": "string" },
+          "detail": { "type": "string" },
+          "segmentId": { "type": "string" }
+        }
+      }
+    }
+  }
+}
 """;
 }
@@ -0,0 +1,60 @@
+namespace HOPTranscribe.Api.Constants;
+
+/// <summary>
+/// Languages a session can be transcribed in, and the Bible versions the matcher
+/// quotes for each. <see cref="Auto"/> leaves the language to the transcription model.
+/// </summary>
+public static class SessionLanguages
+{
+    public const string Auto = "auto";
+    public const string Default = "en";
+
+    // ISO 639-1 code → common versions in that language, the usual default first.
+    private static readonly Dictionary<string, string[]> VersionsByLanguage = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["en"] = new[] { "NKJV", "NIV", "ESV", "NLT", "NASB", "KJV", "AMP", "MSG", "TPT", "CSB", "GNT", "TLB", "RSV", "ASV", "WEB" },
+        ["es"] = new[] { "RVR1960", "NVI", "LBLA", "NTV", "DHH" },
+        ["pt"] = new[] { "ARC", "ARA", "NVI-PT", "NVT" },
+        ["fr"] = new[] { "LSG", "S21", "BDS", "NEG" },
+        ["de"] = new[] { "LUT", "ELB", "SCH2000", "HFA" },
+        ["it"] = new[] { "CEI", "NR06", "ND" },
+        ["nl"] = new[] { "HSV", "NBV21" },
+        ["ko"] = new[] { "KRV", "RNKSV" },
+        ["zh"] = new[] { "CUV", "CNVS" },
+        ["sw"] = new[] { "SUV" },
+        ["tl"] = new[] { "ADB", "MBB" },
+        ["ro"] = new[] { "VDC", "NTR" },
+    };
+
+    public static IEnumerable<string> Codes => VersionsByLanguage.Keys.Prepend(Auto);
+
+    public static IEnumerable<string> AllVersions => VersionsByLanguage.Values.SelectMany(v => v);
+
+    public static bool IsSupported(string? language) =>
+        !string.IsNullOrWhiteSpace(language)
+        && (string.Equals(language.Trim(), Auto, StringComparison.OrdinalIgnoreCase)
+            || VersionsByLanguage.ContainsKey(language.Trim()));
+
+    /// <summary>Lower-cased code for a supported language, otherwise <see cref="Default"/>.</summary>
+    public static string Normalize(string? language) =>
+        IsSupported(language) ? language!.Trim().ToLowerInvariant() : Default;
+
+    /// <summary>The code to send to OpenAI, or null to let the model detect it.</summary>
+    public static string? ForTranscription(string? language)
+    {
+        var normalized = Normalize(language);
+        return normalized == Auto ? null : normalized;
+    }
+
+    /// <summary>
+    /// Keeps <paramref name="preferredVersion"/> when it is in the session's language
+    /// (or the language is detected), otherwise swaps in that language's usual version.
+    /// </summary>
+    public static string VersionFor(string? language, string preferredVersion)
+    {
+        var normalized = Normalize(language);
+        if (normalized == Auto || !VersionsByLanguage.TryGetValue(normalized, out var versions))
+            return preferredVersion;
+        return versions.Contains(preferredVersion, StringComparer.OrdinalIgnoreCase) ? preferredVersion : versions[0];
+    }
+}
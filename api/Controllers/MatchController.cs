@@ -47,6 +47,9 @@ public class MatchController : ControllerBase
             return StatusCode(StatusCodes.Status403Forbidden,
                 ApiResponse<MatchResponse>.Fail("Only the session owner can request scripture matches."));
 
+        if (string.IsNullOrWhiteSpace(request.Language))
+            request.Language = entity.Language;
+
         var result = await _matcher.MatchAsync(request, ct);
         _logger.LogInformation("Matching returned {Count} verses for session {Code}", result.Matches.Count, request.SessionCode);
         return Ok(ApiResponse<MatchResponse>.Ok(result));
@@ -13,13 +13,22 @@ namespace HOPTranscribe.Api.Controllers;
 [Route("api/openai")]
 public class OpenAIController : ControllerBase
 {
+    // Well under OpenAI's 25 MB upload cap; import chunks are a few hundred KB.
+    private const long MaxChunkBytes = 10 * 1024 * 1024;
+
     private readonly IOpenAIRealtimeService _realtime;
+    private readonly IOpenAITranscriptionService _transcription;
     private readonly ISessionService _sessions;
     private readonly ILogger<OpenAIController> _logger;
 
-    public OpenAIController(IOpenAIRealtimeService realtime, ISessionService sessions, ILogger<OpenAIController> logger)
+    public OpenAIController(
+        IOpenAIRealtimeService realtime,
+        IOpenAITranscriptionService transcription,
+        ISessionService sessions,
+        ILogger<OpenAIController> logger)
     {
         _realtime = realtime;
+        _transcription = transcription;
         _sessions = sessions;
         _logger = logger;
     }
@@ -52,4 +61,34 @@ public class OpenAIController : ControllerBase
         _logger.LogInformation("Minted transcription session for {Code} (model={Model})", request.SessionCode, result.Model);
         return Ok(ApiResponse<TranscriptionSessionResponse>.Ok(result));
     }
+
+    /// <summary>Transcribes one chunk of an imported recording in the session's language.</summary>
+    [HttpPost("transcriptions")]
+    [RequestSizeLimit(MaxChunkBytes)]
+    public async Task<ActionResult<ApiResponse<AudioTranscriptionResponse>>> TranscribeChunk(
+        [FromForm] string? sessionCode,
+        IFormFile? file,
+        CancellationToken ct)
+    {
+        if (string.IsNullOrWhiteSpace(sessionCode))
+            return BadRequest(ApiResponse<AudioTranscriptionResponse>.Fail("sessionCode is required."));
+        if (file is null || file.Length == 0)
+            return BadRequest(ApiResponse<AudioTranscriptionResponse>.Fail("An audio file is required."));
+
+        var entity = await _sessions.GetEntityByCodeAsync(sessionCode, ct);
+        if (entity is null)
+            return NotFound(ApiResponse<AudioTranscriptionResponse>.Fail("Session not found."));
+
+        if (!string.Equals(entity.OwnerUsername, CurrentUser, StringComparison.OrdinalIgnoreCase))
+            return StatusCode(StatusCodes.Status403Forbidden,
+                ApiResponse<AudioTranscriptionResponse>.Fail("Only the session owner can transcribe audio."));
+
+        if (!string.Equals(entity.Status, "active", StringComparison.OrdinalIgnoreCase))
+            return BadRequest(ApiResponse<AudioTranscriptionResponse>.Fail("Session is not active."));
+
+        await using var audio = file.OpenReadStream();
+        var result = await _transcription.TranscribeAsync(audio, file.FileName, file.ContentType, entity.Language, ct);
+        _logger.LogInformation("Transcribed {Bytes} byte chunk for {Code} (model={Model})", file.Length, sessionCode, result.Model);
+        return Ok(ApiResponse<AudioTranscriptionResponse>.Ok(result));
+    }
 }
@@ -0,0 +1,56 @@
+using System.Text.Json;
+using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Passages;
+using HOPTranscribe.Api.Services.Passages;
+using HOPTranscribe.Api.Validation;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace HOPTranscribe.Api.Controllers;
+
+[ApiController]
+[Authorize]
+[Route("api/passages")]
+public class PassageController : ControllerBase
+{
+    private const int MaxVersionLength = 16;
+
+    private readonly IPassageService _passages;
+    private readonly BibleBookCatalog _catalog;
+    private readonly ILogger<PassageController> _logger;
+
+    public PassageController(IPassageService passages, BibleBookCatalog catalog, ILogger<PassageController> logger)
+    {
+        _passages = passages;
+        _catalog = catalog;
+        _logger = logger;
+    }
+
+    /// <summary>A whole chapter in one version, for the passage viewer's comparison columns.</summary>
+    [HttpGet]
+    public async Task<ActionResult<ApiResponse<PassageDto>>> GetChapter(
+        [FromQuery] string? book,
+        [FromQuery] int chapter,
+        [FromQuery] string? version,
+        CancellationToken ct)
+    {
+        if (book is null || !_catalog.TryGetCanonical(book, out var canonical))
+            return BadRequest(ApiResponse<PassageDto>.Fail("Unknown book."));
+        if (chapter < 1 || chapter > _catalog.GetChapterCount(canonical))
+            return BadRequest(ApiResponse<PassageDto>.Fail($"{canonical} has no chapter {chapter}."));
+        if (string.IsNullOrWhiteSpace(version) || version.Length > MaxVersionLength)
+            return BadRequest(ApiResponse<PassageDto>.Fail("A Bible version is required."));
+
+        try
+        {
+            var passage = await _passages.GetChapterAsync(canonical, chapter, version.Trim().ToUpperInvariant(), ct);
+            return Ok(ApiResponse<PassageDto>.Ok(passage));
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException or JsonException or KeyNotFoundException)
+        {
+            _logger.LogWarning(ex, "Passage lookup failed for {Book} {Chapter} ({Version})", canonical, chapter, version);
+            return StatusCode(StatusCodes.Status502BadGateway,
+                ApiResponse<PassageDto>.Fail("Passage text is unavailable right now."));
+        }
+    }
+}
@@ -1,8 +1,15 @@
 using System.Security.Claims;
+using HOPTranscribe.Api.Constants;
 using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Matching;
+using HOPTranscribe.Api.Models.Notes;
 using HOPTranscribe.Api.Models.Sessions;
+using HOPTranscribe.Api.Models.Translation;
 using HOPTranscribe.Api.Services.Broadcast;
+using HOPTranscribe.Api.Services.Notes;
 using HOPTranscribe.Api.Services.Sessions;
+using HOPTranscribe.Api.Services.Translation;
+using HOPTranscribe.Api.Validation;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -15,15 +22,27 @@ public class SessionController : ControllerBase
 {
     private readonly ISessionService _sessions;
     private readonly ISessionBroadcaster _broadcaster;
+    private readonly ScriptureValidator _validator;
+    private readonly TranscriptTranslator _translator;
+    private readonly SermonNotesBuilder _notes;
+    private readonly ISermonNotesQueue _notesQueue;
     private readonly ILogger<SessionController> _logger;
 
     public SessionController(
         ISessionService sessions,
         ISessionBroadcaster broadcaster,
+        ScriptureValidator validator,
+        TranscriptTranslator translator,
+        SermonNotesBuilder notes,
+        ISermonNotesQueue notesQueue,
         ILogger<SessionController> logger)
     {
         _sessions = sessions;
         _broadcaster = broadcaster;
+        _validator = validator;
+        _translator = translator;
+        _notes = notes;
+        _notesQueue = notesQueue;
         _logger = logger;
     }
 
@@ -36,9 +55,10 @@ public class SessionController : ControllerBase
     public async Task<ActionResult<ApiResponse<PaginatedResult<SessionDto>>>> List(
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
+        [FromQuery] SessionListFilter? filter = null,
         CancellationToken ct = default)
     {
-        var result = await _sessions.ListForUserAsync(CurrentUser, page, pageSize, ct);
+        var result = await _sessions.ListForUserAsync(CurrentUser, page, pageSize, filter, ct);
         return Ok(ApiResponse<PaginatedResult<SessionDto>>.Ok(result));
     }
 
@@ -66,6 +86,63 @@ public class SessionController : ControllerBase
             var dto = await _sessions.EndAsync(code, CurrentUser, ct);
             if (dto is null) return NotFound(ApiResponse<SessionDto>.Fail("Session not found."));
             await _broadcaster.SessionUpdatedAsync(code, dto);
+            await _notesQueue.EnqueueAsync(dto.Id);
+            return Ok(ApiResponse<SessionDto>.Ok(dto));
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse<SessionDto>.Fail(ex.Message));
+        }
+    }
+
+    /// <summary>
+    /// Records whether the owner is capturing, paused or idle, and tells viewers.
+    /// Pausing keeps the realtime connection open; this only mirrors the state.
+    /// </summary>
+    [HttpPatch("{code}/recording")]
+    public async Task<ActionResult<ApiResponse<SessionDto>>> SetRecordingState(
+        string code,
+        [FromBody] UpdateRecordingStateRequest request,
+        CancellationToken ct)
+    {
+        var state = request.State.Trim().ToLowerInvariant();
+        if (state is not ("idle" or "recording" or "paused"))
+            return BadRequest(ApiResponse<SessionDto>.Fail("State must be idle, recording or paused."));
+        try
+        {
+            var entity = await _sessions.GetEntityByCodeAsync(code, ct);
+            if (entity is null) return NotFound(ApiResponse<SessionDto>.Fail("Session not found."));
+            if (entity.Status != "active" && state != "idle")
+                return BadRequest(ApiResponse<SessionDto>.Fail("Session has ended."));
+
+            var dto = await _sessions.SetRecordingStateAsync(code, CurrentUser, state, ct);
+            if (dto is null) return NotFound(ApiResponse<SessionDto>.Fail("Session not found."));
+            await _broadcaster.SessionUpdatedAsync(code, dto);
+            return Ok(ApiResponse<SessionDto>.Ok(dto));
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse<SessionDto>.Fail(ex.Message));
+        }
+    }
+
+    /// <summary>
+    /// Switches the language used for transcription and matching. Allowed mid-session;
+    /// the owner's client applies it to a live connection without reconnecting.
+    /// </summary>
+    [HttpPatch("{code}/language")]
+    public async Task<ActionResult<ApiResponse<SessionDto>>> SetLanguage(
+        string code,
+        [FromBody] UpdateLanguageRequest request,
+        CancellationToken ct)
+    {
+        if (!ModelState.IsValid || !SessionLanguages.IsSupported(request.Language))
+            return BadRequest(ApiResponse<SessionDto>.Fail("Unsupported language."));
+        try
+        {
+            var dto = await _sessions.SetLanguageAsync(code, CurrentUser, request.Language, ct);
+            if (dto is null) return NotFound(ApiResponse<SessionDto>.Fail("Session not found."));
+            await _broadcaster.SessionUpdatedAsync(code, dto);
             return Ok(ApiResponse<SessionDto>.Ok(dto));
         }
         catch (UnauthorizedAccessException ex)
@@ -101,12 +178,140 @@ public class SessionController : ControllerBase
             return StatusCode(StatusCodes.Status403Forbidden,
                 ApiResponse<TranscriptSegmentDto>.Fail("Only the session owner can append transcripts."));
 
-        var segment = await _sessions.AppendSegmentAsync(code, request, request.Matches, ct);
-        _logger.LogInformation(
-            "Appended segment {SegmentId} to session {Code} with {Count} matches",
-            segment.Id, code, segment.Matches.Count);
-        await _broadcaster.TranscriptAppendedAsync(code, segment);
-        return Ok(ApiResponse<TranscriptSegmentDto>.Ok(segment));
+        try
+        {
+            var segment = await _sessions.AppendSegmentAsync(code, request, request.Matches, ct);
+            _logger.LogInformation(
+                "Appended segment {SegmentId} to session {Code} with {Count} matches",
+                segment.Id, code, segment.Matches.Count);
+            await _broadcaster.TranscriptAppendedAsync(code, segment);
+            // Segments held back offline can land after the end; the notes should include them.
+            await RefreshNotesIfEndedAsync(code, ct);
+            return Ok(ApiResponse<TranscriptSegmentDto>.Ok(segment));
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            // The segment id belongs to another session; retrying the same id can never succeed.
+            return Conflict(ApiResponse<TranscriptSegmentDto>.Fail(ex.Message));
+        }
+    }
+
+    [HttpPatch("{code}/transcripts/{segmentId:guid}")]
+    public async Task<ActionResult<ApiResponse<TranscriptSegmentDto>>> UpdateTranscript(
+        string code,
+        Guid segmentId,
+        [FromBody] UpdateTranscriptRequest request,
+        CancellationToken ct)
+    {
+        if (!ModelState.IsValid || string.IsNullOrWhiteSpace(request.Text))
+            return BadRequest(ApiResponse<TranscriptSegmentDto>.Fail("Segment text is required."));
+        try
+        {
+            var segment = await _sessions.UpdateSegmentAsync(code, segmentId, CurrentUser, request, ct);
+            if (segment is null) return NotFound(ApiResponse<TranscriptSegmentDto>.Fail("Segment not found."));
+            await _broadcaster.TranscriptUpdatedAsync(code, segment);
+            await RefreshNotesIfEndedAsync(code, ct);
+            return Ok(ApiResponse<TranscriptSegmentDto>.Ok(segment));
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse<TranscriptSegmentDto>.Fail(ex.Message));
+        }
+    }
+
+    [HttpPatch("{code}/transcripts/{segmentId:guid}/matches/{matchId:guid}")]
+    public async Task<ActionResult<ApiResponse<TranscriptSegmentDto>>> SetMatchStatus(
+        string code,
+        Guid segmentId,
+        Guid matchId,
+        [FromBody] UpdateMatchStatusRequest request,
+        CancellationToken ct)
+    {
+        var status = request.Status.Trim().ToLowerInvariant();
+        if (status is not ("suggested" or "pinned" or "rejected"))
+            return BadRequest(ApiResponse<TranscriptSegmentDto>.Fail("Status must be suggested, pinned or rejected."));
+        try
+        {
+            var segment = await _sessions.SetMatchStatusAsync(code, segmentId, matchId, CurrentUser, status, ct);
+            if (segment is null) return NotFound(ApiResponse<TranscriptSegmentDto>.Fail("Match not found."));
+            await _broadcaster.TranscriptUpdatedAsync(code, segment);
+            await RefreshNotesIfEndedAsync(code, ct);
+            return Ok(ApiResponse<TranscriptSegmentDto>.Ok(segment));
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse<TranscriptSegmentDto>.Fail(ex.Message));
+        }
+    }
+
+    [HttpPost("{code}/transcripts/{segmentId:guid}/matches")]
+    public async Task<ActionResult<ApiResponse<TranscriptSegmentDto>>> AddMatch(
+        string code,
+        Guid segmentId,
+        [FromBody] AddScriptureMatchRequest request,
+        CancellationToken ct)
+    {
+        // Same rules as the AI matcher: canonical book, real chapter and verse range.
+        var validated = _validator.Validate(new ScriptureMatch
+        {
+            Book = request.Book,
+            Chapter = request.Chapter,
+            VerseStart = request.VerseStart,
+            VerseEnd = request.VerseEnd,
+            Version = string.IsNullOrWhiteSpace(request.Version) ? "NKJV" : request.Version,
+            Quote = request.Quote,
+            Confidence = 1,
+        });
+        if (validated is null)
+            return BadRequest(ApiResponse<TranscriptSegmentDto>.Fail("Not a valid scripture reference."));
+        try
+        {
+            var segment = await _sessions.AddManualMatchAsync(code, segmentId, CurrentUser, validated, ct);
+            if (segment is null) return NotFound(ApiResponse<TranscriptSegmentDto>.Fail("Segment not found."));
+            _logger.LogInformation("Owner added {Reference} to segment {SegmentId} in {Code}", validated.Reference, segmentId, code);
+            await _broadcaster.TranscriptUpdatedAsync(code, segment);
+            await RefreshNotesIfEndedAsync(code, ct);
+            return Ok(ApiResponse<TranscriptSegmentDto>.Ok(segment));
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse<TranscriptSegmentDto>.Fail(ex.Message));
+        }
+    }
+
+    [HttpDelete("{code}/transcripts/{segmentId:guid}")]
+    public async Task<IActionResult> DeleteTranscript(string code, Guid segmentId, CancellationToken ct)
+    {
+        try
+        {
+            var deleted = await _sessions.DeleteSegmentAsync(code, segmentId, CurrentUser, ct);
+            if (!deleted) return NotFound(ApiResponse.Fail("Segment not found."));
+            await _broadcaster.TranscriptDeletedAsync(code, segmentId);
+            await RefreshNotesIfEndedAsync(code, ct);
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse.Fail(ex.Message));
+        }
+    }
+
+    /// <summary>
+    /// Relays the owner's live (not yet final) transcript line to everyone in the
+    /// session. Throttled on the client; nothing is persisted.
+    /// </summary>
+    [HttpPost("{code}/partial")]
+    public async Task<IActionResult> RelayPartial(string code, [FromBody] PartialTranscriptRequest request, CancellationToken ct)
+    {
+        if (!ModelState.IsValid) return BadRequest(ApiResponse.Fail("Invalid request."));
+
+        var entity = await _sessions.GetEntityByCodeAsync(code, ct);
+        if (entity is null) return NotFound(ApiResponse.Fail("Session not found."));
+        if (!string.Equals(entity.OwnerUsername, CurrentUser, StringComparison.OrdinalIgnoreCase))
+            return StatusCode(StatusCodes.Status403Forbidden, ApiResponse.Fail("Only the session owner can relay live captions."));
+
+        await _broadcaster.PartialUpdatedAsync(entity.Code, request.Text.Trim());
+        return NoContent();
     }
 
     [HttpGet("{code}/transcripts")]
@@ -117,4 +322,63 @@ public class SessionController : ControllerBase
         var segments = await _sessions.ListSegmentsAsync(code, ct);
         return Ok(ApiResponse<List<TranscriptSegmentDto>>.Ok(segments));
     }
+
+    /// <summary>
+    /// The transcript translated into a viewer's language, with match quotes in that
+    /// language's equivalent Bible version. Translates at most a batch of new segments
+    /// per call and reports the rest as pending.
+    /// </summary>
+    [HttpGet("{code}/transcripts/translations")]
+    public async Task<ActionResult<ApiResponse<SessionTranslationsDto>>> ListTranslations(
+        string code,
+        [FromQuery] string language,
+        CancellationToken ct)
+    {
+        if (!SessionLanguages.IsSupported(language) || SessionLanguages.Normalize(language) == SessionLanguages.Auto)
+            return BadRequest(ApiResponse<SessionTranslationsDto>.Fail("Unsupported language."));
+
+        var result = await _translator.GetAsync(code, language, ct);
+        if (result is null) return NotFound(ApiResponse<SessionTranslationsDto>.Fail("Session not found."));
+        return Ok(ApiResponse<SessionTranslationsDto>.Ok(result));
+    }
+
+    /// <summary>
+    /// The outline, cited scriptures and summary of an ended session. Notes are written in
+    /// the background once the session ends and again after the owner's later edits; this
+    /// only reads them, reporting "pending" while newer ones are on the way.
+    /// </summary>
+    [HttpGet("{code}/notes")]
+    public async Task<ActionResult<ApiResponse<SessionNotesDto>>> GetNotes(string code, CancellationToken ct)
+    {
+        var entity = await _sessions.GetEntityByCodeAsync(code, ct);
+        if (entity is null) return NotFound(ApiResponse<SessionNotesDto>.Fail("Session not found."));
+        if (entity.Status == "active")
+            return Conflict(ApiResponse<SessionNotesDto>.Fail("Sermon notes are prepared once the session ends."));
+
+        return Ok(ApiResponse<SessionNotesDto>.Ok(await _notes.GetAsync(entity.Id, ct)));
+    }
+
+    /// <summary>Queues the outline and summary to be written again, for when the owner wants another take.</summary>
+    [HttpPost("{code}/notes/regenerate")]
+    public async Task<ActionResult<ApiResponse<SessionNotesDto>>> RegenerateNotes(string code, CancellationToken ct)
+    {
+        var entity = await _sessions.GetEntityByCodeAsync(code, ct);
+        if (entity is null) return NotFound(ApiResponse<SessionNotesDto>.Fail("Session not found."));
+        if (!string.Equals(entity.OwnerUsername, CurrentUser, StringComparison.OrdinalIgnoreCase))
+            return StatusCode(StatusCodes.Status403Forbidden,
+                ApiResponse<SessionNotesDto>.Fail("Only the session owner can regenerate sermon notes."));
+        if (entity.Status == "active")
+            return Conflict(ApiResponse<SessionNotesDto>.Fail("Sermon notes are prepared once the session ends."));
+
+        await _notesQueue.EnqueueAsync(entity.Id, regenerate: true);
+        _logger.LogInformation("Owner asked for new sermon notes for {Code}", code);
+        return Accepted(ApiResponse<SessionNotesDto>.Ok(await _notes.GetAsync(entity.Id, ct)));
+    }
+
+    /// <summary>Corrections after the session ends change what its notes were written from.</summary>
+    private async Task RefreshNotesIfEndedAsync(string code, CancellationToken ct)
+    {
+        var entity = await _sessions.GetEntityByCodeAsync(code, ct);
+        if (entity is { Status: "ended" }) await _notesQueue.EnqueueAsync(entity.Id);
+    }
 }
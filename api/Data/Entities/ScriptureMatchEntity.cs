@@ -29,4 +29,12 @@ public class ScriptureMatchEntity
     public double Confidence { get; set; }
 
     public int Rank { get; set; }
+
+    /// <summary>"suggested" until the owner curates it as "pinned" or "rejected".</summary>
+    [MaxLength(16)]
+    public string Status { get; set; } = "suggested";
+
+    /// <summary>"matcher" for AI suggestions, "manual" for references the owner typed in.</summary>
+    [MaxLength(16)]
+    public string Source { get; set; } = "matcher";
 }
@@ -0,0 +1,25 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace HOPTranscribe.Api.Data.Entities;
+
+/// <summary>A segment's text, and the quotes of its matches, translated into one viewer language.</summary>
+public class SegmentTranslationEntity
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid SegmentId { get; set; }
+    public TranscriptSegmentEntity? Segment { get; set; }
+
+    [MaxLength(8)]
+    public string Language { get; set; } = string.Empty;
+
+    /// <summary>The segment text this was translated from; a mismatch means the owner has since edited it.</summary>
+    public string SourceText { get; set; } = string.Empty;
+
+    public string Text { get; set; } = string.Empty;
+
+    /// <summary>JSON array of <c>{ matchId, version, quote }</c>, one per match translated with the text.</summary>
+    public string QuotesJson { get; set; } = "[]";
+
+    public DateTimeOffset TranslatedAt { get; set; }
+}
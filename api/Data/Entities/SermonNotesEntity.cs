@@ -0,0 +1,30 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace HOPTranscribe.Api.Data.Entities;
+
+/// <summary>Outline, cited scriptures and summary prepared for a session once it has ended.</summary>
+public class SermonNotesEntity
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid SessionId { get; set; }
+    public SessionEntity? Session { get; set; }
+
+    public string Summary { get; set; } = string.Empty;
+
+    /// <summary>JSON array of <c>{ title, detail, segmentId, startedAt }</c>, in sermon order.</summary>
+    public string OutlineJson { get; set; } = "[]";
+
+    /// <summary>JSON array of <c>{ reference, version, quote, segmentId, startedAt }</c>, in the order cited.</summary>
+    public string ScripturesJson { get; set; } = "[]";
+
+    /// <summary>The model that wrote the outline and summary, or "extractive" for the local fallback.</summary>
+    [MaxLength(64)]
+    public string Generator { get; set; } = string.Empty;
+
+    /// <summary>Fingerprint of the transcript and matches these were made from; a mismatch means the owner has since edited them.</summary>
+    [MaxLength(64)]
+    public string SourceStamp { get; set; } = string.Empty;
+
+    public DateTimeOffset GeneratedAt { get; set; }
+}
@@ -21,6 +21,10 @@ public class SessionEntity
     [MaxLength(8)]
     public string Language { get; set; } = "en";
 
+    /// <summary>"idle", "recording" or "paused"; set by the owner's client so viewers can follow along.</summary>
+    [MaxLength(16)]
+    public string RecordingState { get; set; } = "idle";
+
     public DateTimeOffset CreatedAt { get; set; } = DateTimeOffset.UtcNow;
 
     public DateTimeOffset? EndedAt { get; set; }
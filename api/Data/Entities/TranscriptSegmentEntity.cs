@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace HOPTranscribe.Api.Data.Entities;
 
 public class TranscriptSegmentEntity
@@ -9,9 +11,21 @@ public class TranscriptSegmentEntity
 
     public string Text { get; set; } = string.Empty;
 
+    /// <summary>
+    /// "speech", "pause" for a marker spanning a paused stretch of the recording, or "gap"
+    /// for one spanning a dropped transcription connection.
+    /// </summary>
+    [MaxLength(16)]
+    public string Kind { get; set; } = "speech";
+
     public DateTimeOffset StartedAt { get; set; }
 
     public DateTimeOffset EndedAt { get; set; }
 
+    /// <summary>Set when the owner corrects the text after it was transcribed.</summary>
+    public DateTimeOffset? EditedAt { get; set; }
+
     public List<ScriptureMatchEntity> Matches { get; set; } = new();
+
+    public List<SegmentTranslationEntity> Translations { get; set; } = new();
 }
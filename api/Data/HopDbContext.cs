@@ -11,6 +11,8 @@ public class HopDbContext : DbContext
     public DbSet<SessionEntity> Sessions => Set<SessionEntity>();
     public DbSet<TranscriptSegmentEntity> TranscriptSegments => Set<TranscriptSegmentEntity>();
     public DbSet<ScriptureMatchEntity> ScriptureMatches => Set<ScriptureMatchEntity>();
+    public DbSet<SegmentTranslationEntity> SegmentTranslations => Set<SegmentTranslationEntity>();
+    public DbSet<SermonNotesEntity> SermonNotes => Set<SermonNotesEntity>();
 
     protected override void ConfigureConventions(ModelConfigurationBuilder configurationBuilder)
     {
@@ -59,6 +61,11 @@ public class HopDbContext : DbContext
              .WithOne(x => x.Segment!)
              .HasForeignKey(x => x.SegmentId)
              .OnDelete(DeleteBehavior.Cascade);
+
+            b.HasMany(x => x.Translations)
+             .WithOne(x => x.Segment!)
+             .HasForeignKey(x => x.SegmentId)
+             .OnDelete(DeleteBehavior.Cascade);
         });
 
         modelBuilder.Entity<ScriptureMatchEntity>(b =>
@@ -67,5 +74,22 @@ public class HopDbContext : DbContext
             b.HasIndex(x => x.SegmentId);
             b.HasIndex(x => new { x.Book, x.Chapter, x.VerseStart });
         });
+
+        modelBuilder.Entity<SegmentTranslationEntity>(b =>
+        {
+            b.HasKey(x => x.Id);
+            b.HasIndex(x => new { x.SegmentId, x.Language }).IsUnique();
+        });
+
+        modelBuilder.Entity<SermonNotesEntity>(b =>
+        {
+            b.HasKey(x => x.Id);
+            b.HasIndex(x => x.SessionId).IsUnique();
+
+            b.HasOne(x => x.Session)
+             .WithOne()
+             .HasForeignKey<SermonNotesEntity>(x => x.SessionId)
+             .OnDelete(DeleteBehavior.Cascade);
+        });
     }
 }
@@ -0,0 +1,31 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace HOPTranscribe.Api.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSegmentEditedAt : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "EditedAt",
+                schema: "hoptranscribe",
+                table: "TranscriptSegments",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "EditedAt",
+                schema: "hoptranscribe",
+                table: "TranscriptSegments");
+        }
+    }
+}
@@ -0,0 +1,46 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace HOPTranscribe.Api.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMatchCuration : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Source",
+                schema: "hoptranscribe",
+                table: "ScriptureMatches",
+                type: "character varying(16)",
+                maxLength: 16,
+                nullable: false,
+                defaultValue: "matcher");
+
+            migrationBuilder.AddColumn<string>(
+                name: "Status",
+                schema: "hoptranscribe",
+                table: "ScriptureMatches",
+                type: "character varying(16)",
+                maxLength: 16,
+                nullable: false,
+                defaultValue: "suggested");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Source",
+                schema: "hoptranscribe",
+                table: "ScriptureMatches");
+
+            migrationBuilder.DropColumn(
+                name: "Status",
+                schema: "hoptranscribe",
+                table: "ScriptureMatches");
+        }
+    }
+}
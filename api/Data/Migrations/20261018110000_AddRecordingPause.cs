@@ -0,0 +1,46 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace HOPTranscribe.Api.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRecordingPause : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Kind",
+                schema: "hoptranscribe",
+                table: "TranscriptSegments",
+                type: "character varying(16)",
+                maxLength: 16,
+                nullable: false,
+                defaultValue: "speech");
+
+            migrationBuilder.AddColumn<string>(
+                name: "RecordingState",
+                schema: "hoptranscribe",
+                table: "Sessions",
+                type: "character varying(16)",
+                maxLength: 16,
+                nullable: false,
+                defaultValue: "idle");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Kind",
+                schema: "hoptranscribe",
+                table: "TranscriptSegments");
+
+            migrationBuilder.DropColumn(
+                name: "RecordingState",
+                schema: "hoptranscribe",
+                table: "Sessions");
+        }
+    }
+}
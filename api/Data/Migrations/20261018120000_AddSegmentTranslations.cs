@@ -0,0 +1,55 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace HOPTranscribe.Api.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSegmentTranslations : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "SegmentTranslations",
+                schema: "hoptranscribe",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    SegmentId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Language = table.Column<string>(type: "character varying(8)", maxLength: 8, nullable: false),
+                    SourceText = table.Column<string>(type: "text", nullable: false),
+                    Text = table.Column<string>(type: "text", nullable: false),
+                    QuotesJson = table.Column<string>(type: "text", nullable: false),
+                    TranslatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SegmentTranslations", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SegmentTranslations_TranscriptSegments_SegmentId",
+                        column: x => x.SegmentId,
+                        principalSchema: "hoptranscribe",
+                        principalTable: "TranscriptSegments",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SegmentTranslations_SegmentId_Language",
+                schema: "hoptranscribe",
+                table: "SegmentTranslations",
+                columns: new[] { "SegmentId", "Language" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SegmentTranslations",
+                schema: "hoptranscribe");
+        }
+    }
+}
@@ -0,0 +1,56 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace HOPTranscribe.Api.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSermonNotes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "SermonNotes",
+                schema: "hoptranscribe",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    SessionId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Summary = table.Column<string>(type: "text", nullable: false),
+                    OutlineJson = table.Column<string>(type: "text", nullable: false),
+                    ScripturesJson = table.Column<string>(type: "text", nullable: false),
+                    Generator = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                    SourceStamp = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                    GeneratedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SermonNotes", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SermonNotes_Sessions_SessionId",
+                        column: x => x.SessionId,
+                        principalSchema: "hoptranscribe",
+                        principalTable: "Sessions",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SermonNotes_SessionId",
+                schema: "hoptranscribe",
+                table: "SermonNotes",
+                column: "SessionId",
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SermonNotes",
+                schema: "hoptranscribe");
+        }
+    }
+}
@@ -1,4 +1,6 @@
 using System.Security.Claims;
+using HOPTranscribe.Api.Models.Presence;
+using HOPTranscribe.Api.Services.Presence;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.SignalR;
 
@@ -7,10 +9,12 @@ namespace HOPTranscribe.Api.Hubs;
 [Authorize]
 public class SessionHub : Hub
 {
+    private readonly ISessionPresenceTracker _presence;
     private readonly ILogger<SessionHub> _logger;
 
-    public SessionHub(ILogger<SessionHub> logger)
+    public SessionHub(ISessionPresenceTracker presence, ILogger<SessionHub> logger)
     {
+        _presence = presence;
         _logger = logger;
     }
 
@@ -19,13 +23,26 @@ public class SessionHub : Hub
         ?? Context.User?.FindFirstValue("sub")
         ?? "unknown";
 
-    public async Task JoinSession(string sessionCode)
+    /// <summary>
+    /// Subscribes the caller to a session's broadcasts. Returns everyone currently
+    /// watching (including the caller) so clients can seed their audience list.
+    /// </summary>
+    public async Task<IReadOnlyList<SessionViewerDto>> JoinSession(string sessionCode)
     {
-        if (string.IsNullOrWhiteSpace(sessionCode)) return;
+        if (string.IsNullOrWhiteSpace(sessionCode)) return Array.Empty<SessionViewerDto>();
         var group = NormalizeGroup(sessionCode);
         await Groups.AddToGroupAsync(Context.ConnectionId, group);
+        var viewers = _presence.Join(sessionCode, Context.ConnectionId, CurrentUser);
         _logger.LogInformation("{User} joined session group {Group}", CurrentUser, group);
-        await Clients.OthersInGroup(group).SendAsync("ViewerJoined", new { username = CurrentUser });
+
+        var self = viewers.First(v => v.ConnectionId == Context.ConnectionId);
+        await Clients.OthersInGroup(group).SendAsync("ViewerJoined", new
+        {
+            username = self.Username,
+            connectionId = self.ConnectionId,
+            joinedAt = self.JoinedAt,
+        });
+        return viewers;
     }
 
     public async Task LeaveSession(string sessionCode)
@@ -33,14 +50,27 @@ public class SessionHub : Hub
         if (string.IsNullOrWhiteSpace(sessionCode)) return;
         var group = NormalizeGroup(sessionCode);
         await Groups.RemoveFromGroupAsync(Context.ConnectionId, group);
-        await Clients.OthersInGroup(group).SendAsync("ViewerLeft", new { username = CurrentUser });
+        var viewer = _presence.Leave(sessionCode, Context.ConnectionId);
+        if (viewer is not null) await BroadcastLeftAsync(group, viewer);
     }
 
     public override async Task OnDisconnectedAsync(Exception? exception)
     {
         _logger.LogDebug("Connection {ConnectionId} disconnected", Context.ConnectionId);
+        // SignalR drops group membership on its own; presence has to be cleaned up by hand.
+        foreach (var (sessionCode, viewer) in _presence.LeaveAll(Context.ConnectionId))
+        {
+            await BroadcastLeftAsync(NormalizeGroup(sessionCode), viewer);
+        }
         await base.OnDisconnectedAsync(exception);
     }
 
+    private Task BroadcastLeftAsync(string group, SessionViewerDto viewer) =>
+        Clients.Group(group).SendAsync("ViewerLeft", new
+        {
+            username = viewer.Username,
+            connectionId = viewer.ConnectionId,
+        });
+
     internal static string NormalizeGroup(string sessionCode) => $"session:{sessionCode.Trim().ToUpperInvariant()}";
 }
@@ -12,8 +12,16 @@ public class MatchRequest
     [StringLength(4000, MinimumLength = 1)]
     public string Utterance { get; set; } = string.Empty;
 
+    /// <summary>What was said just before the utterance, so verses quoted across segments are still recognised.</summary>
+    [StringLength(4000)]
+    public string? Context { get; set; }
+
     public string PreferredVersion { get; set; } = "NKJV";
 
+    /// <summary>The utterance's language; the session's language when omitted.</summary>
+    [StringLength(8)]
+    public string? Language { get; set; }
+
     [Range(1, 5)]
     public int N { get; set; } = 3;
 }
@@ -0,0 +1,71 @@
+namespace HOPTranscribe.Api.Models.Notes;
+
+/// <summary>A main point of the sermon, anchored to the segment where it begins.</summary>
+public class OutlinePointDto
+{
+    public string Title { get; set; } = string.Empty;
+    public string Detail { get; set; } = string.Empty;
+    public Guid SegmentId { get; set; }
+    public DateTimeOffset StartedAt { get; set; }
+}
+
+public class CitedScriptureDto
+{
+    public string Reference { get; set; } = string.Empty;
+    public string Version { get; set; } = string.Empty;
+    public string Quote { get; set; } = string.Empty;
+
+    /// <summary>The segment where the passage first came up.</summary>
+    public Guid SegmentId { get; set; }
+    public DateTimeOffset StartedAt { get; set; }
+}
+
+public class SermonNotesDto
+{
+    public string Summary { get; set; } = string.Empty;
+    public List<OutlinePointDto> Outline { get; set; } = new();
+    public List<CitedScriptureDto> Scriptures { get; set; } = new();
+    public string Generator { get; set; } = string.Empty;
+    public DateTimeOffset GeneratedAt { get; set; }
+}
+
+/// <summary>What the notes endpoint returns: the stored notes, if any, and whether newer ones are being written.</summary>
+public class SessionNotesDto
+{
+    /// <summary>"pending" while notes are queued or being written, "ready", or "missing" when none were ever written.</summary>
+    public string Status { get; set; } = "missing";
+
+    /// <summary>The latest stored notes; while pending these are from before the owner's last edits.</summary>
+    public SermonNotesDto? Notes { get; set; }
+}
+
+/// <summary>What a notes generator is given: the ended session's speech, in order, with what each segment cited.</summary>
+public class SermonNotesInput
+{
+    public string Title { get; set; } = string.Empty;
+    public string Language { get; set; } = string.Empty;
+    public List<SermonNotesSegment> Segments { get; set; } = new();
+}
+
+public class SermonNotesSegment
+{
+    public Guid Id { get; set; }
+    public DateTimeOffset StartedAt { get; set; }
+    public string Text { get; set; } = string.Empty;
+    public List<string> References { get; set; } = new();
+}
+
+/// <summary>A generator's outline and summary; points name their segment by id.</summary>
+public class SermonNotesDraft
+{
+    public string Summary { get; set; } = string.Empty;
+    public List<SermonNotesDraftPoint> Outline { get; set; } = new();
+    public string Generator { get; set; } = string.Empty;
+}
+
+public class SermonNotesDraftPoint
+{
+    public string Title { get; set; } = string.Empty;
+    public string Detail { get; set; } = string.Empty;
+    public Guid SegmentId { get; set; }
+}
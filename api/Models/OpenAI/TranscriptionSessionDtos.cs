@@ -14,6 +14,7 @@ public class TranscriptionSessionResponse
     public string Model { get; set; } = string.Empty;
     public string SdpUrl { get; set; } = string.Empty;
     public string SessionId { get; set; } = string.Empty;
+    /// <summary>The session's language; "auto" when the model detects it.</summary>
     public string Language { get; set; } = "en";
 }
 
@@ -76,8 +77,10 @@ internal class OpenAIInputAudioTranscription
     [JsonPropertyName("model")]
     public string Model { get; set; } = "gpt-realtime-whisper";
 
+    /// <summary>Omitted to let the model detect the language.</summary>
     [JsonPropertyName("language")]
-    public string Language { get; set; } = "en";
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Language { get; set; } = "en";
 }
 
 internal class OpenAITurnDetection
@@ -112,3 +115,15 @@ internal class OpenAIRealtimeClientSecretSession
     [JsonPropertyName("id")]
     public string? Id { get; set; }
 }
+
+public class AudioTranscriptionResponse
+{
+    public string Text { get; set; } = string.Empty;
+    public string Model { get; set; } = string.Empty;
+}
+
+internal class OpenAIAudioTranscriptionResponse
+{
+    [JsonPropertyName("text")]
+    public string? Text { get; set; }
+}
@@ -0,0 +1,16 @@
+namespace HOPTranscribe.Api.Models.Passages;
+
+/// <summary>One chapter of one Bible version, verse by verse.</summary>
+public class PassageDto
+{
+    public string Book { get; set; } = string.Empty;
+    public int Chapter { get; set; }
+    public string Version { get; set; } = string.Empty;
+    public List<PassageVerseDto> Verses { get; set; } = new();
+}
+
+public class PassageVerseDto
+{
+    public int Verse { get; set; }
+    public string Text { get; set; } = string.Empty;
+}
@@ -0,0 +1,9 @@
+namespace HOPTranscribe.Api.Models.Presence;
+
+/// <summary>One hub connection watching a session. A user with two tabs open shows up twice.</summary>
+public class SessionViewerDto
+{
+    public string ConnectionId { get; set; } = string.Empty;
+    public string Username { get; set; } = string.Empty;
+    public DateTimeOffset JoinedAt { get; set; }
+}
@@ -18,6 +18,23 @@ public class UpdateSessionRequest
     public string? Title { get; set; }
 }
 
+/// <summary>Optional filters for the session history list. All fields are combined with AND.</summary>
+public class SessionListFilter
+{
+    /// <summary>Case-insensitive substring match against the title or session code.</summary>
+    [StringLength(200)]
+    public string? Search { get; set; }
+
+    /// <summary>"active" or "ended"; anything else is ignored.</summary>
+    public string? Status { get; set; }
+
+    /// <summary>Inclusive lower bound on <c>CreatedAt</c>.</summary>
+    public DateTimeOffset? From { get; set; }
+
+    /// <summary>Exclusive upper bound on <c>CreatedAt</c>.</summary>
+    public DateTimeOffset? To { get; set; }
+}
+
 public class SessionDto
 {
     public Guid Id { get; set; }
@@ -26,6 +43,8 @@ public class SessionDto
     public string OwnerUsername { get; set; } = string.Empty;
     public string Status { get; set; } = string.Empty;
     public string Language { get; set; } = "en";
+    /// <summary>"idle", "recording" or "paused".</summary>
+    public string RecordingState { get; set; } = "idle";
     public DateTimeOffset CreatedAt { get; set; }
     public DateTimeOffset? EndedAt { get; set; }
     public int SegmentCount { get; set; }
@@ -35,8 +54,11 @@ public class TranscriptSegmentDto
 {
     public Guid Id { get; set; }
     public string Text { get; set; } = string.Empty;
+    /// <summary>"speech", "pause" or "gap".</summary>
+    public string Kind { get; set; } = "speech";
     public DateTimeOffset StartedAt { get; set; }
     public DateTimeOffset EndedAt { get; set; }
+    public DateTimeOffset? EditedAt { get; set; }
     public List<ScriptureMatchDto> Matches { get; set; } = new();
 }
 
@@ -52,15 +74,86 @@ public class ScriptureMatchDto
     public string Quote { get; set; } = string.Empty;
     public double Confidence { get; set; }
     public int Rank { get; set; }
+    /// <summary>"suggested", "pinned" or "rejected".</summary>
+    public string Status { get; set; } = "suggested";
+    /// <summary>"matcher" or "manual".</summary>
+    public string Source { get; set; } = "matcher";
 }
 
 public class AppendTranscriptRequest
 {
+    /// <summary>
+    /// Optional client-generated segment id. Re-sending a request with the same id
+    /// returns the stored segment instead of appending a duplicate.
+    /// </summary>
+    public Guid? Id { get; set; }
+
     [Required]
     public string Text { get; set; } = string.Empty;
 
+    /// <summary>
+    /// "speech" (the default), "pause" for a marker covering a paused stretch, or "gap"
+    /// for one covering a dropped transcription connection. Anything else is stored as speech.
+    /// </summary>
+    public string? Kind { get; set; }
+
     public DateTimeOffset StartedAt { get; set; } = DateTimeOffset.UtcNow;
     public DateTimeOffset EndedAt { get; set; } = DateTimeOffset.UtcNow;
 
     public List<ScriptureMatchDto>? Matches { get; set; }
 }
+
+/// <summary>The owner's in-progress line; relayed to viewers, never stored. Empty clears it.</summary>
+public class PartialTranscriptRequest
+{
+    [StringLength(2000)]
+    public string Text { get; set; } = string.Empty;
+}
+
+public class UpdateRecordingStateRequest
+{
+    /// <summary>"idle", "recording" or "paused".</summary>
+    [Required]
+    public string State { get; set; } = string.Empty;
+}
+
+public class UpdateLanguageRequest
+{
+    /// <summary>An ISO 639-1 code from <c>SessionLanguages</c>, or "auto" to detect it.</summary>
+    [Required]
+    [StringLength(8)]
+    public string Language { get; set; } = string.Empty;
+}
+
+public class UpdateMatchStatusRequest
+{
+    /// <summary>"suggested", "pinned" or "rejected".</summary>
+    [Required]
+    public string Status { get; set; } = string.Empty;
+}
+
+/// <summary>A reference the owner typed in; validated against the Bible catalog before it is stored.</summary>
+public class AddScriptureMatchRequest
+{
+    [Required]
+    public string Book { get; set; } = string.Empty;
+
+    public int Chapter { get; set; }
+    public int VerseStart { get; set; }
+    public int? VerseEnd { get; set; }
+
+    public string Version { get; set; } = "NKJV";
+    public string Quote { get; set; } = string.Empty;
+}
+
+public class UpdateTranscriptRequest
+{
+    [Required]
+    public string Text { get; set; } = string.Empty;
+
+    /// <summary>
+    /// When present, replaces the segment's matcher suggestions (re-run against the corrected text).
+    /// Curated matches — pinned, rejected or manually added — are kept.
+    /// </summary>
+    public List<ScriptureMatchDto>? Matches { get; set; }
+}
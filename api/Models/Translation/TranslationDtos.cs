@@ -0,0 +1,42 @@
+namespace HOPTranscribe.Api.Models.Translation;
+
+/// <summary>A transcript segment queued for translation, with the matches whose quotes go along with it.</summary>
+public class TranslationItem
+{
+    public Guid SegmentId { get; set; }
+    public string Text { get; set; } = string.Empty;
+    public List<TranslationQuoteItem> Quotes { get; set; } = new();
+}
+
+public class TranslationQuoteItem
+{
+    public Guid MatchId { get; set; }
+    public string Reference { get; set; } = string.Empty;
+
+    /// <summary>The version to quote in: the target language's equivalent of the match's version.</summary>
+    public string Version { get; set; } = string.Empty;
+}
+
+public class TranslatedQuoteDto
+{
+    public Guid MatchId { get; set; }
+    public string Version { get; set; } = string.Empty;
+    public string Quote { get; set; } = string.Empty;
+}
+
+public class SegmentTranslationDto
+{
+    public Guid SegmentId { get; set; }
+    public string Language { get; set; } = string.Empty;
+    public string Text { get; set; } = string.Empty;
+    public List<TranslatedQuoteDto> Quotes { get; set; } = new();
+}
+
+public class SessionTranslationsDto
+{
+    public string Language { get; set; } = string.Empty;
+    public List<SegmentTranslationDto> Translations { get; set; } = new();
+
+    /// <summary>Segments still untranslated after this batch; clients ask again while it is non-zero.</summary>
+    public int Pending { get; set; }
+}
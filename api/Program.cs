@@ -9,8 +9,12 @@ using HOPTranscribe.Api.Middleware;
 using HOPTranscribe.Api.Services.Auth;
 using HOPTranscribe.Api.Services.Broadcast;
 using HOPTranscribe.Api.Services.Matching;
+using HOPTranscribe.Api.Services.Notes;
 using HOPTranscribe.Api.Services.OpenAI;
+using HOPTranscribe.Api.Services.Passages;
+using HOPTranscribe.Api.Services.Presence;
 using HOPTranscribe.Api.Services.Sessions;
+using HOPTranscribe.Api.Services.Translation;
 using HOPTranscribe.Api.Validation;
 using Microsoft.AspNetCore.Authentication.JwtBearer;
 using Microsoft.AspNetCore.Diagnostics.HealthChecks;
@@ -59,9 +63,21 @@ builder.Services.AddSingleton<IJwtService, JwtService>();
 builder.Services.AddSingleton<BibleBookCatalog>();
 builder.Services.AddScoped<ScriptureValidator>();
 builder.Services.AddScoped<ISessionService, SqliteSessionService>();
+builder.Services.AddScoped<TranscriptTranslator>();
+builder.Services.AddScoped<SermonNotesBuilder>();
+builder.Services.AddSingleton<ExtractiveSermonNotesGenerator>();
+builder.Services.AddSingleton<BackgroundSermonNotesQueue>();
+builder.Services.AddSingleton<ISermonNotesQueue>(sp => sp.GetRequiredService<BackgroundSermonNotesQueue>());
+builder.Services.AddHostedService(sp => sp.GetRequiredService<BackgroundSermonNotesQueue>());
 builder.Services.AddSingleton<ISessionBroadcaster, SignalRSessionBroadcaster>();
+builder.Services.AddSingleton<ISessionPresenceTracker, InMemorySessionPresenceTracker>();
 builder.Services.AddHttpClient<IOpenAIRealtimeService, OpenAIRealtimeService>();
+builder.Services.AddHttpClient<IOpenAITranscriptionService, OpenAITranscriptionService>();
 builder.Services.AddHttpClient<IScriptureMatchService, ScriptureMatchService>();
+builder.Services.AddHttpClient<ITranslationService, OpenAITranslationService>();
+builder.Services.AddMemoryCache();
+builder.Services.AddHttpClient<IPassageService, OpenAIPassageService>();
+builder.Services.AddHttpClient<ISermonNotesGenerator, OpenAISermonNotesGenerator>();
 
 builder.Services.AddSignalR(options =>
 {
@@ -5,5 +5,8 @@ namespace HOPTranscribe.Api.Services.Broadcast;
 public interface ISessionBroadcaster
 {
     Task TranscriptAppendedAsync(string sessionCode, TranscriptSegmentDto segment);
+    Task TranscriptUpdatedAsync(string sessionCode, TranscriptSegmentDto segment);
+    Task TranscriptDeletedAsync(string sessionCode, Guid segmentId);
+    Task PartialUpdatedAsync(string sessionCode, string text);
     Task SessionUpdatedAsync(string sessionCode, SessionDto session);
 }
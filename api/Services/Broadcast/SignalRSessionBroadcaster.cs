@@ -26,6 +26,37 @@ public class SignalRSessionBroadcaster : ISessionBroadcaster
         });
     }
 
+    public Task TranscriptUpdatedAsync(string sessionCode, TranscriptSegmentDto segment)
+    {
+        var group = SessionHub.NormalizeGroup(sessionCode);
+        _logger.LogDebug("Broadcasting TranscriptUpdated to {Group} (segment {SegmentId})", group, segment.Id);
+        return _hub.Clients.Group(group).SendAsync("TranscriptUpdated", new
+        {
+            sessionCode,
+            segment,
+        });
+    }
+
+    public Task TranscriptDeletedAsync(string sessionCode, Guid segmentId)
+    {
+        var group = SessionHub.NormalizeGroup(sessionCode);
+        return _hub.Clients.Group(group).SendAsync("TranscriptDeleted", new
+        {
+            sessionCode,
+            segmentId,
+        });
+    }
+
+    public Task PartialUpdatedAsync(string sessionCode, string text)
+    {
+        var group = SessionHub.NormalizeGroup(sessionCode);
+        return _hub.Clients.Group(group).SendAsync("PartialUpdated", new
+        {
+            sessionCode,
+            text,
+        });
+    }
+
     public Task SessionUpdatedAsync(string sessionCode, SessionDto session)
     {
         var group = SessionHub.NormalizeGroup(sessionCode);
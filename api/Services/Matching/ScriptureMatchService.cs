@@ -40,17 +40,20 @@ public class ScriptureMatchService : IScriptureMatchService
 
     public async Task<MatchResponse> MatchAsync(MatchRequest request, CancellationToken ct = default)
     {
-        var preferredVersion = string.IsNullOrWhiteSpace(request.PreferredVersion) ? "NKJV" : request.PreferredVersion;
+        var language = SessionLanguages.Normalize(request.Language);
+        var preferredVersion = SessionLanguages.VersionFor(
+            language, string.IsNullOrWhiteSpace(request.PreferredVersion) ? "NKJV" : request.PreferredVersion);
         var n = Math.Clamp(request.N <= 0 ? 3 : request.N, 1, 5);
+        var context = request.Context?.Trim() ?? string.Empty;
 
         var primary = _settings.MatchingModel;
         var fallback = _settings.MatchingFallbackModel;
 
-        var (raw, modelUsed) = await CallModelAsync(primary, request.Utterance, preferredVersion, n, ct);
+        var (raw, modelUsed) = await CallModelAsync(primary, request.Utterance, context, preferredVersion, language, n, ct);
         if (raw is null && !string.IsNullOrWhiteSpace(fallback) && !string.Equals(primary, fallback, StringComparison.OrdinalIgnoreCase))
         {
             _logger.LogWarning("Primary matching model '{Model}' unavailable; retrying with fallback '{Fallback}'", primary, fallback);
-            (raw, modelUsed) = await CallModelAsync(fallback, request.Utterance, preferredVersion, n, ct);
+            (raw, modelUsed) = await CallModelAsync(fallback, request.Utterance, context, preferredVersion, language, n, ct);
         }
 
         if (raw is null)
@@ -74,7 +77,7 @@ public class ScriptureMatchService : IScriptureMatchService
     }
 
     private async Task<(MatchResponse? response, string modelUsed)> CallModelAsync(
-        string model, string utterance, string preferredVersion, int n, CancellationToken ct)
+        string model, string utterance, string context, string preferredVersion, string language, int n, CancellationToken ct)
     {
         var body = new Dictionary<string, object?>
         {
@@ -93,7 +96,7 @@ public class ScriptureMatchService : IScriptureMatchService
             ["messages"] = new object[]
             {
                 new { role = "system", content = Prompts.ScriptureMatchSystemPrompt },
-                new { role = "user", content = Prompts.BuildUserPrompt(utterance, preferredVersion, n) },
+                new { role = "user", content = Prompts.BuildUserPrompt(utterance, context, preferredVersion, language, n) },
             },
         };
 
@@ -0,0 +1,75 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+
+namespace HOPTranscribe.Api.Services.Notes;
+
+/// <summary>
+/// Writes queued sermon notes one session at a time on a background worker, each in
+/// its own scope, so ending a session returns at once and no viewer waits on the model.
+/// </summary>
+public class BackgroundSermonNotesQueue : BackgroundService, ISermonNotesQueue
+{
+    private readonly Channel<Guid> _channel = Channel.CreateUnbounded<Guid>(new UnboundedChannelOptions { SingleReader = true });
+
+    // Waiting sessions, and whether any request for them asked to regenerate.
+    private readonly ConcurrentDictionary<Guid, bool> _queued = new();
+    private readonly ConcurrentDictionary<Guid, byte> _running = new();
+
+    private readonly IServiceScopeFactory _scopes;
+    private readonly ILogger<BackgroundSermonNotesQueue> _logger;
+
+    public BackgroundSermonNotesQueue(IServiceScopeFactory scopes, ILogger<BackgroundSermonNotesQueue> logger)
+    {
+        _scopes = scopes;
+        _logger = logger;
+    }
+
+    public ValueTask EnqueueAsync(Guid sessionId, bool regenerate = false)
+    {
+        var added = false;
+        _queued.AddOrUpdate(
+            sessionId,
+            _ =>
+            {
+                added = true;
+                return regenerate;
+            },
+            (_, queued) => queued || regenerate);
+        return added ? _channel.Writer.WriteAsync(sessionId) : ValueTask.CompletedTask;
+    }
+
+    public bool IsPending(Guid sessionId) => _queued.ContainsKey(sessionId) || _running.ContainsKey(sessionId);
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        await foreach (var sessionId in _channel.Reader.ReadAllAsync(stoppingToken))
+        {
+            _running[sessionId] = 0;
+            // Edits made while these notes are written queue the session again.
+            if (!_queued.TryRemove(sessionId, out var regenerate))
+            {
+                _running.TryRemove(sessionId, out _);
+                continue;
+            }
+
+            try
+            {
+                using var scope = _scopes.CreateScope();
+                var builder = scope.ServiceProvider.GetRequiredService<SermonNotesBuilder>();
+                await builder.WriteAsync(sessionId, regenerate, stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Writing sermon notes for session {SessionId} failed", sessionId);
+            }
+            finally
+            {
+                _running.TryRemove(sessionId, out _);
+            }
+        }
+    }
+}
@@ -0,0 +1,84 @@
+using HOPTranscribe.Api.Models.Notes;
+
+namespace HOPTranscribe.Api.Services.Notes;
+
+/// <summary>
+/// Builds notes from the transcript itself, with no model call: the sermon is cut into
+/// sections of roughly equal length, each titled by its opening sentence. Deterministic,
+/// so tests can rely on it, and used whenever the model is unavailable.
+/// </summary>
+public class ExtractiveSermonNotesGenerator : ISermonNotesGenerator
+{
+    public const string Name = "extractive";
+
+    /// <summary>Most points in an outline; sermons rarely have more main points than this.</summary>
+    public const int MaxPoints = 5;
+
+    /// <summary>Roughly two minutes of speech per point, so a short session gets a short outline.</summary>
+    private const int WordsPerPoint = 250;
+
+    private const int TitleWords = 12;
+    private const int SummarySentences = 3;
+
+    private static readonly char[] SentenceEnds = { '.', '!', '?' };
+
+    public Task<SermonNotesDraft> GenerateAsync(SermonNotesInput input, CancellationToken ct = default)
+    {
+        var segments = input.Segments;
+        var words = segments.Select(s => CountWords(s.Text)).ToList();
+        var total = Math.Max(1, words.Sum());
+        var points = Math.Min(segments.Count, Math.Clamp((int)Math.Ceiling(total / (double)WordsPerPoint), 1, MaxPoints));
+
+        // A section starts at the first segment reaching its share of the words.
+        var sections = new List<List<SermonNotesSegment>>();
+        var spoken = 0;
+        for (var i = 0; i < segments.Count; i++)
+        {
+            if (sections.Count < points && spoken >= sections.Count * total / (double)points)
+                sections.Add(new List<SermonNotesSegment>());
+            sections[^1].Add(segments[i]);
+            spoken += words[i];
+        }
+
+        var draft = new SermonNotesDraft { Generator = Name };
+        foreach (var section in sections)
+        {
+            var cited = section.SelectMany(s => s.References).Distinct().ToList();
+            draft.Outline.Add(new SermonNotesDraftPoint
+            {
+                Title = Truncate(FirstSentence(section[0].Text), TitleWords),
+                Detail = cited.Count > 0 ? $"Cites {string.Join(", ", cited)}." : string.Empty,
+                SegmentId = section[0].Id,
+            });
+        }
+
+        var openings = sections
+            .Take(SummarySentences)
+            .Select(s => FirstSentence(s[0].Text))
+            .Where(s => s.Length > 0)
+            .Select(s => SentenceEnds.Contains(s[^1]) ? s : s + ".");
+        var references = segments.SelectMany(s => s.References).Distinct().ToList();
+        draft.Summary = string.Join(' ', openings);
+        if (references.Count > 0)
+            draft.Summary = $"{draft.Summary} Scriptures cited: {string.Join(", ", references)}.".Trim();
+
+        return Task.FromResult(draft);
+    }
+
+    private static int CountWords(string text) =>
+        text.Split((char[]?)null, StringSplitOptions.RemoveEmptyEntries).Length;
+
+    private static string FirstSentence(string text)
+    {
+        var trimmed = text.Trim();
+        var end = trimmed.IndexOfAny(SentenceEnds);
+        return end < 0 ? trimmed : trimmed[..(end + 1)];
+    }
+
+    private static string Truncate(string sentence, int maxWords)
+    {
+        var parts = sentence.Split((char[]?)null, StringSplitOptions.RemoveEmptyEntries);
+        var title = parts.Length <= maxWords ? sentence : string.Join(' ', parts.Take(maxWords)) + "…";
+        return title.TrimEnd(SentenceEnds);
+    }
+}
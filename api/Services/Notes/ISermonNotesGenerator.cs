@@ -0,0 +1,12 @@
+using HOPTranscribe.Api.Models.Notes;
+
+namespace HOPTranscribe.Api.Services.Notes;
+
+public interface ISermonNotesGenerator
+{
+    /// <summary>
+    /// Writes an outline of the main points and a short summary of a sermon. Every point
+    /// names one of the input segments; the input always has at least one segment.
+    /// </summary>
+    Task<SermonNotesDraft> GenerateAsync(SermonNotesInput input, CancellationToken ct = default);
+}
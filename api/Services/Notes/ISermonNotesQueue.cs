@@ -0,0 +1,14 @@
+namespace HOPTranscribe.Api.Services.Notes;
+
+/// <summary>Sessions waiting for their sermon notes to be written, outside any request.</summary>
+public interface ISermonNotesQueue
+{
+    /// <summary>
+    /// Queues the session's notes. A session already waiting isn't queued twice;
+    /// <paramref name="regenerate"/> rewrites them even when the transcript hasn't changed.
+    /// </summary>
+    ValueTask EnqueueAsync(Guid sessionId, bool regenerate = false);
+
+    /// <summary>True while the session's notes are queued or being written.</summary>
+    bool IsPending(Guid sessionId);
+}
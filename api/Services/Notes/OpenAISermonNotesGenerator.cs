@@ -0,0 +1,134 @@
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using HOPTranscribe.Api.Configuration;
+using HOPTranscribe.Api.Constants;
+using HOPTranscribe.Api.Models.Notes;
+using Microsoft.Extensions.Options;
+
+namespace HOPTranscribe.Api.Services.Notes;
+
+public class OpenAISermonNotesGenerator : ISermonNotesGenerator
+{
+    private const string ChatCompletionsPath = "/v1/chat/completions";
+
+    /// <summary>A whole sermon goes in one request, so this call gets longer than the others.</summary>
+    private const int MinTimeoutSeconds = 120;
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        PropertyNameCaseInsensitive = true,
+    };
+
+    private readonly HttpClient _http;
+    private readonly OpenAISettings _settings;
+    private readonly ILogger<OpenAISermonNotesGenerator> _logger;
+
+    public OpenAISermonNotesGenerator(
+        HttpClient http,
+        IOptions<OpenAISettings> options,
+        ILogger<OpenAISermonNotesGenerator> logger)
+    {
+        _http = http;
+        _settings = options.Value;
+        _logger = logger;
+
+        if (string.IsNullOrWhiteSpace(_settings.ApiKey))
+            throw new InvalidOperationException("OpenAI:ApiKey is not configured.");
+
+        _http.BaseAddress = new Uri(_settings.BaseUrl);
+        _http.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", _settings.ApiKey);
+        _http.Timeout = TimeSpan.FromSeconds(Math.Max(_settings.TimeoutSeconds, MinTimeoutSeconds));
+    }
+
+    public async Task<SermonNotesDraft> GenerateAsync(SermonNotesInput input, CancellationToken ct = default)
+    {
+        var start = input.Segments[0].StartedAt;
+        var payload = JsonSerializer.Serialize(input.Segments.Select(s => new
+        {
+            id = s.Id,
+            time = (s.StartedAt - start).ToString(@"hh\:mm\:ss"),
+            text = s.Text,
+            references = s.References,
+        }));
+
+        var body = new Dictionary<string, object?>
+        {
+            ["model"] = _settings.NotesModel,
+            ["max_completion_tokens"] = _settings.NotesMaxOutputTokens,
+            ["response_format"] = new
+            {
+                type = "json_schema",
+                json_schema = new
+                {
+                    name = "sermon_notes_result",
+                    strict = true,
+                    schema = JsonDocument.Parse(Prompts.NotesJsonSchema).RootElement,
+                },
+            },
+            ["messages"] = new object[]
+            {
+                new { role = "system", content = Prompts.NotesSystemPrompt },
+                new { role = "user", content = Prompts.BuildNotesUserPrompt(input.Title, input.Language, payload) },
+            },
+        };
+
+        // Same constraint as the matcher: reasoning models reject a custom temperature.
+        if (_settings.NotesModel.StartsWith("gpt-5", StringComparison.OrdinalIgnoreCase))
+            body["reasoning_effort"] = "minimal";
+        else
+            body["temperature"] = 0.3;
+
+        using var content = new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+        using var response = await _http.PostAsync(ChatCompletionsPath, content, ct);
+        var raw = await response.Content.ReadAsStringAsync(ct);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            _logger.LogError("Notes error {Status} for model {Model}: {Body}", response.StatusCode, _settings.NotesModel, raw);
+            throw new HttpRequestException($"Notes generation failed with status {(int)response.StatusCode}.");
+        }
+
+        using var doc = JsonDocument.Parse(raw);
+        var contentText = doc.RootElement
+            .GetProperty("choices")[0]
+            .GetProperty("message")
+            .GetProperty("content")
+            .GetString();
+        if (string.IsNullOrWhiteSpace(contentText))
+            throw new JsonException("The model returned no notes.");
+
+        var parsed = JsonSerializer.Deserialize<NotesResult>(contentText, JsonOptions);
+        var known = input.Segments.Select(s => s.Id).ToHashSet();
+
+        return new SermonNotesDraft
+        {
+            Generator = _settings.NotesModel,
+            Summary = parsed?.Summary.Trim() ?? string.Empty,
+            // Drop points anchored to segments the model invented; there's nowhere to jump to.
+            Outline = (parsed?.Outline ?? new())
+                .Where(p => Guid.TryParse(p.SegmentId, out var id) && known.Contains(id) && !string.IsNullOrWhiteSpace(p.Title))
+                .Select(p => new SermonNotesDraftPoint
+                {
+                    Title = p.Title.Trim(),
+                    Detail = p.Detail.Trim(),
+                    SegmentId = Guid.Parse(p.SegmentId),
+                })
+                .ToList(),
+        };
+    }
+
+    private sealed class NotesResult
+    {
+        public string Summary { get; set; } = string.Empty;
+        public List<NotesPoint> Outline { get; set; } = new();
+    }
+
+    private sealed class NotesPoint
+    {
+        public string Title { get; set; } = string.Empty;
+        public string Detail { get; set; } = string.Empty;
+        public string SegmentId { get; set; } = string.Empty;
+    }
+}
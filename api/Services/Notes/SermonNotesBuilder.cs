@@ -0,0 +1,209 @@
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using HOPTranscribe.Api.Data;
+using HOPTranscribe.Api.Data.Entities;
+using HOPTranscribe.Api.Models.Notes;
+using Microsoft.EntityFrameworkCore;
+
+namespace HOPTranscribe.Api.Services.Notes;
+
+/// <summary>
+/// Writes an ended session's sermon notes: an outline of its main points anchored to
+/// segments, the scriptures cited in order, and a short summary. Runs from
+/// <see cref="ISermonNotesQueue"/> when the session ends, and again when the owner edits
+/// the transcript or curates its matches afterwards. The outline and summary come from
+/// <see cref="ISermonNotesGenerator"/>, falling back to <see cref="ExtractiveSermonNotesGenerator"/>
+/// when it fails; the scripture list is always built here from the matches themselves.
+/// </summary>
+public class SermonNotesBuilder
+{
+    /// <summary>Suggestions below this confidence aren't counted as cited; matches the web app's default filter.</summary>
+    public const double CitedConfidence = 0.4;
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly HopDbContext _db;
+    private readonly ISermonNotesGenerator _generator;
+    private readonly ExtractiveSermonNotesGenerator _fallback;
+    private readonly ISermonNotesQueue _queue;
+    private readonly ILogger<SermonNotesBuilder> _logger;
+
+    public SermonNotesBuilder(
+        HopDbContext db,
+        ISermonNotesGenerator generator,
+        ExtractiveSermonNotesGenerator fallback,
+        ISermonNotesQueue queue,
+        ILogger<SermonNotesBuilder> logger)
+    {
+        _db = db;
+        _generator = generator;
+        _fallback = fallback;
+        _queue = queue;
+        _logger = logger;
+    }
+
+    /// <summary>The stored notes, and whether newer ones are on the way. Never writes.</summary>
+    public async Task<SessionNotesDto> GetAsync(Guid sessionId, CancellationToken ct = default)
+    {
+        var stored = await _db.SermonNotes.AsNoTracking().FirstOrDefaultAsync(n => n.SessionId == sessionId, ct);
+        return new SessionNotesDto
+        {
+            Status = _queue.IsPending(sessionId) ? "pending" : stored is null ? "missing" : "ready",
+            Notes = stored is null ? null : ToDto(stored),
+        };
+    }
+
+    /// <summary>
+    /// Writes the notes unless the stored ones already match the transcript.
+    /// <paramref name="regenerate"/> forces a new outline and summary even when nothing changed.
+    /// </summary>
+    public async Task WriteAsync(Guid sessionId, bool regenerate = false, CancellationToken ct = default)
+    {
+        var session = await _db.Sessions.AsNoTracking().FirstOrDefaultAsync(s => s.Id == sessionId, ct);
+        if (session is null || session.Status == "active") return;
+
+        var segments = await _db.TranscriptSegments
+            .AsNoTracking()
+            .Include(t => t.Matches)
+            .Where(t => t.SessionId == session.Id && t.Kind == "speech")
+            .OrderBy(t => t.StartedAt)
+            .ToListAsync(ct);
+        segments = segments.Where(s => !string.IsNullOrWhiteSpace(s.Text)).ToList();
+
+        var stamp = Stamp(segments);
+        var stored = await _db.SermonNotes.FirstOrDefaultAsync(n => n.SessionId == session.Id, ct);
+        if (stored is not null && stored.SourceStamp == stamp && !regenerate) return;
+
+        var scriptures = CitedScriptures(segments);
+        var draft = segments.Count == 0
+            ? new SermonNotesDraft { Generator = ExtractiveSermonNotesGenerator.Name }
+            : await DraftAsync(session, segments, ct);
+
+        var startedAt = segments.ToDictionary(s => s.Id, s => s.StartedAt);
+        var outline = draft.Outline
+            .Where(p => startedAt.ContainsKey(p.SegmentId))
+            .Select(p => new OutlinePointDto
+            {
+                Title = p.Title,
+                Detail = p.Detail,
+                SegmentId = p.SegmentId,
+                StartedAt = startedAt[p.SegmentId],
+            })
+            .OrderBy(p => p.StartedAt)
+            .ToList();
+
+        if (stored is null)
+        {
+            stored = new SermonNotesEntity { SessionId = session.Id };
+            _db.SermonNotes.Add(stored);
+        }
+        stored.Summary = draft.Summary;
+        stored.OutlineJson = JsonSerializer.Serialize(outline, JsonOptions);
+        stored.ScripturesJson = JsonSerializer.Serialize(scriptures, JsonOptions);
+        stored.Generator = draft.Generator;
+        stored.SourceStamp = stamp;
+        stored.GeneratedAt = DateTimeOffset.UtcNow;
+
+        try
+        {
+            await _db.SaveChangesAsync(ct);
+            _logger.LogInformation("Wrote sermon notes for {Code} with {Generator}", session.Code, draft.Generator);
+        }
+        catch (DbUpdateException ex)
+        {
+            // Another server instance wrote notes for the same session first; theirs are just as good.
+            _logger.LogDebug(ex, "Concurrent sermon notes for {Code}", session.Code);
+        }
+    }
+
+    private async Task<SermonNotesDraft> DraftAsync(SessionEntity session, List<TranscriptSegmentEntity> segments, CancellationToken ct)
+    {
+        var input = new SermonNotesInput
+        {
+            Title = session.Title,
+            Language = session.Language,
+            Segments = segments
+                .Select(s => new SermonNotesSegment
+                {
+                    Id = s.Id,
+                    StartedAt = s.StartedAt,
+                    Text = s.Text,
+                    References = s.Matches.Where(IsCited).OrderBy(m => m.Rank).Select(m => m.Reference).ToList(),
+                })
+                .ToList(),
+        };
+
+        try
+        {
+            var draft = await _generator.GenerateAsync(input, ct);
+            if (draft.Outline.Count > 0) return draft;
+            _logger.LogWarning("Notes for {Code} came back without an outline; using the transcript instead", session.Code);
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException or JsonException or KeyNotFoundException)
+        {
+            _logger.LogWarning(ex, "Generating notes for {Code} failed; using the transcript instead", session.Code);
+        }
+        return await _fallback.GenerateAsync(input, ct);
+    }
+
+    /// <summary>Each passage once, where it first came up, in the order the sermon reached them.</summary>
+    private static List<CitedScriptureDto> CitedScriptures(List<TranscriptSegmentEntity> segments)
+    {
+        var seen = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+        var result = new List<CitedScriptureDto>();
+        foreach (var segment in segments)
+        {
+            foreach (var m in segment.Matches.Where(IsCited).OrderBy(m => m.Rank))
+            {
+                if (!seen.Add(m.Reference)) continue;
+                result.Add(new CitedScriptureDto
+                {
+                    Reference = m.Reference,
+                    Version = m.Version,
+                    Quote = m.Quote,
+                    SegmentId = segment.Id,
+                    StartedAt = segment.StartedAt,
+                });
+            }
+        }
+        return result;
+    }
+
+    private static bool IsCited(ScriptureMatchEntity m) =>
+        m.Status == "pinned" || (m.Status != "rejected" && (m.Source == "manual" || m.Confidence >= CitedConfidence));
+
+    /// <summary>Fingerprint of everything the notes are made from, so later edits are noticed.</summary>
+    private static string Stamp(List<TranscriptSegmentEntity> segments)
+    {
+        var source = new StringBuilder();
+        foreach (var segment in segments)
+        {
+            source.Append(segment.Id).Append('\n').Append(segment.Text).Append('\n');
+            foreach (var m in segment.Matches.Where(IsCited).OrderBy(m => m.Rank))
+                source.Append(m.Id).Append(' ').Append(m.Status).Append('\n');
+        }
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(source.ToString())));
+    }
+
+    private static SermonNotesDto ToDto(SermonNotesEntity e) => new()
+    {
+        Summary = e.Summary,
+        Outline = Read<OutlinePointDto>(e.OutlineJson),
+        Scriptures = Read<CitedScriptureDto>(e.ScripturesJson),
+        Generator = e.Generator,
+        GeneratedAt = e.GeneratedAt,
+    };
+
+    private static List<T> Read<T>(string json)
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<List<T>>(json, JsonOptions) ?? new();
+        }
+        catch (JsonException)
+        {
+            return new();
+        }
+    }
+}
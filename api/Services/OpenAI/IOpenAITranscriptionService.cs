@@ -0,0 +1,10 @@
+using HOPTranscribe.Api.Models.OpenAI;
+
+namespace HOPTranscribe.Api.Services.OpenAI;
+
+public interface IOpenAITranscriptionService
+{
+    /// <summary>Transcribes one short audio clip (e.g. a chunk of an imported recording).</summary>
+    Task<AudioTranscriptionResponse> TranscribeAsync(
+        Stream audio, string fileName, string contentType, string language, CancellationToken ct = default);
+}
@@ -2,6 +2,7 @@ using System.Net.Http.Headers;
 using System.Text;
 using System.Text.Json;
 using HOPTranscribe.Api.Configuration;
+using HOPTranscribe.Api.Constants;
 using HOPTranscribe.Api.Models.OpenAI;
 using Microsoft.Extensions.Options;
 
@@ -32,7 +33,7 @@ public class OpenAIRealtimeService : IOpenAIRealtimeService
 
     public async Task<TranscriptionSessionResponse> CreateTranscriptionSessionAsync(string language, CancellationToken ct = default)
     {
-        var normalizedLanguage = string.IsNullOrWhiteSpace(language) ? "en" : language;
+        var normalizedLanguage = SessionLanguages.Normalize(language);
         var payload = new OpenAIRealtimeClientSecretRequest
         {
             Session = new OpenAIRealtimeTranscriptionSession
@@ -44,7 +45,7 @@ public class OpenAIRealtimeService : IOpenAIRealtimeService
                         Transcription = new OpenAIInputAudioTranscription
                         {
                             Model = _settings.TranscriptionModel,
-                            Language = normalizedLanguage,
+                            Language = SessionLanguages.ForTranscription(normalizedLanguage),
                         },
                     },
                 },
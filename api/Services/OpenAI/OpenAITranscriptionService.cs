@@ -0,0 +1,63 @@
+using System.Net.Http.Headers;
+using System.Text.Json;
+using HOPTranscribe.Api.Configuration;
+using HOPTranscribe.Api.Constants;
+using HOPTranscribe.Api.Models.OpenAI;
+using Microsoft.Extensions.Options;
+
+namespace HOPTranscribe.Api.Services.OpenAI;
+
+public class OpenAITranscriptionService : IOpenAITranscriptionService
+{
+    private const string TranscriptionsPath = "/v1/audio/transcriptions";
+
+    private readonly HttpClient _http;
+    private readonly OpenAISettings _settings;
+    private readonly ILogger<OpenAITranscriptionService> _logger;
+
+    public OpenAITranscriptionService(HttpClient http, IOptions<OpenAISettings> options, ILogger<OpenAITranscriptionService> logger)
+    {
+        _http = http;
+        _settings = options.Value;
+        _logger = logger;
+
+        if (string.IsNullOrWhiteSpace(_settings.ApiKey))
+            throw new InvalidOperationException("OpenAI:ApiKey is not configured.");
+
+        _http.BaseAddress = new Uri(_settings.BaseUrl);
+        _http.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", _settings.ApiKey);
+        _http.Timeout = TimeSpan.FromSeconds(_settings.TimeoutSeconds);
+    }
+
+    public async Task<AudioTranscriptionResponse> TranscribeAsync(
+        Stream audio, string fileName, string contentType, string language, CancellationToken ct = default)
+    {
+        var transcriptionLanguage = SessionLanguages.ForTranscription(language);
+
+        using var form = new MultipartFormDataContent();
+        var file = new StreamContent(audio);
+        file.Headers.ContentType = new MediaTypeHeaderValue(string.IsNullOrWhiteSpace(contentType) ? "audio/wav" : contentType);
+        form.Add(file, "file", string.IsNullOrWhiteSpace(fileName) ? "chunk.wav" : fileName);
+        form.Add(new StringContent(_settings.FileTranscriptionModel), "model");
+        if (transcriptionLanguage is not null)
+            form.Add(new StringContent(transcriptionLanguage), "language");
+        form.Add(new StringContent("json"), "response_format");
+
+        using var response = await _http.PostAsync(TranscriptionsPath, form, ct);
+        var body = await response.Content.ReadAsStringAsync(ct);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            _logger.LogError("OpenAI audio transcription error {Status}: {Body}", response.StatusCode, body);
+            throw new HttpRequestException(
+                $"OpenAI audio transcription failed with status {(int)response.StatusCode}.");
+        }
+
+        var parsed = JsonSerializer.Deserialize<OpenAIAudioTranscriptionResponse>(body);
+        return new AudioTranscriptionResponse
+        {
+            Text = parsed?.Text?.Trim() ?? string.Empty,
+            Model = _settings.FileTranscriptionModel,
+        };
+    }
+}
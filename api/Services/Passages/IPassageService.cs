@@ -0,0 +1,12 @@
+using HOPTranscribe.Api.Models.Passages;
+
+namespace HOPTranscribe.Api.Services.Passages;
+
+public interface IPassageService
+{
+    /// <summary>
+    /// The text of <paramref name="chapter"/> of <paramref name="book"/> (a canonical name) in
+    /// <paramref name="version"/>. Verses the source could not supply are left out.
+    /// </summary>
+    Task<PassageDto> GetChapterAsync(string book, int chapter, string version, CancellationToken ct = default);
+}
@@ -0,0 +1,132 @@
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using HOPTranscribe.Api.Configuration;
+using HOPTranscribe.Api.Constants;
+using HOPTranscribe.Api.Models.Passages;
+using HOPTranscribe.Api.Validation;
+using Microsoft.Extensions.Caching.Memory;
+using Microsoft.Extensions.Options;
+
+namespace HOPTranscribe.Api.Services.Passages;
+
+/// <summary>
+/// Asks the model for a chapter's text, the same source the matcher quotes from.
+/// Chapters are cached in memory: staff tend to open the same passage several
+/// times during a sermon, and its text does not change.
+/// </summary>
+public class OpenAIPassageService : IPassageService
+{
+    private const string ChatCompletionsPath = "/v1/chat/completions";
+    private static readonly TimeSpan CacheFor = TimeSpan.FromHours(12);
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        PropertyNameCaseInsensitive = true,
+    };
+
+    private readonly HttpClient _http;
+    private readonly OpenAISettings _settings;
+    private readonly BibleBookCatalog _catalog;
+    private readonly IMemoryCache _cache;
+    private readonly ILogger<OpenAIPassageService> _logger;
+
+    public OpenAIPassageService(
+        HttpClient http,
+        IOptions<OpenAISettings> options,
+        BibleBookCatalog catalog,
+        IMemoryCache cache,
+        ILogger<OpenAIPassageService> logger)
+    {
+        _http = http;
+        _settings = options.Value;
+        _catalog = catalog;
+        _cache = cache;
+        _logger = logger;
+
+        if (string.IsNullOrWhiteSpace(_settings.ApiKey))
+            throw new InvalidOperationException("OpenAI:ApiKey is not configured.");
+
+        _http.BaseAddress = new Uri(_settings.BaseUrl);
+        _http.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", _settings.ApiKey);
+        _http.Timeout = TimeSpan.FromSeconds(_settings.TimeoutSeconds);
+    }
+
+    public async Task<PassageDto> GetChapterAsync(string book, int chapter, string version, CancellationToken ct = default)
+    {
+        var key = $"passage:{version.ToUpperInvariant()}:{book}:{chapter}";
+        if (_cache.TryGetValue(key, out PassageDto? cached) && cached is not null) return cached;
+
+        var verseCount = _catalog.GetVerseCount(book, chapter);
+        var body = new Dictionary<string, object?>
+        {
+            ["model"] = _settings.PassageModel,
+            ["max_completion_tokens"] = _settings.PassageMaxOutputTokens,
+            ["response_format"] = new
+            {
+                type = "json_schema",
+                json_schema = new
+                {
+                    name = "bible_chapter",
+                    strict = true,
+                    schema = JsonDocument.Parse(Prompts.PassageJsonSchema).RootElement,
+                },
+            },
+            ["messages"] = new object[]
+            {
+                new { role = "system", content = Prompts.PassageSystemPrompt },
+                new { role = "user", content = Prompts.BuildPassageUserPrompt(book, chapter, version, verseCount) },
+            },
+        };
+
+        // Same constraint as the matcher: reasoning models reject a custom temperature.
+        if (_settings.PassageModel.StartsWith("gpt-5", StringComparison.OrdinalIgnoreCase))
+            body["reasoning_effort"] = "minimal";
+        else
+            body["temperature"] = 0;
+
+        using var content = new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+        using var response = await _http.PostAsync(ChatCompletionsPath, content, ct);
+        var raw = await response.Content.ReadAsStringAsync(ct);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            _logger.LogError("Passage lookup error {Status} for model {Model}: {Body}", response.StatusCode, _settings.PassageModel, raw);
+            throw new HttpRequestException($"Passage lookup failed with status {(int)response.StatusCode}.");
+        }
+
+        using var doc = JsonDocument.Parse(raw);
+        var contentText = doc.RootElement
+            .GetProperty("choices")[0]
+            .GetProperty("message")
+            .GetProperty("content")
+            .GetString();
+        var parsed = string.IsNullOrWhiteSpace(contentText)
+            ? null
+            : JsonSerializer.Deserialize<ChapterResult>(contentText, JsonOptions);
+
+        // Keep one text per verse the chapter actually has, in order.
+        var verses = (parsed?.Verses ?? new())
+            .Where(v => v.Verse >= 1 && v.Verse <= verseCount && !string.IsNullOrWhiteSpace(v.Text))
+            .GroupBy(v => v.Verse)
+            .Select(g => new PassageVerseDto { Verse = g.Key, Text = g.First().Text.Trim() })
+            .OrderBy(v => v.Verse)
+            .ToList();
+
+        var passage = new PassageDto { Book = book, Chapter = chapter, Version = version, Verses = verses };
+        if (verses.Count > 0) _cache.Set(key, passage, CacheFor);
+        return passage;
+    }
+
+    private sealed class ChapterResult
+    {
+        public List<ChapterVerse> Verses { get; set; } = new();
+    }
+
+    private sealed class ChapterVerse
+    {
+        public int Verse { get; set; }
+        public string Text { get; set; } = string.Empty;
+    }
+}
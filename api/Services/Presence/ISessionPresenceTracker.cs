@@ -0,0 +1,17 @@
+using HOPTranscribe.Api.Models.Presence;
+
+namespace HOPTranscribe.Api.Services.Presence;
+
+public interface ISessionPresenceTracker
+{
+    /// <summary>Records the connection as watching the session and returns everyone now watching it.</summary>
+    IReadOnlyList<SessionViewerDto> Join(string sessionCode, string connectionId, string username);
+
+    /// <summary>Removes the connection from the session. Returns the removed viewer, or null if it was not present.</summary>
+    SessionViewerDto? Leave(string sessionCode, string connectionId);
+
+    /// <summary>Removes the connection from every session it joined (hub disconnect).</summary>
+    IReadOnlyList<(string SessionCode, SessionViewerDto Viewer)> LeaveAll(string connectionId);
+
+    IReadOnlyList<SessionViewerDto> GetViewers(string sessionCode);
+}
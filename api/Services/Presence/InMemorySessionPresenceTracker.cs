@@ -0,0 +1,63 @@
+using System.Collections.Concurrent;
+using HOPTranscribe.Api.Models.Presence;
+
+namespace HOPTranscribe.Api.Services.Presence;
+
+/// <summary>
+/// Process-local presence map. Good enough for the single-replica Container App;
+/// a scaled-out deployment would need a SignalR backplane and a shared store anyway.
+/// </summary>
+public class InMemorySessionPresenceTracker : ISessionPresenceTracker
+{
+    // session code → connectionId → viewer
+    private readonly ConcurrentDictionary<string, ConcurrentDictionary<string, SessionViewerDto>> _sessions = new();
+
+    public IReadOnlyList<SessionViewerDto> Join(string sessionCode, string connectionId, string username)
+    {
+        var viewers = _sessions.GetOrAdd(NormalizeCode(sessionCode), _ => new());
+        viewers.GetOrAdd(connectionId, _ => new SessionViewerDto
+        {
+            ConnectionId = connectionId,
+            Username = username,
+            JoinedAt = DateTimeOffset.UtcNow,
+        });
+        return Snapshot(viewers);
+    }
+
+    public SessionViewerDto? Leave(string sessionCode, string connectionId)
+    {
+        var code = NormalizeCode(sessionCode);
+        if (!_sessions.TryGetValue(code, out var viewers)) return null;
+        if (!viewers.TryRemove(connectionId, out var removed)) return null;
+        RemoveIfEmpty(code, viewers);
+        return removed;
+    }
+
+    public IReadOnlyList<(string SessionCode, SessionViewerDto Viewer)> LeaveAll(string connectionId)
+    {
+        var removed = new List<(string, SessionViewerDto)>();
+        foreach (var (code, viewers) in _sessions)
+        {
+            if (!viewers.TryRemove(connectionId, out var viewer)) continue;
+            removed.Add((code, viewer));
+            RemoveIfEmpty(code, viewers);
+        }
+        return removed;
+    }
+
+    public IReadOnlyList<SessionViewerDto> GetViewers(string sessionCode)
+        => _sessions.TryGetValue(NormalizeCode(sessionCode), out var viewers)
+            ? Snapshot(viewers)
+            : Array.Empty<SessionViewerDto>();
+
+    // Compare-and-remove: only drop the entry if it still points at this (now empty) map.
+    private void RemoveIfEmpty(string code, ConcurrentDictionary<string, SessionViewerDto> viewers)
+    {
+        if (viewers.IsEmpty) _sessions.TryRemove(KeyValuePair.Create(code, viewers));
+    }
+
+    private static string NormalizeCode(string sessionCode) => sessionCode.Trim().ToUpperInvariant();
+
+    private static List<SessionViewerDto> Snapshot(ConcurrentDictionary<string, SessionViewerDto> viewers)
+        => viewers.Values.OrderBy(v => v.JoinedAt).ToList();
+}
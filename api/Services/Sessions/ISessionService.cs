@@ -1,5 +1,6 @@
 using HOPTranscribe.Api.Data.Entities;
 using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Matching;
 using HOPTranscribe.Api.Models.Sessions;
 
 namespace HOPTranscribe.Api.Services.Sessions;
@@ -9,9 +10,15 @@ public interface ISessionService
     Task<SessionDto> CreateAsync(string ownerUsername, CreateSessionRequest request, CancellationToken ct = default);
     Task<SessionDto?> GetByCodeAsync(string code, CancellationToken ct = default);
     Task<SessionEntity?> GetEntityByCodeAsync(string code, CancellationToken ct = default);
-    Task<PaginatedResult<SessionDto>> ListForUserAsync(string username, int page, int pageSize, CancellationToken ct = default);
+    Task<PaginatedResult<SessionDto>> ListForUserAsync(string username, int page, int pageSize, SessionListFilter? filter = null, CancellationToken ct = default);
     Task<SessionDto?> EndAsync(string code, string requestingUsername, CancellationToken ct = default);
+    Task<SessionDto?> SetRecordingStateAsync(string code, string requestingUsername, string state, CancellationToken ct = default);
+    Task<SessionDto?> SetLanguageAsync(string code, string requestingUsername, string language, CancellationToken ct = default);
     Task<bool> DeleteAsync(string code, string requestingUsername, CancellationToken ct = default);
     Task<TranscriptSegmentDto> AppendSegmentAsync(string code, AppendTranscriptRequest request, IEnumerable<ScriptureMatchDto>? matches, CancellationToken ct = default);
+    Task<TranscriptSegmentDto?> UpdateSegmentAsync(string code, Guid segmentId, string requestingUsername, UpdateTranscriptRequest request, CancellationToken ct = default);
+    Task<TranscriptSegmentDto?> SetMatchStatusAsync(string code, Guid segmentId, Guid matchId, string requestingUsername, string status, CancellationToken ct = default);
+    Task<TranscriptSegmentDto?> AddManualMatchAsync(string code, Guid segmentId, string requestingUsername, ScriptureMatch match, CancellationToken ct = default);
+    Task<bool> DeleteSegmentAsync(string code, Guid segmentId, string requestingUsername, CancellationToken ct = default);
     Task<List<TranscriptSegmentDto>> ListSegmentsAsync(string code, CancellationToken ct = default);
 }
@@ -1,7 +1,9 @@
 using System.Security.Cryptography;
+using HOPTranscribe.Api.Constants;
 using HOPTranscribe.Api.Data;
 using HOPTranscribe.Api.Data.Entities;
 using HOPTranscribe.Api.Models.Common;
+using HOPTranscribe.Api.Models.Matching;
 using HOPTranscribe.Api.Models.Sessions;
 using Microsoft.EntityFrameworkCore;
 
@@ -29,7 +31,7 @@ public class SqliteSessionService : ISessionService
             Code = code,
             Title = request.Title.Trim(),
             OwnerUsername = ownerUsername,
-            Language = string.IsNullOrWhiteSpace(request.Language) ? "en" : request.Language,
+            Language = SessionLanguages.Normalize(request.Language),
             Status = "active",
             CreatedAt = DateTimeOffset.UtcNow,
         };
@@ -55,15 +57,43 @@ public class SqliteSessionService : ISessionService
         return await _db.Sessions.FirstOrDefaultAsync(s => s.Code == code, ct);
     }
 
-    public async Task<PaginatedResult<SessionDto>> ListForUserAsync(string username, int page, int pageSize, CancellationToken ct = default)
+    public async Task<PaginatedResult<SessionDto>> ListForUserAsync(string username, int page, int pageSize, SessionListFilter? filter = null, CancellationToken ct = default)
     {
         page = Math.Max(page, 1);
         pageSize = Math.Clamp(pageSize, 1, 100);
 
-        var query = _db.Sessions
+        var filtered = _db.Sessions
             .AsNoTracking()
-            .Where(s => s.OwnerUsername == username)
-            .OrderByDescending(s => s.CreatedAt);
+            .Where(s => s.OwnerUsername == username);
+
+        if (filter is not null)
+        {
+            if (!string.IsNullOrWhiteSpace(filter.Search))
+            {
+                var term = filter.Search.Trim().ToLower();
+                filtered = filtered.Where(s => s.Title.ToLower().Contains(term) || s.Code.ToLower().Contains(term));
+            }
+
+            var status = filter.Status?.Trim().ToLowerInvariant();
+            if (status is "active" or "ended")
+            {
+                filtered = filtered.Where(s => s.Status == status);
+            }
+
+            if (filter.From.HasValue)
+            {
+                var from = filter.From.Value.ToUniversalTime();
+                filtered = filtered.Where(s => s.CreatedAt >= from);
+            }
+
+            if (filter.To.HasValue)
+            {
+                var to = filter.To.Value.ToUniversalTime();
+                filtered = filtered.Where(s => s.CreatedAt < to);
+            }
+        }
+
+        var query = filtered.OrderByDescending(s => s.CreatedAt);
 
         var total = await query.CountAsync(ct);
         var items = await query
@@ -77,6 +107,7 @@ public class SqliteSessionService : ISessionService
                 OwnerUsername = s.OwnerUsername,
                 Status = s.Status,
                 Language = s.Language,
+                RecordingState = s.RecordingState,
                 CreatedAt = s.CreatedAt,
                 EndedAt = s.EndedAt,
                 SegmentCount = s.Segments.Count,
@@ -100,12 +131,39 @@ public class SqliteSessionService : ISessionService
             throw new UnauthorizedAccessException("Only the session owner can end the session.");
 
         session.Status = "ended";
+        session.RecordingState = "idle";
         session.EndedAt = DateTimeOffset.UtcNow;
         await _db.SaveChangesAsync(ct);
         var count = await _db.TranscriptSegments.CountAsync(t => t.SessionId == session.Id, ct);
         return ToDto(session, count);
     }
 
+    public async Task<SessionDto?> SetRecordingStateAsync(string code, string requestingUsername, string state, CancellationToken ct = default)
+    {
+        var session = await _db.Sessions.FirstOrDefaultAsync(s => s.Code == code, ct);
+        if (session is null) return null;
+        if (!string.Equals(session.OwnerUsername, requestingUsername, StringComparison.OrdinalIgnoreCase))
+            throw new UnauthorizedAccessException("Only the session owner can change the recording state.");
+
+        session.RecordingState = state;
+        await _db.SaveChangesAsync(ct);
+        var count = await _db.TranscriptSegments.CountAsync(t => t.SessionId == session.Id, ct);
+        return ToDto(session, count);
+    }
+
+    public async Task<SessionDto?> SetLanguageAsync(string code, string requestingUsername, string language, CancellationToken ct = default)
+    {
+        var session = await _db.Sessions.FirstOrDefaultAsync(s => s.Code == code, ct);
+        if (session is null) return null;
+        if (!string.Equals(session.OwnerUsername, requestingUsername, StringComparison.OrdinalIgnoreCase))
+            throw new UnauthorizedAccessException("Only the session owner can change the language.");
+
+        session.Language = SessionLanguages.Normalize(language);
+        await _db.SaveChangesAsync(ct);
+        var count = await _db.TranscriptSegments.CountAsync(t => t.SessionId == session.Id, ct);
+        return ToDto(session, count);
+    }
+
     public async Task<bool> DeleteAsync(string code, string requestingUsername, CancellationToken ct = default)
     {
         var session = await _db.Sessions.FirstOrDefaultAsync(s => s.Code == code, ct);
@@ -123,48 +181,126 @@ public class SqliteSessionService : ISessionService
         var session = await _db.Sessions.FirstOrDefaultAsync(s => s.Code == code, ct)
             ?? throw new KeyNotFoundException($"Session '{code}' not found.");
 
+        // Clients retry with the same id after a lost response; hand back what we
+        // already stored instead of appending the paragraph twice.
+        if (request.Id is Guid clientId)
+        {
+            var existing = await _db.TranscriptSegments
+                .AsNoTracking()
+                .Include(t => t.Matches)
+                .FirstOrDefaultAsync(t => t.Id == clientId, ct);
+            if (existing is not null)
+            {
+                if (existing.SessionId != session.Id)
+                    throw new UnauthorizedAccessException("Segment id is already used by another session.");
+                _logger.LogInformation("Segment {SegmentId} already stored in {Code}; treating append as a retry", clientId, code);
+                return MapSegment(existing);
+            }
+        }
+
         var segment = new TranscriptSegmentEntity
         {
+            Id = request.Id ?? Guid.NewGuid(),
             SessionId = session.Id,
             Text = request.Text,
+            Kind = request.Kind is "pause" or "gap" ? request.Kind : "speech",
             StartedAt = request.StartedAt,
             EndedAt = request.EndedAt,
         };
 
-        if (matches is not null)
+        if (matches is not null) segment.Matches.AddRange(ToMatchEntities(matches));
+
+        _db.TranscriptSegments.Add(segment);
+        await _db.SaveChangesAsync(ct);
+
+        return MapSegment(segment);
+    }
+
+    public async Task<TranscriptSegmentDto?> UpdateSegmentAsync(string code, Guid segmentId, string requestingUsername, UpdateTranscriptRequest request, CancellationToken ct = default)
+    {
+        var segment = await FindOwnedSegmentAsync(code, segmentId, requestingUsername, "edit", ct);
+        if (segment is null) return null;
+
+        segment.Text = request.Text.Trim();
+        segment.EditedAt = DateTimeOffset.UtcNow;
+        if (request.Matches is not null)
         {
-            int rank = 0;
-            foreach (var m in matches)
-            {
-                segment.Matches.Add(new ScriptureMatchEntity
-                {
-                    Reference = m.Reference,
-                    Book = m.Book,
-                    Chapter = m.Chapter,
-                    VerseStart = m.VerseStart,
-                    VerseEnd = m.VerseEnd,
-                    Version = m.Version,
-                    Quote = m.Quote,
-                    Confidence = m.Confidence,
-                    Rank = rank++,
-                });
-            }
+            // Only the matcher's own suggestions are replaced. Curated rows stay,
+            // and a rejected reference is not allowed to sneak back in.
+            var curated = segment.Matches.Where(IsCurated).OrderBy(m => m.Rank).ToList();
+            _db.ScriptureMatches.RemoveRange(segment.Matches.Where(m => !IsCurated(m)));
+
+            var curatedRefs = curated.Select(m => m.Reference).ToHashSet(StringComparer.OrdinalIgnoreCase);
+            var fresh = ToMatchEntities(request.Matches.Where(m => !curatedRefs.Contains(m.Reference)));
+            var rank = 0;
+            foreach (var m in curated.Concat(fresh)) m.Rank = rank++;
+            // Added explicitly: discovered through the navigation alone, rows with a
+            // preset Guid key would be treated as existing and updated instead.
+            foreach (var m in fresh) m.SegmentId = segment.Id;
+            _db.ScriptureMatches.AddRange(fresh);
+            segment.Matches = curated.Concat(fresh).ToList();
         }
+        await _db.SaveChangesAsync(ct);
 
-        _db.TranscriptSegments.Add(segment);
+        return MapSegment(segment);
+    }
+
+    public async Task<TranscriptSegmentDto?> SetMatchStatusAsync(string code, Guid segmentId, Guid matchId, string requestingUsername, string status, CancellationToken ct = default)
+    {
+        var segment = await FindOwnedSegmentAsync(code, segmentId, requestingUsername, "curate", ct);
+        var match = segment?.Matches.FirstOrDefault(m => m.Id == matchId);
+        if (segment is null || match is null) return null;
+
+        match.Status = status;
         await _db.SaveChangesAsync(ct);
+        return MapSegment(segment);
+    }
+
+    public async Task<TranscriptSegmentDto?> AddManualMatchAsync(string code, Guid segmentId, string requestingUsername, ScriptureMatch match, CancellationToken ct = default)
+    {
+        var segment = await FindOwnedSegmentAsync(code, segmentId, requestingUsername, "curate", ct);
+        if (segment is null) return null;
 
-        return new TranscriptSegmentDto
+        // Typing a reference that is already listed just pins the existing row.
+        var existing = segment.Matches.FirstOrDefault(m =>
+            string.Equals(m.Reference, match.Reference, StringComparison.OrdinalIgnoreCase)
+            && string.Equals(m.Version, match.Version, StringComparison.OrdinalIgnoreCase));
+        if (existing is not null)
         {
-            Id = segment.Id,
-            Text = segment.Text,
-            StartedAt = segment.StartedAt,
-            EndedAt = segment.EndedAt,
-            Matches = segment.Matches
-                .OrderBy(m => m.Rank)
-                .Select(MapMatch)
-                .ToList(),
-        };
+            existing.Status = "pinned";
+        }
+        else
+        {
+            var entity = new ScriptureMatchEntity
+            {
+                SegmentId = segment.Id,
+                Reference = match.Reference,
+                Book = match.Book,
+                Chapter = match.Chapter,
+                VerseStart = match.VerseStart,
+                VerseEnd = match.VerseEnd,
+                Version = match.Version,
+                Quote = match.Quote,
+                Confidence = 1,
+                Rank = segment.Matches.Count == 0 ? 0 : segment.Matches.Max(m => m.Rank) + 1,
+                Status = "pinned",
+                Source = "manual",
+            };
+            _db.ScriptureMatches.Add(entity);
+            segment.Matches.Add(entity);
+        }
+        await _db.SaveChangesAsync(ct);
+        return MapSegment(segment);
+    }
+
+    public async Task<bool> DeleteSegmentAsync(string code, Guid segmentId, string requestingUsername, CancellationToken ct = default)
+    {
+        var segment = await FindOwnedSegmentAsync(code, segmentId, requestingUsername, "delete", ct);
+        if (segment is null) return false;
+
+        _db.TranscriptSegments.Remove(segment);
+        await _db.SaveChangesAsync(ct);
+        return true;
     }
 
     public async Task<List<TranscriptSegmentDto>> ListSegmentsAsync(string code, CancellationToken ct = default)
@@ -180,8 +316,10 @@ public class SqliteSessionService : ISessionService
             {
                 Id = t.Id,
                 Text = t.Text,
+                Kind = t.Kind,
                 StartedAt = t.StartedAt,
                 EndedAt = t.EndedAt,
+                EditedAt = t.EditedAt,
                 Matches = t.Matches.OrderBy(m => m.Rank).Select(m => new ScriptureMatchDto
                 {
                     Id = m.Id,
@@ -194,11 +332,41 @@ public class SqliteSessionService : ISessionService
                     Quote = m.Quote,
                     Confidence = m.Confidence,
                     Rank = m.Rank,
+                    Status = m.Status,
+                    Source = m.Source,
                 }).ToList(),
             })
             .ToListAsync(ct);
     }
 
+    private async Task<TranscriptSegmentEntity?> FindOwnedSegmentAsync(string code, Guid segmentId, string requestingUsername, string action, CancellationToken ct)
+    {
+        var session = await _db.Sessions.FirstOrDefaultAsync(s => s.Code == code, ct);
+        if (session is null) return null;
+        if (!string.Equals(session.OwnerUsername, requestingUsername, StringComparison.OrdinalIgnoreCase))
+            throw new UnauthorizedAccessException($"Only the session owner can {action} transcripts.");
+
+        return await _db.TranscriptSegments
+            .Include(t => t.Matches)
+            .FirstOrDefaultAsync(t => t.Id == segmentId && t.SessionId == session.Id, ct);
+    }
+
+    private static bool IsCurated(ScriptureMatchEntity m) => m.Status != "suggested" || m.Source == "manual";
+
+    private static List<ScriptureMatchEntity> ToMatchEntities(IEnumerable<ScriptureMatchDto> matches)
+        => matches.Select((m, rank) => new ScriptureMatchEntity
+        {
+            Reference = m.Reference,
+            Book = m.Book,
+            Chapter = m.Chapter,
+            VerseStart = m.VerseStart,
+            VerseEnd = m.VerseEnd,
+            Version = m.Version,
+            Quote = m.Quote,
+            Confidence = m.Confidence,
+            Rank = rank,
+        }).ToList();
+
     private async Task<string> GenerateUniqueCodeAsync(CancellationToken ct)
     {
         for (int attempt = 0; attempt < 8; attempt++)
@@ -230,11 +398,26 @@ public class SqliteSessionService : ISessionService
         OwnerUsername = e.OwnerUsername,
         Status = e.Status,
         Language = e.Language,
+        RecordingState = e.RecordingState,
         CreatedAt = e.CreatedAt,
         EndedAt = e.EndedAt,
         SegmentCount = segmentCount,
     };
 
+    private static TranscriptSegmentDto MapSegment(TranscriptSegmentEntity t) => new()
+    {
+        Id = t.Id,
+        Text = t.Text,
+        Kind = t.Kind,
+        StartedAt = t.StartedAt,
+        EndedAt = t.EndedAt,
+        EditedAt = t.EditedAt,
+        Matches = t.Matches
+            .OrderBy(m => m.Rank)
+            .Select(MapMatch)
+            .ToList(),
+    };
+
     private static ScriptureMatchDto MapMatch(ScriptureMatchEntity m) => new()
     {
         Id = m.Id,
@@ -247,5 +430,7 @@ public class SqliteSessionService : ISessionService
         Quote = m.Quote,
         Confidence = m.Confidence,
         Rank = m.Rank,
+        Status = m.Status,
+        Source = m.Source,
     };
 }
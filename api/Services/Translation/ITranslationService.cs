@@ -0,0 +1,16 @@
+using HOPTranscribe.Api.Models.Translation;
+
+namespace HOPTranscribe.Api.Services.Translation;
+
+public interface ITranslationService
+{
+    /// <summary>
+    /// Translates each item's text into <paramref name="targetLanguage"/> and quotes its
+    /// matches in the requested versions. Items the model skips are left out of the result.
+    /// </summary>
+    Task<List<SegmentTranslationDto>> TranslateAsync(
+        IReadOnlyList<TranslationItem> items,
+        string sourceLanguage,
+        string targetLanguage,
+        CancellationToken ct = default);
+}
@@ -0,0 +1,150 @@
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using HOPTranscribe.Api.Configuration;
+using HOPTranscribe.Api.Constants;
+using HOPTranscribe.Api.Models.Translation;
+using Microsoft.Extensions.Options;
+
+namespace HOPTranscribe.Api.Services.Translation;
+
+public class OpenAITranslationService : ITranslationService
+{
+    private const string ChatCompletionsPath = "/v1/chat/completions";
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        PropertyNameCaseInsensitive = true,
+    };
+
+    private readonly HttpClient _http;
+    private readonly OpenAISettings _settings;
+    private readonly ILogger<OpenAITranslationService> _logger;
+
+    public OpenAITranslationService(
+        HttpClient http,
+        IOptions<OpenAISettings> options,
+        ILogger<OpenAITranslationService> logger)
+    {
+        _http = http;
+        _settings = options.Value;
+        _logger = logger;
+
+        if (string.IsNullOrWhiteSpace(_settings.ApiKey))
+            throw new InvalidOperationException("OpenAI:ApiKey is not configured.");
+
+        _http.BaseAddress = new Uri(_settings.BaseUrl);
+        _http.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", _settings.ApiKey);
+        _http.Timeout = TimeSpan.FromSeconds(_settings.TimeoutSeconds);
+    }
+
+    public async Task<List<SegmentTranslationDto>> TranslateAsync(
+        IReadOnlyList<TranslationItem> items,
+        string sourceLanguage,
+        string targetLanguage,
+        CancellationToken ct = default)
+    {
+        if (items.Count == 0) return new List<SegmentTranslationDto>();
+
+        var payload = JsonSerializer.Serialize(items.Select(i => new
+        {
+            id = i.SegmentId,
+            text = i.Text,
+            quotes = i.Quotes.Select(q => new { matchId = q.MatchId, reference = q.Reference, version = q.Version }),
+        }));
+
+        var body = new Dictionary<string, object?>
+        {
+            ["model"] = _settings.TranslationModel,
+            ["max_completion_tokens"] = _settings.TranslationMaxOutputTokens,
+            ["response_format"] = new
+            {
+                type = "json_schema",
+                json_schema = new
+                {
+                    name = "caption_translation_result",
+                    strict = true,
+                    schema = JsonDocument.Parse(Prompts.TranslationJsonSchema).RootElement,
+                },
+            },
+            ["messages"] = new object[]
+            {
+                new { role = "system", content = Prompts.TranslationSystemPrompt },
+                new { role = "user", content = Prompts.BuildTranslationUserPrompt(payload, sourceLanguage, targetLanguage) },
+            },
+        };
+
+        // Same constraint as the matcher: reasoning models reject a custom temperature.
+        if (_settings.TranslationModel.StartsWith("gpt-5", StringComparison.OrdinalIgnoreCase))
+            body["reasoning_effort"] = "minimal";
+        else
+            body["temperature"] = 0.2;
+
+        using var content = new StringContent(JsonSerializer.Serialize(body), Encoding.UTF8, "application/json");
+        using var response = await _http.PostAsync(ChatCompletionsPath, content, ct);
+        var raw = await response.Content.ReadAsStringAsync(ct);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            _logger.LogError("Translation error {Status} for model {Model}: {Body}", response.StatusCode, _settings.TranslationModel, raw);
+            throw new HttpRequestException($"Translation failed with status {(int)response.StatusCode}.");
+        }
+
+        using var doc = JsonDocument.Parse(raw);
+        var contentText = doc.RootElement
+            .GetProperty("choices")[0]
+            .GetProperty("message")
+            .GetProperty("content")
+            .GetString();
+        if (string.IsNullOrWhiteSpace(contentText)) return new List<SegmentTranslationDto>();
+
+        var parsed = JsonSerializer.Deserialize<TranslationResult>(contentText, JsonOptions);
+        var requested = items.ToDictionary(i => i.SegmentId);
+        var results = new List<SegmentTranslationDto>();
+
+        foreach (var segment in parsed?.Segments ?? new())
+        {
+            // Drop anything the model invented: unknown segment ids, or quotes for matches it wasn't given.
+            if (!Guid.TryParse(segment.Id, out var id) || !requested.TryGetValue(id, out var item)) continue;
+            if (string.IsNullOrWhiteSpace(segment.Text)) continue;
+
+            var versions = item.Quotes.ToDictionary(q => q.MatchId, q => q.Version);
+            results.Add(new SegmentTranslationDto
+            {
+                SegmentId = id,
+                Language = targetLanguage,
+                Text = segment.Text.Trim(),
+                Quotes = segment.Quotes
+                    .Where(q => Guid.TryParse(q.MatchId, out var matchId) && versions.ContainsKey(matchId) && !string.IsNullOrWhiteSpace(q.Quote))
+                    .Select(q =>
+                    {
+                        var matchId = Guid.Parse(q.MatchId);
+                        return new TranslatedQuoteDto { MatchId = matchId, Version = versions[matchId], Quote = q.Quote.Trim() };
+                    })
+                    .ToList(),
+            });
+        }
+
+        return results;
+    }
+
+    private sealed class TranslationResult
+    {
+        public List<TranslatedSegment> Segments { get; set; } = new();
+    }
+
+    private sealed class TranslatedSegment
+    {
+        public string Id { get; set; } = string.Empty;
+        public string Text { get; set; } = string.Empty;
+        public List<TranslatedQuote> Quotes { get; set; } = new();
+    }
+
+    private sealed class TranslatedQuote
+    {
+        public string MatchId { get; set; } = string.Empty;
+        public string Version { get; set; } = string.Empty;
+        public string Quote { get; set; } = string.Empty;
+    }
+}
@@ -0,0 +1,183 @@
+using System.Text.Json;
+using HOPTranscribe.Api.Constants;
+using HOPTranscribe.Api.Data;
+using HOPTranscribe.Api.Data.Entities;
+using HOPTranscribe.Api.Models.Translation;
+using Microsoft.EntityFrameworkCore;
+
+namespace HOPTranscribe.Api.Services.Translation;
+
+/// <summary>
+/// Serves a session's transcript in a viewer's language. Translations are stored per
+/// segment and language, and redone when the owner edits the text or curates a new match
+/// into it, so each segment is only sent to <see cref="ITranslationService"/> once per change.
+/// </summary>
+public class TranscriptTranslator
+{
+    /// <summary>Segments translated per request; the rest are reported as pending.</summary>
+    public const int BatchSize = 12;
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly HopDbContext _db;
+    private readonly ITranslationService _translation;
+    private readonly ILogger<TranscriptTranslator> _logger;
+
+    public TranscriptTranslator(HopDbContext db, ITranslationService translation, ILogger<TranscriptTranslator> logger)
+    {
+        _db = db;
+        _translation = translation;
+        _logger = logger;
+    }
+
+    /// <summary>Returns null when the session doesn't exist.</summary>
+    public async Task<SessionTranslationsDto?> GetAsync(string code, string language, CancellationToken ct = default)
+    {
+        var target = SessionLanguages.Normalize(language);
+        var session = await _db.Sessions.AsNoTracking().FirstOrDefaultAsync(s => s.Code == code, ct);
+        if (session is null) return null;
+
+        var segments = await _db.TranscriptSegments
+            .Include(t => t.Matches)
+            .Include(t => t.Translations.Where(x => x.Language == target))
+            .Where(t => t.SessionId == session.Id && t.Kind == "speech")
+            .OrderBy(t => t.StartedAt)
+            .ToListAsync(ct);
+
+        var result = new SessionTranslationsDto { Language = target };
+
+        // Nothing to translate when viewers pick the language being spoken.
+        if (target == session.Language)
+        {
+            result.Translations = segments.Select(s => Identity(s, target)).ToList();
+            return result;
+        }
+
+        var stale = new List<TranscriptSegmentEntity>();
+        foreach (var segment in segments)
+        {
+            var cached = segment.Translations.FirstOrDefault();
+            if (cached is not null && IsFresh(segment, cached))
+                result.Translations.Add(ToDto(cached));
+            else
+                stale.Add(segment);
+        }
+
+        // Newest first: a viewer joining mid-sermon wants the current captions before the backlog.
+        var batch = stale.OrderByDescending(s => s.StartedAt).Take(BatchSize).ToList();
+        result.Pending = stale.Count;
+        if (batch.Count == 0) return result;
+
+        List<SegmentTranslationDto> translated;
+        try
+        {
+            translated = await _translation.TranslateAsync(
+                batch.Select(s => ToItem(s, target)).ToList(), session.Language, target, ct);
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException or JsonException or KeyNotFoundException)
+        {
+            _logger.LogWarning(ex, "Translating {Count} segments of {Code} into {Language} failed", batch.Count, code, target);
+            return result;
+        }
+
+        var byId = batch.ToDictionary(s => s.Id);
+        var now = DateTimeOffset.UtcNow;
+        foreach (var dto in translated)
+        {
+            if (!byId.TryGetValue(dto.SegmentId, out var segment)) continue;
+
+            var entity = segment.Translations.FirstOrDefault();
+            if (entity is null)
+            {
+                entity = new SegmentTranslationEntity { SegmentId = segment.Id, Language = target };
+                _db.SegmentTranslations.Add(entity);
+            }
+            entity.SourceText = segment.Text;
+            entity.Text = dto.Text;
+            entity.QuotesJson = JsonSerializer.Serialize(WithFallbackQuotes(segment, dto.Quotes), JsonOptions);
+            entity.TranslatedAt = now;
+
+            result.Translations.Add(ToDto(entity));
+            result.Pending--;
+        }
+
+        try
+        {
+            await _db.SaveChangesAsync(ct);
+        }
+        catch (DbUpdateException ex)
+        {
+            // Another viewer translated the same segments first; theirs is just as good.
+            _logger.LogDebug(ex, "Concurrent translation of {Code} into {Language}", code, target);
+        }
+
+        return result;
+    }
+
+    private static bool IsFresh(TranscriptSegmentEntity segment, SegmentTranslationEntity cached)
+    {
+        if (cached.SourceText != segment.Text) return false;
+        var quoted = ReadQuotes(cached).Select(q => q.MatchId).ToHashSet();
+        return segment.Matches.Where(IsShown).All(m => quoted.Contains(m.Id));
+    }
+
+    private static bool IsShown(ScriptureMatchEntity m) => m.Status != "rejected";
+
+    /// <summary>Keeps the original quote for any match the model didn't quote, so the segment counts as done.</summary>
+    private static List<TranslatedQuoteDto> WithFallbackQuotes(TranscriptSegmentEntity segment, List<TranslatedQuoteDto> quotes)
+    {
+        var quoted = quotes.Select(q => q.MatchId).ToHashSet();
+        return quotes
+            .Concat(segment.Matches
+                .Where(m => IsShown(m) && !quoted.Contains(m.Id))
+                .Select(m => new TranslatedQuoteDto { MatchId = m.Id, Version = m.Version, Quote = m.Quote }))
+            .ToList();
+    }
+
+    private static TranslationItem ToItem(TranscriptSegmentEntity segment, string target) => new()
+    {
+        SegmentId = segment.Id,
+        Text = segment.Text,
+        Quotes = segment.Matches
+            .Where(IsShown)
+            .OrderBy(m => m.Rank)
+            .Select(m => new TranslationQuoteItem
+            {
+                MatchId = m.Id,
+                Reference = m.Reference,
+                Version = SessionLanguages.VersionFor(target, m.Version),
+            })
+            .ToList(),
+    };
+
+    private static SegmentTranslationDto Identity(TranscriptSegmentEntity segment, string language) => new()
+    {
+        SegmentId = segment.Id,
+        Language = language,
+        Text = segment.Text,
+        Quotes = segment.Matches
+            .Where(IsShown)
+            .Select(m => new TranslatedQuoteDto { MatchId = m.Id, Version = m.Version, Quote = m.Quote })
+            .ToList(),
+    };
+
+    private static SegmentTranslationDto ToDto(SegmentTranslationEntity e) => new()
+    {
+        SegmentId = e.SegmentId,
+        Language = e.Language,
+        Text = e.Text,
+        Quotes = ReadQuotes(e),
+    };
+
+    private static List<TranslatedQuoteDto> ReadQuotes(SegmentTranslationEntity e)
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<List<TranslatedQuoteDto>>(e.QuotesJson, JsonOptions) ?? new();
+        }
+        catch (JsonException)
+        {
+            return new();
+        }
+    }
+}
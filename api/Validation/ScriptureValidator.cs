@@ -1,13 +1,11 @@
+using HOPTranscribe.Api.Constants;
 using HOPTranscribe.Api.Models.Matching;
 
 namespace HOPTranscribe.Api.Validation;
 
 public class ScriptureValidator
 {
-    private static readonly HashSet<string> KnownVersions = new(StringComparer.OrdinalIgnoreCase)
-    {
-        "KJV", "NKJV", "NIV", "ESV", "NLT", "NASB", "AMP", "MSG", "TPT", "GNT", "TLB", "CSB", "RSV", "ASV", "WEB"
-    };
+    private static readonly HashSet<string> KnownVersions = new(SessionLanguages.AllVersions, StringComparer.OrdinalIgnoreCase);
 
     private readonly BibleBookCatalog _catalog;
     private readonly ILogger<ScriptureValidator> _logger;
@@ -1,5 +1,7 @@
+import { BrowserRouter } from 'react-router-dom';
 import { Toaster } from 'sonner';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { BibleTextProvider } from './hooks/useBibleText';
 import { SettingsProvider } from './hooks/useSettings';
 import { TranscriptionPage } from './routes/TranscriptionPage';
 
@@ -7,8 +9,12 @@ export function App() {
   return (
     <ErrorBoundary>
       <SettingsProvider>
-        <TranscriptionPage />
-        <Toaster richColors position="top-right" />
+        <BibleTextProvider>
+          <BrowserRouter>
+            <TranscriptionPage />
+          </BrowserRouter>
+          <Toaster richColors position="top-right" />
+        </BibleTextProvider>
       </SettingsProvider>
     </ErrorBoundary>
   );
@@ -0,0 +1,79 @@
+import { Users } from 'lucide-react';
+import * as signalR from '@microsoft/signalr';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import type { SessionViewerDto } from '@/types/api';
+
+interface AudiencePanelProps {
+  viewers: SessionViewerDto[];
+  ownerUsername: string;
+  /** This client's hub connection, marked as "you" in the list. */
+  connectionId: string | null;
+  hubState: signalR.HubConnectionState;
+}
+
+/** Connections other than the preacher's own tabs — what "viewers" means in the header. */
+export function audienceOf(viewers: SessionViewerDto[], ownerUsername: string): SessionViewerDto[] {
+  const owner = ownerUsername.toLowerCase();
+  return viewers.filter((v) => v.username.toLowerCase() !== owner);
+}
+
+function formatJoined(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function AudiencePanel({ viewers, ownerUsername, connectionId, hubState }: AudiencePanelProps) {
+  const audience = audienceOf(viewers, ownerUsername);
+  const connected = hubState === signalR.HubConnectionState.Connected;
+  const sorted = [...viewers].sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button type="button" aria-label="Show audience" className="rounded-full">
+          <Badge variant="outline" className={connected ? 'gap-1 hover:bg-muted' : 'gap-1 opacity-60'}>
+            <Users className="h-3 w-3" />
+            {connected ? audience.length : '–'}
+          </Badge>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Audience</DialogTitle>
+          <DialogDescription>
+            {connected
+              ? `${audience.length} ${audience.length === 1 ? 'viewer' : 'viewers'} connected right now.`
+              : 'Not connected to the live session — the list may be out of date.'}
+          </DialogDescription>
+        </DialogHeader>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody is watching yet.</p>
+        ) : (
+          <ul className="max-h-72 divide-y overflow-y-auto rounded-md border">
+            {sorted.map((v) => (
+              <li key={v.connectionId} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full bg-emerald-500" aria-hidden />
+                  <span className="font-medium">{v.username}</span>
+                  {v.connectionId === connectionId && <span className="text-xs text-muted-foreground">(you)</span>}
+                  {v.username.toLowerCase() === ownerUsername.toLowerCase() && (
+                    <Badge variant="secondary">Preacher</Badge>
+                  )}
+                </span>
+                <span className="text-xs text-muted-foreground">{formatJoined(v.joinedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+import { Pause, Play, SkipForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { PLAYBACK_RATES } from '@/hooks/useSessionAudio';
+import { formatOffset } from '@/lib/transcriptExport';
+
+interface AudioPlayerProps {
+  playing: boolean;
+  offsetMs: number;
+  durationMs: number;
+  rate: number;
+  /** Which recording is loaded, when the session was recorded in several takes. */
+  part?: { index: number; count: number } | null;
+  onToggle: () => void;
+  onSeek: (offsetMs: number) => void;
+  onRateChange: (rate: number) => void;
+  /** Absent when no later segment has a scripture reference. */
+  onNextScripture?: () => void;
+}
+
+/** Mini transport for reviewing a session's archived audio against its transcript. */
+export function AudioPlayer({
+  playing,
+  offsetMs,
+  durationMs,
+  rate,
+  part,
+  onToggle,
+  onSeek,
+  onRateChange,
+  onNextScripture,
+}: AudioPlayerProps) {
+  return (
+    <div className="flex items-center gap-3 rounded-md border bg-muted/40 px-3 py-2">
+      <Button variant="ghost" size="icon" onClick={onToggle} aria-label={playing ? 'Pause' : 'Play'}>
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <span className="w-36 shrink-0 font-mono text-xs tabular-nums text-muted-foreground">
+        {formatOffset(offsetMs)} / {formatOffset(durationMs)}
+      </span>
+      <Slider
+        className="flex-1"
+        min={0}
+        max={Math.max(1, durationMs)}
+        step={1000}
+        value={[Math.min(offsetMs, durationMs)]}
+        onValueChange={(v) => onSeek(v[0])}
+        aria-label="Playback position"
+      />
+      {part && part.count > 1 && (
+        <span className="shrink-0 text-xs text-muted-foreground">
+          Part {part.index} of {part.count}
+        </span>
+      )}
+      <select
+        aria-label="Playback speed"
+        className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+        value={rate}
+        onChange={(e) => onRateChange(Number(e.target.value))}
+      >
+        {PLAYBACK_RATES.map((r) => (
+          <option key={r} value={r}>
+            {r}×
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onNextScripture}
+        disabled={!onNextScripture}
+        title="Skip to the next scripture reference"
+      >
+        <SkipForward className="h-4 w-4" />
+        Next scripture
+      </Button>
+    </div>
+  );
+}
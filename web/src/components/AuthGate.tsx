@@ -4,13 +4,19 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { useTransparentPage } from '@/hooks/useTransparentPage';
 import { authService } from '@/services/authService';
 
 interface AuthGateProps {
   onAuthenticated: (username: string) => void;
+  /**
+   * A small prompt on a transparent page, for the livestream overlay: it is
+   * signed in once through the browser source's Interact window.
+   */
+  overlay?: boolean;
 }
 
-export function AuthGate({ onAuthenticated }: AuthGateProps) {
+export function AuthGate({ onAuthenticated, overlay = false }: AuthGateProps) {
   const [username, setUsername] = useState('');
   const [busy, setBusy] = useState(false);
 
@@ -32,6 +38,27 @@ export function AuthGate({ onAuthenticated }: AuthGateProps) {
     }
   };
 
+  if (overlay) {
+    return (
+      <OverlayPrompt>
+        <form onSubmit={submit} className="flex items-center gap-2">
+          <Input
+            aria-label="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="off"
+            disabled={busy}
+            className="h-9 w-40"
+          />
+          <Button type="submit" size="sm" disabled={busy}>
+            {busy ? 'Claiming...' : 'Show captions'}
+          </Button>
+        </form>
+      </OverlayPrompt>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <Card className="w-full max-w-sm">
@@ -64,3 +91,13 @@ export function AuthGate({ onAuthenticated }: AuthGateProps) {
     </div>
   );
 }
+
+function OverlayPrompt({ children }: { children: React.ReactNode }) {
+  useTransparentPage();
+  return (
+    <div className="fixed left-2 top-2 space-y-1 rounded-md bg-black/60 p-2 text-xs text-white">
+      <p>Sign in once to show captions (OBS: right-click the source → Interact).</p>
+      {children}
+    </div>
+  );
+}
@@ -1,23 +1,33 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { FileAudio } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { LanguageSelect } from './LanguageSelect';
+import { SessionHistory } from './SessionHistory';
+import { useSettings } from '@/hooks/useSettings';
 import { sessionService } from '@/services/sessionService';
 import type { SessionDto } from '@/types/api';
 
 interface CreateSessionProps {
   username: string;
   onCreated: (session: SessionDto) => void;
+  /** A session was created to hold a transcript of `recording`. */
+  onImport: (session: SessionDto, recording: File) => void;
   onJoin: (code: string) => void;
+  onOpen: (session: SessionDto) => void;
   onSignOut: () => void;
 }
 
-export function CreateSession({ username, onCreated, onJoin, onSignOut }: CreateSessionProps) {
+export function CreateSession({ username, onCreated, onImport, onJoin, onOpen, onSignOut }: CreateSessionProps) {
   const [title, setTitle] = useState('');
   const [joinCode, setJoinCode] = useState('');
-  const [busy, setBusy] = useState<'create' | 'join' | null>(null);
+  const [busy, setBusy] = useState<'create' | 'import' | 'join' | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { settings, update } = useSettings();
+  const language = settings.sessionLanguage;
 
   const create = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,7 +38,7 @@ export function CreateSession({ username, onCreated, onJoin, onSignOut }: Create
     }
     setBusy('create');
     try {
-      const session = await sessionService.create({ title: trimmed, language: 'en' });
+      const session = await sessionService.create({ title: trimmed, language });
       onCreated(session);
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to create session.');
@@ -37,6 +47,24 @@ export function CreateSession({ username, onCreated, onJoin, onSignOut }: Create
     }
   };
 
+  const importRecording = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change.
+    e.target.value = '';
+    if (!file) return;
+    // A blank title falls back to the file name, minus its extension.
+    const trimmed = title.trim() || file.name.replace(/\.[^.]+$/, '').slice(0, 200) || 'Imported recording';
+    setBusy('import');
+    try {
+      const session = await sessionService.create({ title: trimmed, language });
+      onImport(session, file);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create session.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
   const join = async (e: React.FormEvent) => {
     e.preventDefault();
     const code = joinCode.trim().toUpperCase();
@@ -57,7 +85,7 @@ export function CreateSession({ username, onCreated, onJoin, onSignOut }: Create
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
-      <div className="w-full max-w-2xl space-y-6">
+      <div className="w-full max-w-3xl space-y-6">
         <header className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-semibold">HOPTranscribe v2</h1>
@@ -72,7 +100,7 @@ export function CreateSession({ username, onCreated, onJoin, onSignOut }: Create
           <Card>
             <CardHeader>
               <CardTitle>Start a new session</CardTitle>
-              <CardDescription>Create a session to record and transcribe.</CardDescription>
+              <CardDescription>Record and transcribe live, or import a recorded sermon.</CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={create} className="space-y-4">
@@ -83,12 +111,41 @@ export function CreateSession({ username, onCreated, onJoin, onSignOut }: Create
                     value={title}
                     onChange={(e) => setTitle(e.target.value)}
                     placeholder="Sunday morning service"
-                    disabled={busy === 'create'}
+                    disabled={busy === 'create' || busy === 'import'}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="language">Language</Label>
+                  <LanguageSelect
+                    id="language"
+                    value={language}
+                    onChange={(next) => update({ sessionLanguage: next })}
+                    disabled={busy === 'create' || busy === 'import'}
                   />
+                  <p className="text-xs text-muted-foreground">
+                    What the preacher speaks. Scripture is quoted from a version in this language.
+                  </p>
                 </div>
-                <Button type="submit" className="w-full" disabled={busy === 'create'}>
+                <Button type="submit" className="w-full" disabled={busy === 'create' || busy === 'import'}>
                   {busy === 'create' ? 'Creating...' : 'Create session'}
                 </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  disabled={busy === 'create' || busy === 'import'}
+                  onClick={() => fileInput.current?.click()}
+                >
+                  <FileAudio className="h-4 w-4" />
+                  {busy === 'import' ? 'Creating...' : 'Import recording'}
+                </Button>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept="audio/*,video/*"
+                  className="hidden"
+                  onChange={importRecording}
+                />
               </form>
             </CardContent>
           </Card>
@@ -118,6 +175,8 @@ export function CreateSession({ username, onCreated, onJoin, onSignOut }: Create
             </CardContent>
           </Card>
         </div>
+
+        <SessionHistory onOpen={onOpen} />
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { downloadText } from '@/lib/download';
+import { EXPORT_FORMATS, exportTranscript, type ExportFormat } from '@/lib/transcriptExport';
+import { sessionService } from '@/services/sessionService';
+import type { SessionDto } from '@/types/api';
+
+interface ExportMenuProps {
+  session: SessionDto;
+  minConfidence: number;
+  /** Offered when this browser holds a recording of the session. */
+  onDownloadAudio?: () => Promise<void>;
+}
+
+export function ExportMenu({ session, minConfidence, onDownloadAudio }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape, like a native menu.
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', onPointer);
+    document.addEventListener('keydown', onKey);
+    return () => {
+      document.removeEventListener('mousedown', onPointer);
+      document.removeEventListener('keydown', onKey);
+    };
+  }, [open]);
+
+  const runExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      // Export from the server copy so unsaved (pending) segments never leak into captions.
+      const segments = await sessionService.listTranscripts(session.code);
+      if (!segments || segments.length === 0) {
+        toast.error('Nothing to export yet.');
+        return;
+      }
+      const file = exportTranscript(format, session, segments, { minConfidence });
+      downloadText(file.content, file.filename, file.mimeType);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadAudio = async () => {
+    if (!onDownloadAudio) return;
+    setOpen(false);
+    setBusy(true);
+    try {
+      await onDownloadAudio();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not read the recording.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen((o) => !o)}
+        disabled={busy}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Download className="h-4 w-4" />
+        Export
+        <ChevronDown className="h-3 w-3 opacity-60" />
+      </Button>
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 z-40 mt-1 w-56 overflow-hidden rounded-md border bg-background py-1 shadow-lg"
+        >
+          {EXPORT_FORMATS.map((f) => (
+            <button
+              key={f.format}
+              role="menuitem"
+              type="button"
+              onClick={() => void runExport(f.format)}
+              className="block w-full px-3 py-2 text-left text-sm transition-colors hover:bg-muted"
+            >
+              {f.label}
+            </button>
+          ))}
+          {onDownloadAudio && (
+            <button
+              role="menuitem"
+              type="button"
+              onClick={() => void downloadAudio()}
+              className="block w-full border-t px-3 py-2 text-left text-sm transition-colors hover:bg-muted"
+            >
+              Audio recording
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
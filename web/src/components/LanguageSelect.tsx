@@ -0,0 +1,78 @@
+import { Languages } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AUTO_LANGUAGE, isSessionLanguage, SESSION_LANGUAGES, type SessionLanguage } from '@/constants/languages';
+
+interface LanguageSelectProps {
+  id?: string;
+  value: string;
+  onChange: (language: SessionLanguage) => void;
+  disabled?: boolean;
+  /** Header-sized, with an icon instead of a label. */
+  compact?: boolean;
+  className?: string;
+}
+
+/** Picks the language a session is transcribed (and its scripture quoted) in. */
+export function LanguageSelect({ id, value, onChange, disabled, compact, className }: LanguageSelectProps) {
+  const select = (
+    <select
+      id={id}
+      aria-label={compact ? 'Transcription language' : undefined}
+      className={cn(
+        'rounded-md border border-input bg-background text-sm',
+        compact ? 'h-8 px-2' : 'flex h-10 w-full px-3 py-2',
+        className,
+      )}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => {
+        if (isSessionLanguage(e.target.value)) onChange(e.target.value);
+      }}
+    >
+      {/* A code this build does not know (set by a newer client) still shows. */}
+      {!isSessionLanguage(value) && <option value={value}>{value.toUpperCase()}</option>}
+      {SESSION_LANGUAGES.map((l) => (
+        <option key={l.code} value={l.code}>
+          {l.label}
+        </option>
+      ))}
+    </select>
+  );
+  if (!compact) return select;
+  return (
+    <span className="flex items-center gap-1.5 text-muted-foreground" title="Transcription language">
+      <Languages className="h-4 w-4" />
+      {select}
+    </span>
+  );
+}
+
+interface CaptionLanguageSelectProps {
+  /** Empty for the language being spoken. */
+  value: string;
+  onChange: (language: string) => void;
+  /** The session's language, labelled as the original. */
+  spokenLanguage?: string;
+}
+
+/** Lets a viewer read the captions translated into their own language. */
+export function CaptionLanguageSelect({ value, onChange, spokenLanguage }: CaptionLanguageSelectProps) {
+  return (
+    <span className="flex items-center gap-1.5 text-muted-foreground" title="Caption language">
+      <Languages className="h-3.5 w-3.5" />
+      <select
+        aria-label="Caption language"
+        className="h-7 rounded-md border border-input bg-background px-1.5 text-xs"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <option value="">Original</option>
+        {SESSION_LANGUAGES.filter((l) => l.code !== AUTO_LANGUAGE && l.code !== spokenLanguage).map((l) => (
+          <option key={l.code} value={l.code}>
+            {l.label}
+          </option>
+        ))}
+      </select>
+    </span>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { toDecibels, type VadLevel } from '@/lib/vad';
+
+interface LevelMeterProps {
+  /** Polled every animation frame; null while there is no signal. */
+  read: () => VadLevel | null;
+  className?: string;
+}
+
+/** Meter range: -60 dBFS (silence) to 0 dBFS (clipping). */
+const FLOOR_DB = -60;
+
+function toPercent(amplitude: number): number {
+  const db = toDecibels(amplitude);
+  return Number.isFinite(db) ? Math.min(100, Math.max(0, ((db - FLOOR_DB) / -FLOOR_DB) * 100)) : 0;
+}
+
+/**
+ * Live microphone level with the speech threshold marked on it. Written
+ * straight to the DOM from a rAF loop so the session view does not re-render
+ * at meter rate.
+ */
+export function LevelMeter({ read, className }: LevelMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const markRef = useRef<HTMLDivElement>(null);
+  const readRef = useRef(read);
+  readRef.current = read;
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const level = readRef.current();
+      if (barRef.current) {
+        barRef.current.style.width = `${level ? toPercent(level.level) : 0}%`;
+        barRef.current.classList.toggle('bg-emerald-500', Boolean(level?.speaking));
+        barRef.current.classList.toggle('bg-muted-foreground/50', !level?.speaking);
+      }
+      if (markRef.current) {
+        markRef.current.style.left = `${level ? toPercent(level.threshold) : 0}%`;
+        markRef.current.style.opacity = level ? '1' : '0';
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div
+      className={`relative h-2 w-24 overflow-hidden rounded-full bg-muted ${className ?? ''}`}
+      role="img"
+      aria-label="Microphone level"
+      title="Microphone level. The tick marks where speech starts counting."
+    >
+      <div ref={barRef} className="h-full w-0 bg-muted-foreground/50 transition-[width] duration-75" />
+      <div ref={markRef} className="absolute top-0 h-full w-0.5 bg-foreground opacity-0" />
+    </div>
+  );
+}
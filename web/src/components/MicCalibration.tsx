@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import { AudioLines } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { LevelMeter } from './LevelMeter';
+import { useSettings } from '@/hooks/useSettings';
+import { calibrateThreshold, toDecibels, type VadLevel } from '@/lib/vad';
+import { audioProcessingOf } from '@/services/audioInput';
+import { openMicLevel, type MicLevel } from '@/services/micLevel';
+
+/** How long to listen to the room, and how often to sample it. */
+const LISTEN_MS = 3000;
+const SAMPLE_MS = 100;
+
+type Phase = 'ready' | 'listening' | 'done';
+
+function formatDb(amplitude: number): string {
+  return `${toDecibels(amplitude).toFixed(0)} dB`;
+}
+
+/**
+ * Listens to the room with nobody speaking and suggests a speech threshold
+ * just above its noise. Meant for before the service starts: with music or
+ * air handling running, and again in a quiet room.
+ */
+export function MicCalibration() {
+  const { settings, update } = useSettings();
+  const [open, setOpen] = useState(false);
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [result, setResult] = useState<{ floor: number; threshold: number } | null>(null);
+  const micRef = useRef<MicLevel | null>(null);
+  const levelRef = useRef<VadLevel | null>(null);
+  const thresholdRef = useRef(settings.vadThreshold);
+  thresholdRef.current = result?.threshold ?? settings.vadThreshold;
+
+  const { inputDeviceId, echoCancellation, noiseSuppression, autoGainControl } = settings;
+
+  // The mic stays open while the dialog is, so the meter shows the room live.
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    let timer = 0;
+    const processing = audioProcessingOf({ echoCancellation, noiseSuppression, autoGainControl });
+    void openMicLevel(inputDeviceId || undefined, processing)
+      .then((mic) => {
+        if (cancelled) {
+          void mic.close();
+          return;
+        }
+        micRef.current = mic;
+        timer = window.setInterval(() => {
+          const level = mic.read();
+          const threshold = thresholdRef.current;
+          levelRef.current = { level, floor: 0, threshold, speaking: level >= threshold };
+        }, SAMPLE_MS);
+      })
+      .catch((err) => {
+        toast.error(err instanceof Error ? err.message : 'Could not open the microphone.');
+        setOpen(false);
+      });
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      levelRef.current = null;
+      void micRef.current?.close();
+      micRef.current = null;
+    };
+  }, [open, inputDeviceId, echoCancellation, noiseSuppression, autoGainControl]);
+
+  const listen = async () => {
+    setPhase('listening');
+    setResult(null);
+    const levels: number[] = [];
+    const started = performance.now();
+    while (performance.now() - started < LISTEN_MS && micRef.current) {
+      await new Promise((resolve) => window.setTimeout(resolve, SAMPLE_MS));
+      if (micRef.current) levels.push(micRef.current.read());
+    }
+    const calibrated = calibrateThreshold(levels);
+    if (!calibrated) {
+      setPhase('ready');
+      return;
+    }
+    setResult(calibrated);
+    setPhase('done');
+  };
+
+  const apply = () => {
+    if (!result) return;
+    update({ vadThreshold: result.threshold });
+    toast.success(`Speech threshold set to ${formatDb(result.threshold)}`);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          setPhase('ready');
+          setResult(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Calibrate microphone" title="Calibrate microphone">
+          <AudioLines className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Calibrate microphone</DialogTitle>
+          <DialogDescription>
+            Stay quiet for a few seconds with the room as it will be during the service: music, fans, the congregation
+            settling in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <LevelMeter read={() => levelRef.current} className="h-3 w-full" />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Current threshold {formatDb(settings.vadThreshold)}</span>
+            {result && (
+              <span className="font-semibold text-foreground">
+                Room {formatDb(result.floor)} · suggested {formatDb(result.threshold)}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => void listen()} disabled={phase === 'listening'}>
+            {phase === 'listening' ? 'Listening...' : phase === 'done' ? 'Listen again' : 'Start listening'}
+          </Button>
+          <Button onClick={apply} disabled={!result}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { LevelMeter } from './LevelMeter';
+import { useAudioInputDevices } from '@/hooks/useAudioInputDevices';
+import { useSettings } from '@/hooks/useSettings';
+import type { VadLevel } from '@/lib/vad';
+import { audioProcessingOf } from '@/services/audioInput';
+import { openMicLevel } from '@/services/micLevel';
+
+/** How often the test meter samples the microphone. */
+const MONITOR_MS = 50;
+
+/**
+ * Input device selector with an optional live meter, so the sound-desk feed
+ * can be picked and checked before the service starts.
+ */
+export function MicrophonePicker() {
+  const { settings, update } = useSettings();
+  const { devices, refresh } = useAudioInputDevices();
+  const [monitoring, setMonitoring] = useState(false);
+  const levelRef = useRef<VadLevel | null>(null);
+  const missing = settings.inputDeviceId !== '' && !devices.some((d) => d.deviceId === settings.inputDeviceId);
+  const { echoCancellation, noiseSuppression, autoGainControl } = settings;
+
+  useEffect(() => {
+    if (!monitoring) return;
+    let cancelled = false;
+    let timer = 0;
+    let close: (() => Promise<void>) | null = null;
+    const processing = audioProcessingOf({ echoCancellation, noiseSuppression, autoGainControl });
+    void openMicLevel(settings.inputDeviceId || undefined, processing)
+      .then((mic) => {
+        close = mic.close;
+        if (cancelled) {
+          void mic.close();
+          return;
+        }
+        // Labels only appear once the page has microphone access.
+        void refresh();
+        timer = window.setInterval(() => {
+          const level = mic.read();
+          levelRef.current = { level, floor: 0, threshold: settings.vadThreshold, speaking: level >= settings.vadThreshold };
+        }, MONITOR_MS);
+      })
+      .catch((err) => {
+        console.warn('Could not open the microphone', err);
+        if (!cancelled) setMonitoring(false);
+      });
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      levelRef.current = null;
+      void close?.();
+    };
+  }, [
+    monitoring,
+    settings.inputDeviceId,
+    settings.vadThreshold,
+    echoCancellation,
+    noiseSuppression,
+    autoGainControl,
+    refresh,
+  ]);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="input-device">Microphone</Label>
+      <div className="flex items-center gap-2">
+        <select
+          id="input-device"
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          value={settings.inputDeviceId}
+          onChange={(e) => update({ inputDeviceId: e.target.value })}
+        >
+          <option value="">System default</option>
+          {devices.map((d) => (
+            <option key={d.deviceId} value={d.deviceId}>
+              {d.label}
+            </option>
+          ))}
+          {missing && <option value={settings.inputDeviceId}>Disconnected microphone</option>}
+        </select>
+        <Button variant="outline" size="sm" onClick={() => setMonitoring((on) => !on)}>
+          {monitoring ? 'Stop test' : 'Test'}
+        </Button>
+      </div>
+      {monitoring && <LevelMeter read={() => levelRef.current} className="h-2 w-full" />}
+      <p className="text-xs text-muted-foreground">
+        {missing
+          ? 'The chosen microphone is not connected; recording will fail until it is plugged back in or another is picked.'
+          : 'Pick the sound-desk feed if there is one. Changing it while recording switches over and keeps the transcript going.'}
+      </p>
+    </div>
+  );
+}
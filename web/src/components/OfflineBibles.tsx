@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useBibleText } from '@/hooks/useBibleText';
+
+/**
+ * Bible versions kept in this browser for quotes and verse previews. Loading
+ * one is a one-off file import, so it also works with no connection.
+ */
+export function OfflineBibles() {
+  const { versions, importFile, removeVersion } = useBibleText();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+
+  const load = async (file: File) => {
+    setImporting(true);
+    try {
+      const info = await importFile(file);
+      toast.success(`${info.name} loaded (${info.verseCount.toLocaleString()} verses).`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not load the Bible file.');
+    } finally {
+      setImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const remove = async (version: string) => {
+    try {
+      await removeVersion(version);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not remove the version.');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="bible-file">Offline Bible text</Label>
+        <Button size="sm" variant="outline" disabled={importing} onClick={() => inputRef.current?.click()}>
+          <Upload className="h-3.5 w-3.5" />
+          {importing ? 'Loading...' : 'Load file'}
+        </Button>
+        <input
+          id="bible-file"
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void load(file);
+          }}
+        />
+      </div>
+      {versions.length > 0 && (
+        <ul className="divide-y rounded-md border text-sm">
+          {versions.map((v) => (
+            <li key={v.version} className="flex items-center justify-between gap-2 px-3 py-1.5">
+              <span>
+                <span className="font-semibold">{v.version}</span>
+                {v.name !== v.version && <span className="text-muted-foreground"> · {v.name}</span>}
+                <span className="ml-1.5 text-xs text-muted-foreground">{v.verseCount.toLocaleString()} verses</span>
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                aria-label={`Remove ${v.version}`}
+                onClick={() => void remove(v.version)}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Public-domain versions such as KJV or WEB, as JSON. Used to fill in and check quotes and to preview verses,
+        with or without a connection.
+      </p>
+    </div>
+  );
+}
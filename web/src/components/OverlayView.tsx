@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLiveSegments } from '@/hooks/useLiveSegments';
+import { useSettings } from '@/hooks/useSettings';
+import { useTransparentPage } from '@/hooks/useTransparentPage';
+import { rollingCaptionLines, type OverlayConfig } from '@/lib/overlay';
+import { presentableMatches, type PresentedMatch } from '@/lib/presenter';
+import { cn } from '@/lib/utils';
+
+interface OverlayViewProps {
+  sessionCode: string;
+  config: OverlayConfig;
+}
+
+/**
+ * Chromeless captions for an OBS browser source: rolling caption lines plus a
+ * scripture lower-third on a transparent page. Nothing here is interactive.
+ */
+export function OverlayView({ sessionCode, config }: OverlayViewProps) {
+  const { settings } = useSettings();
+  const { segments, partial, loaded } = useLiveSegments({ sessionCode });
+
+  // Let the stream show through everywhere the overlay does not draw.
+  useTransparentPage();
+
+  const lines = useMemo(
+    () => rollingCaptionLines(segments, partial, config),
+    [segments, partial, config],
+  );
+
+  const latest = useMemo(
+    () => (config.hideMatches ? null : presentableMatches(segments, 'latest', settings.minConfidence)[0] ?? null),
+    [segments, config.hideMatches, settings.minConfidence],
+  );
+
+  // A reference appears when it is new and leaves after `matchSeconds`.
+  // Whatever was already on screen before the overlay loaded stays hidden.
+  const [shown, setShown] = useState<PresentedMatch | null>(null);
+  const seenKey = useRef<string | null | undefined>(undefined);
+  const hideTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    return () => {
+      if (hideTimer.current) clearTimeout(hideTimer.current);
+    };
+  }, []);
+  useEffect(() => {
+    if (!loaded) return;
+    const key = latest?.key ?? null;
+    if (seenKey.current === undefined) {
+      seenKey.current = key;
+      return;
+    }
+    if (key === seenKey.current) {
+      // Same reference, possibly re-sent with a corrected quote.
+      setShown((prev) => (prev && latest && prev.key === latest.key ? latest : prev));
+      return;
+    }
+    seenKey.current = key;
+    setShown(latest);
+    if (hideTimer.current) clearTimeout(hideTimer.current);
+    hideTimer.current =
+      latest && config.matchSeconds > 0 ? setTimeout(() => setShown(null), config.matchSeconds * 1000) : null;
+  }, [loaded, latest, config.matchSeconds]);
+
+  const captionBox = lines.length > 0 && (
+    <div
+      className="mx-auto w-fit max-w-[90vw] rounded-md px-[0.6em] py-[0.3em]"
+      style={{ background: config.background, color: config.color }}
+    >
+      {lines.map((line, i) => (
+        <p key={`${i}-${line}`} className="whitespace-nowrap leading-snug">
+          {line}
+        </p>
+      ))}
+    </div>
+  );
+
+  const lowerThird = shown && (
+    <div
+      key={shown.key}
+      className="w-fit max-w-[70vw] rounded-md px-[0.8em] py-[0.5em] animate-in fade-in-0 slide-in-from-left-4 duration-500"
+      style={{ background: config.background, color: config.color, fontSize: '0.8em' }}
+    >
+      <p className="font-bold uppercase tracking-wide">
+        {shown.match.reference}
+        <span className="ml-[0.5em] text-[0.6em] font-semibold opacity-75">{shown.match.version}</span>
+      </p>
+      {shown.match.quote && <p className="mt-[0.2em] text-[0.75em] italic leading-snug">{shown.match.quote}</p>}
+    </div>
+  );
+
+  return (
+    <div
+      className={cn(
+        'flex h-screen w-screen flex-col gap-[0.5em] overflow-hidden p-[0.8em]',
+        config.position === 'top' ? 'justify-between' : 'justify-end',
+      )}
+      style={{ fontFamily: config.font, fontSize: `${config.size}px` }}
+    >
+      {config.position === 'top' ? (
+        <>
+          {captionBox || <span />}
+          {lowerThird}
+        </>
+      ) : (
+        <>
+          {lowerThird}
+          {captionBox}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { BookOpen, WifiOff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useBibleText } from '@/hooks/useBibleText';
+import {
+  compareChoices,
+  comparisonRows,
+  defaultCompareVersions,
+  MAX_COMPARE_VERSIONS,
+} from '@/lib/passage';
+import { cn } from '@/lib/utils';
+import { passageService } from '@/services/passageService';
+import type { PassageVerseDto, ScriptureMatchDto } from '@/types/api';
+
+type ChapterState =
+  | { status: 'loading' }
+  | { status: 'ready'; verses: PassageVerseDto[]; offline: boolean }
+  | { status: 'error'; message: string };
+
+const chapterKey = (version: string, book: string, chapter: number) => `${version}|${book}|${chapter}`;
+
+interface PassageDrawerProps {
+  /** The match whose chapter to show; null keeps the drawer closed. */
+  match: ScriptureMatchDto | null;
+  onClose: () => void;
+}
+
+/**
+ * Side drawer with the whole chapter around a match, its verses highlighted,
+ * and versions side by side, so staff can pick what goes on screen. Text
+ * loaded offline is used first; other versions come from the API.
+ */
+export function PassageDrawer({ match, onClose }: PassageDrawerProps) {
+  const { versions: offlineVersions, readChapter } = useBibleText();
+  const offline = useMemo(() => offlineVersions.map((v) => v.version), [offlineVersions]);
+  // Only a new match resets the columns; loading a version offline meanwhile shouldn't.
+  const offlineRef = useRef(offline);
+  offlineRef.current = offline;
+  const [selected, setSelected] = useState<string[]>([]);
+  // Kept across matches: the same chapter tends to come up again in one sermon.
+  const [chapters, setChapters] = useState<Record<string, ChapterState>>({});
+  const requestedRef = useRef(new Set<string>());
+  const highlightRef = useRef<HTMLTableRowElement>(null);
+
+  const book = match?.book;
+  const chapter = match?.chapter;
+  const matchVersion = match?.version;
+
+  useEffect(() => {
+    if (matchVersion) setSelected(defaultCompareVersions(matchVersion, offlineRef.current));
+  }, [matchVersion, book, chapter]);
+
+  useEffect(() => {
+    if (!book || !chapter) return;
+    for (const version of selected) {
+      const key = chapterKey(version, book, chapter);
+      if (requestedRef.current.has(key)) continue;
+      requestedRef.current.add(key);
+      setChapters((prev) => ({ ...prev, [key]: { status: 'loading' } }));
+      void loadChapter(readChapter, book, chapter, version).then((state) => {
+        if (state.status === 'error') requestedRef.current.delete(key);
+        setChapters((prev) => ({ ...prev, [key]: state }));
+      });
+    }
+  }, [book, chapter, selected, readChapter]);
+
+  useEffect(() => {
+    if (!match) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [match, onClose]);
+
+  const columns = useMemo(
+    () => selected.map((version) => (book && chapter ? chapters[chapterKey(version, book, chapter)] : undefined)),
+    [selected, chapters, book, chapter],
+  );
+
+  const rows = useMemo(() => {
+    if (!match) return [];
+    const ready: Record<string, PassageVerseDto[]> = {};
+    selected.forEach((version, i) => {
+      const state = columns[i];
+      if (state?.status === 'ready') ready[version] = state.verses;
+    });
+    return comparisonRows(match, selected, ready);
+  }, [match, selected, columns]);
+
+  const anyReady = columns.some((c) => c?.status === 'ready');
+
+  // Bring the matched verses into view once there is text to show.
+  useEffect(() => {
+    if (anyReady) highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [anyReady, match]);
+
+  if (!match) return null;
+
+  const toggle = (version: string) =>
+    setSelected((prev) =>
+      prev.includes(version)
+        ? prev.length > 1
+          ? prev.filter((v) => v !== version)
+          : prev
+        : prev.length < MAX_COMPARE_VERSIONS
+          ? [...prev, version]
+          : prev,
+    );
+
+  const firstHighlighted = rows.find((r) => r.highlighted)?.verse;
+
+  return (
+    <aside
+      aria-label={`${match.book} ${match.chapter}`}
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-3xl flex-col border-l bg-background shadow-xl"
+    >
+      <div className="flex items-start justify-between gap-3 border-b px-4 py-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-base font-semibold">
+            <BookOpen className="h-4 w-4 text-indigo-500" />
+            {match.book} {match.chapter}
+          </h2>
+          <p className="text-xs text-muted-foreground">Matched {match.reference}</p>
+        </div>
+        <Button variant="ghost" size="icon" aria-label="Close passage" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 border-b px-4 py-2">
+        {compareChoices(match.version, offline).map((version) => {
+          const on = selected.includes(version);
+          return (
+            <button
+              key={version}
+              type="button"
+              aria-pressed={on}
+              onClick={() => toggle(version)}
+              disabled={!on && selected.length >= MAX_COMPARE_VERSIONS}
+              className={cn(
+                'rounded border px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide transition-colors disabled:opacity-40',
+                on ? 'border-indigo-500 bg-indigo-600 text-white' : 'border-indigo-200 text-indigo-600 hover:bg-indigo-50',
+              )}
+            >
+              {version}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full table-fixed border-collapse text-sm">
+          <thead className="sticky top-0 bg-background">
+            <tr className="border-b">
+              <th className="w-10" />
+              {selected.map((version, i) => (
+                <th key={version} className="px-3 py-2 text-left text-xs font-semibold uppercase tracking-wide">
+                  <ColumnHeader version={version} state={columns[i]} />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.verse}
+                ref={row.verse === firstHighlighted ? highlightRef : undefined}
+                className={cn('border-b align-top', row.highlighted && 'bg-indigo-50')}
+              >
+                <td
+                  className={cn(
+                    'px-2 py-1.5 text-right font-mono text-xs text-muted-foreground',
+                    row.highlighted && 'font-semibold text-indigo-600',
+                  )}
+                >
+                  {row.verse}
+                </td>
+                {row.texts.map((text, i) => (
+                  <td key={selected[i]} className="px-3 py-1.5 leading-snug">
+                    {text ?? (columns[i]?.status === 'ready' ? <span className="text-muted-foreground">—</span> : null)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </aside>
+  );
+}
+
+function ColumnHeader({ version, state }: { version: string; state: ChapterState | undefined }) {
+  return (
+    <>
+      <span className="flex items-center gap-1.5">
+        {version}
+        {state?.status === 'ready' && state.offline && (
+          <span title="From text loaded in this browser">
+            <WifiOff className="h-3 w-3 text-muted-foreground" />
+          </span>
+        )}
+      </span>
+      {state?.status === 'loading' && (
+        <p className="text-[10px] font-normal normal-case text-muted-foreground">Loading...</p>
+      )}
+      {state?.status === 'error' && (
+        <p className="text-[10px] font-normal normal-case text-destructive">{state.message}</p>
+      )}
+    </>
+  );
+}
+
+async function loadChapter(
+  readChapter: (book: string, chapter: number, version: string) => Promise<PassageVerseDto[]>,
+  book: string,
+  chapter: number,
+  version: string,
+): Promise<ChapterState> {
+  try {
+    const local = await readChapter(book, chapter, version);
+    if (local.length > 0) return { status: 'ready', verses: local, offline: true };
+  } catch {
+    /* fall through to the API */
+  }
+  try {
+    const passage = await passageService.getChapter(book, chapter, version);
+    return { status: 'ready', verses: passage.verses, offline: false };
+  } catch (err) {
+    const message = navigator.onLine
+      ? err instanceof Error
+        ? err.message
+        : 'Could not load this version.'
+      : 'Offline, and not loaded in this browser.';
+    return { status: 'error', message };
+  }
+}
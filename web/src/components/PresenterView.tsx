@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Captions,
+  CaptionsOff,
+  Maximize,
+  Minimize,
+  Pin,
+  Radio,
+} from 'lucide-react';
+import { sessionPath } from '@/constants/routes';
+import { useLiveSegments } from '@/hooks/useLiveSegments';
+import {
+  clampScale,
+  PRESENTER_FONT_SCALE,
+  PRESENTER_THEMES,
+  usePresenterSettings,
+  type PresenterTheme,
+} from '@/hooks/usePresenterSettings';
+import { useSettings } from '@/hooks/useSettings';
+import { latestCaption, presentableMatches } from '@/lib/presenter';
+import { cn } from '@/lib/utils';
+import type { SessionDto } from '@/types/api';
+
+interface PresenterViewProps {
+  session: SessionDto;
+}
+
+const THEME_CLASSES: Record<PresenterTheme, { root: string; reference: string; muted: string; caption: string }> = {
+  dark: {
+    root: 'bg-black text-white',
+    reference: 'text-indigo-300',
+    muted: 'text-white/60',
+    caption: 'bg-black/80 text-white',
+  },
+  light: {
+    root: 'bg-white text-slate-900',
+    reference: 'text-indigo-700',
+    muted: 'text-slate-500',
+    caption: 'bg-slate-900/85 text-white',
+  },
+  contrast: {
+    root: 'bg-black text-yellow-300 font-semibold',
+    reference: 'text-white',
+    muted: 'text-yellow-100',
+    caption: 'bg-black text-white border-t-4 border-yellow-300',
+  },
+};
+
+const THEME_LABELS: Record<PresenterTheme, string> = {
+  dark: 'Dark',
+  light: 'Light',
+  contrast: 'High contrast',
+};
+
+/** How long the control bar stays up after the mouse last moved. */
+const CONTROLS_IDLE_MS = 3000;
+
+/**
+ * Projector display: one scripture reference in large type and an optional
+ * live caption. Runs as a read-only hub client, so it can sit on a separate
+ * machine signed in as anyone.
+ *
+ * Keys: ←/→ (or PageUp/PageDown, as sent by clickers) step through recent
+ * matches, End/L returns to live, F toggles full screen, C captions, T theme,
+ * +/− type size.
+ */
+export function PresenterView({ session: initialSession }: PresenterViewProps) {
+  const { settings: appSettings } = useSettings();
+  const { settings, update } = usePresenterSettings();
+  const [session, setSession] = useState(initialSession);
+  const { segments, partial, loaded, error } = useLiveSegments({ sessionCode: session.code, onSessionUpdated: setSession });
+
+  const items = useMemo(
+    () => presentableMatches(segments, settings.source, appSettings.minConfidence),
+    [segments, settings.source, appSettings.minConfidence],
+  );
+  // null follows the newest match; a key holds a match the operator stepped back to.
+  const [heldKey, setHeldKey] = useState<string | null>(null);
+  const heldIndex = heldKey ? items.findIndex((i) => i.key === heldKey) : -1;
+  const index = heldIndex >= 0 ? heldIndex : 0;
+  const current = items[index] ?? null;
+  const following = heldIndex < 0;
+  // The live line while someone is speaking, otherwise the last thing said.
+  const caption = partial || latestCaption(segments);
+
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const step = useCallback(
+    (delta: number) => {
+      if (items.length === 0) return;
+      const next = Math.min(items.length - 1, Math.max(0, index + delta));
+      setHeldKey(next === 0 ? null : items[next].key);
+    },
+    [items, index],
+  );
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) void document.exitFullscreen();
+    else void document.documentElement.requestFullscreen?.().catch(() => undefined);
+  }, []);
+
+  const cycleTheme = useCallback(() => {
+    const i = PRESENTER_THEMES.indexOf(settings.theme);
+    update({ theme: PRESENTER_THEMES[(i + 1) % PRESENTER_THEMES.length] });
+  }, [settings.theme, update]);
+
+  const scaleBy = useCallback(
+    (delta: number) => update({ fontScale: clampScale(settings.fontScale + delta) }),
+    [settings.fontScale, update],
+  );
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+          step(1);
+          break;
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+          step(-1);
+          break;
+        case 'Home':
+          setHeldKey(items.length > 1 ? items[items.length - 1].key : null);
+          break;
+        case 'End':
+        case 'l':
+        case 'L':
+          setHeldKey(null);
+          break;
+        case 'f':
+        case 'F':
+          toggleFullscreen();
+          break;
+        case 'c':
+        case 'C':
+          update({ showCaptions: !settings.showCaptions });
+          break;
+        case 't':
+        case 'T':
+          cycleTheme();
+          break;
+        case '+':
+        case '=':
+          scaleBy(PRESENTER_FONT_SCALE.step);
+          break;
+        case '-':
+          scaleBy(-PRESENTER_FONT_SCALE.step);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [step, items, toggleFullscreen, update, settings.showCaptions, cycleTheme, scaleBy]);
+
+  // Hide the controls (and the cursor) while nobody is touching the mouse.
+  const revealControls = useCallback(() => {
+    setControlsVisible(true);
+    if (idleTimer.current) clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(() => setControlsVisible(false), CONTROLS_IDLE_MS);
+  }, []);
+
+  useEffect(() => {
+    revealControls();
+    return () => {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+    };
+  }, [revealControls]);
+
+  const theme = THEME_CLASSES[settings.theme];
+  const scale = settings.fontScale;
+
+  return (
+    <div
+      onMouseMove={revealControls}
+      className={cn(
+        'relative flex h-screen w-screen flex-col overflow-hidden transition-colors',
+        theme.root,
+        !controlsVisible && 'cursor-none',
+      )}
+    >
+      <main className="flex flex-1 flex-col items-center justify-center px-[6vw] text-center">
+        {current ? (
+          <div key={current.key} className="max-w-[85vw] space-y-[3vh] animate-in fade-in-0 duration-500">
+            <div className="flex items-baseline justify-center gap-[1.5vw]">
+              <h1
+                className={cn('font-bold uppercase tracking-wide', theme.reference)}
+                style={{ fontSize: `${5.5 * scale}vw`, lineHeight: 1.1 }}
+              >
+                {current.match.reference}
+              </h1>
+              <span className={cn('font-semibold uppercase', theme.muted)} style={{ fontSize: `${1.8 * scale}vw` }}>
+                {current.match.version}
+              </span>
+            </div>
+            {current.match.quote && (
+              <p className="font-serif leading-snug" style={{ fontSize: `${3.2 * scale}vw` }}>
+                &ldquo;{current.match.quote}&rdquo;
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className={theme.muted} style={{ fontSize: `${2 * scale}vw` }}>
+            {error
+              ? error
+              : !loaded
+                ? 'Connecting…'
+                : settings.source === 'pinned'
+                  ? 'Waiting for the next pinned scripture…'
+                  : 'Waiting for scripture…'}
+          </p>
+        )}
+      </main>
+
+      {settings.showCaptions && caption && (
+        <div className={cn('px-[5vw] py-[2.5vh]', theme.caption)}>
+          <p className="line-clamp-2 text-center leading-snug" style={{ fontSize: `${2.2 * scale}vw` }}>
+            {caption}
+          </p>
+        </div>
+      )}
+
+      <div
+        className={cn(
+          'absolute inset-x-0 top-0 flex flex-wrap items-center justify-between gap-2 bg-black/70 px-4 py-2 text-xs text-white transition-opacity',
+          controlsVisible ? 'opacity-100' : 'pointer-events-none opacity-0',
+        )}
+      >
+        <div className="flex items-center gap-3">
+          <Link to={sessionPath(session.code)} className="flex items-center gap-1 hover:underline">
+            <ArrowLeft className="h-3.5 w-3.5" />
+            {session.title}
+          </Link>
+          <span className="font-mono text-white/60">{session.code}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <ControlButton title="Older (←)" onClick={() => step(1)} disabled={index >= items.length - 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </ControlButton>
+          <span className="min-w-[4.5rem] text-center tabular-nums">
+            {items.length > 0 ? `${index + 1} / ${items.length}` : '0 / 0'}
+          </span>
+          <ControlButton title="Newer (→)" onClick={() => step(-1)} disabled={index === 0}>
+            <ChevronRight className="h-4 w-4" />
+          </ControlButton>
+          <ControlButton title="Follow live (End)" onClick={() => setHeldKey(null)} active={following}>
+            <Radio className="h-4 w-4" />
+            <span>{following ? 'Live' : 'Go live'}</span>
+          </ControlButton>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <ControlButton
+            title="Show only pinned references"
+            onClick={() => update({ source: settings.source === 'pinned' ? 'latest' : 'pinned' })}
+            active={settings.source === 'pinned'}
+          >
+            <Pin className="h-4 w-4" />
+            <span>Pinned only</span>
+          </ControlButton>
+          <select
+            value={settings.theme}
+            onChange={(e) => update({ theme: e.target.value as PresenterTheme })}
+            aria-label="Theme"
+            className="rounded bg-white/10 px-2 py-1 text-xs"
+          >
+            {PRESENTER_THEMES.map((t) => (
+              <option key={t} value={t} className="text-black">
+                {THEME_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <ControlButton
+            title="Smaller text (−)"
+            onClick={() => scaleBy(-PRESENTER_FONT_SCALE.step)}
+            disabled={scale <= PRESENTER_FONT_SCALE.min}
+          >
+            A−
+          </ControlButton>
+          <span className="w-10 text-center tabular-nums">{Math.round(scale * 100)}%</span>
+          <ControlButton
+            title="Larger text (+)"
+            onClick={() => scaleBy(PRESENTER_FONT_SCALE.step)}
+            disabled={scale >= PRESENTER_FONT_SCALE.max}
+          >
+            A+
+          </ControlButton>
+          <ControlButton
+            title="Live caption (C)"
+            onClick={() => update({ showCaptions: !settings.showCaptions })}
+            active={settings.showCaptions}
+          >
+            {settings.showCaptions ? <Captions className="h-4 w-4" /> : <CaptionsOff className="h-4 w-4" />}
+          </ControlButton>
+          <ControlButton title="Full screen (F)" onClick={toggleFullscreen}>
+            {isFullscreen ? <Minimize className="h-4 w-4" /> : <Maximize className="h-4 w-4" />}
+          </ControlButton>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ControlButtonProps {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  children: React.ReactNode;
+}
+
+function ControlButton({ title, onClick, disabled, active, children }: ControlButtonProps) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-label={title}
+      aria-pressed={active}
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        'flex items-center gap-1 rounded px-2 py-1 font-semibold hover:bg-white/15 disabled:opacity-40',
+        active && 'bg-white/20',
+      )}
+    >
+      {children}
+    </button>
+  );
+}
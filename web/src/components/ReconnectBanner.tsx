@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Square, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ReconnectStatus } from '@/hooks/useTranscription';
+
+interface ReconnectBannerProps {
+  status: ReconnectStatus;
+  onRetryNow: () => void;
+  onStop: () => void;
+}
+
+/** Shown to the owner while transcription is down, with a countdown to the next attempt. */
+export function ReconnectBanner({ status, onRetryNow, onStop }: ReconnectBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const seconds = Math.ceil((status.retryAt - now) / 1000);
+  const waiting = seconds > 0;
+
+  return (
+    <div
+      role="status"
+      className="flex flex-wrap items-center gap-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800"
+    >
+      <WifiOff className="h-4 w-4 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium">
+          Transcription connection lost · {waiting ? `retrying in ${seconds}s` : 'reconnecting'} (attempt{' '}
+          {status.attempt})
+        </p>
+        <p className="truncate text-xs text-amber-700" title={status.reason}>
+          {status.buffering && 'Still recording; speech from the gap is transcribed once the connection is back. '}
+          {status.reason}
+        </p>
+      </div>
+      <Button size="sm" variant="outline" onClick={onRetryNow} disabled={!waiting}>
+        {waiting ? <RefreshCw className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+        Retry now
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onStop}>
+        <Square className="h-4 w-4" />
+        Stop
+      </Button>
+    </div>
+  );
+}
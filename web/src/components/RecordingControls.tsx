@@ -1,13 +1,22 @@
-import { Mic, Square } from 'lucide-react';
+import { Mic, Pause, Play, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { LevelMeter } from './LevelMeter';
+import type { VadLevel } from '@/lib/vad';
 import type { RealtimeConnectionState } from '@/types/realtime';
 
 interface RecordingControlsProps {
   state: RealtimeConnectionState;
   onStart: () => void;
   onStop: () => void;
+  /** Shown when the running source can pause without disconnecting. */
+  onPause?: () => void;
+  onResume?: () => void;
   isOwner: boolean;
+  /** Set while importing a recording: share of it transcribed so far. */
+  progress?: number | null;
+  /** Live mic level while recording; omit to hide the meter. */
+  readLevel?: () => VadLevel | null;
 }
 
 const labels: Record<RealtimeConnectionState, { text: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
@@ -15,14 +24,33 @@ const labels: Record<RealtimeConnectionState, { text: string; variant: 'default'
   connecting: { text: 'Connecting...', variant: 'outline' },
   connected: { text: 'Connected', variant: 'outline' },
   recording: { text: 'Recording', variant: 'default' },
+  paused: { text: 'Paused', variant: 'secondary' },
+  reconnecting: { text: 'Reconnecting...', variant: 'destructive' },
   closing: { text: 'Stopping...', variant: 'outline' },
   error: { text: 'Error', variant: 'destructive' },
 };
 
-export function RecordingControls({ state, onStart, onStop, isOwner }: RecordingControlsProps) {
+export function RecordingControls({
+  state,
+  onStart,
+  onStop,
+  onPause,
+  onResume,
+  isOwner,
+  progress = null,
+  readLevel,
+}: RecordingControlsProps) {
   const isActive =
-    state === 'connecting' || state === 'connected' || state === 'recording' || state === 'closing';
-  const label = labels[state];
+    state === 'connecting' ||
+    state === 'connected' ||
+    state === 'recording' ||
+    state === 'paused' ||
+    state === 'reconnecting' ||
+    state === 'closing';
+  const label =
+    progress !== null && state === 'recording'
+      ? { ...labels.recording, text: `Importing ${Math.round(progress * 100)}%` }
+      : labels[state];
 
   if (!isOwner) {
     return (
@@ -36,16 +64,31 @@ export function RecordingControls({ state, onStart, onStop, isOwner }: Recording
   return (
     <div className="flex items-center gap-3">
       <Badge variant={label.variant}>{label.text}</Badge>
+      {readLevel && progress === null && state === 'recording' && <LevelMeter read={readLevel} />}
       {!isActive ? (
         <Button onClick={onStart}>
           <Mic className="h-4 w-4" />
           Start recording
         </Button>
       ) : (
-        <Button onClick={onStop} variant="destructive" disabled={state === 'closing'}>
-          <Square className="h-4 w-4" />
-          Stop
-        </Button>
+        <>
+          {state === 'recording' && onPause && (
+            <Button onClick={onPause} variant="outline" title="Pause during songs or announcements">
+              <Pause className="h-4 w-4" />
+              Pause
+            </Button>
+          )}
+          {state === 'paused' && onResume && (
+            <Button onClick={onResume}>
+              <Play className="h-4 w-4" />
+              Resume
+            </Button>
+          )}
+          <Button onClick={onStop} variant="destructive" disabled={state === 'closing'}>
+            <Square className="h-4 w-4" />
+            Stop
+          </Button>
+        </>
       )}
     </div>
   );
@@ -1,8 +1,13 @@
-import { useEffect, useMemo, useRef } from 'react';
-import { Sparkles } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Ban, Pin, PinOff, Plus, RotateCcw, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { matchStatus, visibleMatches } from '@/lib/scriptureMatches';
+import { parseReference, type ParsedReference } from '@/lib/scriptureReference';
 import { cn } from '@/lib/utils';
-import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+import { VersePreview } from './VersePreview';
+import type { MatchStatus, ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
 
 type ScrollTarget = { id: string; nonce: number } | null;
 
@@ -15,6 +20,12 @@ interface ScriptureReferencesProps {
   scrollTarget?: ScrollTarget;
   onSegmentHover?: (segmentId: string | null) => void;
   onSegmentClick?: (segmentId: string) => void;
+  /** Owner-only curation. Rejected matches stay visible (greyed) so they can be restored. */
+  onSetMatchStatus?: (segmentId: string, matchId: string, status: MatchStatus) => void;
+  /** Owner-only; resolves once the reference is saved so the input can clear. */
+  onAddMatch?: (segmentId: string, ref: ParsedReference) => Promise<void>;
+  /** Opens the passage viewer on a match; the card still selects its segment. */
+  onOpenPassage?: (match: ScriptureMatchDto) => void;
 }
 
 interface SegmentGroup {
@@ -38,7 +49,12 @@ export function ScriptureReferences({
   scrollTarget = null,
   onSegmentHover,
   onSegmentClick,
+  onSetMatchStatus,
+  onAddMatch,
+  onOpenPassage,
 }: ScriptureReferencesProps) {
+  const canCurate = Boolean(onSetMatchStatus);
+
   const cardRefs = useRef<Map<string, HTMLElement>>(new Map());
 
   // Bring a segment's card into view when the transcript panel asks for it.
@@ -48,19 +64,19 @@ export function ScriptureReferences({
   }, [scrollTarget]);
 
   // One card per transcript segment that produced matches, newest segment first,
-  // with each segment's matches ranked by confidence.
+  // pinned references on top and the rest ranked by confidence. The owner also
+  // gets a card for the selected segment so a reference can be added to it.
   const groups = useMemo<SegmentGroup[]>(() => {
     const result: SegmentGroup[] = [];
     for (const segment of segments) {
-      const matches = segment.matches
-        .filter((m) => m.confidence >= minConfidence)
-        .sort((a, b) => b.confidence - a.confidence);
-      if (matches.length > 0) {
+      const matches = visibleMatches(segment.matches, minConfidence, { includeRejected: canCurate });
+      const addingTo = onAddMatch && segment.id === selectedSegmentId && !isPending(segment.id);
+      if (matches.length > 0 || addingTo) {
         result.push({ id: segment.id, startedAt: segment.startedAt, matches });
       }
     }
     return result.reverse();
-  }, [segments, minConfidence]);
+  }, [segments, minConfidence, canCurate, onAddMatch, selectedSegmentId]);
 
   return (
     <Card className="flex flex-col h-full">
@@ -105,9 +121,18 @@ export function ScriptureReferences({
                         key={`${match.reference}-${match.version}`}
                         match={match}
                         showConfidence={showConfidence}
+                        onOpen={onOpenPassage ? () => onOpenPassage(match) : undefined}
+                        onSetStatus={
+                          onSetMatchStatus && match.id && !isPending(group.id)
+                            ? (status) => onSetMatchStatus(group.id, match.id!, status)
+                            : undefined
+                        }
                       />
                     ))}
                   </div>
+                  {onAddMatch && group.id === selectedSegmentId && !isPending(group.id) && (
+                    <AddReferenceForm onAdd={(ref) => onAddMatch(group.id, ref)} />
+                  )}
                 </div>
               );
             })
@@ -118,23 +143,81 @@ export function ScriptureReferences({
   );
 }
 
-function MatchRow({ match, showConfidence }: { match: ScriptureMatchDto; showConfidence: boolean }) {
+function isPending(segmentId: string): boolean {
+  return segmentId.startsWith('pending-');
+}
+
+interface MatchRowProps {
+  match: ScriptureMatchDto;
+  showConfidence: boolean;
+  onOpen?: () => void;
+  onSetStatus?: (status: MatchStatus) => void;
+}
+
+function MatchRow({ match, showConfidence, onOpen, onSetStatus }: MatchRowProps) {
+  const status = matchStatus(match);
+  const manual = match.source === 'manual';
   return (
-    <div className="px-3 py-2.5">
+    <div
+      onClick={onOpen}
+      title={onOpen ? 'Open the full passage' : undefined}
+      className={cn('group/match px-3 py-2.5', status === 'rejected' && 'opacity-50')}
+    >
       <div className="flex items-start justify-between gap-2">
         <span className="flex items-baseline gap-1.5">
-          <span className="text-sm font-semibold uppercase tracking-wide text-indigo-600">
-            {match.reference}
-          </span>
+          <VersePreview match={match}>
+            <span
+              className={cn(
+                'text-sm font-semibold uppercase tracking-wide text-indigo-600',
+                status === 'rejected' && 'line-through',
+              )}
+            >
+              {match.reference}
+            </span>
+          </VersePreview>
           <span className="rounded border border-indigo-200 px-1 py-px text-[9px] font-semibold uppercase tracking-wide text-indigo-500">
             {match.version}
           </span>
+          {status === 'pinned' && (
+            <span className="flex items-center gap-0.5 rounded bg-indigo-600 px-1 py-px text-[9px] font-semibold uppercase tracking-wide text-white">
+              <Pin className="h-2.5 w-2.5" />
+              Pinned
+            </span>
+          )}
+        </span>
+        <span className="flex shrink-0 items-center gap-1">
+          {onSetStatus && (
+            <span className="flex gap-0.5 opacity-0 transition-opacity group-hover/match:opacity-100">
+              {status === 'rejected' ? (
+                <CurateButton title="Restore" onClick={() => onSetStatus('suggested')}>
+                  <RotateCcw className="h-3.5 w-3.5" />
+                </CurateButton>
+              ) : (
+                <>
+                  <CurateButton
+                    title={status === 'pinned' ? 'Unpin' : 'Pin as the correct reference'}
+                    onClick={() => onSetStatus(status === 'pinned' ? 'suggested' : 'pinned')}
+                  >
+                    {status === 'pinned' ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  </CurateButton>
+                  <CurateButton title="Reject" onClick={() => onSetStatus('rejected')}>
+                    <Ban className="h-3.5 w-3.5" />
+                  </CurateButton>
+                </>
+              )}
+            </span>
+          )}
+          {showConfidence && !manual && (
+            <span className="rounded-full bg-indigo-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-indigo-600">
+              {(match.confidence * 100).toFixed(0)}% match
+            </span>
+          )}
+          {manual && (
+            <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+              Added
+            </span>
+          )}
         </span>
-        {showConfidence && (
-          <span className="shrink-0 rounded-full bg-indigo-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-indigo-600">
-            {(match.confidence * 100).toFixed(0)}% match
-          </span>
-        )}
       </div>
       {match.quote && (
         <p className="mt-1.5 text-xs italic leading-snug text-muted-foreground">
@@ -144,3 +227,73 @@ function MatchRow({ match, showConfidence }: { match: ScriptureMatchDto; showCon
     </div>
   );
 }
+
+function CurateButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-label={title}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+    >
+      {children}
+    </button>
+  );
+}
+
+function AddReferenceForm({ onAdd }: { onAdd: (ref: ParsedReference) => Promise<void> }) {
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    const parsed = parseReference(value);
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onAdd(parsed.ref);
+      setValue('');
+      setError(null);
+    } catch {
+      // The caller reports the failure; keep the text so it can be fixed.
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="border-t px-3 py-2"
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        void submit();
+      }}
+    >
+      <div className="flex gap-1.5">
+        <Input
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          placeholder="Add a reference, e.g. John 3:16"
+          aria-label="Add a scripture reference"
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm" variant="outline" className="h-8" disabled={saving || !value.trim()}>
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </div>
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { BookOpen, Copy, NotebookText, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { EXTRACTIVE_GENERATOR, notesOffset, sermonNotesMarkdown } from '@/lib/sermonNotes';
+import type { SermonNotesDto, SessionDto } from '@/types/api';
+
+interface SermonNotesProps {
+  session: Pick<SessionDto, 'title' | 'createdAt' | 'status'>;
+  notes: SermonNotesDto | null;
+  /** The server is still writing notes; any shown are from before the latest edits. */
+  pending: boolean;
+  /** None were ever written, e.g. for a session that ended before notes existed. */
+  missing: boolean;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  /** Reveals the segment a point or scripture is anchored to. */
+  onSegmentClick?: (segmentId: string) => void;
+  /** Owner-only; resolves once new notes are in. */
+  onRegenerate?: () => Promise<void>;
+}
+
+/** Outline, cited scriptures and summary of an ended session, with anchors back into the transcript. */
+export function SermonNotes({
+  session,
+  notes,
+  pending,
+  missing,
+  loading,
+  error,
+  onRetry,
+  onSegmentClick,
+  onRegenerate,
+}: SermonNotesProps) {
+  const [regenerating, setRegenerating] = useState(false);
+
+  const copy = async () => {
+    if (!notes) return;
+    try {
+      await navigator.clipboard.writeText(sermonNotesMarkdown(session, notes));
+      toast.success('Sermon notes copied');
+    } catch {
+      toast.error('Could not copy to clipboard.');
+    }
+  };
+
+  const regenerate = async () => {
+    if (!onRegenerate) return;
+    setRegenerating(true);
+    try {
+      await onRegenerate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not regenerate sermon notes.');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const anchor = (segmentId: string, startedAt: string) => (
+    <button
+      type="button"
+      onClick={() => onSegmentClick?.(segmentId)}
+      className="font-mono text-[10px] uppercase tracking-wide text-muted-foreground/70 hover:text-indigo-600 hover:underline"
+      title="Show in transcript"
+    >
+      {notesOffset(session, startedAt)}
+    </button>
+  );
+
+  return (
+    <Card className="flex flex-col h-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <NotebookText className="h-4 w-4 text-indigo-500" />
+            Sermon notes
+          </span>
+          {notes && (
+            <span className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" onClick={() => void copy()} title="Copy as Markdown">
+                <Copy className="h-4 w-4" />
+              </Button>
+              {onRegenerate && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => void regenerate()}
+                  disabled={regenerating || pending}
+                  title="Write the notes again"
+                >
+                  <RefreshCw className={regenerating ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                </Button>
+              )}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex-1 overflow-hidden">
+        <div className="h-full space-y-5 overflow-y-auto pr-2 text-sm">
+          {session.status === 'active' ? (
+            <p className="text-muted-foreground">
+              An outline, the scriptures cited and a short summary will be prepared once the session ends.
+            </p>
+          ) : !notes ? (
+            error ? (
+              <div className="space-y-2">
+                <p className="text-destructive">{error}</p>
+                <Button variant="outline" size="sm" onClick={onRetry}>
+                  Try again
+                </Button>
+              </div>
+            ) : missing ? (
+              <div className="space-y-2">
+                <p className="text-muted-foreground">No notes were prepared for this session.</p>
+                {onRegenerate && (
+                  <Button variant="outline" size="sm" onClick={() => void regenerate()} disabled={regenerating}>
+                    Prepare notes
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">
+                {pending || loading ? 'Preparing sermon notes...' : 'No notes yet.'}
+              </p>
+            )
+          ) : (
+            <>
+              {notes.summary && (
+                <section className="space-y-1.5">
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Summary</h3>
+                  <p className="leading-relaxed">{notes.summary}</p>
+                </section>
+              )}
+
+              <section className="space-y-1.5">
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Outline</h3>
+                {notes.outline.length === 0 ? (
+                  <p className="text-muted-foreground">Nothing was transcribed in this session.</p>
+                ) : (
+                  <ol className="space-y-2.5">
+                    {notes.outline.map((point, i) => (
+                      <li key={`${point.segmentId}-${i}`} className="flex gap-2.5">
+                        <span className="mt-0.5 font-semibold text-indigo-600">{i + 1}.</span>
+                        <div className="min-w-0 flex-1 space-y-0.5">
+                          <div className="flex items-baseline justify-between gap-2">
+                            <span className="font-medium">{point.title}</span>
+                            {anchor(point.segmentId, point.startedAt)}
+                          </div>
+                          {point.detail && <p className="text-muted-foreground leading-snug">{point.detail}</p>}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+
+              {notes.scriptures.length > 0 && (
+                <section className="space-y-1.5">
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Scriptures</h3>
+                  <ul className="divide-y rounded-lg border">
+                    {notes.scriptures.map((s) => (
+                      <li key={s.reference} className="space-y-0.5 px-3 py-2">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <span className="flex items-center gap-1.5 font-semibold">
+                            <BookOpen className="h-3.5 w-3.5 text-indigo-500" />
+                            {s.reference}
+                            <span className="text-[10px] font-semibold uppercase tracking-wide text-indigo-600">
+                              {s.version}
+                            </span>
+                          </span>
+                          {anchor(s.segmentId, s.startedAt)}
+                        </div>
+                        {s.quote && <p className="text-muted-foreground italic leading-snug">“{s.quote}”</p>}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <p className="text-[11px] text-muted-foreground">
+                {notes.generator === EXTRACTIVE_GENERATOR
+                  ? 'Drawn from the transcript; review before sharing.'
+                  : 'Written automatically; review before sharing.'}
+                {pending && ' Updating...'}
+              </p>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
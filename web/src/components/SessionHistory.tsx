@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, History, Loader2, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { sessionService, type SessionListFilter } from '@/services/sessionService';
+import type { PaginatedResult, SessionDto } from '@/types/api';
+
+const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type StatusFilter = 'all' | SessionDto['status'];
+
+interface SessionHistoryProps {
+  onOpen: (session: SessionDto) => void;
+}
+
+function formatDateTime(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// `<input type="date">` yields a local calendar day; the API filters on instants.
+function startOfLocalDay(value: string, addDays = 0): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return undefined;
+  date.setDate(date.getDate() + addDays);
+  return date.toISOString();
+}
+
+export function SessionHistory({ onOpen }: SessionHistoryProps) {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<PaginatedResult<SessionDto> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search]);
+
+  // Any filter change starts over from the first page.
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, status, fromDate, toDate]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const filter: SessionListFilter = {
+      search: debouncedSearch,
+      status: status === 'all' ? undefined : status,
+      from: startOfLocalDay(fromDate),
+      // The "to" day is inclusive in the UI, so bound by the following midnight.
+      to: startOfLocalDay(toDate, 1),
+    };
+    setLoading(true);
+    (async () => {
+      try {
+        const next = await sessionService.list(page, PAGE_SIZE, filter);
+        if (!cancelled) {
+          setResult(next);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load sessions.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [page, debouncedSearch, status, fromDate, toDate]);
+
+  const totalPages = Math.max(result?.totalPages ?? 1, 1);
+  const items = result?.items ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-4 w-4 text-indigo-500" />
+          My sessions
+        </CardTitle>
+        <CardDescription>Reopen a past or running session without its code.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto]">
+          <div className="space-y-1">
+            <Label htmlFor="history-search">Search</Label>
+            <div className="relative">
+              <Search className="pointer-events-none absolute left-2.5 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="history-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Title or code"
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-status">Status</Label>
+            <select
+              id="history-status"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as StatusFilter)}
+            >
+              <option value="all">All</option>
+              <option value="active">Active</option>
+              <option value="ended">Ended</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-from">From</Label>
+            <Input id="history-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to">To</Label>
+            <Input id="history-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {loading ? 'Loading sessions…' : 'No sessions match these filters.'}
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {items.map((s) => (
+              <li key={s.id}>
+                <button
+                  type="button"
+                  onClick={() => onOpen(s)}
+                  className="flex w-full flex-wrap items-center justify-between gap-x-4 gap-y-1 px-3 py-2.5 text-left transition-colors hover:bg-muted/60"
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-semibold">{s.title}</span>
+                      <Badge variant={s.status === 'active' ? 'default' : 'outline'}>{s.status}</Badge>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                      <span className="font-mono font-semibold text-foreground">{s.code}</span>
+                      <span className="text-muted-foreground/50">·</span>
+                      <span>{s.ownerUsername}</span>
+                      <span className="text-muted-foreground/50">·</span>
+                      <span>
+                        {formatDateTime(s.createdAt)}
+                        {s.endedAt && ` – ${formatDateTime(s.endedAt)}`}
+                      </span>
+                    </div>
+                  </div>
+                  <span className="shrink-0 text-xs tabular-nums text-muted-foreground">
+                    {s.segmentCount} segment{s.segmentCount === 1 ? '' : 's'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            {loading && <Loader2 className="h-3 w-3 animate-spin" />}
+            {result ? `${result.totalCount} session${result.totalCount === 1 ? '' : 's'}` : ''}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(p - 1, 1))}
+              disabled={loading || page <= 1}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="tabular-nums">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(p + 1, totalPages))}
+              disabled={loading || page >= totalPages}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,35 +1,106 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Presentation } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { AudioPlayer } from './AudioPlayer';
+import { LanguageSelect } from './LanguageSelect';
+import { MicCalibration } from './MicCalibration';
 import { RecordingControls } from './RecordingControls';
+import { ReconnectBanner } from './ReconnectBanner';
 import { TranscriptionPanel } from './TranscriptionPanel';
+import { PassageDrawer } from './PassageDrawer';
 import { ScriptureReferences } from './ScriptureReferences';
+import { SermonNotes } from './SermonNotes';
 import { SettingsPanel } from './SettingsPanel';
-import { useRealtimeWebRTC } from '@/hooks/useRealtimeWebRTC';
+import { ExportMenu } from './ExportMenu';
+import { ShareSessionDialog } from './ShareSessionDialog';
+import { AudiencePanel } from './AudiencePanel';
+import { useAudioArchive } from '@/hooks/useAudioArchive';
+import { usePartialRelay } from '@/hooks/usePartialRelay';
+import { useTranscription } from '@/hooks/useTranscription';
+import { useRemotePartial } from '@/hooks/useRemotePartial';
+import { useBibleText } from '@/hooks/useBibleText';
 import { useScriptureMatcher } from '@/hooks/useScriptureMatcher';
+import { useSessionAudio } from '@/hooks/useSessionAudio';
 import { useSessionHub } from '@/hooks/useSessionHub';
+import { useSermonNotes } from '@/hooks/useSermonNotes';
 import { useSettings } from '@/hooks/useSettings';
+import { useTranscriptOutbox } from '@/hooks/useTranscriptOutbox';
+import { useTranslations } from '@/hooks/useTranslations';
 import { sessionService } from '@/services/sessionService';
-import { STORAGE_KEYS } from '@/constants/apiConstants';
-import type { SessionDto, TranscriptSegmentDto } from '@/types/api';
+import {
+  createRecordingProvider,
+  getTranscriptionProvider,
+  type TranscriptionProvider,
+} from '@/services/transcription';
+import { audioProcessingOf } from '@/services/audioInput';
+import { DEFAULTS, STORAGE_KEYS } from '@/constants/apiConstants';
+import { AUTO_LANGUAGE, languageLabel } from '@/constants/languages';
+import { presentPath } from '@/constants/routes';
+import { nextScriptureSegment, segmentAtTime } from '@/lib/playback';
+import { dropRepeatedMatches, MATCH_DEDUPE_SEGMENTS, matchContext, passageBefore } from '@/lib/matchWindow';
+import { GAP_MARKER_TEXT, PAUSE_MARKER_TEXT } from '@/lib/segments';
+import { applyTranslation } from '@/lib/translations';
+import { cn } from '@/lib/utils';
+import type { ParsedReference } from '@/lib/scriptureReference';
+import type { OutboxEntry } from '@/services/transcriptOutbox';
+import type {
+  MatchStatus,
+  RecordingState,
+  ScriptureMatchDto,
+  SessionDto,
+  SessionViewerDto,
+  TranscriptSegmentDto,
+} from '@/types/api';
+import type { SegmentSyncState } from './TranscriptionPanel';
 
 export type ScrollTarget = { id: string; nonce: number } | null;
 
+// Segments the server has not acknowledged yet render under a local id.
+const pendingId = (clientId: string) => `pending-${clientId}`;
+
+function byStart(a: TranscriptSegmentDto, b: TranscriptSegmentDto): number {
+  return a.startedAt.localeCompare(b.startedAt);
+}
+
 interface SessionViewProps {
   session: SessionDto;
   username: string;
+  /** Segment to reveal once transcripts load (deep link), and whenever it changes. */
+  focusSegmentId?: string | null;
+  /** Reports the segment the user focused so the URL can follow it. */
+  onSegmentFocus?: (segmentId: string | null) => void;
   onBack: () => void;
+  /** Overrides the source picked in settings, e.g. a scripted provider in tests. */
+  transcriptionProvider?: TranscriptionProvider;
+  /** A recorded sermon to transcribe into this session as soon as it opens. */
+  importRecording?: File | null;
 }
 
-export function SessionView({ session: initialSession, username, onBack }: SessionViewProps) {
-  const { settings } = useSettings();
+export function SessionView({
+  session: initialSession,
+  username,
+  focusSegmentId = null,
+  onSegmentFocus,
+  onBack,
+  transcriptionProvider,
+  importRecording = null,
+}: SessionViewProps) {
+  const { settings, update: updateSettings } = useSettings();
   const [session, setSession] = useState<SessionDto>(initialSession);
   const isOwner = session.ownerUsername.toLowerCase() === username.toLowerCase();
   const [segments, setSegments] = useState<TranscriptSegmentDto[]>([]);
+  // Read by match callbacks once their lookup returns, when `segments` in their closure is stale.
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+  const [transcriptsLoaded, setTranscriptsLoaded] = useState(false);
   const [partial, setPartial] = useState('');
   const [hoveredSegmentId, setHoveredSegmentId] = useState<string | null>(null);
   const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
+  const [passageMatch, setPassageMatch] = useState<ScriptureMatchDto | null>(null);
+  const closePassage = useCallback(() => setPassageMatch(null), []);
+  const [sideTab, setSideTab] = useState<'scriptures' | 'notes'>('scriptures');
   // Segment ids whose scripture-match request is still in flight.
   const [matchingIds, setMatchingIds] = useState<Set<string>>(new Set());
 
@@ -80,30 +151,51 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
   const [refScrollTarget, setRefScrollTarget] = useState<ScrollTarget>(null);
   const nonceRef = useRef(0);
 
+  // Only persisted segments have ids worth putting in a shareable URL.
+  const reportFocus = useCallback(
+    (segmentId: string) => {
+      if (!segmentId.startsWith('pending-')) onSegmentFocus?.(segmentId);
+    },
+    [onSegmentFocus],
+  );
+
   // Clicking a transcript segment reveals its scripture card in the other panel.
-  const focusFromTranscript = useCallback((segmentId: string) => {
-    nonceRef.current += 1;
-    setSelectedSegmentId(segmentId);
-    setRefScrollTarget({ id: segmentId, nonce: nonceRef.current });
-  }, []);
+  const focusFromTranscript = useCallback(
+    (segmentId: string) => {
+      nonceRef.current += 1;
+      setSelectedSegmentId(segmentId);
+      setRefScrollTarget({ id: segmentId, nonce: nonceRef.current });
+      reportFocus(segmentId);
+    },
+    [reportFocus],
+  );
 
   // Clicking a scripture card reveals its source transcript segment.
-  const focusFromReference = useCallback((segmentId: string) => {
-    nonceRef.current += 1;
-    setSelectedSegmentId(segmentId);
-    setTranscriptScrollTarget({ id: segmentId, nonce: nonceRef.current });
-  }, []);
+  const focusFromReference = useCallback(
+    (segmentId: string) => {
+      nonceRef.current += 1;
+      setSelectedSegmentId(segmentId);
+      setTranscriptScrollTarget({ id: segmentId, nonce: nonceRef.current });
+      reportFocus(segmentId);
+    },
+    [reportFocus],
+  );
 
   useEffect(() => {
     let cancelled = false;
     (async () => {
       try {
         const existing = await sessionService.listTranscripts(session.code);
-        if (!cancelled && existing) setSegments(existing);
+        if (!cancelled && existing) {
+          // Keep segments recorded while the list was loading; they are not on the server yet.
+          setSegments((prev) => [...existing, ...prev.filter((s) => s.id.startsWith('pending-'))].sort(byStart));
+        }
       } catch (err) {
         if (!cancelled) {
           toast.error(err instanceof Error ? err.message : 'Failed to load transcripts.');
         }
+      } finally {
+        if (!cancelled) setTranscriptsLoaded(true);
       }
     })();
     return () => {
@@ -111,6 +203,19 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
     };
   }, [session.code]);
 
+  // Reveal a deep-linked segment in both panels once it exists locally. Runs
+  // again when the URL changes underneath us (browser back/forward).
+  const revealedRef = useRef<string | null>(null);
+  const focusLoaded = segments.some((s) => s.id === focusSegmentId);
+  useEffect(() => {
+    if (!focusSegmentId || !focusLoaded || revealedRef.current === focusSegmentId) return;
+    revealedRef.current = focusSegmentId;
+    nonceRef.current += 1;
+    setSelectedSegmentId(focusSegmentId);
+    setTranscriptScrollTarget({ id: focusSegmentId, nonce: nonceRef.current });
+    setRefScrollTarget({ id: focusSegmentId, nonce: nonceRef.current });
+  }, [focusSegmentId, focusLoaded]);
+
   const handleHubTranscript = useCallback(
     (segment: TranscriptSegmentDto) => {
       setSegments((prev) => {
@@ -121,32 +226,259 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
     [],
   );
 
+  const handleHubTranscriptUpdated = useCallback((segment: TranscriptSegmentDto) => {
+    setSegments((prev) => prev.map((s) => (s.id === segment.id ? segment : s)));
+  }, []);
+
+  const handleHubTranscriptDeleted = useCallback((segmentId: string) => {
+    setSegments((prev) => prev.filter((s) => s.id !== segmentId));
+  }, []);
+
   const handleHubSession = useCallback((updated: SessionDto) => {
     setSession(updated);
   }, []);
 
-  // Viewers (non-owners) subscribe to live transcript broadcasts via SignalR.
-  // Owners don't need it because they already produce the events locally.
-  useSessionHub({
+  // The owner hears about the audience coming and going; their own extra tabs stay quiet.
+  const handleViewerJoined = useCallback(
+    (viewer: SessionViewerDto) => {
+      if (isOwner && viewer.username.toLowerCase() !== username.toLowerCase()) {
+        toast(`${viewer.username} joined`);
+      }
+    },
+    [isOwner, username],
+  );
+
+  const handleViewerLeft = useCallback(
+    (viewer: Pick<SessionViewerDto, 'username'>) => {
+      if (isOwner && viewer.username.toLowerCase() !== username.toLowerCase()) {
+        toast(`${viewer.username} left`);
+      }
+    },
+    [isOwner, username],
+  );
+
+  // Viewers see the owner's in-progress line as it is relayed; the owner has their own.
+  const remotePartial = useRemotePartial();
+
+  // Viewers may read along in another language; the owner always sees what was said.
+  const captionLanguage = !isOwner && settings.captionLanguage !== session.language ? settings.captionLanguage : '';
+  const captions = useTranslations(session.code, captionLanguage, segments);
+  const sermonNotes = useSermonNotes(session.code, session.status === 'ended', segments);
+  const shownSegments = useMemo(
+    () => (captionLanguage ? segments.map((s) => applyTranslation(s, captions.translations.get(s.id))) : segments),
+    [captionLanguage, segments, captions.translations],
+  );
+
+  // Everyone joins the hub so presence works both ways. Only viewers take
+  // transcript broadcasts — the owner already produces those segments locally,
+  // and the echo could race the pending → persisted swap and duplicate a row.
+  const hub = useSessionHub({
     sessionCode: session.code,
-    enabled: !isOwner,
-    onTranscriptAppended: handleHubTranscript,
+    enabled: true,
+    onTranscriptAppended: isOwner ? undefined : handleHubTranscript,
+    onTranscriptUpdated: isOwner ? undefined : handleHubTranscriptUpdated,
+    onTranscriptDeleted: isOwner ? undefined : handleHubTranscriptDeleted,
+    onPartialUpdated: isOwner ? undefined : remotePartial.receive,
     onSessionUpdated: handleHubSession,
+    onViewerJoined: handleViewerJoined,
+    onViewerLeft: handleViewerLeft,
   });
 
-  const { requestMatches, cancel: cancelMatches } = useScriptureMatcher({
+  // Swap the optimistic row for the server copy once the outbox gets it through.
+  const handleDelivered = useCallback((entry: OutboxEntry, persisted: TranscriptSegmentDto) => {
+    setSegments((prev) => {
+      const withoutPending = prev.filter((s) => s.id !== pendingId(entry.id) && s.id !== persisted.id);
+      return [...withoutPending, persisted].sort(byStart);
+    });
+  }, []);
+
+  const outbox = useTranscriptOutbox({
+    sessionCode: session.code,
+    enabled: isOwner,
+    onDelivered: handleDelivered,
+  });
+
+  // Entries restored from a previous page load have no row yet; show them as
+  // pending next to what the server returned.
+  useEffect(() => {
+    if (!transcriptsLoaded || outbox.entries.length === 0) return;
+    setSegments((prev) => {
+      const known = new Set(prev.map((s) => s.id));
+      const missing = outbox.entries.filter((e) => !known.has(e.id) && !known.has(pendingId(e.id)));
+      if (missing.length === 0) return prev;
+      const restored = missing.map((e) => ({
+        id: pendingId(e.id),
+        text: e.input.text,
+        kind: e.input.kind,
+        startedAt: e.input.startedAt,
+        endedAt: e.input.endedAt,
+        matches: e.input.matches ?? [],
+      }));
+      return [...prev, ...restored].sort(byStart);
+    });
+  }, [outbox.entries, transcriptsLoaded]);
+
+  const syncStates = useMemo(() => {
+    const map = new Map<string, SegmentSyncState>();
+    for (const e of outbox.entries) {
+      map.set(pendingId(e.id), { status: e.status, attempts: e.attempts, lastError: e.lastError });
+    }
+    return map;
+  }, [outbox.entries]);
+
+  const { discard: discardFromOutbox } = outbox;
+  const discardPending = useCallback(
+    (segmentId: string) => {
+      discardFromOutbox(segmentId.replace(/^pending-/, ''));
+      setSegments((prev) => prev.filter((s) => s.id !== segmentId));
+    },
+    [discardFromOutbox],
+  );
+
+  // Book names are only recognised in English, so other languages go straight to the matcher.
+  const detectReferences = session.language === 'en' || session.language === AUTO_LANGUAGE;
+  const { fillQuotes, lookup: lookupPassage } = useBibleText();
+  const { requestMatches } = useScriptureMatcher({
     sessionCode: session.code,
     preferredVersion: settings.preferredVersion,
     n: settings.matchCount,
+    detectReferences,
   });
 
+  // Matches for the segment at `index`, with what was said before it as context
+  // and without references the passage already carries.
+  const matchSegment = useCallback(
+    async (segmentId: string, text: string, index: number) => {
+      const context = matchContext(segmentsRef.current, index, settings.matchContextSegments);
+      const result = await requestMatches(segmentId, text, context);
+      const at = segmentsRef.current.findIndex((s) => s.id === segmentId);
+      const earlier = passageBefore(segmentsRef.current, at >= 0 ? at : index, MATCH_DEDUPE_SEGMENTS);
+      const matches = dropRepeatedMatches(result.matches, earlier).slice(0, settings.matchCount);
+      return { ...result, matches: await fillQuotes(matches) };
+    },
+    [requestMatches, fillQuotes, settings.matchContextSegments, settings.matchCount],
+  );
+
+  const editSegment = useCallback(
+    async (segmentId: string, text: string) => {
+      const previous = segments.find((s) => s.id === segmentId);
+      if (!previous) return;
+      setSegments((prev) => prev.map((s) => (s.id === segmentId ? { ...s, text } : s)));
+      try {
+        const saved = await sessionService.updateTranscript(session.code, segmentId, { text });
+        setSegments((prev) => prev.map((s) => (s.id === segmentId ? saved : s)));
+      } catch (err) {
+        setSegments((prev) => prev.map((s) => (s.id === segmentId ? previous : s)));
+        toast.error(err instanceof Error ? err.message : 'Failed to save the correction.');
+        return;
+      }
+
+      // The old matches were found for the misheard text; look again.
+      setMatchingIds((prev) => new Set(prev).add(segmentId));
+      let superseded = false;
+      try {
+        const index = segmentsRef.current.findIndex((s) => s.id === segmentId);
+        const result = await matchSegment(segmentId, text, index);
+        // A later edit of the same segment is already being matched and will save.
+        superseded = result.superseded === true;
+        if (superseded) return;
+        if (result.error) {
+          toast.error(`Match error: ${result.error.message}`);
+          return;
+        }
+        const saved = await sessionService.updateTranscript(session.code, segmentId, {
+          text,
+          matches: result.matches,
+        });
+        setSegments((prev) => prev.map((s) => (s.id === segmentId ? saved : s)));
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to refresh scripture matches.');
+      } finally {
+        if (!superseded) {
+          setMatchingIds((prev) => {
+            const next = new Set(prev);
+            next.delete(segmentId);
+            return next;
+          });
+        }
+      }
+    },
+    [segments, session.code, matchSegment],
+  );
+
+  const deleteSegment = useCallback(
+    async (segmentId: string) => {
+      if (!window.confirm('Delete this transcript segment for everyone?')) return;
+      const removed = segments.find((s) => s.id === segmentId);
+      if (!removed) return;
+      setSegments((prev) => prev.filter((s) => s.id !== segmentId));
+      try {
+        await sessionService.deleteTranscript(session.code, segmentId);
+      } catch (err) {
+        setSegments((prev) => [...prev, removed].sort(byStart));
+        toast.error(err instanceof Error ? err.message : 'Failed to delete the segment.');
+      }
+    },
+    [segments, session.code],
+  );
+
+  const setMatchStatus = useCallback(
+    async (segmentId: string, matchId: string, status: MatchStatus) => {
+      const previous = segments.find((s) => s.id === segmentId);
+      if (!previous) return;
+      const curated = (s: TranscriptSegmentDto) => ({
+        ...s,
+        matches: s.matches.map((m) => (m.id === matchId ? { ...m, status } : m)),
+      });
+      setSegments((prev) => prev.map((s) => (s.id === segmentId ? curated(s) : s)));
+      try {
+        const saved = await sessionService.setMatchStatus(session.code, segmentId, matchId, status);
+        setSegments((prev) => prev.map((s) => (s.id === segmentId ? saved : s)));
+      } catch (err) {
+        setSegments((prev) => prev.map((s) => (s.id === segmentId ? previous : s)));
+        toast.error(err instanceof Error ? err.message : 'Failed to update the reference.');
+      }
+    },
+    [segments, session.code],
+  );
+
+  const addMatch = useCallback(
+    async (segmentId: string, ref: ParsedReference) => {
+      const version = settings.preferredVersion === 'Best Match' ? DEFAULTS.preferredVersion : settings.preferredVersion;
+      try {
+        // Only text in the version being saved will do as its quote.
+        const passage = await lookupPassage(ref, version).catch(() => null);
+        const saved = await sessionService.addMatch(session.code, segmentId, {
+          book: ref.book,
+          chapter: ref.chapter,
+          verseStart: ref.verseStart,
+          verseEnd: ref.verseEnd,
+          version,
+          quote: passage?.version === version ? passage.text : undefined,
+        });
+        setSegments((prev) => prev.map((s) => (s.id === segmentId ? saved : s)));
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to add the reference.');
+        throw err;
+      }
+    },
+    [session.code, settings.preferredVersion, lookupPassage],
+  );
+
+  const { enqueue: enqueueTranscript } = outbox;
+  const liveCaption = usePartialRelay({ sessionCode: session.code, enabled: isOwner });
+  const { clear: clearLiveCaption } = liveCaption;
+
   const handleUtterance = useCallback(
     async (utterance: { id: string; text: string; startedAt: string; endedAt: string }) => {
       setPartial('');
+      clearLiveCaption();
       const text = utterance.text.trim();
       if (!text) return;
 
-      const tempId = `pending-${utterance.id}`;
+      const clientId = crypto.randomUUID();
+      const tempId = pendingId(clientId);
+      const index = segmentsRef.current.length;
       setSegments((prev) => [
         ...prev,
         {
@@ -161,9 +493,8 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
       let matches: TranscriptSegmentDto['matches'] = [];
       setMatchingIds((prev) => new Set(prev).add(tempId));
       try {
-        const result = await requestMatches(text);
-        // Keep at most `matchCount` references per transcript segment.
-        matches = result.matches.slice(0, settings.matchCount);
+        const result = await matchSegment(tempId, text, index);
+        matches = result.matches;
         if (result.error) {
           toast.error(`Match error: ${result.error.message}`);
         }
@@ -177,41 +508,254 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
         });
       }
 
+      setSegments((prev) => prev.map((s) => (s.id === tempId ? { ...s, matches } : s)));
+
+      // The outbox persists the segment locally and keeps retrying until the API
+      // acknowledges it; handleDelivered then swaps in the server copy.
       try {
-        const persisted = await sessionService.appendTranscript(session.code, {
+        await enqueueTranscript({
+          id: clientId,
           text,
           startedAt: utterance.startedAt,
           endedAt: utterance.endedAt,
           matches: matches.length > 0 ? matches : undefined,
         });
-        setSegments((prev) =>
-          prev.map((s) => (s.id === tempId ? persisted : s)),
-        );
       } catch (err) {
-        setSegments((prev) =>
-          prev.map((s) =>
-            s.id === tempId
-              ? { ...s, matches }
-              : s,
-          ),
-        );
         toast.error(err instanceof Error ? err.message : 'Failed to save transcript.');
       }
     },
-    [requestMatches, session.code, settings.matchCount],
+    [matchSegment, enqueueTranscript, clearLiveCaption],
+  );
+
+  // Recording import reuses the live pipeline; the selected source only
+  // transcribes the chunks. Once it finishes, Start goes back to live capture.
+  const [recording, setRecording] = useState<File | null>(importRecording);
+  const liveProvider = transcriptionProvider ?? getTranscriptionProvider(settings.transcriptionProvider);
+  const provider = useMemo(
+    () =>
+      recording
+        ? createRecordingProvider({ file: recording, transcriber: liveProvider, startsAt: session.createdAt })
+        : liveProvider,
+    [recording, liveProvider, session.createdAt],
   );
 
-  const realtime = useRealtimeWebRTC({
-    onDelta: (delta) => setPartial(delta.text),
+  const audioArchive = useAudioArchive({ session, enabled: isOwner && settings.archiveAudio });
+
+  const vad = useMemo(
+    () => ({
+      threshold: settings.vadThreshold,
+      silenceMs: Math.round(settings.silenceSeconds * 1000),
+      maxUtteranceMs: settings.maxUtteranceSeconds * 1000,
+      adaptive: settings.adaptiveVad,
+    }),
+    [settings.vadThreshold, settings.silenceSeconds, settings.maxUtteranceSeconds, settings.adaptiveVad],
+  );
+  const { inputDeviceId, echoCancellation, noiseSuppression, autoGainControl } = settings;
+  const processing = useMemo(
+    () => audioProcessingOf({ echoCancellation, noiseSuppression, autoGainControl }),
+    [echoCancellation, noiseSuppression, autoGainControl],
+  );
+
+  const transcription = useTranscription({
+    provider,
+    onAudio: audioArchive.capture,
+    onDelta: (delta) => {
+      setPartial(delta.text);
+      liveCaption.push(delta.text);
+    },
     onUtterance: handleUtterance,
+    // Marks the outage; speech recorded during it follows as ordinary segments.
+    onGap: (gap) => {
+      setPartial('');
+      clearLiveCaption();
+      void addMarker('gap', gap.startedAt, gap.endedAt);
+    },
     onError: (err) => toast.error(err.message),
-    silenceMs: Math.round(settings.silenceSeconds * 1000),
+    onEnd: (completed) => {
+      setRecording(null);
+      if (completed) toast.success('Recording imported');
+    },
+    vad,
+    processing,
+    language: session.language,
   });
 
-  useEffect(() => () => cancelMatches(), [cancelMatches]);
+  const importStarted = useRef(false);
+  useEffect(() => {
+    if (!recording || !isOwner || importStarted.current) return;
+    importStarted.current = true;
+    void transcription.start(session.code);
+  }, [recording, isOwner, transcription, session.code]);
+
+  const start = () => transcription.start(session.code, inputDeviceId || undefined);
+
+  // Pausing keeps the realtime connection; resuming drops a marker into the
+  // transcript covering the gap so readers know nothing was missed by accident.
+  const pausedAt = useRef<string | null>(null);
+  const pause = async () => {
+    clearLiveCaption();
+    setPartial('');
+    try {
+      if (await transcription.pause()) pausedAt.current = new Date().toISOString();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not pause.');
+    }
+  };
+  const resume = async () => {
+    try {
+      await transcription.resume();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not resume.');
+    }
+  };
+
+  const addMarker = useCallback(
+    async (kind: 'pause' | 'gap', startedAt: string, endedAt: string) => {
+      const clientId = crypto.randomUUID();
+      const marker = { text: kind === 'gap' ? GAP_MARKER_TEXT : PAUSE_MARKER_TEXT, kind, startedAt, endedAt };
+      setSegments((prev) => [...prev, { id: pendingId(clientId), ...marker, matches: [] }].sort(byStart));
+      try {
+        await enqueueTranscript({ id: clientId, ...marker });
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : `Failed to save the ${kind} marker.`);
+      }
+    },
+    [enqueueTranscript],
+  );
+
+  // Viewers learn about pauses through SessionUpdated; mirror the owner's state to the API.
+  const recordingState: RecordingState | null =
+    transcription.state === 'recording'
+      ? 'recording'
+      : transcription.state === 'paused'
+        ? 'paused'
+        : transcription.state === 'idle' || transcription.state === 'error'
+          ? 'idle'
+          : null;
+  const publishedState = useRef<RecordingState>(session.recordingState ?? 'idle');
+  useEffect(() => {
+    if (!isOwner || recordingState === null) return;
+    if (recordingState !== 'paused' && pausedAt.current) {
+      const from = pausedAt.current;
+      pausedAt.current = null;
+      if (recordingState === 'recording') void addMarker('pause', from, new Date().toISOString());
+    }
+    if (publishedState.current === recordingState || session.status !== 'active') return;
+    publishedState.current = recordingState;
+    sessionService
+      .setRecordingState(session.code, recordingState)
+      .then(setSession)
+      .catch((err) => console.warn('Could not publish the recording state', err));
+  }, [isOwner, recordingState, session.code, session.status, addMarker]);
+
+  // The language can change mid-sermon (e.g. a guest preacher); the live
+  // connection switches over without dropping what was already transcribed.
+  const { setLanguage: applyLanguage } = transcription;
+  useEffect(() => {
+    applyLanguage(session.language);
+  }, [session.language, applyLanguage]);
+  const changeLanguage = async (language: string) => {
+    try {
+      setSession(await sessionService.setLanguage(session.code, language));
+      toast.success(`Transcribing in ${languageLabel(language)}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not change the language.');
+    }
+  };
+
+  // A new microphone or processing choice takes effect mid-session; the
+  // realtime session, and with it the transcript, carries on.
+  const { switchInput } = transcription;
+  const live = transcription.state === 'recording' && !recording;
+  const appliedInput = useRef({ inputDeviceId, processing });
+  useEffect(() => {
+    const applied = appliedInput.current;
+    if (applied.inputDeviceId === inputDeviceId && applied.processing === processing) return;
+    appliedInput.current = { inputDeviceId, processing };
+    // Also points reconnects at the new choice when nothing is live.
+    switchInput(inputDeviceId || undefined)
+      .then(() => {
+        if (live) toast.success('Switched microphone');
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Could not switch microphone.'));
+  }, [inputDeviceId, processing, live, switchInput]);
+  const stop = () => {
+    clearLiveCaption();
+    // Stop the archive first so it flushes before the mic tracks end.
+    void audioArchive.release();
+    void transcription.stop();
+    setRecording(null);
+  };
+
+  // Archived audio turns the transcript into a playback surface once nothing is being captured.
+  const sessionAudio = useSessionAudio({ recordings: audioArchive.recordings, store: audioArchive.store });
+  const capturing = ['connecting', 'connected', 'recording', 'paused', 'reconnecting', 'closing'].includes(
+    transcription.state,
+  );
+  const reviewing = sessionAudio.available && !capturing;
+
+  const handleTranscriptClick = (segmentId: string) => {
+    focusFromTranscript(segmentId);
+    const seg = segments.find((s) => s.id === segmentId);
+    if (!reviewing || !seg) return;
+    sessionAudio
+      .seekTo(seg.startedAt)
+      .then((found) => {
+        if (!found) toast('No recording covers this segment.');
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Could not play the recording.'));
+  };
+
+  // Follow the playhead through the transcript and the scripture panel.
+  const positionMs = sessionAudio.playing ? sessionAudio.positionMs : null;
+  const playingSegmentId = useMemo(
+    () => (positionMs === null ? null : segmentAtTime(segments, positionMs)?.id ?? null),
+    [segments, positionMs],
+  );
+  useEffect(() => {
+    if (!playingSegmentId) return;
+    nonceRef.current += 1;
+    setSelectedSegmentId(playingSegmentId);
+    setTranscriptScrollTarget({ id: playingSegmentId, nonce: nonceRef.current });
+    setRefScrollTarget({ id: playingSegmentId, nonce: nonceRef.current });
+  }, [playingSegmentId]);
+
+  const nextScripture = reviewing
+    ? nextScriptureSegment(segments, sessionAudio.positionMs ?? Number.NEGATIVE_INFINITY, settings.minConfidence)
+    : null;
+  const skipToNextScripture = nextScripture
+    ? () => {
+        void sessionAudio.seekTo(nextScripture.startedAt).then((found) => {
+          if (found) focusFromTranscript(nextScripture.id);
+          else toast('No recording covers the next reference.');
+        });
+      }
+    : undefined;
+  const currentPart = sessionAudio.current ? sessionAudio.recordings.indexOf(sessionAudio.current) + 1 : 0;
 
-  const start = () => realtime.start(session.code);
-  const stop = () => void realtime.stop();
+  const [ending, setEnding] = useState(false);
+  const endSession = async () => {
+    if (!window.confirm('End this session? Nobody will be able to record into it again.')) return;
+    setEnding(true);
+    try {
+      stop();
+      const updated = await sessionService.end(session.code);
+      setSession(updated);
+      if (audioArchive.recordings.some((r) => r.chunkCount > 0)) {
+        toast.success('Session ended', {
+          description: 'A copy of the audio is saved in this browser.',
+          action: { label: 'Download audio', onClick: () => void audioArchive.download() },
+          duration: 15000,
+        });
+      } else {
+        toast.success('Session ended');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to end session.');
+    } finally {
+      setEnding(false);
+    }
+  };
 
   const copyCode = async () => {
     try {
@@ -237,15 +781,53 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
               <span>Preacher</span>
               <span className="font-semibold text-foreground">{session.ownerUsername}</span>
               <Badge variant="outline">{session.status}</Badge>
+              {!(isOwner && session.status === 'active') && (
+                <Badge variant="outline" title="Transcription language">
+                  {languageLabel(session.language)}
+                </Badge>
+              )}
+              {!isOwner && session.recordingState === 'paused' && <Badge variant="secondary">Paused</Badge>}
               <Badge variant={isOwner ? 'default' : 'secondary'}>{isOwner ? 'Owner' : 'Viewer'}</Badge>
+              <AudiencePanel
+                viewers={hub.viewers}
+                ownerUsername={session.ownerUsername}
+                connectionId={hub.connectionId}
+                hubState={hub.state}
+              />
             </div>
           </div>
           <div className="flex items-center gap-2">
             <RecordingControls
-              state={realtime.state}
+              state={transcription.state}
+              progress={recording ? transcription.progress : null}
               onStart={start}
               onStop={stop}
+              onPause={transcription.canPause ? () => void pause() : undefined}
+              onResume={() => void resume()}
               isOwner={isOwner && session.status === 'active'}
+              readLevel={transcription.readLevel}
+            />
+            {isOwner && session.status === 'active' && (
+              <LanguageSelect compact value={session.language} onChange={(l) => void changeLanguage(l)} />
+            )}
+            {isOwner && session.status === 'active' && !capturing && <MicCalibration />}
+            {isOwner && session.status === 'active' && (
+              <Button variant="outline" size="sm" onClick={() => void endSession()} disabled={ending}>
+                {ending ? 'Ending...' : 'End session'}
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" asChild>
+              <a href={presentPath(session.code)} target="_blank" rel="noreferrer" title="Open presenter display">
+                <Presentation className="h-4 w-4" />
+              </a>
+            </Button>
+            <ShareSessionDialog code={session.code} title={session.title} />
+            <ExportMenu
+              session={session}
+              minConfidence={settings.minConfidence}
+              onDownloadAudio={
+                audioArchive.recordings.some((r) => r.chunkCount > 0) ? audioArchive.download : undefined
+              }
             />
             <SettingsPanel />
             <Button variant="ghost" size="sm" onClick={onBack}>
@@ -256,6 +838,30 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
       </header>
 
       <main className="flex-1 container mx-auto px-4 py-4">
+        {isOwner && transcription.reconnect && (
+          <div className="mb-3">
+            <ReconnectBanner status={transcription.reconnect} onRetryNow={transcription.retryNow} onStop={stop} />
+          </div>
+        )}
+        {reviewing && (
+          <div className="mb-3">
+            <AudioPlayer
+              playing={sessionAudio.playing}
+              offsetMs={sessionAudio.offsetMs}
+              durationMs={sessionAudio.durationMs}
+              rate={sessionAudio.rate}
+              part={currentPart > 0 ? { index: currentPart, count: sessionAudio.recordings.length } : null}
+              onToggle={() =>
+                void sessionAudio
+                  .toggle()
+                  .catch((err) => toast.error(err instanceof Error ? err.message : 'Could not play the recording.'))
+              }
+              onSeek={sessionAudio.seekOffset}
+              onRateChange={sessionAudio.setRate}
+              onNextScripture={skipToNextScripture}
+            />
+          </div>
+        )}
         <div
           ref={splitRef}
           style={{ '--left-width': `${leftPct}%` } as React.CSSProperties}
@@ -263,17 +869,27 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
         >
           <div className="h-[70vh] md:h-full md:w-[var(--left-width)] md:min-w-0">
             <TranscriptionPanel
-              segments={segments}
-              partialText={partial}
+              segments={shownSegments}
+              partialText={isOwner ? partial : remotePartial.partial}
               autoScroll={settings.autoScroll}
-              isLive={realtime.state === 'recording'}
+              isLive={transcription.state === 'recording' || (!isOwner && Boolean(remotePartial.partial))}
               loadingSegmentIds={matchingIds}
+              syncStates={syncStates}
+              onRetrySync={outbox.retryNow}
+              onDiscardSync={discardPending}
+              onEditSegment={isOwner ? (id, text) => void editSegment(id, text) : undefined}
+              onDeleteSegment={isOwner ? (id) => void deleteSegment(id) : undefined}
               minConfidence={settings.minConfidence}
               hoveredSegmentId={hoveredSegmentId}
               selectedSegmentId={selectedSegmentId}
               scrollTarget={transcriptScrollTarget}
+              playingSegmentId={playingSegmentId}
               onSegmentHover={setHoveredSegmentId}
-              onSegmentClick={focusFromTranscript}
+              onSegmentClick={handleTranscriptClick}
+              onCaptionLanguageChange={isOwner ? undefined : (language) => updateSettings({ captionLanguage: language })}
+              captionLanguage={captionLanguage}
+              spokenLanguage={session.language}
+              translating={captions.translating}
             />
           </div>
 
@@ -287,20 +903,64 @@ export function SessionView({ session: initialSession, username, onBack }: Sessi
             <span className="h-16 w-px rounded bg-border transition-colors group-hover:bg-indigo-400" />
           </div>
 
-          <div className="h-[70vh] md:h-full md:min-w-0 md:flex-1">
-            <ScriptureReferences
-              segments={segments}
-              showConfidence={settings.showConfidence}
-              minConfidence={settings.minConfidence}
-              hoveredSegmentId={hoveredSegmentId}
-              selectedSegmentId={selectedSegmentId}
-              scrollTarget={refScrollTarget}
-              onSegmentHover={setHoveredSegmentId}
-              onSegmentClick={focusFromReference}
-            />
+          <div className="flex h-[70vh] flex-col gap-2 md:h-full md:min-w-0 md:flex-1">
+            <div role="tablist" className="flex gap-1 self-start rounded-lg border p-0.5 text-xs font-medium">
+              {(
+                [
+                  ['scriptures', 'Scriptures'],
+                  ['notes', 'Sermon notes'],
+                ] as const
+              ).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  type="button"
+                  role="tab"
+                  aria-selected={sideTab === tab}
+                  onClick={() => setSideTab(tab)}
+                  className={cn(
+                    'rounded-md px-3 py-1 transition-colors',
+                    sideTab === tab ? 'bg-indigo-600 text-white' : 'text-muted-foreground hover:text-foreground',
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="min-h-0 flex-1">
+              {sideTab === 'notes' ? (
+                <SermonNotes
+                  session={session}
+                  notes={sermonNotes.notes}
+                  pending={sermonNotes.pending}
+                  missing={sermonNotes.missing}
+                  loading={sermonNotes.loading}
+                  error={sermonNotes.error}
+                  onRetry={sermonNotes.retry}
+                  onSegmentClick={focusFromReference}
+                  onRegenerate={isOwner ? sermonNotes.regenerate : undefined}
+                />
+              ) : (
+                <ScriptureReferences
+                  segments={shownSegments}
+                  showConfidence={settings.showConfidence}
+                  minConfidence={settings.minConfidence}
+                  hoveredSegmentId={hoveredSegmentId}
+                  selectedSegmentId={selectedSegmentId}
+                  scrollTarget={refScrollTarget}
+                  onSegmentHover={setHoveredSegmentId}
+                  onSegmentClick={focusFromReference}
+                  onSetMatchStatus={
+                    isOwner ? (segmentId, matchId, status) => void setMatchStatus(segmentId, matchId, status) : undefined
+                  }
+                  onAddMatch={isOwner ? addMatch : undefined}
+                  onOpenPassage={setPassageMatch}
+                />
+              )}
+            </div>
           </div>
         </div>
       </main>
+      <PassageDrawer match={passageMatch} onClose={closePassage} />
     </div>
   );
 }
@@ -16,10 +16,18 @@ import {
   DEFAULTS,
   MATCH_COUNT_MAX,
   MATCH_COUNT_MIN,
+  MATCH_CONTEXT_SEGMENTS_MAX,
+  MATCH_CONTEXT_SEGMENTS_MIN,
+  MAX_UTTERANCE_SECONDS_MAX,
+  MAX_UTTERANCE_SECONDS_MIN,
   SILENCE_SECONDS_MAX,
   SILENCE_SECONDS_MIN,
 } from '@/constants/apiConstants';
+import { MicrophonePicker } from './MicrophonePicker';
+import { OfflineBibles } from './OfflineBibles';
 import { useSettings } from '@/hooks/useSettings';
+import { toDecibels, VAD_THRESHOLD_MAX, VAD_THRESHOLD_MIN } from '@/lib/vad';
+import { isTranscriptionProviderId, TRANSCRIPTION_PROVIDERS } from '@/services/transcription';
 
 export function SettingsPanel() {
   const { settings, update, reset } = useSettings();
@@ -39,6 +47,48 @@ export function SettingsPanel() {
 
         <div className="space-y-6 py-1">
           <Section icon={<Mic className="h-4 w-4" />} title="Transcription">
+            <div className="space-y-2">
+              <Label htmlFor="transcription-provider">Source</Label>
+              <select
+                id="transcription-provider"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={settings.transcriptionProvider}
+                onChange={(e) => {
+                  if (isTranscriptionProviderId(e.target.value)) update({ transcriptionProvider: e.target.value });
+                }}
+              >
+                {TRANSCRIPTION_PROVIDERS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                {TRANSCRIPTION_PROVIDERS.find((p) => p.id === settings.transcriptionProvider)?.hint}
+              </p>
+            </div>
+            <MicrophonePicker />
+            <ToggleRow
+              id="echo-cancellation"
+              label="Echo cancellation"
+              hint="Turn off for a sound-desk feed, which has no speaker echo to remove."
+              checked={settings.echoCancellation}
+              onChange={(checked) => update({ echoCancellation: checked })}
+            />
+            <ToggleRow
+              id="noise-suppression"
+              label="Noise suppression"
+              hint="Filters steady background noise before transcription."
+              checked={settings.noiseSuppression}
+              onChange={(checked) => update({ noiseSuppression: checked })}
+            />
+            <ToggleRow
+              id="auto-gain"
+              label="Automatic gain"
+              hint="Evens out loud and soft speech. Turn off if the desk already levels the feed."
+              checked={settings.autoGainControl}
+              onChange={(checked) => update({ autoGainControl: checked })}
+            />
             <SliderRow
               label="Silence split delay"
               hint="Pause length that ends one transcript segment and starts the next."
@@ -49,6 +99,40 @@ export function SettingsPanel() {
               format={(v) => `${v.toFixed(1)}s`}
               onChange={(v) => update({ silenceSeconds: v })}
             />
+            <SliderRow
+              label="Speech threshold"
+              hint="How loud the microphone must be to count as speech. Calibrate from the session header to set it from the room."
+              value={settings.vadThreshold}
+              min={VAD_THRESHOLD_MIN}
+              max={VAD_THRESHOLD_MAX}
+              step={0.001}
+              format={(v) => `${toDecibels(v).toFixed(0)} dB`}
+              onChange={(v) => update({ vadThreshold: v })}
+            />
+            <ToggleRow
+              id="adaptive-vad"
+              label="Adapt to room noise"
+              hint="Raise the threshold over steady background sound such as music or air conditioning."
+              checked={settings.adaptiveVad}
+              onChange={(checked) => update({ adaptiveVad: checked })}
+            />
+            <SliderRow
+              label="Longest segment"
+              hint="Speech that runs on without a pause is cut into segments of at most this length."
+              value={settings.maxUtteranceSeconds}
+              min={MAX_UTTERANCE_SECONDS_MIN}
+              max={MAX_UTTERANCE_SECONDS_MAX}
+              step={5}
+              format={(v) => `${v}s`}
+              onChange={(v) => update({ maxUtteranceSeconds: Math.round(v) })}
+            />
+            <ToggleRow
+              id="archive-audio"
+              label="Keep a local audio copy"
+              hint="Records the microphone in this browser so the session can be downloaded and replayed."
+              checked={settings.archiveAudio}
+              onChange={(checked) => update({ archiveAudio: checked })}
+            />
             <ToggleRow
               id="auto-scroll"
               label="Auto-scroll transcript"
@@ -89,6 +173,17 @@ export function SettingsPanel() {
               onChange={(v) => update({ matchCount: Math.round(v) })}
             />
 
+            <SliderRow
+              label="Context segments"
+              hint="Earlier segments read along with each utterance, so a verse quoted across a pause is still found."
+              value={settings.matchContextSegments}
+              min={MATCH_CONTEXT_SEGMENTS_MIN}
+              max={MATCH_CONTEXT_SEGMENTS_MAX}
+              step={1}
+              format={(v) => `${v}`}
+              onChange={(v) => update({ matchContextSegments: Math.round(v) })}
+            />
+
             <SliderRow
               label="Minimum confidence"
               hint="Hide scripture suggestions below this confidence."
@@ -99,6 +194,8 @@ export function SettingsPanel() {
               format={(v) => `${(v * 100).toFixed(0)}%`}
               onChange={(v) => update({ minConfidence: v })}
             />
+
+            <OfflineBibles />
           </Section>
 
           <Section icon={<Monitor className="h-4 w-4" />} title="Display">
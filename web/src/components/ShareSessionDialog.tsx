@@ -0,0 +1,78 @@
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, QrCode } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { absoluteUrl, overlayPath, sessionPath } from '@/constants/routes';
+
+interface ShareSessionDialogProps {
+  code: string;
+  title: string;
+}
+
+export function ShareSessionDialog({ code, title }: ShareSessionDialogProps) {
+  const link = absoluteUrl(sessionPath(code));
+  const overlayLink = absoluteUrl(overlayPath(code));
+
+  const copy = async (value: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(message);
+    } catch {
+      toast.error('Could not copy to clipboard.');
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Share session">
+          <QrCode className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Share “{title}”</DialogTitle>
+          <DialogDescription>Viewers can scan the code or open the link to follow along live.</DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center rounded-md border bg-white p-4">
+          <QRCodeSVG value={link} size={208} marginSize={1} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Input readOnly value={link} onFocus={(e) => e.currentTarget.select()} className="font-mono text-xs" />
+          <Button variant="secondary" size="icon" onClick={() => copy(link, 'Session link copied')} aria-label="Copy link">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="space-y-1.5 border-t pt-3">
+          <p className="text-xs text-muted-foreground">
+            Livestream overlay — add as an OBS browser source. Tune it with query options such as{' '}
+            <span className="font-mono">?size=48&amp;lines=2&amp;position=top&amp;hideMatches=1</span>.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={overlayLink} onFocus={(e) => e.currentTarget.select()} className="font-mono text-xs" />
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={() => copy(overlayLink, 'Overlay link copied')}
+              aria-label="Copy overlay link"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-center text-xs text-muted-foreground">
+          Or enter code <span className="font-mono font-semibold text-foreground">{code}</span> in the lobby.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,33 @@
-import { useEffect, useRef } from 'react';
-import { AlignLeft, Loader2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, AlignLeft, Check, CloudOff, Loader2, Pause, Pencil, RefreshCw, Trash2, Volume2, WifiOff, X } from 'lucide-react';
+import { CaptionLanguageSelect } from '@/components/LanguageSelect';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { visibleMatches } from '@/lib/scriptureMatches';
+import { isGapMarker, isMarker } from '@/lib/segments';
 import { cn } from '@/lib/utils';
+import type { OutboxStatus } from '@/services/transcriptOutbox';
 import type { TranscriptSegmentDto } from '@/types/api';
 
+export interface SegmentSyncState {
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+}
+
 function formatTime(iso: string): string {
   const date = new Date(iso);
   if (Number.isNaN(date.getTime())) return '';
   return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
 }
 
+function formatGap(startIso: string, endIso: string): string {
+  const seconds = Math.max(0, Math.round((Date.parse(endIso) - Date.parse(startIso)) / 1000));
+  if (!Number.isFinite(seconds)) return '';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
 type ScrollTarget = { id: string; nonce: number } | null;
 
 interface TranscriptionPanelProps {
@@ -18,12 +36,27 @@ interface TranscriptionPanelProps {
   autoScroll?: boolean;
   isLive?: boolean;
   loadingSegmentIds?: Set<string>;
+  /** Segments still waiting in the outbox, keyed by their local (pending) id. */
+  syncStates?: Map<string, SegmentSyncState>;
+  onRetrySync?: () => void;
+  onDiscardSync?: (segmentId: string) => void;
+  /** Owner-only corrections. Pending (unsaved) segments are never editable. */
+  onEditSegment?: (segmentId: string, text: string) => void;
+  onDeleteSegment?: (segmentId: string) => void;
   minConfidence?: number;
   hoveredSegmentId?: string | null;
   selectedSegmentId?: string | null;
   scrollTarget?: ScrollTarget;
+  /** Segment under the audio playhead while reviewing a recording. */
+  playingSegmentId?: string | null;
   onSegmentHover?: (segmentId: string | null) => void;
   onSegmentClick?: (segmentId: string) => void;
+  /** Viewer-only: shows a switcher for reading the captions in another language. */
+  onCaptionLanguageChange?: (language: string) => void;
+  /** Empty while showing the original. */
+  captionLanguage?: string;
+  spokenLanguage?: string;
+  translating?: boolean;
 }
 
 export function TranscriptionPanel({
@@ -32,18 +65,43 @@ export function TranscriptionPanel({
   autoScroll = true,
   isLive = false,
   loadingSegmentIds,
+  syncStates,
+  onRetrySync,
+  onDiscardSync,
+  onEditSegment,
+  onDeleteSegment,
   minConfidence = 0,
   hoveredSegmentId = null,
   selectedSegmentId = null,
   scrollTarget = null,
+  playingSegmentId = null,
   onSegmentHover,
   onSegmentClick,
+  onCaptionLanguageChange,
+  captionLanguage = '',
+  spokenLanguage,
+  translating = false,
 }: TranscriptionPanelProps) {
   const ref = useRef<HTMLDivElement>(null);
   const rowRefs = useRef<Map<string, HTMLElement>>(new Map());
   // Whether the view is parked at the top. We only auto-scroll while pinned, so
   // the user can freely scroll down to read/click older segments mid-recording.
   const pinnedRef = useRef(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const beginEdit = (seg: TranscriptSegmentDto) => {
+    setEditingId(seg.id);
+    setDraft(seg.text);
+  };
+
+  const commitEdit = () => {
+    if (!editingId) return;
+    const original = segments.find((s) => s.id === editingId);
+    const text = draft.trim();
+    if (original && text && text !== original.text) onEditSegment?.(editingId, text);
+    setEditingId(null);
+  };
 
   const handleScroll = () => {
     const el = ref.current;
@@ -64,6 +122,8 @@ export function TranscriptionPanel({
   }, [scrollTarget]);
 
   const ordered = [...segments].reverse();
+  const unsynced = syncStates?.size ?? 0;
+  const failed = syncStates ? [...syncStates.values()].filter((s) => s.status === 'failed').length : 0;
 
   return (
     <Card className="flex flex-col h-full">
@@ -73,6 +133,28 @@ export function TranscriptionPanel({
             <AlignLeft className="h-4 w-4 text-indigo-500" />
             Transcript
           </CardTitle>
+          {unsynced > 0 && (
+            <span className="flex items-center gap-1.5 text-xs text-amber-600">
+              <CloudOff className="h-3.5 w-3.5" />
+              {unsynced} unsynced{failed > 0 && `, ${failed} rejected`}
+              {onRetrySync && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onRetrySync}>
+                  <RefreshCw className="h-3 w-3" />
+                  Retry
+                </Button>
+              )}
+            </span>
+          )}
+          {onCaptionLanguageChange && (
+            <span className="ml-auto mr-3 flex items-center gap-1.5">
+              {translating && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" aria-label="Translating" />}
+              <CaptionLanguageSelect
+                value={captionLanguage}
+                onChange={onCaptionLanguageChange}
+                spokenLanguage={spokenLanguage}
+              />
+            </span>
+          )}
           {isLive && (
             <span className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-red-500">
               <span className="relative flex h-2 w-2">
@@ -100,11 +182,40 @@ export function TranscriptionPanel({
             </div>
           )}
           {ordered.map((seg, index) => {
+            if (isMarker(seg)) {
+              const sync = syncStates?.get(seg.id);
+              const gap = isGapMarker(seg);
+              const Icon = gap ? WifiOff : Pause;
+              return (
+                <div
+                  key={seg.id}
+                  ref={(el) => {
+                    if (el) rowRefs.current.set(seg.id, el);
+                    else rowRefs.current.delete(seg.id);
+                  }}
+                  className={cn(
+                    'flex items-center gap-3 px-3 py-1 text-xs',
+                    gap ? 'text-amber-600' : 'text-muted-foreground',
+                  )}
+                >
+                  <span className="h-px flex-1 bg-border" />
+                  <span className="flex items-center gap-1.5">
+                    {seg.id === playingSegmentId ? <Volume2 className="h-3 w-3 text-indigo-500" /> : <Icon className="h-3 w-3" />}
+                    {gap ? 'Connection lost' : 'Paused'} {formatTime(seg.startedAt)}–{formatTime(seg.endedAt)} · {formatGap(seg.startedAt, seg.endedAt)}
+                  </span>
+                  <span className="h-px flex-1 bg-border" />
+                  {sync && <SyncIndicator sync={sync} onDiscard={onDiscardSync && (() => onDiscardSync(seg.id))} />}
+                </div>
+              );
+            }
             const highlighted = seg.id === hoveredSegmentId || seg.id === selectedSegmentId;
             const isMatching = loadingSegmentIds?.has(seg.id) ?? false;
+            const sync = syncStates?.get(seg.id);
+            const editable = !seg.id.startsWith('pending-') && (onEditSegment || onDeleteSegment);
+            const isEditing = editingId === seg.id;
             // Count only matches that clear the current confidence threshold, so
             // the badge always agrees with what the scripture panel shows.
-            const visibleMatches = seg.matches.filter((m) => m.confidence >= minConfidence).length;
+            const matchCount = visibleMatches(seg.matches, minConfidence).length;
             return (
               <div
                 key={seg.id}
@@ -114,7 +225,7 @@ export function TranscriptionPanel({
                 }}
                 onMouseEnter={() => onSegmentHover?.(seg.id)}
                 onMouseLeave={() => onSegmentHover?.(null)}
-                onClick={() => onSegmentClick?.(seg.id)}
+                onClick={() => !isEditing && onSegmentClick?.(seg.id)}
                 className={cn(
                   'group flex cursor-pointer gap-3 rounded-md border border-transparent px-3 py-2 transition-colors',
                   highlighted
@@ -128,9 +239,95 @@ export function TranscriptionPanel({
                     highlighted ? 'text-indigo-500' : 'text-muted-foreground/70',
                   )}
                 >
-                  {formatTime(seg.startedAt)}
+                  {seg.id === playingSegmentId ? (
+                    <Volume2 className="ml-auto h-3.5 w-3.5 text-indigo-500" aria-label="Playing" />
+                  ) : (
+                    formatTime(seg.startedAt)
+                  )}
                 </span>
-                <p className="flex-1 text-sm leading-relaxed text-foreground">{seg.text}</p>
+                {isEditing ? (
+                  <div className="flex flex-1 items-start gap-1" onClick={(e) => e.stopPropagation()}>
+                    <textarea
+                      autoFocus
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          commitEdit();
+                        } else if (e.key === 'Escape') {
+                          setEditingId(null);
+                        }
+                      }}
+                      rows={Math.min(6, Math.max(2, Math.ceil(draft.length / 70)))}
+                      className="flex-1 resize-y rounded-md border bg-background px-2 py-1 text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                    />
+                    <button
+                      type="button"
+                      aria-label="Save correction"
+                      onClick={commitEdit}
+                      className="rounded p-1 text-emerald-600 hover:bg-emerald-50"
+                    >
+                      <Check className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Cancel editing"
+                      onClick={() => setEditingId(null)}
+                      className="rounded p-1 text-muted-foreground hover:bg-muted"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                ) : (
+                  <p
+                    className={cn(
+                      'flex-1 text-sm leading-relaxed',
+                      sync ? 'text-foreground/70' : 'text-foreground',
+                    )}
+                  >
+                    {seg.text}
+                    {seg.editedAt && (
+                      <span
+                        className="ml-1.5 select-none text-[10px] text-muted-foreground"
+                        title={`Edited ${formatTime(seg.editedAt)}`}
+                      >
+                        (edited)
+                      </span>
+                    )}
+                  </p>
+                )}
+                {editable && !isEditing && (
+                  <span className="mt-0.5 hidden shrink-0 items-center gap-0.5 group-hover:flex">
+                    {onEditSegment && (
+                      <button
+                        type="button"
+                        aria-label="Edit segment"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          beginEdit(seg);
+                        }}
+                        className="rounded p-0.5 text-muted-foreground hover:bg-background hover:text-foreground"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                    )}
+                    {onDeleteSegment && (
+                      <button
+                        type="button"
+                        aria-label="Delete segment"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteSegment(seg.id);
+                        }}
+                        className="rounded p-0.5 text-muted-foreground hover:bg-background hover:text-red-600"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                )}
+                {sync && <SyncIndicator sync={sync} onDiscard={onDiscardSync && (() => onDiscardSync(seg.id))} />}
                 {isMatching ? (
                   <span
                     className="mt-0.5 flex shrink-0 items-center gap-1 text-[10px] font-medium text-indigo-500"
@@ -139,15 +336,15 @@ export function TranscriptionPanel({
                     <Loader2 className="h-3 w-3 animate-spin" />
                   </span>
                 ) : (
-                  visibleMatches > 0 && (
+                  matchCount > 0 && (
                     <span
                       className={cn(
                         'mt-0.5 shrink-0 select-none rounded-full px-1.5 py-0.5 text-[10px] font-semibold leading-none',
                         highlighted ? 'bg-indigo-100 text-indigo-600' : 'bg-muted text-muted-foreground',
                       )}
-                      title={`${visibleMatches} scripture match${visibleMatches > 1 ? 'es' : ''}`}
+                      title={`${matchCount} scripture match${matchCount > 1 ? 'es' : ''}`}
                     >
-                      {visibleMatches}
+                      {matchCount}
                     </span>
                   )
                 )}
@@ -159,3 +356,45 @@ export function TranscriptionPanel({
     </Card>
   );
 }
+
+function SyncIndicator({ sync, onDiscard }: { sync: SegmentSyncState; onDiscard?: () => void }) {
+  if (sync.status === 'sending') {
+    return (
+      <span className="mt-0.5 shrink-0 text-muted-foreground" title="Saving…">
+        <Loader2 className="h-3 w-3 animate-spin" />
+      </span>
+    );
+  }
+  if (sync.status === 'failed') {
+    return (
+      <span className="mt-0.5 flex shrink-0 items-center gap-1 text-red-500" title={sync.lastError ?? 'Rejected by the server'}>
+        <AlertTriangle className="h-3 w-3" />
+        {onDiscard && (
+          <button
+            type="button"
+            aria-label="Discard unsaved segment"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDiscard();
+            }}
+            className="rounded hover:bg-red-50"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        )}
+      </span>
+    );
+  }
+  return (
+    <span
+      className="mt-0.5 shrink-0 text-amber-500"
+      title={
+        sync.attempts > 0
+          ? `Not saved yet — retried ${sync.attempts}× (${sync.lastError ?? 'offline'})`
+          : 'Waiting to save'
+      }
+    >
+      <CloudOff className="h-3 w-3" />
+    </span>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { useBibleText } from '@/hooks/useBibleText';
+import type { PassageText } from '@/services/bibleStore';
+import type { ScriptureMatchDto } from '@/types/api';
+
+/** Hover delay before the preview opens, so sweeping across the list doesn't flash it. */
+const OPEN_DELAY_MS = 300;
+
+interface VersePreviewProps {
+  match: ScriptureMatchDto;
+  children: React.ReactNode;
+}
+
+/**
+ * Shows the whole passage, verse by verse, from the Bible text loaded in this
+ * browser when the reference is hovered or focused. Falls back to another
+ * loaded version, then to the match's own quote.
+ */
+export function VersePreview({ match, children }: VersePreviewProps) {
+  const { lookup } = useBibleText();
+  const [open, setOpen] = useState(false);
+  const [passage, setPassage] = useState<PassageText | null | undefined>(undefined);
+  const timerRef = useRef(0);
+  const { book, chapter, verseStart, verseEnd, version } = match;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setPassage(undefined);
+    lookup({ book, chapter, verseStart, verseEnd }, version)
+      .then((found) => {
+        if (!cancelled) setPassage(found);
+      })
+      .catch(() => {
+        if (!cancelled) setPassage(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, lookup, book, chapter, verseStart, verseEnd, version]);
+
+  useEffect(() => () => window.clearTimeout(timerRef.current), []);
+
+  const show = (delay: number) => {
+    window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => setOpen(true), delay);
+  };
+  const hide = () => {
+    window.clearTimeout(timerRef.current);
+    setOpen(false);
+  };
+
+  return (
+    <span
+      className="relative"
+      tabIndex={0}
+      onMouseEnter={() => show(OPEN_DELAY_MS)}
+      onMouseLeave={hide}
+      onFocus={() => show(0)}
+      onBlur={hide}
+    >
+      {children}
+      {open && (
+        <div
+          role="tooltip"
+          onClick={(e) => e.stopPropagation()}
+          className="absolute left-0 top-full z-20 mt-1 w-80 max-w-[80vw] rounded-md border bg-card p-3 text-left text-xs normal-case tracking-normal text-card-foreground shadow-lg"
+        >
+          <PreviewBody match={match} passage={passage} />
+        </div>
+      )}
+    </span>
+  );
+}
+
+function PreviewBody({ match, passage }: { match: ScriptureMatchDto; passage: PassageText | null | undefined }) {
+  if (passage === undefined) return <p className="text-muted-foreground">Looking up {match.reference}...</p>;
+  if (passage === null) {
+    return match.quote ? (
+      <p className="italic leading-snug">&ldquo;{match.quote}&rdquo;</p>
+    ) : (
+      <p className="text-muted-foreground">No Bible text loaded for this passage. Load a version in Settings.</p>
+    );
+  }
+  return (
+    <div className="space-y-1.5">
+      <p className="max-h-60 overflow-y-auto leading-snug">
+        {passage.verses.map((v) => (
+          <span key={v.verse}>
+            <sup className="mr-0.5 font-semibold text-indigo-500">{v.verse}</sup>
+            {v.text}{' '}
+          </span>
+        ))}
+      </p>
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">
+        {passage.version}
+        {passage.version !== match.version && ` · ${match.version} is not loaded`}
+      </p>
+    </div>
+  );
+}
@@ -38,12 +38,28 @@ export const API_ENDPOINTS = {
     list: '/api/sessions',
     one: (code: string) => `/api/sessions/${encodeURIComponent(code)}`,
     end: (code: string) => `/api/sessions/${encodeURIComponent(code)}/end`,
+    recording: (code: string) => `/api/sessions/${encodeURIComponent(code)}/recording`,
+    language: (code: string) => `/api/sessions/${encodeURIComponent(code)}/language`,
     transcripts: (code: string) => `/api/sessions/${encodeURIComponent(code)}/transcripts`,
+    translations: (code: string, language: string) =>
+      `/api/sessions/${encodeURIComponent(code)}/transcripts/translations?language=${encodeURIComponent(language)}`,
+    partial: (code: string) => `/api/sessions/${encodeURIComponent(code)}/partial`,
+    notes: (code: string) => `/api/sessions/${encodeURIComponent(code)}/notes`,
+    regenerateNotes: (code: string) => `/api/sessions/${encodeURIComponent(code)}/notes/regenerate`,
+    transcript: (code: string, segmentId: string) =>
+      `/api/sessions/${encodeURIComponent(code)}/transcripts/${encodeURIComponent(segmentId)}`,
+    matches: (code: string, segmentId: string) =>
+      `/api/sessions/${encodeURIComponent(code)}/transcripts/${encodeURIComponent(segmentId)}/matches`,
+    match: (code: string, segmentId: string, matchId: string) =>
+      `/api/sessions/${encodeURIComponent(code)}/transcripts/${encodeURIComponent(segmentId)}/matches/${encodeURIComponent(matchId)}`,
   },
   openai: {
     transcriptionSession: '/api/openai/transcription-session',
+    transcriptions: '/api/openai/transcriptions',
   },
   match: '/api/match',
+  passage: (book: string, chapter: number, version: string) =>
+    `/api/passages?book=${encodeURIComponent(book)}&chapter=${chapter}&version=${encodeURIComponent(version)}`,
 } as const;
 
 export const STORAGE_KEYS = {
@@ -54,22 +70,44 @@ export const STORAGE_KEYS = {
   autoScroll: 'hoptranscribe.v2.autoScroll',
   minConfidence: 'hoptranscribe.v2.minConfidence',
   matchCount: 'hoptranscribe.v2.matchCount',
+  matchContextSegments: 'hoptranscribe.v2.matchContextSegments',
   silenceSeconds: 'hoptranscribe.v2.silenceSeconds',
   splitPct: 'hoptranscribe.v2.splitPct',
+  presenter: 'hoptranscribe.v2.presenter',
+  transcriptionProvider: 'hoptranscribe.v2.transcriptionProvider',
+  archiveAudio: 'hoptranscribe.v2.archiveAudio',
+  vadThreshold: 'hoptranscribe.v2.vadThreshold',
+  maxUtteranceSeconds: 'hoptranscribe.v2.maxUtteranceSeconds',
+  adaptiveVad: 'hoptranscribe.v2.adaptiveVad',
+  inputDeviceId: 'hoptranscribe.v2.inputDeviceId',
+  echoCancellation: 'hoptranscribe.v2.echoCancellation',
+  noiseSuppression: 'hoptranscribe.v2.noiseSuppression',
+  autoGainControl: 'hoptranscribe.v2.autoGainControl',
+  sessionLanguage: 'hoptranscribe.v2.sessionLanguage',
+  captionLanguage: 'hoptranscribe.v2.captionLanguage',
 } as const;
 
 export const DEFAULTS = {
   preferredVersion: 'NKJV',
   language: 'en',
   matchCount: 3,
+  matchContextSegments: 2,
   minConfidence: 0.4,
   silenceSeconds: 1,
+  vadThreshold: 0.012,
+  maxUtteranceSeconds: 20,
   bibleVersions: ['Best Match', 'NKJV', 'NIV', 'ESV', 'NLT', 'NASB', 'AMP', 'MSG', 'TPT'],
 } as const;
 
 // Bounds for the silence gap that splits one utterance from the next.
 export const SILENCE_SECONDS_MIN = 0.5;
 export const SILENCE_SECONDS_MAX = 5;
+// Bounds for how long one utterance may run before it is cut.
+export const MAX_UTTERANCE_SECONDS_MIN = 5;
+export const MAX_UTTERANCE_SECONDS_MAX = 60;
 // Bounds for how many scripture references each utterance may surface.
 export const MATCH_COUNT_MIN = 1;
 export const MATCH_COUNT_MAX = 5;
+// Bounds for how many earlier segments are sent along as matching context.
+export const MATCH_CONTEXT_SEGMENTS_MIN = 0;
+export const MATCH_CONTEXT_SEGMENTS_MAX = 5;
@@ -0,0 +1,13 @@
+// Script for the offline demo transcription source. Each line is spoken as one
+// utterance, and most of them quote or name a passage so the matcher has work.
+export const DEMO_SERMON_SCRIPT = `
+Good morning church, please open your Bibles with me to the gospel of John.
+For God so loved the world that he gave his only begotten Son.
+That whosoever believeth in him should not perish but have everlasting life.
+Paul reminds us in Romans chapter eight that all things work together for good to them that love God.
+The Lord is my shepherd, I shall not want.
+He maketh me to lie down in green pastures, he leadeth me beside the still waters.
+Trust in the Lord with all your heart and lean not on your own understanding.
+I can do all things through Christ which strengtheneth me.
+Let us bow our heads and pray together.
+`;
@@ -0,0 +1,32 @@
+// Languages a session can be transcribed in. Mirrors `SessionLanguages` in the
+// API, which also picks the Bible versions the matcher quotes for each.
+
+/** Lets the transcription model work out the language from the audio. */
+export const AUTO_LANGUAGE = 'auto';
+
+export const SESSION_LANGUAGES = [
+  { code: AUTO_LANGUAGE, label: 'Auto-detect' },
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'pt', label: 'Português' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh', label: '中文' },
+  { code: 'sw', label: 'Kiswahili' },
+  { code: 'tl', label: 'Tagalog' },
+  { code: 'ro', label: 'Română' },
+] as const;
+
+export type SessionLanguage = (typeof SESSION_LANGUAGES)[number]['code'];
+
+export function isSessionLanguage(value: string): value is SessionLanguage {
+  return SESSION_LANGUAGES.some((l) => l.code === value);
+}
+
+/** Display name for a language code; unknown codes are shown as-is. */
+export function languageLabel(code: string): string {
+  return SESSION_LANGUAGES.find((l) => l.code === code)?.label ?? code.toUpperCase();
+}
@@ -0,0 +1,23 @@
+// Client-side route table. Session codes are case-insensitive on the API but
+// always rendered upper-case so shared links look the same everywhere.
+export const ROUTES = {
+  lobby: '/',
+  session: '/s/:code',
+  segment: '/s/:code/segment/:segmentId',
+  present: '/s/:code/present',
+  overlay: '/s/:code/overlay',
+} as const;
+
+export const sessionPath = (code: string) => `/s/${encodeURIComponent(code.toUpperCase())}`;
+
+export const segmentPath = (code: string, segmentId: string) =>
+  `${sessionPath(code)}/segment/${encodeURIComponent(segmentId)}`;
+
+/** Full-screen projector view; meant to run on its own machine or window. */
+export const presentPath = (code: string) => `${sessionPath(code)}/present`;
+
+/** Transparent caption overlay for OBS browser sources; options go in the query string. */
+export const overlayPath = (code: string) => `${sessionPath(code)}/overlay`;
+
+/** Absolute URL for sharing (QR codes, copy link). */
+export const absoluteUrl = (path: string) => new URL(path, window.location.origin).toString();
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { downloadBlob } from '@/lib/download';
+import {
+  createDefaultAudioStore,
+  recordingBlob,
+  recordingFilename,
+  startArchiveRecorder,
+  type ArchiveRecorder,
+  type ArchivedRecording,
+} from '@/services/audioArchive';
+
+interface UseAudioArchiveOptions {
+  session: { code: string; title: string };
+  /** Whether new audio should be recorded; what is already archived stays readable. */
+  enabled: boolean;
+}
+
+/** Keeps a local recording of the session's microphone audio alongside live transcription. */
+export function useAudioArchive({ session, enabled }: UseAudioArchiveOptions) {
+  const store = useMemo(() => createDefaultAudioStore(), []);
+  const [recordings, setRecordings] = useState<ArchivedRecording[]>([]);
+  const recorderRef = useRef<ArchiveRecorder | null>(null);
+
+  const upsert = useCallback((recording: ArchivedRecording) => {
+    setRecordings((prev) => {
+      const rest = prev.filter((r) => r.id !== recording.id);
+      return [...rest, recording].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    store
+      .listRecordings(session.code)
+      .then((list) => {
+        if (!cancelled) setRecordings(list.sort((a, b) => a.startedAt.localeCompare(b.startedAt)));
+      })
+      .catch((err) => console.warn('Could not read the audio archive', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [store, session.code]);
+
+  const release = useCallback(async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder) upsert(await recorder.stop());
+  }, [upsert]);
+
+  const capture = useCallback(
+    (stream: MediaStream) => {
+      if (!enabled) return;
+      // A reconnect hands over a new stream; the old recorder has already stopped with its tracks.
+      void release();
+      recorderRef.current = startArchiveRecorder({
+        stream,
+        sessionCode: session.code,
+        store,
+        onChange: upsert,
+        onError: (err) => console.warn('Audio archive write failed', err),
+      });
+    },
+    [enabled, release, session.code, store, upsert],
+  );
+
+  useEffect(() => () => void release(), [release]);
+
+  const download = useCallback(async () => {
+    const finished = recordings.filter((r) => r.chunkCount > 0);
+    for (const [i, recording] of finished.entries()) {
+      const blob = await recordingBlob(store, recording);
+      downloadBlob(blob, recordingFilename(session, recording, finished.length > 1 ? i + 1 : undefined));
+    }
+  }, [recordings, session, store]);
+
+  return { store, recordings, capture, release, download };
+}
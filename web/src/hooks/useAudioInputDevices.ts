@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listAudioInputs, type AudioInputDevice } from '@/services/audioInput';
+
+/** Available microphones, kept current as devices are plugged in and removed. */
+export function useAudioInputDevices() {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listAudioInputs());
+    } catch (err) {
+      console.warn('Could not list audio inputs', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+    const media = navigator.mediaDevices;
+    if (!media?.addEventListener) return;
+    const onChange = () => void refresh();
+    media.addEventListener('devicechange', onChange);
+    return () => media.removeEventListener('devicechange', onChange);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
@@ -0,0 +1,99 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { parseBibleFile, versionFromFileName, type BibleVerse, type BibleVersionInfo } from '@/lib/bibleText';
+import {
+  createDefaultBibleStore,
+  lookupPassage,
+  withLocalQuotes,
+  type PassageRef,
+  type PassageText,
+} from '@/services/bibleStore';
+import type { ScriptureMatchDto } from '@/types/api';
+
+interface BibleTextContextValue {
+  /** Versions loaded into this browser, by code. */
+  versions: BibleVersionInfo[];
+  /** Reads a Bible JSON file and stores it; rejects with a readable message when it can't. */
+  importFile: (file: File) => Promise<BibleVersionInfo>;
+  removeVersion: (version: string) => Promise<void>;
+  lookup: (ref: PassageRef, version: string) => Promise<PassageText | null>;
+  /** Every verse of a chapter in exactly this version; empty when it isn't loaded. */
+  readChapter: (book: string, chapter: number, version: string) => Promise<BibleVerse[]>;
+  /** Fills and checks quotes from loaded text; returns the matches unchanged if the store can't be read. */
+  fillQuotes: (matches: ScriptureMatchDto[]) => Promise<ScriptureMatchDto[]>;
+}
+
+const BibleTextContext = createContext<BibleTextContextValue | null>(null);
+
+export function BibleTextProvider({ children }: { children: React.ReactNode }) {
+  const [store] = useState(createDefaultBibleStore);
+  const [versions, setVersions] = useState<BibleVersionInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    const list = await store.listVersions();
+    setVersions(list.sort((a, b) => a.version.localeCompare(b.version)));
+  }, [store]);
+
+  useEffect(() => {
+    refresh().catch(() => {
+      /* ignore: no stored text is the same as none loaded */
+    });
+  }, [refresh]);
+
+  const importFile = useCallback(
+    async (file: File) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file.`);
+      }
+      const info = await store.putVersion(parseBibleFile(data, versionFromFileName(file.name)));
+      await refresh();
+      return info;
+    },
+    [store, refresh],
+  );
+
+  const removeVersion = useCallback(
+    async (version: string) => {
+      await store.removeVersion(version);
+      await refresh();
+    },
+    [store, refresh],
+  );
+
+  const lookup = useCallback((ref: PassageRef, version: string) => lookupPassage(store, ref, version), [store]);
+
+  const readChapter = useCallback(
+    (book: string, chapter: number, version: string) =>
+      store.getVerses(version, book, chapter, 1, Number.MAX_SAFE_INTEGER),
+    [store],
+  );
+
+  const fillQuotes = useCallback(
+    async (matches: ScriptureMatchDto[]) => {
+      if (matches.length === 0) return matches;
+      try {
+        return await withLocalQuotes(store, matches);
+      } catch {
+        return matches;
+      }
+    },
+    [store],
+  );
+
+  const value = useMemo<BibleTextContextValue>(
+    () => ({ versions, importFile, removeVersion, lookup, readChapter, fillQuotes }),
+    [versions, importFile, removeVersion, lookup, readChapter, fillQuotes],
+  );
+
+  return <BibleTextContext.Provider value={value}>{children}</BibleTextContext.Provider>;
+}
+
+export function useBibleText(): BibleTextContextValue {
+  const ctx = useContext(BibleTextContext);
+  if (!ctx) {
+    throw new Error('useBibleText must be used within a BibleTextProvider.');
+  }
+  return ctx;
+}
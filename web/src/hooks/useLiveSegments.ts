@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRemotePartial } from './useRemotePartial';
+import { useSessionHub } from './useSessionHub';
+import { sessionService } from '@/services/sessionService';
+import type { SessionDto, TranscriptSegmentDto } from '@/types/api';
+
+interface UseLiveSegmentsOptions {
+  sessionCode: string;
+  onSessionUpdated?: (session: SessionDto) => void;
+}
+
+/**
+ * Read-only transcript for display surfaces (presenter, overlay): loads the
+ * saved segments, then follows the hub. Unlike SessionView it applies every
+ * broadcast, including when the signed-in user owns the session, because these
+ * screens never produce segments themselves.
+ */
+export function useLiveSegments({ sessionCode, onSessionUpdated }: UseLiveSegmentsOptions) {
+  const [segments, setSegments] = useState<TranscriptSegmentDto[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The owner's in-progress line, relayed through the hub before it becomes a segment.
+  const { partial, receive: receivePartial } = useRemotePartial();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(false);
+    setError(null);
+    (async () => {
+      try {
+        const existing = await sessionService.listTranscripts(sessionCode);
+        if (cancelled) return;
+        // Anything the hub delivered while the list was loading wins over the snapshot.
+        setSegments((prev) => {
+          const live = new Set(prev.map((s) => s.id));
+          return [...(existing ?? []).filter((s) => !live.has(s.id)), ...prev].sort(byStart);
+        });
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load transcripts.');
+      } finally {
+        if (!cancelled) setLoaded(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionCode]);
+
+  // The partial is not cleared here: the owner clears it as soon as the line is
+  // final, and by the time the saved segment arrives the next line may be live.
+  const handleAppended = useCallback((segment: TranscriptSegmentDto) => {
+    setSegments((prev) => (prev.some((s) => s.id === segment.id) ? prev : [...prev, segment].sort(byStart)));
+  }, []);
+
+  const handleUpdated = useCallback((segment: TranscriptSegmentDto) => {
+    setSegments((prev) => prev.map((s) => (s.id === segment.id ? segment : s)));
+  }, []);
+
+  const handleDeleted = useCallback((segmentId: string) => {
+    setSegments((prev) => prev.filter((s) => s.id !== segmentId));
+  }, []);
+
+  const hub = useSessionHub({
+    sessionCode,
+    enabled: true,
+    onTranscriptAppended: handleAppended,
+    onTranscriptUpdated: handleUpdated,
+    onTranscriptDeleted: handleDeleted,
+    onPartialUpdated: receivePartial,
+    onSessionUpdated,
+  });
+
+  return { segments, partial, loaded, error, hubState: hub.state };
+}
+
+function byStart(a: TranscriptSegmentDto, b: TranscriptSegmentDto): number {
+  return a.startedAt.localeCompare(b.startedAt);
+}
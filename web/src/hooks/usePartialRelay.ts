@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { createPartialRelay, type PartialRelay } from '@/services/partialRelay';
+import { sessionService } from '@/services/sessionService';
+
+interface UsePartialRelayOptions {
+  sessionCode: string;
+  enabled: boolean;
+}
+
+/** Owner side of live captions: throttles `onDelta` text out to the session's viewers. */
+export function usePartialRelay({ sessionCode, enabled }: UsePartialRelayOptions) {
+  const relayRef = useRef<PartialRelay | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let warned = false;
+    const relay = createPartialRelay({
+      send: (text) => sessionService.sendPartial(sessionCode, text),
+      // Live captions are best-effort; the final segment still arrives through the outbox.
+      onError: (err) => {
+        if (!warned) console.warn('Live caption relay failed', err);
+        warned = true;
+      },
+    });
+    relayRef.current = relay;
+    return () => {
+      relay.clear();
+      relay.dispose();
+      if (relayRef.current === relay) relayRef.current = null;
+    };
+  }, [sessionCode, enabled]);
+
+  const push = useCallback((text: string) => relayRef.current?.push(text), []);
+  const clear = useCallback(() => relayRef.current?.clear(), []);
+
+  return { push, clear };
+}
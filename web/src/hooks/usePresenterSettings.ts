@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { STORAGE_KEYS } from '@/constants/apiConstants';
+import type { PresenterSource } from '@/lib/presenter';
+
+export type PresenterTheme = 'dark' | 'light' | 'contrast';
+
+export interface PresenterSettings {
+  theme: PresenterTheme;
+  /** Multiplier on the base type size; the projector is often across the room. */
+  fontScale: number;
+  showCaptions: boolean;
+  source: PresenterSource;
+}
+
+export const PRESENTER_THEMES: readonly PresenterTheme[] = ['dark', 'light', 'contrast'];
+export const PRESENTER_FONT_SCALE = { min: 0.5, max: 2, step: 0.25 } as const;
+
+const defaultPresenterSettings: PresenterSettings = {
+  theme: 'dark',
+  fontScale: 1,
+  showCaptions: true,
+  source: 'latest',
+};
+
+function loadPresenterSettings(): PresenterSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.presenter);
+    if (!raw) return defaultPresenterSettings;
+    const stored = JSON.parse(raw) as Partial<PresenterSettings>;
+    return {
+      theme: PRESENTER_THEMES.includes(stored.theme as PresenterTheme)
+        ? (stored.theme as PresenterTheme)
+        : defaultPresenterSettings.theme,
+      fontScale: clampScale(Number(stored.fontScale ?? defaultPresenterSettings.fontScale)),
+      showCaptions: stored.showCaptions ?? defaultPresenterSettings.showCaptions,
+      source: stored.source === 'pinned' ? 'pinned' : 'latest',
+    };
+  } catch {
+    return defaultPresenterSettings;
+  }
+}
+
+export function clampScale(value: number): number {
+  if (!Number.isFinite(value)) return defaultPresenterSettings.fontScale;
+  return Math.min(PRESENTER_FONT_SCALE.max, Math.max(PRESENTER_FONT_SCALE.min, value));
+}
+
+/** Per-device display preferences; each projector machine keeps its own. */
+export function usePresenterSettings() {
+  const [settings, setSettings] = useState<PresenterSettings>(loadPresenterSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEYS.presenter, JSON.stringify(settings));
+    } catch {
+      /* ignore */
+    }
+  }, [settings]);
+
+  const update = useCallback((patch: Partial<PresenterSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  return { settings, update };
+}
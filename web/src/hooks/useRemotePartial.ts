@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * A relayed line older than this is dropped. The owner clears it when the
+ * segment is final, but a closed tab or lost connection never sends that.
+ */
+export const REMOTE_PARTIAL_STALE_MS = 8000;
+
+/** Viewer side of live captions: the owner's in-progress line as last relayed by the hub. */
+export function useRemotePartial() {
+  const [partial, setPartial] = useState('');
+  const staleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const reset = useCallback(() => {
+    if (staleTimer.current) clearTimeout(staleTimer.current);
+    staleTimer.current = null;
+    setPartial('');
+  }, []);
+
+  const receive = useCallback(
+    (text: string) => {
+      if (!text) {
+        reset();
+        return;
+      }
+      setPartial(text);
+      if (staleTimer.current) clearTimeout(staleTimer.current);
+      staleTimer.current = setTimeout(() => {
+        staleTimer.current = null;
+        setPartial('');
+      }, REMOTE_PARTIAL_STALE_MS);
+    },
+    [reset],
+  );
+
+  useEffect(() => {
+    return () => {
+      if (staleTimer.current) clearTimeout(staleTimer.current);
+    };
+  }, []);
+
+  return { partial, receive, reset };
+}
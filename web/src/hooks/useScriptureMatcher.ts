@@ -1,10 +1,15 @@
-import { useCallback, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
+import { DEFAULTS } from '@/constants/apiConstants';
+import { detectReferenceMatches } from '@/lib/referenceDetector';
+import { createMatchQueue, type MatchQueue } from '@/services/matchQueue';
 import { matchService } from '@/services/matchService';
 import type { ScriptureMatchDto } from '@/types/api';
 
 export interface MatchAttemptResult {
   matches: ScriptureMatchDto[];
   error?: Error;
+  /** A newer request for the same segment replaced this one, or the matcher was torn down. */
+  superseded?: boolean;
 }
 
 interface UseScriptureMatcherOptions {
@@ -12,47 +17,61 @@ interface UseScriptureMatcherOptions {
   preferredVersion: string;
   n?: number;
   minLength?: number;
+  /**
+   * Answer cited references ("Romans 8:28") locally and only ask the API when
+   * none was said. The detector knows English book names only.
+   */
+  detectReferences?: boolean;
 }
 
+/**
+ * Match lookups queued per segment: a new utterance no longer cancels the one
+ * before it, and asking again for the same segment replaces its earlier request.
+ */
 export function useScriptureMatcher({
   sessionCode,
   preferredVersion,
   n = 3,
   minLength = 8,
+  detectReferences = true,
 }: UseScriptureMatcherOptions) {
-  const inflightRef = useRef<AbortController | null>(null);
+  const queueRef = useRef<MatchQueue | null>(null);
+  if (!queueRef.current) queueRef.current = createMatchQueue();
 
   const requestMatches = useCallback(
-    async (utterance: string): Promise<MatchAttemptResult> => {
+    async (segmentId: string, utterance: string, context = ''): Promise<MatchAttemptResult> => {
       const text = utterance.trim();
+      if (detectReferences) {
+        const version = preferredVersion === 'Best Match' ? DEFAULTS.preferredVersion : preferredVersion;
+        const cited = detectReferenceMatches(text, version, n);
+        if (cited.length > 0) return { matches: cited };
+      }
       if (text.length < minLength) return { matches: [] };
 
-      inflightRef.current?.abort();
-      const ctrl = new AbortController();
-      inflightRef.current = ctrl;
       try {
-        const result = await matchService.match({
-          sessionCode,
-          utterance: text,
-          preferredVersion,
-          n,
-        });
-        if (ctrl.signal.aborted) return { matches: [] };
+        // A replaced request is aborted, so the server stops its model call too.
+        const result = await queueRef.current!.run(segmentId, (signal) =>
+          matchService.match(
+            { sessionCode, utterance: text, context: context.trim() || undefined, preferredVersion, n },
+            signal,
+          ),
+        );
+        if (result === null) return { matches: [], superseded: true };
         return { matches: result.matches ?? [] };
       } catch (err) {
-        if (ctrl.signal.aborted) return { matches: [] };
         return { matches: [], error: err instanceof Error ? err : new Error(String(err)) };
-      } finally {
-        if (inflightRef.current === ctrl) inflightRef.current = null;
       }
     },
-    [sessionCode, preferredVersion, n, minLength],
+    [sessionCode, preferredVersion, n, minLength, detectReferences],
   );
 
-  const cancel = useCallback(() => {
-    inflightRef.current?.abort();
-    inflightRef.current = null;
+  /** Drops one segment's lookup, or every queued and running one. */
+  const cancel = useCallback((segmentId?: string) => {
+    if (segmentId) queueRef.current?.cancel(segmentId);
+    else queueRef.current?.cancelAll();
   }, []);
 
+  useEffect(() => () => queueRef.current?.cancelAll(), []);
+
   return { requestMatches, cancel };
 }
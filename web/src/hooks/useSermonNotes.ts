@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { notesSignature } from '@/lib/sermonNotes';
+import { sessionService } from '@/services/sessionService';
+import type { SessionNotesDto, TranscriptSegmentDto } from '@/types/api';
+
+/** Lets a run of post-session edits settle before the notes are asked for again. */
+export const NOTES_REFRESH_DEBOUNCE_MS = 1500;
+
+/** How often to ask again while the server is still writing the notes. */
+export const NOTES_POLL_MS = 3000;
+
+/**
+ * Sermon notes for a session, asked for as soon as it has ended. The server writes
+ * them in the background, so this polls while they are pending, and asks again
+ * after edits that change what they were written from.
+ */
+export function useSermonNotes(code: string | undefined, ended: boolean, segments: TranscriptSegmentDto[]) {
+  const [state, setState] = useState<SessionNotesDto | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const signature = useMemo(() => notesSignature(segments), [segments]);
+  // Only picks the delay, so a fresh copy arriving doesn't trigger another request.
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    setState(null);
+    setError(null);
+    loadedRef.current = false;
+  }, [code]);
+
+  useEffect(() => {
+    if (!code || !ended) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const result = await sessionService.getNotes(code);
+        if (cancelled) return;
+        loadedRef.current = true;
+        setState(result);
+        setError(null);
+        if (result.status === 'pending') timer = setTimeout(() => void load(), NOTES_POLL_MS);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load sermon notes.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    // The first request goes straight out; later ones wait for edits to settle.
+    timer = setTimeout(() => void load(), loadedRef.current ? NOTES_REFRESH_DEBOUNCE_MS : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, ended, signature, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  const regenerate = useCallback(async () => {
+    if (!code) return;
+    setState(await sessionService.regenerateNotes(code));
+    setError(null);
+    // Start polling for the new notes.
+    setAttempt((n) => n + 1);
+  }, [code]);
+
+  return {
+    notes: state?.notes ?? null,
+    pending: state?.status === 'pending',
+    missing: state?.status === 'missing',
+    loading,
+    error,
+    retry,
+    regenerate,
+  };
+}
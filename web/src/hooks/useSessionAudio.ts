@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  locateInArchive,
+  recordingBlob,
+  type ArchivedRecording,
+  type AudioArchiveStore,
+} from '@/services/audioArchive';
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2] as const;
+
+interface UseSessionAudioOptions {
+  recordings: ArchivedRecording[];
+  store: AudioArchiveStore;
+}
+
+function durationOf(recording: ArchivedRecording): number {
+  // MediaRecorder WebM carries no duration header, so the element reports
+  // Infinity; the wall-clock span of the recording is the reliable length.
+  return recording.endedAt ? Math.max(0, Date.parse(recording.endedAt) - Date.parse(recording.startedAt)) : 0;
+}
+
+/** Plays back archived session audio, addressed by the wall-clock times transcript segments carry. */
+export function useSessionAudio({ recordings, store }: UseSessionAudioOptions) {
+  // A recording still being written is not played; it has no end to seek within.
+  const playable = useMemo(() => recordings.filter((r) => r.chunkCount > 0 && r.endedAt), [recordings]);
+  const playableRef = useRef(playable);
+  playableRef.current = playable;
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urls = useRef(new Map<string, string>());
+  const currentRef = useRef<ArchivedRecording | null>(null);
+  const [current, setCurrent] = useState<ArchivedRecording | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [offsetMs, setOffsetMs] = useState(0);
+  const [rate, setRateState] = useState(1);
+  const rateRef = useRef(rate);
+  rateRef.current = rate;
+
+  const load = useCallback(
+    async (recording: ArchivedRecording) => {
+      const audio = audioRef.current ?? (audioRef.current = new Audio());
+      if (currentRef.current?.id === recording.id) return audio;
+      let url = urls.current.get(recording.id);
+      if (!url) {
+        url = URL.createObjectURL(await recordingBlob(store, recording));
+        urls.current.set(recording.id, url);
+      }
+      audio.src = url;
+      // Changing the source resets the rate to the default one.
+      audio.defaultPlaybackRate = rateRef.current;
+      audio.playbackRate = rateRef.current;
+      currentRef.current = recording;
+      setCurrent(recording);
+      setOffsetMs(0);
+      return audio;
+    },
+    [store],
+  );
+
+  const seekWithin = useCallback(
+    async (recording: ArchivedRecording, ms: number, play: boolean) => {
+      const audio = await load(recording);
+      if (audio.readyState < HTMLMediaElement.HAVE_METADATA) {
+        await new Promise((resolve) => audio.addEventListener('loadedmetadata', resolve, { once: true }));
+      }
+      audio.currentTime = ms / 1000;
+      setOffsetMs(ms);
+      if (play) await audio.play();
+    },
+    [load],
+  );
+
+  // Element events drive state; the element itself is created on first use.
+  useEffect(() => {
+    const audio = audioRef.current ?? (audioRef.current = new Audio());
+    const onTime = () => setOffsetMs(audio.currentTime * 1000);
+    const onPlay = () => setPlaying(true);
+    const onPause = () => setPlaying(false);
+    const onEnded = () => {
+      // Carry on into the next recording, as if the session had been one take.
+      const list = playableRef.current;
+      const index = list.findIndex((r) => r.id === currentRef.current?.id);
+      const next = index >= 0 ? list[index + 1] : undefined;
+      if (next) void seekWithin(next, 0, true).catch(() => setPlaying(false));
+      else setPlaying(false);
+    };
+    audio.addEventListener('timeupdate', onTime);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
+    audio.addEventListener('ended', onEnded);
+    return () => {
+      audio.removeEventListener('timeupdate', onTime);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
+      audio.removeEventListener('ended', onEnded);
+    };
+  }, [seekWithin]);
+
+  useEffect(() => {
+    const cache = urls.current;
+    return () => {
+      audioRef.current?.pause();
+      cache.forEach((url) => URL.revokeObjectURL(url));
+      cache.clear();
+    };
+  }, []);
+
+  /** Plays from the moment `at` (ISO time); false when no recording covers it. */
+  const seekTo = useCallback(
+    async (at: string) => {
+      const hit = locateInArchive(playableRef.current, at);
+      if (!hit) return false;
+      await seekWithin(hit.recording, hit.offsetMs, true);
+      return true;
+    },
+    [seekWithin],
+  );
+
+  /** Moves within the current recording, e.g. from the scrubber. */
+  const seekOffset = useCallback(
+    (ms: number) => {
+      const recording = currentRef.current;
+      if (recording) void seekWithin(recording, ms, !audioRef.current?.paused);
+    },
+    [seekWithin],
+  );
+
+  const toggle = useCallback(async () => {
+    const audio = audioRef.current;
+    if (currentRef.current && audio) {
+      if (audio.paused) await audio.play();
+      else audio.pause();
+      return;
+    }
+    const first = playableRef.current[0];
+    if (first) await seekWithin(first, 0, true);
+  }, [seekWithin]);
+
+  const setRate = useCallback((next: number) => {
+    setRateState(next);
+    const audio = audioRef.current;
+    if (audio) {
+      audio.defaultPlaybackRate = next;
+      audio.playbackRate = next;
+    }
+  }, []);
+
+  return {
+    available: playable.length > 0,
+    recordings: playable,
+    current,
+    playing,
+    rate,
+    offsetMs,
+    durationMs: current ? durationOf(current) : 0,
+    /** Wall-clock ms of the playhead, comparable with segment `startedAt`; null before anything is loaded. */
+    positionMs: current ? Date.parse(current.startedAt) + offsetMs : null,
+    seekTo,
+    seekOffset,
+    toggle,
+    setRate,
+  };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { sessionService } from '@/services/sessionService';
+import type { SessionDto } from '@/types/api';
+
+/**
+ * Loads a session for a route. `handedOver` (router state from the lobby)
+ * skips the request when it already describes the requested code.
+ */
+export function useSessionByCode(code: string, handedOver?: SessionDto) {
+  const [session, setSession] = useState<SessionDto | null>(
+    handedOver && handedOver.code.toUpperCase() === code ? handedOver : null,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (session && session.code.toUpperCase() === code) return;
+    let cancelled = false;
+    setSession(null);
+    setError(null);
+    (async () => {
+      try {
+        const loaded = await sessionService.get(code);
+        if (!cancelled) setSession(loaded);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Session not found.');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Only the code decides which session to load; `session` is read as a cache.
+  }, [code]);
+
+  return { session, setSession, error };
+}
@@ -1,60 +1,133 @@
 import { useEffect, useRef, useState } from 'react';
 import * as signalR from '@microsoft/signalr';
 import { connectSessionHub, type SessionHubClient } from '@/services/signalRService';
-import type { SessionDto, TranscriptSegmentDto } from '@/types/api';
+import type { SessionDto, SessionViewerDto, TranscriptSegmentDto } from '@/types/api';
 
 interface UseSessionHubOptions {
   sessionCode: string;
   enabled: boolean;
   onTranscriptAppended?: (segment: TranscriptSegmentDto) => void;
+  onTranscriptUpdated?: (segment: TranscriptSegmentDto) => void;
+  onTranscriptDeleted?: (segmentId: string) => void;
+  onPartialUpdated?: (text: string) => void;
   onSessionUpdated?: (session: SessionDto) => void;
+  onViewerJoined?: (viewer: SessionViewerDto) => void;
+  onViewerLeft?: (viewer: Pick<SessionViewerDto, 'username' | 'connectionId'>) => void;
 }
 
 export function useSessionHub({
   sessionCode,
   enabled,
   onTranscriptAppended,
+  onTranscriptUpdated,
+  onTranscriptDeleted,
+  onPartialUpdated,
   onSessionUpdated,
+  onViewerJoined,
+  onViewerLeft,
 }: UseSessionHubOptions) {
   const [state, setState] = useState<signalR.HubConnectionState>(
     signalR.HubConnectionState.Disconnected,
   );
+  // Everyone currently connected to the session, this client included.
+  const [viewers, setViewers] = useState<SessionViewerDto[]>([]);
+  const [connectionId, setConnectionId] = useState<string | null>(null);
   const clientRef = useRef<SessionHubClient | null>(null);
   const transcriptCb = useRef(onTranscriptAppended);
+  const updatedCb = useRef(onTranscriptUpdated);
+  const deletedCb = useRef(onTranscriptDeleted);
+  const partialCb = useRef(onPartialUpdated);
   const sessionCb = useRef(onSessionUpdated);
+  const joinedCb = useRef(onViewerJoined);
+  const leftCb = useRef(onViewerLeft);
 
   useEffect(() => {
     transcriptCb.current = onTranscriptAppended;
   }, [onTranscriptAppended]);
+  useEffect(() => {
+    updatedCb.current = onTranscriptUpdated;
+  }, [onTranscriptUpdated]);
+  useEffect(() => {
+    deletedCb.current = onTranscriptDeleted;
+  }, [onTranscriptDeleted]);
+  useEffect(() => {
+    partialCb.current = onPartialUpdated;
+  }, [onPartialUpdated]);
   useEffect(() => {
     sessionCb.current = onSessionUpdated;
   }, [onSessionUpdated]);
+  useEffect(() => {
+    joinedCb.current = onViewerJoined;
+  }, [onViewerJoined]);
+  useEffect(() => {
+    leftCb.current = onViewerLeft;
+  }, [onViewerLeft]);
 
   useEffect(() => {
     if (!enabled || !sessionCode) return;
     let cancelled = false;
 
+    const joinAndSeed = async (client: SessionHubClient) => {
+      const present = await client.join(sessionCode);
+      if (cancelled) return;
+      setViewers(present);
+      setConnectionId(client.connection.connectionId);
+    };
+
     (async () => {
       try {
         const client = await connectSessionHub({
-          onStateChange: (s) => setState(s),
+          onStateChange: (s) => {
+            setState(s);
+            // A reconnect gets a fresh connection id with no group membership,
+            // so subscribe again and reseed the audience from the server.
+            const current = clientRef.current;
+            if (s === signalR.HubConnectionState.Connected && current) {
+              void joinAndSeed(current).catch((err) => console.warn('SignalR rejoin failed', err));
+            }
+          },
           onTranscriptAppended: (payload) => {
             if (payload.sessionCode === sessionCode) {
               transcriptCb.current?.(payload.segment);
             }
           },
+          onTranscriptUpdated: (payload) => {
+            if (payload.sessionCode === sessionCode) {
+              updatedCb.current?.(payload.segment);
+            }
+          },
+          onTranscriptDeleted: (payload) => {
+            if (payload.sessionCode === sessionCode) {
+              deletedCb.current?.(payload.segmentId);
+            }
+          },
+          onPartialUpdated: (payload) => {
+            if (payload.sessionCode === sessionCode) {
+              partialCb.current?.(payload.text);
+            }
+          },
           onSessionUpdated: (payload) => {
             if (payload.sessionCode === sessionCode) {
               sessionCb.current?.(payload.session);
             }
           },
+          onViewerJoined: (viewer) => {
+            setViewers((prev) =>
+              prev.some((v) => v.connectionId === viewer.connectionId) ? prev : [...prev, viewer],
+            );
+            joinedCb.current?.(viewer);
+          },
+          onViewerLeft: (viewer) => {
+            setViewers((prev) => prev.filter((v) => v.connectionId !== viewer.connectionId));
+            leftCb.current?.(viewer);
+          },
         });
         if (cancelled) {
           await client.stop();
           return;
         }
         clientRef.current = client;
-        await client.join(sessionCode);
+        await joinAndSeed(client);
       } catch (err) {
         console.warn('SignalR connection failed', err);
       }
@@ -62,6 +135,8 @@ export function useSessionHub({
 
     return () => {
       cancelled = true;
+      setViewers([]);
+      setConnectionId(null);
       const client = clientRef.current;
       clientRef.current = null;
       if (client) {
@@ -73,5 +148,5 @@ export function useSessionHub({
     };
   }, [enabled, sessionCode]);
 
-  return { state };
+  return { state, viewers, connectionId };
 }
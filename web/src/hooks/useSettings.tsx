@@ -1,22 +1,57 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { DEFAULTS, STORAGE_KEYS } from '@/constants/apiConstants';
+import { AUTO_LANGUAGE, isSessionLanguage, type SessionLanguage } from '@/constants/languages';
+import { DEFAULT_AUDIO_PROCESSING } from '@/services/audioInput';
+import { isTranscriptionProviderId, type TranscriptionProviderId } from '@/services/transcription';
 
 export interface AppSettings {
   preferredVersion: string;
   minConfidence: number;
   matchCount: number;
+  /** Earlier segments sent along as context when matching, so split quotes are still found. */
+  matchContextSegments: number;
   silenceSeconds: number;
+  /** Mic level (RMS, 0..1) that counts as speech; the adaptive VAD may raise it over a noisy room. */
+  vadThreshold: number;
+  maxUtteranceSeconds: number;
+  /** Learn the room's noise floor while recording. */
+  adaptiveVad: boolean;
   autoScroll: boolean;
   showConfidence: boolean;
+  /** Where transcript text comes from: the microphone, or an offline demo script. */
+  transcriptionProvider: TranscriptionProviderId;
+  /** Keep a local recording of the microphone while transcribing. */
+  archiveAudio: boolean;
+  /** Microphone to record from; empty for the browser default. */
+  inputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Language new sessions start in; the last one picked. */
+  sessionLanguage: SessionLanguage;
+  /** Language to read other people's sessions in; empty for the language being spoken. */
+  captionLanguage: string;
 }
 
 const defaultSettings: AppSettings = {
   preferredVersion: DEFAULTS.preferredVersion,
   minConfidence: DEFAULTS.minConfidence,
   matchCount: DEFAULTS.matchCount,
+  matchContextSegments: DEFAULTS.matchContextSegments,
   silenceSeconds: DEFAULTS.silenceSeconds,
+  vadThreshold: DEFAULTS.vadThreshold,
+  maxUtteranceSeconds: DEFAULTS.maxUtteranceSeconds,
+  adaptiveVad: true,
   autoScroll: true,
   showConfidence: true,
+  transcriptionProvider: 'openai',
+  archiveAudio: true,
+  inputDeviceId: '',
+  echoCancellation: DEFAULT_AUDIO_PROCESSING.echoCancellation,
+  noiseSuppression: DEFAULT_AUDIO_PROCESSING.noiseSuppression,
+  autoGainControl: DEFAULT_AUDIO_PROCESSING.autoGainControl,
+  sessionLanguage: DEFAULTS.language,
+  captionLanguage: '',
 };
 
 function readNumber(key: string, fallback: number): number {
@@ -55,13 +90,33 @@ function loadSettings(): AppSettings {
   const preferredVersion = (DEFAULTS.bibleVersions as readonly string[]).includes(storedVersion)
     ? storedVersion
     : defaultSettings.preferredVersion;
+  const storedProvider = readString(STORAGE_KEYS.transcriptionProvider, defaultSettings.transcriptionProvider);
+  const storedLanguage = readString(STORAGE_KEYS.sessionLanguage, defaultSettings.sessionLanguage);
+  const storedCaptionLanguage = readString(STORAGE_KEYS.captionLanguage, defaultSettings.captionLanguage);
   return {
     preferredVersion,
     minConfidence: readNumber(STORAGE_KEYS.minConfidence, defaultSettings.minConfidence),
     matchCount: readNumber(STORAGE_KEYS.matchCount, defaultSettings.matchCount),
+    matchContextSegments: readNumber(STORAGE_KEYS.matchContextSegments, defaultSettings.matchContextSegments),
     silenceSeconds: readNumber(STORAGE_KEYS.silenceSeconds, defaultSettings.silenceSeconds),
+    vadThreshold: readNumber(STORAGE_KEYS.vadThreshold, defaultSettings.vadThreshold),
+    maxUtteranceSeconds: readNumber(STORAGE_KEYS.maxUtteranceSeconds, defaultSettings.maxUtteranceSeconds),
+    adaptiveVad: readBool(STORAGE_KEYS.adaptiveVad, defaultSettings.adaptiveVad),
     autoScroll: readBool(STORAGE_KEYS.autoScroll, defaultSettings.autoScroll),
     showConfidence: readBool(STORAGE_KEYS.showConfidence, defaultSettings.showConfidence),
+    transcriptionProvider: isTranscriptionProviderId(storedProvider)
+      ? storedProvider
+      : defaultSettings.transcriptionProvider,
+    archiveAudio: readBool(STORAGE_KEYS.archiveAudio, defaultSettings.archiveAudio),
+    inputDeviceId: readString(STORAGE_KEYS.inputDeviceId, defaultSettings.inputDeviceId),
+    echoCancellation: readBool(STORAGE_KEYS.echoCancellation, defaultSettings.echoCancellation),
+    noiseSuppression: readBool(STORAGE_KEYS.noiseSuppression, defaultSettings.noiseSuppression),
+    autoGainControl: readBool(STORAGE_KEYS.autoGainControl, defaultSettings.autoGainControl),
+    sessionLanguage: isSessionLanguage(storedLanguage) ? storedLanguage : defaultSettings.sessionLanguage,
+    captionLanguage:
+      isSessionLanguage(storedCaptionLanguage) && storedCaptionLanguage !== AUTO_LANGUAGE
+        ? storedCaptionLanguage
+        : defaultSettings.captionLanguage,
   };
 }
 
@@ -70,9 +125,21 @@ function persistSettings(s: AppSettings) {
     localStorage.setItem(STORAGE_KEYS.preferredVersion, s.preferredVersion);
     localStorage.setItem(STORAGE_KEYS.minConfidence, String(s.minConfidence));
     localStorage.setItem(STORAGE_KEYS.matchCount, String(s.matchCount));
+    localStorage.setItem(STORAGE_KEYS.matchContextSegments, String(s.matchContextSegments));
     localStorage.setItem(STORAGE_KEYS.silenceSeconds, String(s.silenceSeconds));
+    localStorage.setItem(STORAGE_KEYS.vadThreshold, String(s.vadThreshold));
+    localStorage.setItem(STORAGE_KEYS.maxUtteranceSeconds, String(s.maxUtteranceSeconds));
+    localStorage.setItem(STORAGE_KEYS.adaptiveVad, String(s.adaptiveVad));
     localStorage.setItem(STORAGE_KEYS.autoScroll, String(s.autoScroll));
     localStorage.setItem(STORAGE_KEYS.showConfidence, String(s.showConfidence));
+    localStorage.setItem(STORAGE_KEYS.transcriptionProvider, s.transcriptionProvider);
+    localStorage.setItem(STORAGE_KEYS.archiveAudio, String(s.archiveAudio));
+    localStorage.setItem(STORAGE_KEYS.inputDeviceId, s.inputDeviceId);
+    localStorage.setItem(STORAGE_KEYS.echoCancellation, String(s.echoCancellation));
+    localStorage.setItem(STORAGE_KEYS.noiseSuppression, String(s.noiseSuppression));
+    localStorage.setItem(STORAGE_KEYS.autoGainControl, String(s.autoGainControl));
+    localStorage.setItem(STORAGE_KEYS.sessionLanguage, s.sessionLanguage);
+    localStorage.setItem(STORAGE_KEYS.captionLanguage, s.captionLanguage);
   } catch {
     /* ignore */
   }
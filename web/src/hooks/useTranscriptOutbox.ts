@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createDefaultOutboxStore,
+  createTranscriptOutbox,
+  type OutboxEntry,
+  type TranscriptOutbox,
+} from '@/services/transcriptOutbox';
+import { sessionService, type AppendTranscriptInput } from '@/services/sessionService';
+import type { TranscriptSegmentDto } from '@/types/api';
+
+interface UseTranscriptOutboxOptions {
+  sessionCode: string;
+  enabled: boolean;
+  onDelivered?: (entry: OutboxEntry, segment: TranscriptSegmentDto) => void;
+}
+
+export function useTranscriptOutbox({ sessionCode, enabled, onDelivered }: UseTranscriptOutboxOptions) {
+  const [allEntries, setAllEntries] = useState<OutboxEntry[]>([]);
+  const outboxRef = useRef<TranscriptOutbox | null>(null);
+  const deliveredCb = useRef(onDelivered);
+
+  useEffect(() => {
+    deliveredCb.current = onDelivered;
+  }, [onDelivered]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const outbox = createTranscriptOutbox({
+      store: createDefaultOutboxStore(),
+      send: (entry) => sessionService.appendTranscript(entry.sessionCode, entry.input),
+      onDelivered: (entry, segment) => deliveredCb.current?.(entry, segment),
+      onChange: setAllEntries,
+    });
+    outboxRef.current = outbox;
+    // Picks up anything a previous page load did not get through, for any session.
+    outbox.load().catch((err) => console.warn('Could not read the transcript outbox', err));
+
+    const onOnline = () => void outbox.retryNow();
+    window.addEventListener('online', onOnline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      outbox.dispose();
+      if (outboxRef.current === outbox) outboxRef.current = null;
+    };
+  }, [enabled]);
+
+  const enqueue = useCallback(
+    async (input: AppendTranscriptInput & { id: string }) => {
+      const outbox = outboxRef.current;
+      if (!outbox) throw new Error('Transcript outbox is not ready.');
+      return outbox.enqueue(sessionCode, input);
+    },
+    [sessionCode],
+  );
+
+  const retryNow = useCallback(() => {
+    void outboxRef.current?.retryNow();
+  }, []);
+
+  const discard = useCallback((id: string) => {
+    void outboxRef.current?.discard(id);
+  }, []);
+
+  const entries = useMemo(
+    () => allEntries.filter((e) => e.sessionCode.toUpperCase() === sessionCode.toUpperCase()),
+    [allEntries, sessionCode],
+  );
+
+  return { entries, enqueue, retryNow, discard };
+}
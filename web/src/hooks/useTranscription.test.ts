@@ -0,0 +1,79 @@
+import { createElement } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { describe, expect, it, vi } from 'vitest';
+import type { TranscriptionEvents, TranscriptionProvider, TranscriptionSession } from '@/services/transcription';
+import { useTranscription } from './useTranscription';
+
+// Lets act() flush effects outside a DOM test environment.
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+type Transcription = ReturnType<typeof useTranscription>;
+
+/** A provider whose start resolves when the test says so. */
+function deferredProvider() {
+  const session: TranscriptionSession = { stop: vi.fn(async () => undefined) };
+  let open: (() => void) | undefined;
+  let events: TranscriptionEvents | undefined;
+  const provider: TranscriptionProvider = {
+    id: 'scripted',
+    start: (_options, e) =>
+      new Promise((resolve) => {
+        events = e;
+        open = () => resolve(session);
+      }),
+  };
+  return { provider, session, open: () => open?.(), ready: () => events?.onReady?.() };
+}
+
+function renderTranscription(provider: TranscriptionProvider) {
+  const result: { current: Transcription | null } = { current: null };
+  // Fresh callbacks on every render, as components pass them inline.
+  function Probe() {
+    result.current = useTranscription({
+      provider,
+      onUtterance: () => undefined,
+      onDelta: () => undefined,
+      onGap: () => undefined,
+      onError: () => undefined,
+    });
+    return null;
+  }
+  let renderer: ReactTestRenderer | undefined;
+  act(() => {
+    renderer = create(createElement(Probe));
+  });
+  return {
+    result,
+    rerender: () => act(() => renderer!.update(createElement(Probe))),
+    unmount: () => act(() => renderer!.unmount()),
+  };
+}
+
+describe('useTranscription', () => {
+  it('keeps a session running through re-renders with new callbacks', async () => {
+    const { provider, session, open, ready } = deferredProvider();
+    const { result, rerender, unmount } = renderTranscription(provider);
+
+    let starting: Promise<void> | undefined;
+    act(() => {
+      starting = result.current!.start('ABC123');
+    });
+    expect(result.current!.state).toBe('connecting');
+    rerender();
+
+    await act(async () => {
+      open();
+      await starting;
+    });
+    act(() => ready());
+    expect(result.current!.state).toBe('recording');
+    rerender();
+    rerender();
+
+    expect(session.stop).not.toHaveBeenCalled();
+    expect(result.current!.state).toBe('recording');
+
+    unmount();
+    expect(session.stop).toHaveBeenCalledTimes(1);
+  });
+});
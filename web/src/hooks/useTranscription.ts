@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { backoffDelay } from '@/lib/backoff';
+import type { VadConfig, VadLevel } from '@/lib/vad';
+import type { AudioProcessing } from '@/services/audioInput';
+import { openGapRecorder, type GapRecording } from '@/services/gapRecorder';
+import type { TranscriptionProvider, TranscriptionSession } from '@/services/transcription';
+import type { RealtimeConnectionState, RealtimeDelta, RealtimeUtterance } from '@/types/realtime';
+
+interface UseTranscriptionOptions {
+  provider: TranscriptionProvider;
+  onUtterance?: (utterance: RealtimeUtterance) => void;
+  onDelta?: (delta: RealtimeDelta) => void;
+  onAudio?: (stream: MediaStream) => void;
+  onError?: (error: Error) => void;
+  onReconnect?: (attempt: number) => void;
+  /** The connection was down from `startedAt` to `endedAt`; anything recovered arrives as an utterance. */
+  onGap?: (gap: { startedAt: string; endedAt: string }) => void;
+  /** A finite source (an imported recording) is done; see `TranscriptionEvents.onEnd`. */
+  onEnd?: (completed: boolean) => void;
+  /** Reconnect attempts before giving up; unlimited by default, until the owner stops. */
+  maxRetries?: number;
+  /** Utterance detection tuning, read when a session (re)connects. */
+  vad?: Partial<VadConfig>;
+  /** Microphone processing, read when a session (re)connects or switches input. */
+  processing?: AudioProcessing;
+  /** Transcription language, read when a session (re)connects; see `setLanguage` for live changes. */
+  language?: string;
+}
+
+export interface ReconnectStatus {
+  /** 1-based number of the next attempt. */
+  attempt: number;
+  /** When the next attempt starts (epoch ms); in the past while it is running. */
+  retryAt: number;
+  reason: string;
+  /** Whether the microphone is being recorded meanwhile, to transcribe once back. */
+  buffering: boolean;
+}
+
+const RETRY_BACKOFF = { baseMs: 1000, maxMs: 30_000, jitter: 0.5 };
+
+export function useTranscription(opts: UseTranscriptionOptions) {
+  const {
+    provider,
+    onUtterance,
+    onDelta,
+    onAudio,
+    onError,
+    onReconnect,
+    onGap,
+    onEnd,
+    maxRetries = Number.POSITIVE_INFINITY,
+    vad,
+    processing,
+    language,
+  } = opts;
+
+  const vadRef = useRef(vad);
+  vadRef.current = vad;
+  const processingRef = useRef(processing);
+  processingRef.current = processing;
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  // Callers pass these inline; reading them through a ref keeps `stop` stable, since the
+  // unmount cleanup below would otherwise stop a live session on every re-render.
+  const callbacksRef = useRef({ onUtterance, onDelta, onAudio, onError, onReconnect, onGap, onEnd });
+  callbacksRef.current = { onUtterance, onDelta, onAudio, onError, onReconnect, onGap, onEnd };
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+  // Levels arrive ten times a second; meters poll them instead of re-rendering the view.
+  const levelRef = useRef<VadLevel | null>(null);
+
+  const [state, setState] = useState<RealtimeConnectionState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  /** Share of a finite source processed so far; null for live sources. */
+  const [progress, setProgress] = useState<number | null>(null);
+  /** Whether the running session supports pause/resume. */
+  const [canPause, setCanPause] = useState(false);
+  /** Set from a lost connection until the next one is transcribing. */
+  const [reconnect, setReconnect] = useState<ReconnectStatus | null>(null);
+  const sessionRef = useRef<TranscriptionSession | null>(null);
+  const sessionCodeRef = useRef<string>('');
+  const deviceIdRef = useRef<string | undefined>(undefined);
+  const userStoppedRef = useRef<boolean>(false);
+  const pausedRef = useRef<boolean>(false);
+  // Reconnecting only makes sense once something worked; a first start that fails (no
+  // microphone permission, API down) is reported instead of retried forever.
+  const wasReadyRef = useRef<boolean>(false);
+  const retryCountRef = useRef<number>(0);
+  const retryTimerRef = useRef<number | null>(null);
+  // Bumped whenever a session is abandoned, so its late close/error events are ignored.
+  const attemptRef = useRef<number>(0);
+  // Microphone audio recorded while disconnected, transcribed once a connection is back.
+  const gapRef = useRef<{ startedAt: string; recording: Promise<GapRecording | null> } | null>(null);
+
+  const beginGap = useCallback(() => {
+    if (gapRef.current || pausedRef.current) return;
+    const recording = provider.transcribeChunk
+      ? openGapRecorder(deviceIdRef.current, processingRef.current).catch((err) => {
+          console.warn('Could not record while reconnecting', err);
+          return null;
+        })
+      : Promise.resolve(null);
+    gapRef.current = { startedAt: new Date().toISOString(), recording };
+  }, [provider]);
+
+  const endGap = useCallback(async () => {
+    const gap = gapRef.current;
+    if (!gap) return;
+    gapRef.current = null;
+    const { onGap, onUtterance, onError } = callbacksRef.current;
+    const provider = providerRef.current;
+    onGap?.({ startedAt: gap.startedAt, endedAt: new Date().toISOString() });
+    try {
+      const clip = await (await gap.recording)?.stop();
+      if (!clip || !provider.transcribeChunk) return;
+      const text = await provider.transcribeChunk(clip.blob, {
+        sessionCode: sessionCodeRef.current,
+        fileName: clip.fileName,
+      });
+      if (text.trim()) {
+        onUtterance?.({ id: crypto.randomUUID(), text, startedAt: gap.startedAt, endedAt: clip.endedAt });
+      }
+    } catch (err) {
+      onError?.(new Error(`Could not transcribe audio from the reconnect: ${err instanceof Error ? err.message : err}`));
+    }
+  }, []);
+
+  const attemptConnect = useCallback(async () => {
+    const sessionCode = sessionCodeRef.current;
+    if (!sessionCode || sessionRef.current) return;
+
+    const attemptId = ++attemptRef.current;
+    const current = () => attemptId === attemptRef.current;
+    // Failures before `provider.start` resolves are handled where it rejects.
+    let started = false;
+    setState(retryCountRef.current > 0 ? 'reconnecting' : 'connecting');
+    setError(null);
+    try {
+      const session = await provider.start(
+        {
+          sessionCode,
+          deviceId: deviceIdRef.current,
+          processing: processingRef.current,
+          vad: vadRef.current,
+          language: languageRef.current,
+        },
+        {
+          onOpen: () => {
+            if (current()) setState('connected');
+          },
+          onReady: () => {
+            if (!current()) return;
+            setState(pausedRef.current ? 'paused' : 'recording');
+            retryCountRef.current = 0;
+            wasReadyRef.current = true;
+            setReconnect(null);
+            void endGap();
+          },
+          onProgress: setProgress,
+          onLevel: (level) => {
+            if (current()) levelRef.current = level;
+          },
+          onAudio: (stream) => callbacksRef.current.onAudio?.(stream),
+          // Text still arrives from a session being abandoned: it is its in-flight utterance.
+          onDelta: (delta) => callbacksRef.current.onDelta?.(delta),
+          onUtterance: (utterance) => callbacksRef.current.onUtterance?.(utterance),
+          onClose: () => {
+            if (!current() || !started) return;
+            if (userStoppedRef.current) {
+              sessionRef.current = null;
+              setState('idle');
+            } else {
+              handleLoss('connection closed');
+            }
+          },
+          onEnd: (completed) => {
+            userStoppedRef.current = true;
+            sessionRef.current = null;
+            setState('idle');
+            callbacksRef.current.onEnd?.(completed);
+          },
+          onError: (err, fatal) => {
+            if (!current()) return;
+            setError(err.message);
+            // Losses show in the reconnect status rather than as errors, however often they repeat.
+            if (fatal && started && !userStoppedRef.current) handleLoss(err.message);
+            else callbacksRef.current.onError?.(err);
+          },
+        },
+      );
+      // Stopped, lost, or a finite source already finished while the provider was starting.
+      if (userStoppedRef.current || !current()) {
+        void session.stop();
+        return;
+      }
+      sessionRef.current = session;
+      started = true;
+      setCanPause(Boolean(session.pause && session.resume));
+      // Paused when the connection dropped: come back paused, not live.
+      if (pausedRef.current) await session.pause?.();
+    } catch (err) {
+      if (!current()) return;
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+      if (userStoppedRef.current || !wasReadyRef.current) {
+        setState('error');
+        callbacksRef.current.onError?.(err instanceof Error ? err : new Error(message));
+      } else {
+        handleLoss(message);
+      }
+    }
+
+    // Hoisted so the session's events can reach them.
+    function handleLoss(reason: string) {
+      attemptRef.current += 1;
+      const lost = sessionRef.current;
+      sessionRef.current = null;
+      levelRef.current = null;
+      setCanPause(false);
+      // Release the dead connection's microphone and peer connection.
+      void lost?.stop().catch(() => undefined);
+      beginGap();
+      scheduleRetry(reason);
+    }
+
+    function scheduleRetry(reason: string) {
+      if (retryCountRef.current >= maxRetries) {
+        setReconnect(null);
+        setState('error');
+        callbacksRef.current.onError?.(new Error(`Could not reconnect: ${reason}`));
+        void endGap();
+        return;
+      }
+      const attempt = retryCountRef.current + 1;
+      const delay = backoffDelay(retryCountRef.current, RETRY_BACKOFF);
+      retryCountRef.current = attempt;
+      callbacksRef.current.onReconnect?.(attempt);
+      console.info(`Transcription reconnect attempt ${attempt} in ${delay}ms (${reason})`);
+      setState('reconnecting');
+      setReconnect({
+        attempt,
+        retryAt: Date.now() + delay,
+        reason,
+        buffering: Boolean(gapRef.current && provider.transcribeChunk),
+      });
+      if (retryTimerRef.current) window.clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = window.setTimeout(() => {
+        retryTimerRef.current = null;
+        void attemptConnect();
+      }, delay);
+    }
+  }, [provider, maxRetries, beginGap, endGap]);
+
+  const start = useCallback(
+    async (sessionCode: string, deviceId?: string) => {
+      if (sessionRef.current) return;
+      sessionCodeRef.current = sessionCode;
+      deviceIdRef.current = deviceId;
+      userStoppedRef.current = false;
+      pausedRef.current = false;
+      wasReadyRef.current = false;
+      retryCountRef.current = 0;
+      setProgress(null);
+      await attemptConnect();
+    },
+    [attemptConnect],
+  );
+
+  /** Skips the rest of the backoff wait. */
+  const retryNow = useCallback(() => {
+    if (retryTimerRef.current === null) return;
+    window.clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    setReconnect((prev) => (prev ? { ...prev, retryAt: Date.now() } : prev));
+    void attemptConnect();
+  }, [attemptConnect]);
+
+  const stop = useCallback(async () => {
+    userStoppedRef.current = true;
+    pausedRef.current = false;
+    levelRef.current = null;
+    setReconnect(null);
+    if (retryTimerRef.current) {
+      window.clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    // Stopping mid-reconnect still keeps what was said while disconnected.
+    void endGap();
+    if (!sessionRef.current) {
+      setState('idle');
+      return;
+    }
+    setState('closing');
+    try {
+      await sessionRef.current.stop();
+    } catch {
+      /* ignore */
+    }
+    sessionRef.current = null;
+    setCanPause(false);
+    setState('idle');
+  }, [endGap]);
+
+  /**
+   * Moves a running session to another microphone, or re-applies processing
+   * to the current one. Reconnects and later starts use it too.
+   */
+  const switchInput = useCallback(async (deviceId?: string) => {
+    deviceIdRef.current = deviceId;
+    await sessionRef.current?.switchInput?.(deviceId, processingRef.current);
+  }, []);
+
+  /** Applies a new language to the running session; reconnects pick it up from the `language` option. */
+  const setLanguage = useCallback((next: string) => {
+    languageRef.current = next;
+    sessionRef.current?.setLanguage?.(next);
+  }, []);
+
+  const pause = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session?.pause) return false;
+    await session.pause();
+    pausedRef.current = true;
+    levelRef.current = null;
+    setState('paused');
+    return true;
+  }, []);
+
+  const resume = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session?.resume) return false;
+    await session.resume();
+    pausedRef.current = false;
+    setState('recording');
+    return true;
+  }, []);
+
+  const readLevel = useCallback(() => levelRef.current, []);
+
+  useEffect(() => () => void stop(), [stop]);
+
+  return {
+    state,
+    error,
+    progress,
+    canPause,
+    reconnect,
+    start,
+    stop,
+    pause,
+    resume,
+    retryNow,
+    switchInput,
+    setLanguage,
+    readLevel,
+  };
+}
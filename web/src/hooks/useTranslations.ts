@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { translationSignature } from '@/lib/translations';
+import { sessionService } from '@/services/sessionService';
+import type { SegmentTranslationDto, SessionTranslationsDto, TranscriptSegmentDto } from '@/types/api';
+
+/** Lets a burst of new segments settle into one request. */
+export const TRANSLATION_DEBOUNCE_MS = 800;
+
+/**
+ * Viewer captions in another language, keyed by segment id. Refetches as saved
+ * segments arrive or change, and keeps asking while the server reports pending
+ * work and is still making progress. An empty `language` means the original.
+ */
+export function useTranslations(code: string | undefined, language: string, segments: TranscriptSegmentDto[]) {
+  const [translations, setTranslations] = useState<Map<string, SegmentTranslationDto>>(() => new Map());
+  const [translating, setTranslating] = useState(false);
+  const signature = useMemo(() => translationSignature(segments), [segments]);
+  const warnedRef = useRef(false);
+
+  useEffect(() => {
+    setTranslations(new Map());
+    warnedRef.current = false;
+  }, [code, language]);
+
+  useEffect(() => {
+    if (!code || !language || !signature) {
+      setTranslating(false);
+      return;
+    }
+    let cancelled = false;
+    const apply = (result: SessionTranslationsDto) => {
+      if (!cancelled) setTranslations(new Map(result.translations.map((t) => [t.segmentId, t])));
+    };
+    const timer = setTimeout(async () => {
+      setTranslating(true);
+      try {
+        let result = await sessionService.listTranslations(code, language);
+        apply(result);
+        while (!cancelled && result.pending > 0) {
+          const before = result.pending;
+          result = await sessionService.listTranslations(code, language);
+          apply(result);
+          // No progress means the translator is failing; wait for the next segment to try again.
+          if (result.pending >= before) break;
+        }
+      } catch (err) {
+        if (!cancelled && !warnedRef.current) {
+          warnedRef.current = true;
+          toast.error(err instanceof Error ? err.message : 'Could not load translated captions.');
+        }
+      } finally {
+        if (!cancelled) setTranslating(false);
+      }
+    }, TRANSLATION_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, language, signature]);
+
+  return { translations, translating };
+}
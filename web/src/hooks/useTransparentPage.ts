@@ -0,0 +1,10 @@
+import { useEffect } from 'react';
+
+/** Clears the page background while mounted, so an OBS browser source shows the stream through it. */
+export function useTransparentPage() {
+  useEffect(() => {
+    const root = document.documentElement;
+    root.classList.add('overlay-transparent');
+    return () => root.classList.remove('overlay-transparent');
+  }, []);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { backoffDelay } from './backoff';
+
+describe('backoffDelay', () => {
+  const noJitter = { baseMs: 1000, maxMs: 30_000, jitter: 0 };
+
+  it('grows exponentially from the base delay', () => {
+    expect([0, 1, 2, 3].map((a) => backoffDelay(a, noJitter))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('caps at the maximum delay', () => {
+    expect(backoffDelay(20, noJitter)).toBe(30_000);
+  });
+
+  it('treats negative attempts as the first retry', () => {
+    expect(backoffDelay(-1, noJitter)).toBe(1000);
+  });
+
+  it('removes up to the jitter fraction of the delay', () => {
+    const options = { baseMs: 1000, maxMs: 30_000, jitter: 0.5 };
+    expect(backoffDelay(2, { ...options, random: () => 0 })).toBe(4000);
+    expect(backoffDelay(2, { ...options, random: () => 1 })).toBe(2000);
+  });
+});
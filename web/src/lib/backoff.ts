@@ -0,0 +1,23 @@
+export interface BackoffOptions {
+  /** Delay before the first retry. */
+  baseMs: number;
+  /** Upper bound for any single delay. */
+  maxMs: number;
+  /** Growth per attempt. Defaults to 2. */
+  factor?: number;
+  /**
+   * Fraction of the delay that is randomised away (0 = none, 1 = "full jitter").
+   * Spreads out clients that all lost the network at the same moment.
+   */
+  jitter?: number;
+  /** Injectable for tests; defaults to `Math.random`. */
+  random?: () => number;
+}
+
+/** Exponential backoff with jitter. `attempt` is zero-based (0 = first retry). */
+export function backoffDelay(attempt: number, options: BackoffOptions): number {
+  const { baseMs, maxMs, factor = 2, jitter = 0.5, random = Math.random } = options;
+  const exp = Math.min(maxMs, baseMs * factor ** Math.max(0, attempt));
+  const spread = Math.min(1, Math.max(0, jitter));
+  return Math.round(exp * (1 - spread * random()));
+}
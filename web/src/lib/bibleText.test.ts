@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BIBLE_BOOKS } from '@/constants/bibleBooks';
+import { cleanVerseText, joinVerses, parseBibleFile, quoteAgrees, versionFromFileName } from './bibleText';
+
+describe('parseBibleFile', () => {
+  it('reads the named-books layout', () => {
+    const bible = parseBibleFile({
+      version: 'web',
+      name: 'World English Bible',
+      books: [{ name: 'John', chapters: [[], [], ['', 'For God so loved the world…']] }, { name: 'Jude', chapters: [['Jude, a servant']] }],
+    });
+    expect(bible.version).toBe('WEB');
+    expect(bible.name).toBe('World English Bible');
+    expect(bible.verses).toEqual([
+      { version: 'WEB', book: 'John', chapter: 3, verse: 2, text: 'For God so loved the world…' },
+      { version: 'WEB', book: 'Jude', chapter: 1, verse: 1, text: 'Jude, a servant' },
+    ]);
+  });
+
+  it('accepts abbreviations and ordinals as book names', () => {
+    const bible = parseBibleFile({ version: 'KJV', books: [{ name: '1 Cor', chapters: [['Paul, called']] }, { book: 'Rev', chapters: [['The Revelation']] }] });
+    expect(bible.verses.map((v) => v.book)).toEqual(['1 Corinthians', 'Revelation']);
+  });
+
+  it('places unnamed books by canon order when all 66 are there', () => {
+    const books = BIBLE_BOOKS.map((_, i) => ({ abbrev: `b${i}`, chapters: [[`verse of book ${i}`]] }));
+    const bible = parseBibleFile(books, 'KJV');
+    expect(bible.version).toBe('KJV');
+    expect(bible.name).toBe('KJV');
+    expect(bible.verses[0].book).toBe('Genesis');
+    expect(bible.verses[65]).toMatchObject({ book: 'Revelation', text: 'verse of book 65' });
+  });
+
+  it('skips books it cannot place', () => {
+    const bible = parseBibleFile({ version: 'KJV', books: [{ name: 'Tobit', chapters: [['x']] }, { name: 'Ruth', chapters: [['y']] }] });
+    expect(bible.verses.map((v) => v.book)).toEqual(['Ruth']);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseBibleFile({ hello: 'world' }, 'KJV')).toThrow(/list of books/);
+    expect(() => parseBibleFile([{ name: 'John', chapters: [['x']] }])).toThrow(/which version/);
+    expect(() => parseBibleFile({ version: 'KJV', books: [{ name: 'John', chapters: [] }] })).toThrow(/No verses/);
+  });
+});
+
+describe('versionFromFileName', () => {
+  it('takes the leading word of the file name', () => {
+    expect(versionFromFileName('kjv.json')).toBe('KJV');
+    expect(versionFromFileName('web-bible.json')).toBe('WEB');
+    expect(versionFromFileName('en_asv.json')).toBe('EN');
+  });
+});
+
+describe('cleanVerseText', () => {
+  it('removes markup and collapses whitespace', () => {
+    expect(cleanVerseText('  In the beginning {was} the <i>Word</i>,\n ¶ and ')).toBe('In the beginning was the Word, and');
+  });
+});
+
+describe('joinVerses', () => {
+  it('joins a range into one quote', () => {
+    expect(joinVerses([{ text: 'Love is patient.' }, { text: 'It does not envy.' }])).toBe('Love is patient. It does not envy.');
+  });
+});
+
+describe('quoteAgrees', () => {
+  const text = 'For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish.';
+
+  it('accepts a fragment or a lightly different rendering', () => {
+    expect(quoteAgrees('God so loved the world', text)).toBe(true);
+    expect(quoteAgrees('For God so loved the world that he gave his one and only Son', text)).toBe(true);
+  });
+
+  it('rejects a different verse and an empty quote', () => {
+    expect(quoteAgrees('The Lord is my shepherd; I shall not want.', text)).toBe(false);
+    expect(quoteAgrees('', text)).toBe(false);
+  });
+});
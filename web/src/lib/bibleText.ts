@@ -0,0 +1,131 @@
+import { BIBLE_BOOKS, type BibleBook } from '@/constants/bibleBooks';
+import { findBookByName } from './scriptureReference';
+
+// Bible text loaded into the browser (public-domain versions such as KJV or
+// WEB) so quotes and verse previews work without a network. This file reads
+// the JSON a version is imported from; services/bibleStore.ts keeps it.
+//
+// Two layouts are accepted:
+//   { "version": "KJV", "name": "King James Version", "books": [{ "name": "Genesis", "chapters": [["In the beginning…", …], …] }, …] }
+//   [{ "abbrev": "gn", "chapters": [[…], …] }, …]   (66 books in canonical order, version taken from the file name)
+
+export interface BibleVerse {
+  version: string;
+  /** Canonical book name, as matches store it. */
+  book: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export interface BibleVersionInfo {
+  /** Short code matches carry in `version`, e.g. "KJV". */
+  version: string;
+  name: string;
+  verseCount: number;
+  importedAt: string;
+}
+
+export interface ParsedBible {
+  version: string;
+  name: string;
+  verses: BibleVerse[];
+}
+
+interface RawBook {
+  name?: unknown;
+  book?: unknown;
+  abbrev?: unknown;
+  chapters?: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Version code from a file name: "kjv.json" → "KJV", "web-bible.json" → "WEB". */
+export function versionFromFileName(fileName: string): string {
+  const stem = fileName.replace(/\.[^.]+$/, '').split(/[^a-z0-9]+/i)[0] ?? '';
+  return stem.toUpperCase();
+}
+
+/** Drops the markup some public exports carry: {added words}, <tags>, ¶ marks. */
+export function cleanVerseText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/[{}¶]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function resolveBook(raw: RawBook, position: number, byPosition: boolean): BibleBook | undefined {
+  for (const name of [raw.name, raw.book]) {
+    if (typeof name === 'string') {
+      const book = findBookByName(name);
+      if (book) return book;
+    }
+  }
+  return byPosition ? BIBLE_BOOKS[position] : undefined;
+}
+
+/**
+ * Reads an imported Bible file. Throws with a message fit for a toast when the
+ * layout is not one of the accepted ones or holds no verses.
+ */
+export function parseBibleFile(data: unknown, fallbackVersion = ''): ParsedBible {
+  const root = isRecord(data) ? data : { books: data };
+  const books = root.books;
+  if (!Array.isArray(books)) throw new Error('Not a Bible file: expected a list of books.');
+
+  const version = (typeof root.version === 'string' ? root.version : fallbackVersion).trim().toUpperCase();
+  if (!version) throw new Error('The file does not say which version it is.');
+  const name = typeof root.name === 'string' && root.name.trim() ? root.name.trim() : version;
+
+  // Without names, books can only be told apart by their place in the canon.
+  const byPosition = books.length === BIBLE_BOOKS.length;
+  const verses: BibleVerse[] = [];
+  books.forEach((raw: unknown, position) => {
+    if (!isRecord(raw) || !Array.isArray(raw.chapters)) return;
+    const book = resolveBook(raw, position, byPosition);
+    if (!book) return;
+    raw.chapters.forEach((chapter: unknown, c) => {
+      if (!Array.isArray(chapter)) return;
+      chapter.forEach((text: unknown, v) => {
+        if (typeof text !== 'string') return;
+        const cleaned = cleanVerseText(text);
+        if (cleaned) verses.push({ version, book: book.name, chapter: c + 1, verse: v + 1, text: cleaned });
+      });
+    });
+  });
+
+  if (verses.length === 0) throw new Error('No verses found in the file.');
+  return { version, name, verses };
+}
+
+/** One passage as a single quote, verses in order. */
+export function joinVerses(verses: Pick<BibleVerse, 'text'>[]): string {
+  return verses.map((v) => v.text).join(' ');
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** Share of a quote's words that must appear in the verse text for the quote to stand. */
+export const QUOTE_AGREEMENT = 0.8;
+
+/**
+ * Whether a quote reads like the stored text. Quotes are often a fragment of
+ * the verse, so only the quote's own words are checked.
+ */
+export function quoteAgrees(quote: string, text: string): boolean {
+  const quoted = words(quote);
+  if (quoted.length === 0) return false;
+  const present = new Set(words(text));
+  const found = quoted.filter((w) => present.has(w)).length;
+  return found / quoted.length >= QUOTE_AGREEMENT;
+}
@@ -0,0 +1,16 @@
+/** Saves a blob through a temporary object URL and anchor click. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Revoke on the next tick; some browsers cancel the download if revoked synchronously.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(content: string, filename: string, mimeType: string) {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+}
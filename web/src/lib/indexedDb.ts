@@ -0,0 +1,59 @@
+// Minimal promise wrappers around IndexedDB. Each feature owns its own database
+// (name + version + upgrade), so schemas evolve independently.
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opens (and caches) a database. `upgrade` runs inside the version-change
+ * transaction with the version the database had before.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void,
+): Promise<IDBDatabase> {
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: let it proceed and reopen next time.
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error(`Could not open ${name}.`));
+    request.onblocked = () => reject(new Error(`Opening ${name} is blocked by another tab.`));
+  });
+  connections.set(name, opening);
+  opening.catch(() => connections.delete(name));
+  return opening;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed.'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted.'));
+  });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { dropRepeatedMatches, matchContext, passageBefore } from './matchWindow';
+import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+
+function segment(id: string, text: string, matches: ScriptureMatchDto[] = []): TranscriptSegmentDto {
+  return { id, text, startedAt: '2026-05-10T15:00:00Z', endedAt: '2026-05-10T15:00:01Z', matches };
+}
+
+function match(book: string, chapter: number, verseStart: number, verseEnd: number | null = null): ScriptureMatchDto {
+  return { reference: `${book} ${chapter}:${verseStart}`, book, chapter, verseStart, verseEnd, version: 'NKJV', quote: '', confidence: 0.9, rank: 0 };
+}
+
+const pause: TranscriptSegmentDto = { ...segment('p', 'Recording paused'), kind: 'pause' };
+
+describe('passageBefore', () => {
+  it('takes the last segments before the index, oldest first', () => {
+    const segments = [segment('a', 'one'), segment('b', 'two'), segment('c', 'three'), segment('d', 'four')];
+    expect(passageBefore(segments, 3, 2).map((s) => s.id)).toEqual(['b', 'c']);
+    expect(passageBefore(segments, segments.length, 10).map((s) => s.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(passageBefore(segments, 0, 2)).toEqual([]);
+  });
+
+  it('stops at a pause or gap marker', () => {
+    const segments = [segment('a', 'before the songs'), pause, segment('b', 'after')];
+    expect(passageBefore(segments, 3, 5).map((s) => s.id)).toEqual(['b']);
+  });
+});
+
+describe('matchContext', () => {
+  it('joins the preceding text so a verse split across segments reads whole', () => {
+    const segments = [segment('a', 'For God so loved the world'), segment('b', ' that He gave ')];
+    expect(matchContext(segments, 2, 2)).toBe('For God so loved the world that He gave');
+  });
+
+  it('keeps the newest text, starting on a word boundary', () => {
+    const segments = [segment('a', 'alpha beta gamma delta')];
+    expect(matchContext(segments, 1, 1, 10)).toBe('delta');
+  });
+});
+
+describe('dropRepeatedMatches', () => {
+  it('drops references already suggested in the passage, including overlapping ranges', () => {
+    const earlier = [segment('a', 'x', [match('John', 3, 16)]), segment('b', 'y', [match('Romans', 8, 28, 30)])];
+    const kept = dropRepeatedMatches(
+      [match('John', 3, 16), match('Romans', 8, 29), match('Romans', 8, 31), match('John', 3, 17)],
+      earlier,
+    );
+    expect(kept.map((m) => `${m.book} ${m.chapter}:${m.verseStart}`)).toEqual(['Romans 8:31', 'John 3:17']);
+    expect(kept.map((m) => m.rank)).toEqual([0, 1]);
+  });
+
+  it('treats rejected references as seen', () => {
+    const rejected = { ...match('Psalms', 23, 1), status: 'rejected' as const };
+    expect(dropRepeatedMatches([match('Psalms', 23, 1)], [segment('a', 'x', [rejected])])).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+import { isMarker } from './segments';
+
+// Matching looks past the single utterance: the segments said just before it
+// go along as context, so a verse quoted across a VAD split is still found,
+// and a reference already suggested in the passage isn't suggested again.
+
+/** Cap on context sent with a match request, newest text kept. */
+export const MATCH_CONTEXT_MAX_CHARS = 600;
+
+/** How far back a repeat of the same reference is dropped. */
+export const MATCH_DEDUPE_SEGMENTS = 8;
+
+/**
+ * Up to `size` speech segments immediately before `index` (oldest first). A
+ * pause or gap marker ends the passage: what came before it is another topic.
+ */
+export function passageBefore(segments: TranscriptSegmentDto[], index: number, size: number): TranscriptSegmentDto[] {
+  const passage: TranscriptSegmentDto[] = [];
+  for (let i = Math.min(index, segments.length) - 1; i >= 0 && passage.length < size; i--) {
+    if (isMarker(segments[i])) break;
+    passage.unshift(segments[i]);
+  }
+  return passage;
+}
+
+/** The text of the passage before `index`, trimmed from the front to `maxChars`. */
+export function matchContext(
+  segments: TranscriptSegmentDto[],
+  index: number,
+  size: number,
+  maxChars = MATCH_CONTEXT_MAX_CHARS,
+): string {
+  const text = passageBefore(segments, index, size)
+    .map((s) => s.text.trim())
+    .filter(Boolean)
+    .join(' ');
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(text.length - maxChars);
+  // Start on a word boundary rather than mid-word.
+  const space = cut.indexOf(' ');
+  return space >= 0 ? cut.slice(space + 1) : cut;
+}
+
+function overlaps(a: ScriptureMatchDto, b: ScriptureMatchDto): boolean {
+  if (a.book !== b.book || a.chapter !== b.chapter) return false;
+  return a.verseStart <= (b.verseEnd ?? b.verseStart) && b.verseStart <= (a.verseEnd ?? a.verseStart);
+}
+
+/**
+ * Drops matches covering verses that `earlier` segments already carry, in any
+ * status — a reference the owner rejected shouldn't come back either. Ranks
+ * are renumbered to stay contiguous.
+ */
+export function dropRepeatedMatches(matches: ScriptureMatchDto[], earlier: TranscriptSegmentDto[]): ScriptureMatchDto[] {
+  const seen = earlier.flatMap((s) => s.matches);
+  return matches.filter((m) => !seen.some((s) => overlaps(m, s))).map((m, rank) => ({ ...m, rank }));
+}
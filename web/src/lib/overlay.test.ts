@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_OVERLAY_CONFIG, parseOverlayConfig, rollingCaptionLines } from './overlay';
+import type { TranscriptSegmentDto } from '@/types/api';
+
+function segment(id: string, text: string): TranscriptSegmentDto {
+  return { id, text, startedAt: '2026-05-10T15:00:00Z', endedAt: '2026-05-10T15:00:01Z', matches: [] };
+}
+
+describe('parseOverlayConfig', () => {
+  it('uses defaults for an empty query string', () => {
+    expect(parseOverlayConfig(new URLSearchParams())).toEqual(DEFAULT_OVERLAY_CONFIG);
+  });
+
+  it('reads and clamps every option', () => {
+    const config = parseOverlayConfig(
+      new URLSearchParams('font=Georgia&size=500&position=top&lines=3&chars=32&hideMatches&matchSeconds=0&color=ff0&bg=transparent'),
+    );
+    expect(config).toEqual({
+      font: 'Georgia',
+      size: 160,
+      position: 'top',
+      maxLines: 3,
+      lineChars: 32,
+      hideMatches: true,
+      matchSeconds: 0,
+      color: '#ff0',
+      background: 'transparent',
+    });
+  });
+
+  it('ignores values that are not plain colours or font names', () => {
+    const config = parseOverlayConfig(new URLSearchParams('color=red;display:none&font=x}body{&lines=abc'));
+    expect(config.color).toBe(DEFAULT_OVERLAY_CONFIG.color);
+    expect(config.font).toBe(DEFAULT_OVERLAY_CONFIG.font);
+    expect(config.maxLines).toBe(DEFAULT_OVERLAY_CONFIG.maxLines);
+  });
+});
+
+describe('rollingCaptionLines', () => {
+  it('keeps the last lines of the transcript with the live partial appended', () => {
+    const lines = rollingCaptionLines(
+      [segment('a', 'In the beginning God created'), segment('b', 'the heavens and the earth.')],
+      'And the earth was',
+      { maxLines: 2, lineChars: 20 },
+    );
+    expect(lines).toEqual(['earth. And the earth', 'was']);
+  });
+
+  it('starts fresh after a pause', () => {
+    const marker: TranscriptSegmentDto = { ...segment('p', 'Recording paused'), kind: 'pause' };
+    const lines = rollingCaptionLines([segment('a', 'Before the songs.'), marker, segment('b', 'After.')], '', {
+      maxLines: 2,
+      lineChars: 40,
+    });
+    expect(lines).toEqual(['After.']);
+  });
+
+  it('returns nothing before anyone has spoken', () => {
+    expect(rollingCaptionLines([], '  ', { maxLines: 2, lineChars: 20 })).toEqual([]);
+  });
+});
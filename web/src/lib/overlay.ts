@@ -0,0 +1,111 @@
+import { isMarker } from './segments';
+import { wrapWords } from './transcriptExport';
+import type { TranscriptSegmentDto } from '@/types/api';
+
+// Settings and caption layout for the livestream overlay. Everything comes
+// from the query string because OBS browser sources are configured by URL.
+
+export type OverlayPosition = 'top' | 'bottom';
+
+export interface OverlayConfig {
+  /** CSS font-family. */
+  font: string;
+  /** Caption font size in px; the scripture lower-third scales from it. */
+  size: number;
+  position: OverlayPosition;
+  /** Caption lines kept on screen; older text rolls off the top. */
+  maxLines: number;
+  /** Characters per caption line before wrapping. */
+  lineChars: number;
+  hideMatches: boolean;
+  /** How long a new scripture reference stays up; 0 keeps it until the next one. */
+  matchSeconds: number;
+  color: string;
+  background: string;
+}
+
+export const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
+  font: 'ui-sans-serif, system-ui, sans-serif',
+  size: 36,
+  position: 'bottom',
+  maxLines: 2,
+  lineChars: 42,
+  hideMatches: false,
+  matchSeconds: 15,
+  color: '#ffffff',
+  background: 'rgba(0, 0, 0, 0.6)',
+};
+
+function intParam(params: URLSearchParams, key: string, min: number, max: number, fallback: number): number {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+}
+
+function boolParam(params: URLSearchParams, key: string, fallback: boolean): boolean {
+  const raw = params.get(key);
+  if (raw === null) return fallback;
+  return raw === '' || ['1', 'true', 'yes', 'on'].includes(raw.toLowerCase());
+}
+
+/**
+ * Accepts hex without the `#` (awkward to type in a URL), CSS colour names and
+ * `transparent`. Anything else falls back, so a typo never injects arbitrary CSS.
+ */
+function colorParam(params: URLSearchParams, key: string, fallback: string): string {
+  const raw = params.get(key)?.trim();
+  if (!raw) return fallback;
+  if (/^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(raw)) return raw.startsWith('#') ? raw : `#${raw}`;
+  if (/^[a-z]+$/i.test(raw)) return raw.toLowerCase();
+  return fallback;
+}
+
+function fontParam(params: URLSearchParams, fallback: string): string {
+  const raw = params.get('font')?.trim();
+  if (!raw || !/^[\w\s,'"-]+$/.test(raw)) return fallback;
+  return raw;
+}
+
+export function parseOverlayConfig(params: URLSearchParams): OverlayConfig {
+  const d = DEFAULT_OVERLAY_CONFIG;
+  return {
+    font: fontParam(params, d.font),
+    size: intParam(params, 'size', 12, 160, d.size),
+    position: params.get('position') === 'top' ? 'top' : 'bottom',
+    maxLines: intParam(params, 'lines', 1, 6, d.maxLines),
+    lineChars: intParam(params, 'chars', 16, 120, d.lineChars),
+    hideMatches: boolParam(params, 'hideMatches', d.hideMatches),
+    matchSeconds: intParam(params, 'matchSeconds', 0, 3600, d.matchSeconds),
+    color: colorParam(params, 'color', d.color),
+    background: colorParam(params, 'bg', d.background),
+  };
+}
+
+/**
+ * The last `maxLines` wrapped lines of the running transcript, with the live
+ * partial appended, so captions roll up like broadcast captions do.
+ */
+export function rollingCaptionLines(
+  segments: TranscriptSegmentDto[],
+  partial: string,
+  { maxLines, lineChars }: Pick<OverlayConfig, 'maxLines' | 'lineChars'>,
+): string[] {
+  const parts: string[] = [];
+  // Only the tail can be visible; stop collecting once there is enough text to fill it.
+  const budget = maxLines * lineChars;
+  let chars = 0;
+  if (partial.trim()) {
+    parts.unshift(partial.trim());
+    chars += partial.length;
+  }
+  for (let i = segments.length - 1; i >= 0 && chars < budget; i--) {
+    // Captions from before a pause or dropped connection do not run on into what follows it.
+    if (isMarker(segments[i])) break;
+    const text = segments[i].text.trim();
+    if (!text) continue;
+    parts.unshift(text);
+    chars += text.length + 1;
+  }
+  return wrapWords(parts.join(' '), lineChars).slice(-maxLines);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { compareChoices, comparisonRows, defaultCompareVersions, isMatchedVerse } from './passage';
+
+const match = { book: 'Jude', chapter: 1, verseStart: 3, verseEnd: 4 };
+
+describe('isMatchedVerse', () => {
+  it('covers a range or a single verse', () => {
+    expect([2, 3, 4, 5].map((v) => isMatchedVerse(v, match))).toEqual([false, true, true, false]);
+    expect(isMatchedVerse(3, { verseStart: 3, verseEnd: null })).toBe(true);
+    expect(isMatchedVerse(4, { verseStart: 3 })).toBe(false);
+  });
+});
+
+describe('compare versions', () => {
+  it('lists the match version first without repeats or Best Match', () => {
+    const choices = compareChoices('NIV', ['KJV', 'WEB']);
+    expect(choices[0]).toBe('NIV');
+    expect(choices).not.toContain('Best Match');
+    expect(choices.filter((v) => v === 'NIV')).toHaveLength(1);
+    expect(choices.slice(-2)).toEqual(['KJV', 'WEB']);
+  });
+
+  it('opens with the match version and offline text', () => {
+    expect(defaultCompareVersions('NKJV', ['WEB'])).toEqual(['NKJV', 'WEB', 'NIV']);
+    expect(defaultCompareVersions('ESV', [])).toEqual(['ESV', 'NKJV', 'NIV']);
+  });
+});
+
+describe('comparisonRows', () => {
+  it('gives every verse of the chapter a row, with gaps left empty', () => {
+    const rows = comparisonRows(match, ['KJV', 'NIV'], {
+      KJV: [
+        { verse: 1, text: 'Jude, the servant' },
+        { verse: 3, text: 'Beloved, when I gave all diligence' },
+      ],
+    });
+    expect(rows).toHaveLength(25);
+    expect(rows[0]).toEqual({ verse: 1, highlighted: false, texts: ['Jude, the servant', null] });
+    expect(rows[2]).toEqual({ verse: 3, highlighted: true, texts: ['Beloved, when I gave all diligence', null] });
+    expect(rows[3].highlighted).toBe(true);
+  });
+
+  it('extends past the catalog when a version numbers further', () => {
+    const rows = comparisonRows(match, ['KJV'], { KJV: [{ verse: 26, text: 'extra' }] });
+    expect(rows).toHaveLength(26);
+    expect(rows[25].texts).toEqual(['extra']);
+  });
+});
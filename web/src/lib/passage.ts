@@ -0,0 +1,62 @@
+import { DEFAULTS } from '@/constants/apiConstants';
+import { findBook, verseCount } from '@/constants/bibleBooks';
+import type { PassageVerseDto, ScriptureMatchDto } from '@/types/api';
+
+// Layout for the passage viewer: one row per verse of the chapter, one column
+// per version being compared, with the matched verses marked.
+
+/** Most versions shown side by side; more columns get too narrow to read. */
+export const MAX_COMPARE_VERSIONS = 4;
+
+export interface ComparisonRow {
+  verse: number;
+  highlighted: boolean;
+  /** Text per compared version, in column order; null where that version has none. */
+  texts: (string | null)[];
+}
+
+export function isMatchedVerse(verse: number, match: Pick<ScriptureMatchDto, 'verseStart' | 'verseEnd'>): boolean {
+  return verse >= match.verseStart && verse <= (match.verseEnd ?? match.verseStart);
+}
+
+/**
+ * Versions that can be compared: the app's list (without "Best Match") and any
+ * loaded offline, with the match's own version first.
+ */
+export function compareChoices(matchVersion: string, offline: string[]): string[] {
+  const listed = DEFAULTS.bibleVersions.filter((v) => v !== 'Best Match');
+  return [...new Set([matchVersion, ...listed, ...offline])];
+}
+
+/** Opening columns: the match's version, then versions readable offline, then the app's list. */
+export function defaultCompareVersions(matchVersion: string, offline: string[]): string[] {
+  return [...new Set([matchVersion, ...offline, ...compareChoices(matchVersion, offline)])].slice(0, 3);
+}
+
+export function comparisonRows(
+  match: Pick<ScriptureMatchDto, 'book' | 'chapter' | 'verseStart' | 'verseEnd'>,
+  versions: string[],
+  chapters: Record<string, PassageVerseDto[] | undefined>,
+): ComparisonRow[] {
+  const book = findBook(match.book);
+  // Versions number a few chapters differently, so a verse any of them has gets a row.
+  let last = book ? verseCount(book, match.chapter) : 0;
+  const byVersion = versions.map((version) => {
+    const texts = new Map<number, string>();
+    for (const v of chapters[version] ?? []) {
+      texts.set(v.verse, v.text);
+      last = Math.max(last, v.verse);
+    }
+    return texts;
+  });
+
+  const rows: ComparisonRow[] = [];
+  for (let verse = 1; verse <= last; verse++) {
+    rows.push({
+      verse,
+      highlighted: isMatchedVerse(verse, match),
+      texts: byVersion.map((texts) => texts.get(verse) ?? null),
+    });
+  }
+  return rows;
+}
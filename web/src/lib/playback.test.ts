@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { nextScriptureSegment, segmentAtTime } from './playback';
+import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+
+function match(reference: string, confidence: number): ScriptureMatchDto {
+  return { id: reference, reference, book: '', chapter: 1, verseStart: 1, version: 'NKJV', quote: '', confidence, rank: 0 };
+}
+
+function segment(id: string, startedAt: string, matches: ScriptureMatchDto[] = []): TranscriptSegmentDto {
+  return { id, text: `text ${id}`, startedAt, endedAt: startedAt, matches };
+}
+
+const at = (iso: string) => Date.parse(iso);
+
+// Out of order on purpose: hub appends can land after later segments.
+const segments = [
+  segment('b', '2026-05-10T15:01:00Z', [match('Psalms 23:1', 0.3)]),
+  segment('a', '2026-05-10T15:00:00Z', [match('John 3:16', 0.9)]),
+  segment('c', '2026-05-10T15:02:00Z'),
+  segment('d', '2026-05-10T15:03:00Z', [match('John 1:1', 0.7)]),
+];
+
+describe('segmentAtTime', () => {
+  it('finds the latest segment started at or before the position', () => {
+    expect(segmentAtTime(segments, at('2026-05-10T15:01:30Z'))?.id).toBe('b');
+    expect(segmentAtTime(segments, at('2026-05-10T15:02:00Z'))?.id).toBe('c');
+    expect(segmentAtTime(segments, at('2026-05-10T14:59:59Z'))).toBeNull();
+  });
+});
+
+describe('nextScriptureSegment', () => {
+  it('skips segments without a visible reference', () => {
+    expect(nextScriptureSegment(segments, at('2026-05-10T15:00:00Z'), 0.4)?.id).toBe('d');
+    expect(nextScriptureSegment(segments, at('2026-05-10T15:00:00Z'), 0.2)?.id).toBe('b');
+    expect(nextScriptureSegment(segments, at('2026-05-10T15:03:00Z'), 0.2)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { visibleMatches } from './scriptureMatches';
+import type { TranscriptSegmentDto } from '@/types/api';
+
+// Maps an audio playback position (as wall-clock ms) onto transcript segments.
+
+/**
+ * The segment being spoken at `atMs`: the latest one that started at or before
+ * it. Gaps between segments keep the previous one lit rather than flickering off.
+ */
+export function segmentAtTime(segments: TranscriptSegmentDto[], atMs: number): TranscriptSegmentDto | null {
+  let current: TranscriptSegmentDto | null = null;
+  let currentStart = Number.NEGATIVE_INFINITY;
+  for (const seg of segments) {
+    const start = Date.parse(seg.startedAt);
+    if (Number.isFinite(start) && start <= atMs && start >= currentStart) {
+      current = seg;
+      currentStart = start;
+    }
+  }
+  return current;
+}
+
+/** The first segment after `afterMs` with a scripture reference worth jumping to. */
+export function nextScriptureSegment(
+  segments: TranscriptSegmentDto[],
+  afterMs: number,
+  minConfidence: number,
+): TranscriptSegmentDto | null {
+  let next: TranscriptSegmentDto | null = null;
+  let nextStart = Number.POSITIVE_INFINITY;
+  for (const seg of segments) {
+    const start = Date.parse(seg.startedAt);
+    if (!(start > afterMs) || start >= nextStart) continue;
+    if (visibleMatches(seg.matches, minConfidence).length === 0) continue;
+    next = seg;
+    nextStart = start;
+  }
+  return next;
+}
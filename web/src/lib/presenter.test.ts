@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { latestCaption, presentableMatches } from './presenter';
+import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+
+function match(reference: string, confidence: number, overrides: Partial<ScriptureMatchDto> = {}): ScriptureMatchDto {
+  return { id: reference, reference, book: '', chapter: 1, verseStart: 1, version: 'NKJV', quote: '', confidence, rank: 0, ...overrides };
+}
+
+function segment(id: string, startedAt: string, matches: ScriptureMatchDto[], text = `text ${id}`): TranscriptSegmentDto {
+  return { id, text, startedAt, endedAt: startedAt, matches };
+}
+
+const segments = [
+  segment('a', '2026-05-10T15:00:00Z', [match('John 3:16', 0.9), match('Romans 5:8', 0.6, { status: 'pinned' })]),
+  segment('b', '2026-05-10T15:01:00Z', [match('Psalms 23:1', 0.3)]),
+  segment('c', '2026-05-10T15:02:00Z', [match('Genesis 1:1', 0.8, { status: 'rejected' }), match('John 1:1', 0.7)], ''),
+];
+
+describe('presentableMatches', () => {
+  it('takes the best visible match per segment, newest first', () => {
+    expect(presentableMatches(segments, 'latest', 0.4).map((p) => p.match.reference)).toEqual([
+      'John 1:1',
+      'Romans 5:8',
+    ]);
+  });
+
+  it('shows only pinned matches in pinned mode', () => {
+    const pinned = presentableMatches(segments, 'pinned', 0.4);
+    expect(pinned.map((p) => [p.segmentId, p.match.reference])).toEqual([['a', 'Romans 5:8']]);
+    expect(pinned[0].key).toBe('a:Romans 5:8');
+  });
+});
+
+describe('latestCaption', () => {
+  it('skips empty segments', () => {
+    expect(latestCaption(segments)).toBe('text b');
+    expect(latestCaption([])).toBe('');
+  });
+});
@@ -0,0 +1,49 @@
+import { matchStatus, visibleMatches } from './scriptureMatches';
+import { isMarker } from './segments';
+import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+
+// Picks what the projector shows. Pure so the selection rules can be tested
+// without a hub connection.
+
+/** `latest` follows the newest suggestion; `pinned` shows only what the owner pinned. */
+export type PresenterSource = 'latest' | 'pinned';
+
+export interface PresentedMatch {
+  /** Stable across re-renders and hub updates; used to hold a manual selection. */
+  key: string;
+  segmentId: string;
+  startedAt: string;
+  match: ScriptureMatchDto;
+}
+
+function keyOf(segmentId: string, match: ScriptureMatchDto): string {
+  return `${segmentId}:${match.id ?? `${match.reference}-${match.version}`}`;
+}
+
+/** Newest first. In `latest` mode each segment contributes its best match only. */
+export function presentableMatches(
+  segments: TranscriptSegmentDto[],
+  source: PresenterSource,
+  minConfidence: number,
+): PresentedMatch[] {
+  const result: PresentedMatch[] = [];
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i];
+    const visible = visibleMatches(segment.matches, minConfidence);
+    const chosen = source === 'pinned' ? visible.filter((m) => matchStatus(m) === 'pinned') : visible.slice(0, 1);
+    for (const match of chosen) {
+      result.push({ key: keyOf(segment.id, match), segmentId: segment.id, startedAt: segment.startedAt, match });
+    }
+  }
+  return result;
+}
+
+/** Text of the newest segment, for the lower-third caption. */
+export function latestCaption(segments: TranscriptSegmentDto[]): string {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (isMarker(segments[i])) continue;
+    const text = segments[i].text.trim();
+    if (text) return text;
+  }
+  return '';
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { detectReferenceMatches, detectReferences } from './referenceDetector';
+
+const refs = (utterance: string) => detectReferences(utterance).map((r) => r.reference);
+
+describe('detectReferences', () => {
+  it.each([
+    // Written forms, as the transcriber usually renders them.
+    ['Turn with me to Romans 8:28.', ['Romans 8:28']],
+    ['Open your Bibles to John 3:16-18 this morning', ['John 3:16-18']],
+    ['Read Rom. 12:1 with me', ['Romans 12:1']],
+    ['Look at 1 Cor 13:4–7', ['1 Corinthians 13:4-7']],
+    ['In 2Tim 3:16 Paul says', ['2 Timothy 3:16']],
+    ['Philippians 4.13', ['Philippians 4:13']],
+    // Chapter and verse said in words.
+    ['turn with me to Romans chapter 8 verse 28', ['Romans 8:28']],
+    ['Romans chapter eight verse twenty-eight', ['Romans 8:28']],
+    ['Isaiah chapter forty verse thirty one', ['Isaiah 40:31']],
+    ['Ephesians 2 verses 8 through 10', ['Ephesians 2:8-10']],
+    ['Galatians chapter 5 verses twenty-two to twenty-three', ['Galatians 5:22-23']],
+    ['Matthew 5 verse 3 and 4', ['Matthew 5:3-4']],
+    ['Hebrews 11 verse 1 thru verse 3', ['Hebrews 11:1-3']],
+    // Ordinals and spelled-out numbers.
+    ['First Corinthians thirteen four', ['1 Corinthians 13:4']],
+    ['first John one nine says if we confess', ['1 John 1:9']],
+    ['Second Timothy chapter 3 verse 16', ['2 Timothy 3:16']],
+    ['1st Peter 5:7', ['1 Peter 5:7']],
+    ['Third John verse 2', ['3 John 1:2']],
+    ['II Kings 2:11', ['2 Kings 2:11']],
+    ['John three sixteen', ['John 3:16']],
+    ['Psalm a hundred and nineteen verse one hundred five', ['Psalms 119:105']],
+    ['Psalm one hundred nineteen verse 105', ['Psalms 119:105']],
+    // Multi-word names.
+    ['Song of Songs 2:4', ['Song of Solomon 2:4']],
+    ['Song of Solomon chapter 8 verse 6', ['Song of Solomon 8:6']],
+    ['Acts of the Apostles 2:38', ['Acts 2:38']],
+    // Whole chapters.
+    ['Let us read Psalm 23 together', ['Psalms 23:1-6']],
+    ['Psalm twenty-three', ['Psalms 23:1-6']],
+    ['We are in Romans chapter 8', ['Romans 8:1-39']],
+    ['Turn to Jude verse 3', ['Jude 1:3']],
+    ['Jude 24', ['Jude 1:24']],
+    // Several in one breath, repeats collapsed.
+    ['Compare John 1:1 and Genesis 1:1, then John 1:1 again', ['John 1:1', 'Genesis 1:1']],
+    ['Romans 8:28 and Romans 12:2', ['Romans 8:28', 'Romans 12:2']],
+  ])('finds %j', (utterance, expected) => {
+    expect(refs(utterance)).toEqual(expected);
+  });
+
+  it.each([
+    ['For God so loved the world'],
+    ['I lost my job 2 years ago'],
+    ['I am 5 minutes late'],
+    ['Mark my words, 3 things matter'],
+    ['John, one of the twelve, was there'],
+    ['Is 7 enough?'],
+    ['John 22:1'],
+    ['John 3:37'],
+    ['Jude 30'],
+    ['Romans chapter seventeen'],
+    ['the first time I read it'],
+  ])('finds nothing in %j', (utterance) => {
+    expect(refs(utterance)).toEqual([]);
+  });
+
+  it('drops a range end past the last verse', () => {
+    expect(refs('John 3:35 through 40')).toEqual(['John 3:35']);
+  });
+
+  it('rates explicit citations above bare numbers and whole chapters', () => {
+    const [explicit] = detectReferences('Romans 8:28');
+    const [bare] = detectReferences('John three sixteen');
+    const [chapter] = detectReferences('Psalm 23');
+    expect(explicit.confidence).toBeGreaterThan(bare.confidence);
+    expect(bare.confidence).toBeGreaterThan(chapter.confidence);
+  });
+});
+
+describe('detectReferenceMatches', () => {
+  it('builds ranked matches in the given version, capped at n', () => {
+    const matches = detectReferenceMatches('John 1:1, Genesis 1:1 and Hebrews 11:1', 'ESV', 2);
+    expect(matches).toEqual([
+      { book: 'John', chapter: 1, verseStart: 1, verseEnd: null, reference: 'John 1:1', version: 'ESV', quote: '', confidence: 0.99, rank: 0 },
+      { book: 'Genesis', chapter: 1, verseStart: 1, verseEnd: null, reference: 'Genesis 1:1', version: 'ESV', quote: '', confidence: 0.99, rank: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+import { BIBLE_BOOKS, chapterCount, verseCount, type BibleBook } from '@/constants/bibleBooks';
+import type { ScriptureMatchDto } from '@/types/api';
+import { formatReference, type ParsedReference } from './scriptureReference';
+
+// Finds references a preacher says out loud ("turn with me to Romans chapter 8
+// verse 28", "First John one nine", "verses 3 through 5") in a transcribed
+// utterance, so the matcher only has to be asked when nothing was cited.
+// Unlike parseReference, this scans free text and skips anything it is not sure of.
+
+export interface DetectedReference extends ParsedReference {
+  confidence: number;
+}
+
+/** "Book 8:28", "Book chapter 8 verse 28": said in so many words. */
+const EXPLICIT_CONFIDENCE = 0.99;
+/** "John three sixteen": bare numbers after a full book name. */
+const BARE_VERSE_CONFIDENCE = 0.95;
+/** "Romans chapter 8", "Psalm 23": a whole chapter. */
+const CHAPTER_CONFIDENCE = 0.9;
+
+const UNITS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// How each numbered book's ordinal may be said or transcribed. A bare "i" is
+// left out: in speech it is almost always the pronoun.
+const SPOKEN_ORDINALS: Record<string, string[]> = {
+  '1': ['1', '1st', 'first'],
+  '2': ['2', '2nd', 'second', 'ii'],
+  '3': ['3', '3rd', 'third', 'iii'],
+};
+
+const CHAPTER_WORDS = new Set(['chapter', 'chapters', 'ch', 'chap']);
+const VERSE_WORDS = new Set(['verse', 'verses', 'vs', 'v', 'vv']);
+const RANGE_WORDS = new Set(['-', 'through', 'thru', 'to', 'till', 'until']);
+
+interface Token {
+  text: string;
+  /** As transcribed, to tell "Job" the book from "job" the word. */
+  raw: string;
+}
+
+interface BookPhrase {
+  words: string[];
+  book: BibleBook;
+  /** Full names can stand before bare numbers; short abbreviations ("Am", "Is") need a colon or a keyword. */
+  full: boolean;
+}
+
+const BOOK_PHRASES: BookPhrase[] = (() => {
+  const phrases: BookPhrase[] = [];
+  for (const book of BIBLE_BOOKS) {
+    for (const name of [book.name, ...book.aliases]) {
+      const words = name.toLowerCase().replace(/\./g, '').split(/\s+/);
+      const full = name === book.name || name.length >= 5;
+      const ordinals = SPOKEN_ORDINALS[words[0]];
+      if (ordinals) {
+        for (const ordinal of ordinals) phrases.push({ words: [ordinal, ...words.slice(1)], book, full });
+      } else {
+        phrases.push({ words, book, full });
+      }
+    }
+  }
+  // Longest first, so "song of songs" wins over "song" and "1 john" over "john".
+  return phrases.sort((a, b) => b.words.length - a.words.length);
+})();
+
+// Punctuation becomes a "," token so a citation never runs across a clause
+// ("John, one of the twelve"), except "." right after an abbreviation.
+function tokenize(utterance: string): Token[] {
+  const text = utterance.replace(/[’']/g, '').replace(/(\d)\.(\d)/g, '$1:$2');
+  const tokens: Token[] = [];
+  for (const [raw] of text.matchAll(/\d+(?:st|nd|rd|th)?|[a-z]+|[:–—-]|[.,;!?]/gi)) {
+    const word = raw === '–' || raw === '—' ? '-' : /[,;!?]/.test(raw) ? ',' : raw.toLowerCase();
+    tokens.push({ text: word, raw });
+  }
+  return tokens;
+}
+
+/** Reads a number written as digits or spelled out ("twenty-eight", "a hundred and nineteen"). */
+function readNumber(tokens: Token[], at: number): { value: number; next: number } | null {
+  const word = (i: number) => tokens[i]?.text;
+  if (word(at) !== undefined && /^\d+$/.test(word(at)!)) return { value: Number(word(at)), next: at + 1 };
+
+  let i = at;
+  let value = 0;
+  if ((word(i) === 'a' || word(i) === 'one') && word(i + 1) === 'hundred') {
+    value = 100;
+    i += 2;
+  } else if (word(i) === 'hundred') {
+    value = 100;
+    i += 1;
+  }
+  if (value === 100 && word(i) === 'and' && ((word(i + 1) ?? '') in TENS || (word(i + 1) ?? '') in UNITS)) i += 1;
+
+  const tens = TENS[word(i) ?? ''];
+  if (tens !== undefined) {
+    value += tens;
+    i += 1;
+    const unitAt = word(i) === '-' ? i + 1 : i;
+    const unit = UNITS[word(unitAt) ?? ''];
+    if (unit !== undefined && unit < 10) {
+      value += unit;
+      i = unitAt + 1;
+    }
+  } else {
+    const unit = UNITS[word(i) ?? ''];
+    if (unit !== undefined) {
+      value += unit;
+      i += 1;
+    }
+  }
+  return i > at ? { value, next: i } : null;
+}
+
+function matchBook(tokens: Token[], at: number): { book: BibleBook; bare: boolean; next: number } | null {
+  for (const phrase of BOOK_PHRASES) {
+    if (!phrase.words.every((w, k) => tokens[at + k]?.text === w)) continue;
+    const end = at + phrase.words.length;
+    // Bare numbers only count after a full name the transcriber capitalised, so
+    // "my job 2 years ago" is left alone while "Job 2" is not.
+    const name = tokens[end - 1].raw;
+    const bare = phrase.full && name[0] !== name[0].toLowerCase();
+    return { book: phrase.book, bare, next: tokens[end]?.text === '.' ? end + 1 : end };
+  }
+  return null;
+}
+
+interface Citation {
+  chapter: number;
+  verseStart: number | null;
+  verseEnd: number | null;
+  confidence: number;
+  next: number;
+}
+
+/** Reads the chapter/verse part that follows a book name, or null if there isn't a usable one. */
+function readCitation(tokens: Token[], at: number, book: BibleBook, bare: boolean): Citation | null {
+  const word = (i: number) => tokens[i]?.text ?? '';
+  let i = at;
+
+  // Single-chapter books are cited by verse alone: "Jude verse 3", "Jude 3".
+  if (chapterCount(book) === 1 && VERSE_WORDS.has(word(i))) {
+    const verse = readNumber(tokens, i + 1);
+    if (!verse) return null;
+    return withRange(tokens, { chapter: 1, verseStart: verse.value, verseEnd: null, confidence: EXPLICIT_CONFIDENCE, next: verse.next });
+  }
+
+  const saidChapter = CHAPTER_WORDS.has(word(i));
+  if (saidChapter) i += 1;
+  const chapter = readNumber(tokens, i);
+  if (!chapter) return null;
+  i = chapter.next;
+
+  let verse: { value: number; next: number } | null = null;
+  let explicit = false;
+  if (word(i) === ':' || VERSE_WORDS.has(word(i))) {
+    verse = readNumber(tokens, i + 1);
+    explicit = verse !== null;
+  } else if (bare && !saidChapter) {
+    verse = readNumber(tokens, i);
+  }
+
+  if (verse) {
+    const confidence = explicit || saidChapter ? EXPLICIT_CONFIDENCE : BARE_VERSE_CONFIDENCE;
+    return withRange(tokens, { chapter: chapter.value, verseStart: verse.value, verseEnd: null, confidence, next: verse.next });
+  }
+  if (!saidChapter && !bare) return null;
+  // A lone spelled-out number is too often just a word ("John one of the twelve");
+  // Psalms are the exception, routinely cited by number alone.
+  if (!saidChapter && !/^\d+$/.test(tokens[at]?.text ?? '') && book.name !== 'Psalms') return null;
+  if (chapterCount(book) === 1 && !saidChapter) {
+    return { chapter: 1, verseStart: chapter.value, verseEnd: null, confidence: BARE_VERSE_CONFIDENCE, next: i };
+  }
+  return { chapter: chapter.value, verseStart: null, verseEnd: null, confidence: CHAPTER_CONFIDENCE, next: i };
+}
+
+/** Extends a citation over "through 5", "-5" or "and 29" (consecutive verses only). */
+function withRange(tokens: Token[], citation: Citation): Citation {
+  const word = tokens[citation.next]?.text ?? '';
+  if (!RANGE_WORDS.has(word) && word !== 'and') return citation;
+  const at = VERSE_WORDS.has(tokens[citation.next + 1]?.text ?? '') ? citation.next + 2 : citation.next + 1;
+  const end = readNumber(tokens, at);
+  if (!end || citation.verseStart === null || end.value <= citation.verseStart) return citation;
+  if (word === 'and' && end.value !== citation.verseStart + 1) return citation;
+  return { ...citation, verseEnd: end.value, next: end.next };
+}
+
+/** Turns a citation into a reference the API accepts, or null when the chapter or verse doesn't exist. */
+function toReference(book: BibleBook, citation: Citation): DetectedReference | null {
+  const { chapter } = citation;
+  if (chapter < 1 || chapter > chapterCount(book)) return null;
+  const verses = verseCount(book, chapter);
+
+  // A whole chapter is stored as the range of all its verses.
+  const verseStart = citation.verseStart ?? 1;
+  let verseEnd = citation.verseStart === null ? verses : citation.verseEnd;
+  if (verseStart < 1 || verseStart > verses) return null;
+  if (verseEnd !== null && (verseEnd > verses || verseEnd === verseStart)) verseEnd = null;
+
+  return {
+    book: book.name,
+    chapter,
+    verseStart,
+    verseEnd,
+    reference: formatReference(book.name, chapter, verseStart, verseEnd),
+    confidence: citation.confidence,
+  };
+}
+
+/** Every reference cited in `utterance`, in the order said, without repeats. */
+export function detectReferences(utterance: string): DetectedReference[] {
+  const tokens = tokenize(utterance);
+  const found: DetectedReference[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const match = matchBook(tokens, i);
+    const citation = match && readCitation(tokens, match.next, match.book, match.bare);
+    const ref = match && citation && toReference(match.book, citation);
+    if (!match || !citation || !ref) {
+      i += 1;
+      continue;
+    }
+    if (!found.some((f) => f.reference === ref.reference)) found.push(ref);
+    i = citation.next;
+  }
+  return found;
+}
+
+/**
+ * Detected references as matches ready to store with the segment. There is no
+ * verse text on the client, so the quote is left empty.
+ */
+export function detectReferenceMatches(utterance: string, version: string, n: number): ScriptureMatchDto[] {
+  return detectReferences(utterance)
+    .slice(0, n)
+    .map(({ confidence, ...ref }, rank) => ({ ...ref, version, quote: '', confidence, rank }));
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { visibleMatches } from './scriptureMatches';
+import type { ScriptureMatchDto } from '@/types/api';
+
+function match(reference: string, confidence: number, overrides: Partial<ScriptureMatchDto> = {}): ScriptureMatchDto {
+  return { reference, book: '', chapter: 1, verseStart: 1, version: 'NKJV', quote: '', confidence, rank: 0, ...overrides };
+}
+
+describe('visibleMatches', () => {
+  const matches = [
+    match('A', 0.9),
+    match('B', 0.2, { status: 'pinned' }),
+    match('C', 0.95, { status: 'rejected' }),
+    match('D', 0.3),
+    match('E', 1, { source: 'manual', status: 'pinned' }),
+  ];
+
+  it('hides rejected and low-confidence suggestions, curated first', () => {
+    expect(visibleMatches(matches, 0.4).map((m) => m.reference)).toEqual(['E', 'B', 'A']);
+  });
+
+  it('lists rejected matches last for the owner', () => {
+    expect(visibleMatches(matches, 0.4, { includeRejected: true }).map((m) => m.reference)).toEqual([
+      'E',
+      'B',
+      'A',
+      'C',
+    ]);
+  });
+
+  it('treats matches without a status as suggestions', () => {
+    expect(visibleMatches([match('A', 0.5)], 0).map((m) => m.reference)).toEqual(['A']);
+  });
+});
@@ -0,0 +1,38 @@
+import type { MatchStatus, ScriptureMatchDto } from '@/types/api';
+
+// Which of a segment's matches to show, and in what order. Shared by the
+// suggestions panel, the transcript badges and exports so curation reads the
+// same everywhere.
+
+export function matchStatus(match: ScriptureMatchDto): MatchStatus {
+  return match.status ?? 'suggested';
+}
+
+/** Pinned or typed in by the owner, as opposed to an uncurated suggestion. */
+export function isCuratedMatch(match: ScriptureMatchDto): boolean {
+  return matchStatus(match) === 'pinned' || match.source === 'manual';
+}
+
+/**
+ * Drops rejected matches (unless `includeRejected`, for the owner's view) and
+ * suggestions below `minConfidence`. Curated matches ignore the threshold and
+ * sort first; the rest go by confidence.
+ */
+export function visibleMatches(
+  matches: ScriptureMatchDto[],
+  minConfidence: number,
+  { includeRejected = false }: { includeRejected?: boolean } = {},
+): ScriptureMatchDto[] {
+  const rejectedLast = (m: ScriptureMatchDto) => (matchStatus(m) === 'rejected' ? 1 : 0);
+  return matches
+    .filter((m) => {
+      if (matchStatus(m) === 'rejected') return includeRejected;
+      return isCuratedMatch(m) || m.confidence >= minConfidence;
+    })
+    .sort(
+      (a, b) =>
+        rejectedLast(a) - rejectedLast(b) ||
+        Number(isCuratedMatch(b)) - Number(isCuratedMatch(a)) ||
+        b.confidence - a.confidence,
+    );
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { findBookByName, formatReference, parseReference } from './scriptureReference';
+
+describe('parseReference', () => {
+  it.each([
+    ['John 3:16', { book: 'John', chapter: 3, verseStart: 16, verseEnd: null, reference: 'John 3:16' }],
+    ['  john   3 : 16 ', { book: 'John', chapter: 3, verseStart: 16, verseEnd: null, reference: 'John 3:16' }],
+    ['1 Cor 13:4-7', { book: '1 Corinthians', chapter: 13, verseStart: 4, verseEnd: 7, reference: '1 Corinthians 13:4-7' }],
+    ['1Cor 13:4–7', { book: '1 Corinthians', chapter: 13, verseStart: 4, verseEnd: 7, reference: '1 Corinthians 13:4-7' }],
+    ['First John 4.8', { book: '1 John', chapter: 4, verseStart: 8, verseEnd: null, reference: '1 John 4:8' }],
+    ['II Tim 3:16', { book: '2 Timothy', chapter: 3, verseStart: 16, verseEnd: null, reference: '2 Timothy 3:16' }],
+    ['Ps. 23:1-1', { book: 'Psalms', chapter: 23, verseStart: 1, verseEnd: null, reference: 'Psalms 23:1' }],
+    ['Song of Songs 2:4', { book: 'Song of Solomon', chapter: 2, verseStart: 4, verseEnd: null, reference: 'Song of Solomon 2:4' }],
+    ['Jude 3', { book: 'Jude', chapter: 1, verseStart: 3, verseEnd: null, reference: 'Jude 1:3' }],
+    ['Rev 22:20-21', { book: 'Revelation', chapter: 22, verseStart: 20, verseEnd: 21, reference: 'Revelation 22:20-21' }],
+  ])('parses "%s"', (input, expected) => {
+    expect(parseReference(input)).toEqual({ ok: true, ref: expected });
+  });
+
+  it.each([
+    ['', 'Type a reference'],
+    ['3:16', 'Use the form'],
+    ['Hezekiah 3:16', 'Unknown book "Hezekiah"'],
+    ['John 3', 'Add a verse'],
+    ['John 22:1', 'John has 21 chapters'],
+    ['John 3:37', 'John 3 has 36 verses'],
+    ['John 3:16-14', 'The range must end between verse 16 and 36'],
+  ])('rejects "%s"', (input, message) => {
+    const result = parseReference(input);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain(message);
+  });
+});
+
+describe('findBookByName', () => {
+  it('accepts canonical names, aliases and ordinal spellings', () => {
+    expect(findBookByName('Genesis')?.name).toBe('Genesis');
+    expect(findBookByName('gen.')?.name).toBe('Genesis');
+    expect(findBookByName('3rd John')?.name).toBe('3 John');
+    expect(findBookByName('Philemon')?.verses).toHaveLength(1);
+    expect(findBookByName('Nope')).toBeUndefined();
+  });
+});
+
+describe('formatReference', () => {
+  it('omits a range that ends where it starts', () => {
+    expect(formatReference('John', 3, 16, 16)).toBe('John 3:16');
+    expect(formatReference('John', 3, 16, 18)).toBe('John 3:16-18');
+  });
+});
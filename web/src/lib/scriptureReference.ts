@@ -0,0 +1,110 @@
+import { BIBLE_BOOKS, chapterCount, verseCount, type BibleBook } from '@/constants/bibleBooks';
+
+// Parses a typed reference ("John 3:16", "1 Cor 13:4-7", "Jude 3") into the
+// fields the API stores for a scripture match. Validation follows the same
+// canon and verse counts as the server, so a reference that parses here is
+// accepted by POST /transcripts/{id}/matches.
+
+export interface ParsedReference {
+  /** Canonical book name, e.g. "1 Corinthians". */
+  book: string;
+  chapter: number;
+  verseStart: number;
+  verseEnd: number | null;
+  /** Display form, formatted the way the server formats it. */
+  reference: string;
+}
+
+export type ParseReferenceResult = { ok: true; ref: ParsedReference } | { ok: false; error: string };
+
+const ORDINALS: Record<string, number> = {
+  '1': 1, '2': 2, '3': 3,
+  i: 1, ii: 2, iii: 3,
+  '1st': 1, '2nd': 2, '3rd': 3,
+  first: 1, second: 2, third: 3,
+};
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+}
+
+const ORDINAL_PREFIX = /^(1st|2nd|3rd|first|second|third|iii|ii|i|[123])\s*([a-z].*)$/;
+
+const BOOK_LOOKUP: Map<string, BibleBook> = (() => {
+  const lookup = new Map<string, BibleBook>();
+  for (const book of BIBLE_BOOKS) {
+    for (const name of [book.name, ...book.aliases]) {
+      lookup.set(normalizeName(name), book);
+      // "1 Cor" is also typed as "1Cor".
+      lookup.set(normalizeName(name).replace(/^([123]) /, '$1'), book);
+    }
+  }
+  return lookup;
+})();
+
+export function findBookByName(input: string): BibleBook | undefined {
+  const name = normalizeName(input);
+  const direct = BOOK_LOOKUP.get(name);
+  if (direct) return direct;
+  const ordinal = ORDINAL_PREFIX.exec(name);
+  return ordinal ? BOOK_LOOKUP.get(`${ORDINALS[ordinal[1]]} ${ordinal[2]}`) : undefined;
+}
+
+export function formatReference(book: string, chapter: number, verseStart: number, verseEnd?: number | null): string {
+  return verseEnd && verseEnd !== verseStart
+    ? `${book} ${chapter}:${verseStart}-${verseEnd}`
+    : `${book} ${chapter}:${verseStart}`;
+}
+
+const REFERENCE_PATTERN = /^(.*?[a-z]\.?)\s*(\d+)(?:\s*[:.]\s*(\d+))?(?:\s*[-–—]\s*(\d+))?$/i;
+
+export function parseReference(input: string): ParseReferenceResult {
+  const trimmed = input.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return { ok: false, error: 'Type a reference such as John 3:16.' };
+
+  const parts = REFERENCE_PATTERN.exec(trimmed);
+  if (!parts) return { ok: false, error: 'Use the form Book Chapter:Verse, e.g. John 3:16.' };
+
+  const book = findBookByName(parts[1]);
+  if (!book) return { ok: false, error: `Unknown book "${parts[1].trim()}".` };
+
+  const first = Number(parts[2]);
+  const second = parts[3] !== undefined ? Number(parts[3]) : null;
+  const end = parts[4] !== undefined ? Number(parts[4]) : null;
+
+  let chapter: number;
+  let verseStart: number;
+  if (second !== null) {
+    chapter = first;
+    verseStart = second;
+  } else if (chapterCount(book) === 1) {
+    // Single-chapter books are cited by verse alone: "Jude 3".
+    chapter = 1;
+    verseStart = first;
+  } else {
+    return { ok: false, error: `Add a verse, e.g. ${book.name} ${first}:1.` };
+  }
+
+  if (chapter < 1 || chapter > chapterCount(book)) {
+    return { ok: false, error: `${book.name} has ${chapterCount(book)} chapters.` };
+  }
+  const verses = verseCount(book, chapter);
+  if (verseStart < 1 || verseStart > verses) {
+    return { ok: false, error: `${book.name} ${chapter} has ${verses} verses.` };
+  }
+  if (end !== null && (end < verseStart || end > verses)) {
+    return { ok: false, error: `The range must end between verse ${verseStart} and ${verses}.` };
+  }
+
+  const verseEnd = end !== null && end !== verseStart ? end : null;
+  return {
+    ok: true,
+    ref: {
+      book: book.name,
+      chapter,
+      verseStart,
+      verseEnd,
+      reference: formatReference(book.name, chapter, verseStart, verseEnd),
+    },
+  };
+}
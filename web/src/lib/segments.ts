@@ -0,0 +1,22 @@
+import type { TranscriptSegmentDto } from '@/types/api';
+
+/** Text stored on pause markers; the transcript panel renders them as a divider instead. */
+export const PAUSE_MARKER_TEXT = 'Recording paused';
+
+/** Text stored on markers for a stretch where the transcription connection was down. */
+export const GAP_MARKER_TEXT = 'Connection lost';
+
+/** Pause markers span a paused stretch of the recording; they are not speech. */
+export function isPauseMarker(segment: Pick<TranscriptSegmentDto, 'kind'>): boolean {
+  return segment.kind === 'pause';
+}
+
+/** Gap markers span a dropped connection; audio recovered from it arrives as ordinary segments. */
+export function isGapMarker(segment: Pick<TranscriptSegmentDto, 'kind'>): boolean {
+  return segment.kind === 'gap';
+}
+
+/** Any segment that marks a stretch of time rather than holding speech. */
+export function isMarker(segment: Pick<TranscriptSegmentDto, 'kind'>): boolean {
+  return isPauseMarker(segment) || isGapMarker(segment);
+}
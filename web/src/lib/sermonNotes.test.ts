@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { notesOffset, notesSignature, sermonNotesMarkdown } from './sermonNotes';
+import type { ScriptureMatchDto, SermonNotesDto, TranscriptSegmentDto } from '@/types/api';
+
+const session = { title: 'Sunday service', createdAt: '2026-10-18T09:00:00Z' };
+
+const notes: SermonNotesDto = {
+  summary: 'God loves the world and works all things for good.',
+  outline: [
+    { title: "God's love comes first", detail: 'Everything follows from it.', segmentId: 'a', startedAt: '2026-10-18T09:05:30Z' },
+    { title: 'All things for good', detail: '', segmentId: 'b', startedAt: '2026-10-18T10:12:00Z' },
+  ],
+  scriptures: [
+    { reference: 'John 3:16', version: 'NKJV', quote: 'For God so loved the world', segmentId: 'a', startedAt: '2026-10-18T09:05:30Z' },
+    { reference: 'Romans 8:28', version: 'NKJV', quote: '', segmentId: 'b', startedAt: '2026-10-18T10:12:00Z' },
+  ],
+  generator: 'extractive',
+  generatedAt: '2026-10-18T11:00:00Z',
+};
+
+describe('notesOffset', () => {
+  it('counts from the start of the session', () => {
+    expect(notesOffset(session, '2026-10-18T09:05:30Z')).toBe('00:05:30');
+    expect(notesOffset(session, '2026-10-18T08:59:00Z')).toBe('00:00:00');
+    expect(notesOffset(session, 'not a date')).toBe('00:00:00');
+  });
+});
+
+describe('sermonNotesMarkdown', () => {
+  it('lists the summary, numbered points with anchors, and scriptures in order', () => {
+    expect(sermonNotesMarkdown(session, notes)).toBe(
+      [
+        '# Sunday service',
+        '',
+        'God loves the world and works all things for good.',
+        '',
+        '## Outline',
+        '',
+        "1. **God's love comes first** [00:05:30] — Everything follows from it.",
+        '2. **All things for good** [01:12:00]',
+        '',
+        '## Scriptures',
+        '',
+        '- **John 3:16** (NKJV) — “For God so loved the world”',
+        '- **Romans 8:28** (NKJV)',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('leaves out empty sections', () => {
+    expect(sermonNotesMarkdown(session, { ...notes, summary: ' ', outline: [], scriptures: [] })).toBe('# Sunday service\n');
+  });
+});
+
+describe('notesSignature', () => {
+  const match = (patch: Partial<ScriptureMatchDto>): ScriptureMatchDto => ({
+    id: 'm1',
+    reference: 'John 3:16',
+    book: 'John',
+    chapter: 3,
+    verseStart: 16,
+    version: 'NKJV',
+    quote: '',
+    confidence: 0.9,
+    rank: 0,
+    status: 'suggested',
+    ...patch,
+  });
+  const segment = (matches: ScriptureMatchDto[]): TranscriptSegmentDto => ({
+    id: 'a',
+    text: 'For God so loved the world',
+    startedAt: '2026-10-18T09:05:30Z',
+    endedAt: '2026-10-18T09:05:35Z',
+    matches,
+  });
+
+  it('changes when a cited match is pinned or rejected', () => {
+    const suggested = notesSignature([segment([match({})])]);
+    expect(notesSignature([segment([match({ status: 'pinned' })])])).not.toBe(suggested);
+    expect(notesSignature([segment([match({ status: 'rejected' })])])).not.toBe(suggested);
+  });
+
+  it('ignores suggestions the notes would not cite anyway', () => {
+    const none = notesSignature([segment([])]);
+    expect(notesSignature([segment([match({ confidence: 0.2 })])])).toBe(none);
+    expect(notesSignature([segment([match({ confidence: 0.2, status: 'pinned' })])])).not.toBe(none);
+  });
+});
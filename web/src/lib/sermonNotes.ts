@@ -0,0 +1,64 @@
+import { isCuratedMatch, matchStatus } from './scriptureMatches';
+import { isMarker } from './segments';
+import { formatOffset } from './transcriptExport';
+import type { ScriptureMatchDto, SermonNotesDto, SessionDto, TranscriptSegmentDto } from '@/types/api';
+
+// Sermon notes as shown and copied: anchors are offsets from the start of the
+// session, the same origin the transcript exports use.
+
+/** Generator name the server uses when the notes were drawn from the transcript without a model. */
+export const EXTRACTIVE_GENERATOR = 'extractive';
+
+/** Suggestions below this aren't cited in the notes; the server's `SermonNotesBuilder.CitedConfidence`. */
+export const NOTES_CITED_CONFIDENCE = 0.4;
+
+/** Whether the server counts a match as cited in the sermon notes. */
+export function isCitedMatch(match: ScriptureMatchDto): boolean {
+  const status = matchStatus(match);
+  return status === 'pinned' || (status !== 'rejected' && (isCuratedMatch(match) || match.confidence >= NOTES_CITED_CONFIDENCE));
+}
+
+/**
+ * Changes whenever the notes' source does: speech segments saved, edited or
+ * deleted, and cited matches added, pinned or rejected.
+ */
+export function notesSignature(segments: TranscriptSegmentDto[]): string {
+  return segments
+    .filter((s) => !isMarker(s) && !s.id.startsWith('pending-'))
+    .map((s) => {
+      const cited = s.matches.filter(isCitedMatch).map((m) => `${m.id ?? ''}=${matchStatus(m)}`);
+      return `${s.id}:${s.text.length}:${s.editedAt ?? ''}:${cited.join(',')}`;
+    })
+    .join('|');
+}
+
+export function notesOffset(session: Pick<SessionDto, 'createdAt'>, startedAt: string): string {
+  const ms = new Date(startedAt).getTime() - new Date(session.createdAt).getTime();
+  return formatOffset(Number.isNaN(ms) ? 0 : ms);
+}
+
+/** Markdown for pasting into a bulletin, newsletter or small-group handout. */
+export function sermonNotesMarkdown(session: Pick<SessionDto, 'title' | 'createdAt'>, notes: SermonNotesDto): string {
+  const out: string[] = [`# ${session.title}`, ''];
+  if (notes.summary.trim()) out.push(notes.summary.trim(), '');
+
+  if (notes.outline.length > 0) {
+    out.push('## Outline', '');
+    notes.outline.forEach((point, i) => {
+      const detail = point.detail.trim() ? ` — ${point.detail.trim()}` : '';
+      out.push(`${i + 1}. **${point.title}** [${notesOffset(session, point.startedAt)}]${detail}`);
+    });
+    out.push('');
+  }
+
+  if (notes.scriptures.length > 0) {
+    out.push('## Scriptures', '');
+    for (const s of notes.scriptures) {
+      const quote = s.quote.trim() ? ` — “${s.quote.trim()}”` : '';
+      out.push(`- **${s.reference}** (${s.version})${quote}`);
+    }
+    out.push('');
+  }
+
+  return `${out.join('\n').trimEnd()}\n`;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { segmentBySilence } from './silenceSegmenter';
+
+const RATE = 1000;
+
+/** Builds 1 kHz audio from [durationMs, amplitude] runs; 1 sample per ms keeps offsets readable. */
+function audio(...runs: [number, number][]): Float32Array {
+  const samples: number[] = [];
+  for (const [ms, amplitude] of runs) {
+    for (let i = 0; i < ms; i += 1) samples.push(i % 2 === 0 ? amplitude : -amplitude);
+  }
+  return new Float32Array(samples);
+}
+
+describe('segmentBySilence', () => {
+  it('splits speech at pauses longer than the silence window', () => {
+    const samples = audio([500, 0], [1500, 0.2], [1000, 0], [800, 0.2], [300, 0], [700, 0.2], [2000, 0]);
+    expect(segmentBySilence(samples, RATE, { silenceMs: 600 })).toEqual([
+      { startMs: 500, endMs: 2000 },
+      { startMs: 3000, endMs: 4800 },
+    ]);
+  });
+
+  it('drops blips shorter than the minimum speech length', () => {
+    const samples = audio([1000, 0], [200, 0.2], [3000, 0]);
+    expect(segmentBySilence(samples, RATE, { silenceMs: 500 })).toEqual([]);
+  });
+
+  it('cuts very long speech and keeps trailing speech at the end of the file', () => {
+    const samples = audio([2500, 0.2]);
+    expect(segmentBySilence(samples, RATE, { maxUtteranceMs: 1000 })).toEqual([
+      { startMs: 0, endMs: 1000 },
+      { startMs: 1000, endMs: 2000 },
+      { startMs: 2000, endMs: 2500 },
+    ]);
+  });
+});
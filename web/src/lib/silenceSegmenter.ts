@@ -0,0 +1,31 @@
+import { createVad, DEFAULT_VAD_CONFIG, type VadConfig } from './vad';
+
+// Recording import: walks a decoded file through the same VAD the live
+// microphone uses, frame by frame.
+
+export interface SpeechSpan {
+  /** Offsets into the audio, in ms. */
+  startMs: number;
+  endMs: number;
+}
+
+/** Splits mono PCM into spans of speech separated by at least `silenceMs` of quiet. */
+export function segmentBySilence(
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<VadConfig> = {},
+): SpeechSpan[] {
+  const frameMs = config.frameMs ?? DEFAULT_VAD_CONFIG.frameMs;
+  const vad = createVad({ ...config, frameMs });
+  const frameSize = Math.max(1, Math.round((sampleRate * frameMs) / 1000));
+  const spans: SpeechSpan[] = [];
+
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    const end = Math.min(samples.length, offset + frameSize);
+    const utterance = vad.processFrame(samples.subarray(offset, end), (end / sampleRate) * 1000);
+    if (utterance) spans.push(utterance);
+  }
+  const last = vad.flush();
+  if (last) spans.push(last);
+  return spans.map((s) => ({ startMs: Math.round(s.startMs), endMs: Math.round(s.endMs) }));
+}
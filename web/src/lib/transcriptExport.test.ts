@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCaptionCues,
+  exportTranscript,
+  formatCueTimestamp,
+  formatOffset,
+  toMarkdown,
+  toPlainText,
+  toSrt,
+  toWebVtt,
+  wrapWords,
+} from './transcriptExport';
+import type { ScriptureMatchDto, SessionDto, TranscriptSegmentDto } from '@/types/api';
+
+const ORIGIN = '2026-05-10T15:00:00.000Z';
+const originMs = Date.parse(ORIGIN);
+
+const session: SessionDto = {
+  id: 's1',
+  code: 'ABC123',
+  title: 'Sunday Morning: Grace & Truth',
+  ownerUsername: 'pastor-john',
+  status: 'ended',
+  language: 'en',
+  createdAt: ORIGIN,
+  endedAt: '2026-05-10T16:00:00.000Z',
+  segmentCount: 2,
+};
+
+function at(seconds: number): string {
+  return new Date(originMs + seconds * 1000).toISOString();
+}
+
+function match(overrides: Partial<ScriptureMatchDto> = {}): ScriptureMatchDto {
+  return {
+    reference: 'John 3:16',
+    book: 'John',
+    chapter: 3,
+    verseStart: 16,
+    version: 'NKJV',
+    quote: 'For God so loved the world',
+    confidence: 0.9,
+    rank: 0,
+    ...overrides,
+  };
+}
+
+function segment(id: string, start: number, end: number, text: string, matches: ScriptureMatchDto[] = []): TranscriptSegmentDto {
+  return { id, text, startedAt: at(start), endedAt: at(end), matches };
+}
+
+describe('formatCueTimestamp', () => {
+  it.each([
+    [0, ',', '00:00:00,000'],
+    [1234, ',', '00:00:01,234'],
+    [3_723_456, '.', '01:02:03.456'],
+    [-50, '.', '00:00:00.000'],
+  ] as const)('formats %d ms with "%s"', (ms, sep, expected) => {
+    expect(formatCueTimestamp(ms, sep)).toBe(expected);
+  });
+});
+
+describe('formatOffset', () => {
+  it('drops milliseconds and clamps negatives', () => {
+    expect(formatOffset(3_725_999)).toBe('01:02:05');
+    expect(formatOffset(-1000)).toBe('00:00:00');
+  });
+});
+
+describe('wrapWords', () => {
+  it('wraps on word boundaries', () => {
+    expect(wrapWords('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('keeps an over-long word on its own line', () => {
+    expect(wrapWords('a supercalifragilistic b', 5)).toEqual(['a', 'supercalifragilistic', 'b']);
+  });
+});
+
+describe('buildCaptionCues', () => {
+  it('orders segments by start time and offsets them from the origin', () => {
+    const cues = buildCaptionCues(
+      [segment('b', 10, 12, 'second'), segment('a', 2, 4, 'first')],
+      originMs,
+    );
+    expect(cues.map((c) => [c.startMs, c.endMs, c.lines])).toEqual([
+      [2000, 4000, ['first']],
+      [10000, 12000, ['second']],
+    ]);
+  });
+
+  it('gives zero-length segments a minimum duration', () => {
+    const [cue] = buildCaptionCues([segment('a', 5, 5, 'blink')], originMs);
+    expect(cue.endMs - cue.startMs).toBe(1000);
+  });
+
+  it('splits long segments into consecutive two-line cues covering the whole segment', () => {
+    const words = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    const cues = buildCaptionCues([segment('a', 0, 20, words)], originMs);
+
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.every((c) => c.lines.length <= 2)).toBe(true);
+    expect(cues.every((c) => c.lines.every((l) => l.length <= 42))).toBe(true);
+    expect(cues[0].startMs).toBe(0);
+    expect(cues[cues.length - 1].endMs).toBe(20000);
+    for (let i = 1; i < cues.length; i += 1) {
+      expect(cues[i].startMs).toBe(cues[i - 1].endMs);
+    }
+  });
+
+  it('skips blank segments', () => {
+    expect(buildCaptionCues([segment('a', 0, 1, '   ')], originMs)).toEqual([]);
+  });
+
+  it('leaves out pause and gap markers', () => {
+    const pause = { ...segment('p', 2, 300, 'Recording paused'), kind: 'pause' as const };
+    const gap = { ...segment('g', 302, 320, 'Connection lost'), kind: 'gap' as const };
+    const cues = buildCaptionCues(
+      [segment('a', 0, 2, 'Before'), pause, segment('b', 300, 302, 'After'), gap, segment('c', 302, 320, 'Recovered')],
+      originMs,
+    );
+    expect(cues.map((c) => c.lines)).toEqual([['Before'], ['After'], ['Recovered']]);
+  });
+});
+
+describe('toSrt', () => {
+  it('produces numbered cues with comma timestamps', () => {
+    const srt = toSrt([segment('a', 1.5, 3, 'Turn with me to John.'), segment('b', 4, 6, 'Chapter three.')], originMs);
+    expect(srt).toBe(
+      '1\n00:00:01,500 --> 00:00:03,000\nTurn with me to John.\n\n' +
+        '2\n00:00:04,000 --> 00:00:06,000\nChapter three.\n',
+    );
+  });
+});
+
+describe('toWebVtt', () => {
+  it('adds the WEBVTT header, uses period timestamps and escapes markup', () => {
+    const vtt = toWebVtt([segment('a', 0, 2, 'Faith <hope> & love')], originMs);
+    expect(vtt).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:02.000\nFaith &lt;hope&gt; &amp; love\n');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('inlines scripture references under their segment, highest confidence first', () => {
+    const md = toMarkdown(session, [
+      segment('a', 65, 70, 'God so loved the world.', [
+        match({ reference: 'Romans 5:8', quote: '', confidence: 0.5 }),
+        match(),
+      ]),
+      segment('b', 80, 85, 'Let us pray.'),
+    ]);
+
+    expect(md).toContain('# Sunday Morning: Grace & Truth');
+    expect(md).toContain('- **Session:** ABC123');
+    expect(md).toContain('- **Preacher:** pastor-john');
+    expect(md).toContain(
+      '**[00:01:05]** God so loved the world.\n\n' +
+        '> - **John 3:16** (NKJV) — “For God so loved the world”\n' +
+        '> - **Romans 5:8** (NKJV)\n\n' +
+        '**[00:01:20]** Let us pray.\n',
+    );
+  });
+
+  it('leaves out matches below the confidence threshold', () => {
+    const md = toMarkdown(session, [segment('a', 0, 1, 'Text', [match({ confidence: 0.2 })])], {
+      minConfidence: 0.4,
+    });
+    expect(md).not.toContain('John 3:16');
+  });
+
+  it('keeps pinned references and drops rejected ones', () => {
+    const md = toMarkdown(
+      session,
+      [
+        segment('a', 0, 1, 'Text', [
+          match({ confidence: 0.2, status: 'pinned' }),
+          match({ reference: 'Romans 5:8', confidence: 0.95, status: 'rejected' }),
+        ]),
+      ],
+      { minConfidence: 0.4 },
+    );
+    expect(md).toContain('**John 3:16**');
+    expect(md).not.toContain('Romans 5:8');
+  });
+});
+
+describe('toPlainText', () => {
+  it('indents references beneath each timestamped line', () => {
+    const txt = toPlainText(session, [segment('a', 3, 5, 'For God so loved.', [match()])]);
+    expect(txt.split('\n').slice(0, 2)).toEqual([
+      'Sunday Morning: Grace & Truth',
+      'Session ABC123 · Preacher pastor-john · 2026-05-10 15:00 UTC',
+    ]);
+    expect(txt).toContain('[00:00:03] For God so loved.\n    John 3:16 (NKJV): "For God so loved the world"\n');
+  });
+});
+
+describe('exportTranscript', () => {
+  it('names the file after the session and picks the MIME type', () => {
+    const file = exportTranscript('vtt', session, []);
+    expect(file.filename).toBe('sunday-morning-grace-truth-ABC123.vtt');
+    expect(file.mimeType).toBe('text/vtt');
+    expect(file.content).toBe('WEBVTT\n');
+  });
+
+  it('honours an explicit origin', () => {
+    const file = exportTranscript('srt', session, [segment('a', 70, 72, 'Later')], { origin: at(60) });
+    expect(file.content).toContain('00:00:10,000 --> 00:00:12,000');
+  });
+});
@@ -0,0 +1,259 @@
+import { visibleMatches } from './scriptureMatches';
+import { isMarker } from './segments';
+import type { SessionDto, TranscriptSegmentDto } from '@/types/api';
+
+// Pure transcript → document converters. No DOM or network access so they can
+// be unit-tested and reused outside the session view (e.g. batch exports).
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'txt';
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: readonly ExportFormatInfo[] = [
+  { format: 'srt', label: 'SubRip captions (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT captions (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'md', label: 'Markdown document (.md)', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'txt', label: 'Plain text (.txt)', extension: 'txt', mimeType: 'text/plain' },
+];
+
+export interface ExportOptions {
+  /** Instant that maps to 00:00:00. Defaults to the session's `createdAt`. */
+  origin?: string;
+  /** Suggestions below this confidence are left out of documents; pinned and manual ones are kept. */
+  minConfidence?: number;
+}
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+/** Caption line length and lines per cue, per common broadcast guidelines. */
+export const CAPTION_LINE_CHARS = 42;
+export const CAPTION_MAX_LINES = 2;
+/** Cues never get shorter than this, even for zero-length segments. */
+const MIN_CUE_MS = 1000;
+
+export interface CaptionCue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+}
+
+function toMillis(iso: string): number {
+  const ms = new Date(iso).getTime();
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+/** `HH:MM:SS<sep>mmm` — SRT uses a comma, WebVTT a period. */
+export function formatCueTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/** `HH:MM:SS` offset used as a heading anchor in documents. */
+export function formatOffset(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+/** Speech only: pause and gap markers are holes in the recording, not lines to caption. */
+function sortedSegments(segments: TranscriptSegmentDto[]): TranscriptSegmentDto[] {
+  return [...segments]
+    .filter((s) => !isMarker(s) && s.text.trim().length > 0)
+    .sort((a, b) => toMillis(a.startedAt) - toMillis(b.startedAt));
+}
+
+/** Greedy word wrap; a single word longer than `width` gets its own line. */
+export function wrapWords(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Splits segments into caption-sized cues. A long segment is broken into
+ * consecutive cues of at most {@link CAPTION_MAX_LINES} lines, sharing the
+ * segment's duration in proportion to each cue's character count.
+ */
+export function buildCaptionCues(segments: TranscriptSegmentDto[], originMs: number): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  for (const segment of sortedSegments(segments)) {
+    const startMs = Math.max(0, toMillis(segment.startedAt) - originMs);
+    const endMs = Math.max(startMs + MIN_CUE_MS, toMillis(segment.endedAt) - originMs);
+
+    const lines = wrapWords(segment.text.trim(), CAPTION_LINE_CHARS);
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += CAPTION_MAX_LINES) {
+      groups.push(lines.slice(i, i + CAPTION_MAX_LINES));
+    }
+
+    const totalChars = groups.reduce((sum, g) => sum + g.join(' ').length, 0);
+    let cursor = startMs;
+    groups.forEach((group, index) => {
+      const share = group.join(' ').length / totalChars;
+      const cueEnd = index === groups.length - 1 ? endMs : Math.round(cursor + (endMs - startMs) * share);
+      cues.push({ startMs: cursor, endMs: cueEnd, lines: group });
+      cursor = cueEnd;
+    });
+  }
+  return cues;
+}
+
+function originFor(session: Pick<SessionDto, 'createdAt'>, options: ExportOptions): number {
+  return toMillis(options.origin ?? session.createdAt);
+}
+
+export function toSrt(segments: TranscriptSegmentDto[], originMs: number): string {
+  return buildCaptionCues(segments, originMs)
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatCueTimestamp(cue.startMs, ',')} --> ${formatCueTimestamp(cue.endMs, ',')}\n${cue.lines.join('\n')}\n`,
+    )
+    .join('\n');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toWebVtt(segments: TranscriptSegmentDto[], originMs: number): string {
+  const cues = buildCaptionCues(segments, originMs).map(
+    (cue, i) =>
+      `${i + 1}\n${formatCueTimestamp(cue.startMs, '.')} --> ${formatCueTimestamp(cue.endMs, '.')}\n${cue.lines
+        .map(escapeVtt)
+        .join('\n')}\n`,
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+export function toMarkdown(
+  session: SessionDto,
+  segments: TranscriptSegmentDto[],
+  options: ExportOptions = {},
+): string {
+  const originMs = originFor(session, options);
+  const minConfidence = options.minConfidence ?? 0;
+  const out: string[] = [
+    `# ${session.title}`,
+    '',
+    `- **Session:** ${session.code}`,
+    `- **Preacher:** ${session.ownerUsername}`,
+    `- **Recorded:** ${formatDate(session.createdAt)}${session.endedAt ? ` – ${formatDate(session.endedAt)}` : ''}`,
+    '',
+    '## Transcript',
+    '',
+  ];
+
+  for (const segment of sortedSegments(segments)) {
+    out.push(`**[${formatOffset(toMillis(segment.startedAt) - originMs)}]** ${segment.text.trim()}`, '');
+    const matches = visibleMatches(segment.matches, minConfidence);
+    for (const match of matches) {
+      const quote = match.quote ? ` — “${match.quote}”` : '';
+      out.push(`> - **${match.reference}** (${match.version})${quote}`);
+    }
+    if (matches.length > 0) out.push('');
+  }
+
+  return `${out.join('\n').trimEnd()}\n`;
+}
+
+export function toPlainText(
+  session: SessionDto,
+  segments: TranscriptSegmentDto[],
+  options: ExportOptions = {},
+): string {
+  const originMs = originFor(session, options);
+  const minConfidence = options.minConfidence ?? 0;
+  const out: string[] = [
+    session.title,
+    `Session ${session.code} · Preacher ${session.ownerUsername} · ${formatDate(session.createdAt)}`,
+    '',
+  ];
+
+  for (const segment of sortedSegments(segments)) {
+    out.push(`[${formatOffset(toMillis(segment.startedAt) - originMs)}] ${segment.text.trim()}`);
+    for (const match of visibleMatches(segment.matches, minConfidence)) {
+      const quote = match.quote ? `: "${match.quote}"` : '';
+      out.push(`    ${match.reference} (${match.version})${quote}`);
+    }
+    out.push('');
+  }
+
+  return `${out.join('\n').trimEnd()}\n`;
+}
+
+export function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'session'
+  );
+}
+
+export function exportTranscript(
+  format: ExportFormat,
+  session: SessionDto,
+  segments: TranscriptSegmentDto[],
+  options: ExportOptions = {},
+): ExportedFile {
+  const info = EXPORT_FORMATS.find((f) => f.format === format);
+  if (!info) throw new Error(`Unsupported export format: ${format}`);
+
+  const originMs = originFor(session, options);
+  let content: string;
+  switch (format) {
+    case 'srt':
+      content = toSrt(segments, originMs);
+      break;
+    case 'vtt':
+      content = toWebVtt(segments, originMs);
+      break;
+    case 'md':
+      content = toMarkdown(session, segments, options);
+      break;
+    case 'txt':
+      content = toPlainText(session, segments, options);
+      break;
+  }
+
+  return {
+    filename: `${slugify(session.title)}-${session.code}.${info.extension}`,
+    mimeType: info.mimeType,
+    content,
+  };
+}
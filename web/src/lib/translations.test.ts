@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { applyTranslation, translationSignature } from './translations';
+import type { ScriptureMatchDto, TranscriptSegmentDto } from '@/types/api';
+
+const john316: ScriptureMatchDto = {
+  id: 'm1',
+  reference: 'John 3:16',
+  book: 'John',
+  chapter: 3,
+  verseStart: 16,
+  version: 'NKJV',
+  quote: 'For God so loved the world...',
+  confidence: 0.9,
+  rank: 0,
+};
+
+function segment(id: string, text: string, matches: ScriptureMatchDto[] = []): TranscriptSegmentDto {
+  return { id, text, startedAt: '2026-05-10T15:00:00Z', endedAt: '2026-05-10T15:00:01Z', matches };
+}
+
+describe('applyTranslation', () => {
+  it('swaps in the translated text and quotes', () => {
+    const shown = applyTranslation(segment('a', 'For God so loved the world', [john316]), {
+      segmentId: 'a',
+      language: 'es',
+      text: 'Porque de tal manera amó Dios al mundo',
+      quotes: [{ matchId: 'm1', version: 'RVR1960', quote: 'Porque de tal manera amó Dios al mundo...' }],
+    });
+    expect(shown.text).toBe('Porque de tal manera amó Dios al mundo');
+    expect(shown.matches[0]).toMatchObject({ reference: 'John 3:16', version: 'RVR1960' });
+  });
+
+  it('keeps the original for untranslated segments and unquoted matches', () => {
+    const original = segment('a', 'Hello', [john316]);
+    expect(applyTranslation(original, undefined)).toBe(original);
+    const shown = applyTranslation(original, { segmentId: 'a', language: 'es', text: 'Hola', quotes: [] });
+    expect(shown.matches[0]).toBe(john316);
+  });
+});
+
+describe('translationSignature', () => {
+  it('ignores markers and unsaved segments but tracks edits and new matches', () => {
+    const marker: TranscriptSegmentDto = { ...segment('p', 'Recording paused'), kind: 'pause' };
+    const base = translationSignature([segment('a', 'Hello'), marker, segment('pending-1', 'Wait')]);
+    expect(base).toBe(translationSignature([segment('a', 'Hello')]));
+    expect(translationSignature([segment('a', 'Hello', [john316])])).not.toBe(base);
+    expect(translationSignature([{ ...segment('a', 'Hello'), editedAt: '2026-05-10T15:01:00Z' }])).not.toBe(base);
+  });
+});
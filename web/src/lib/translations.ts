@@ -0,0 +1,34 @@
+import type { SegmentTranslationDto, TranscriptSegmentDto } from '@/types/api';
+import { isMarker } from './segments';
+
+/**
+ * Changes whenever a saved speech segment appears, is edited or gains a match —
+ * the things that give the server something new to translate.
+ */
+export function translationSignature(segments: TranscriptSegmentDto[]): string {
+  return segments
+    .filter((s) => !isMarker(s) && !s.id.startsWith('pending-'))
+    .map((s) => `${s.id}:${s.text.length}:${s.editedAt ?? ''}:${s.matches.map((m) => m.id ?? '').join(',')}`)
+    .join('|');
+}
+
+/**
+ * The segment as a viewer reading `translation` should see it: translated text,
+ * and each quoted match in the translated version. Matches without a translated
+ * quote keep the original.
+ */
+export function applyTranslation(
+  segment: TranscriptSegmentDto,
+  translation: SegmentTranslationDto | undefined,
+): TranscriptSegmentDto {
+  if (!translation || isMarker(segment)) return segment;
+  const quotes = new Map(translation.quotes.map((q) => [q.matchId, q]));
+  return {
+    ...segment,
+    text: translation.text,
+    matches: segment.matches.map((m) => {
+      const quote = m.id ? quotes.get(m.id) : undefined;
+      return quote ? { ...m, version: quote.version, quote: quote.quote } : m;
+    }),
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { calibrateThreshold, createVad, rms, toDecibels } from './vad';
+
+/** Feeds one level per 100 ms frame and collects what comes out. */
+function run(levels: number[], config: Parameters<typeof createVad>[0] = {}) {
+  const vad = createVad({ frameMs: 100, ...config });
+  const out = levels.map((level, i) => vad.processLevel(level, (i + 1) * 100)).filter((u) => u !== null);
+  const last = vad.flush();
+  return { utterances: last ? [...out, last] : out, vad };
+}
+
+const quiet = (n: number, level = 0.001) => Array<number>(n).fill(level);
+const loud = (n: number, level = 0.1) => Array<number>(n).fill(level);
+
+describe('rms', () => {
+  it('measures a constant signal as its amplitude', () => {
+    expect(rms(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+    expect(rms(new Float32Array(0))).toBe(0);
+  });
+});
+
+describe('createVad', () => {
+  it('ends an utterance after the silence gap, timed from its first loud frame', () => {
+    const { utterances } = run([...quiet(5), ...loud(10), ...quiet(10)], { silenceMs: 500, adaptive: false });
+    expect(utterances).toEqual([{ startMs: 500, endMs: 1500, reason: 'silence' }]);
+  });
+
+  it('drops blips shorter than the minimum speech length', () => {
+    const { utterances } = run([...quiet(5), ...loud(2), ...quiet(10)], { silenceMs: 500, minSpeechMs: 400 });
+    expect(utterances).toEqual([]);
+  });
+
+  it('cuts speech that runs past the maximum length', () => {
+    const { utterances } = run(loud(25), { maxUtteranceMs: 1000, adaptive: false });
+    expect(utterances[0]).toEqual({ startMs: 0, endMs: 1000, reason: 'max-length' });
+    expect(utterances.at(-1)?.reason).toBe('flush');
+  });
+
+  it('keeps a trailing quieter syllable in the utterance', () => {
+    const { utterances } = run([...loud(5, 0.02), 0.01, ...quiet(10)], {
+      threshold: 0.012,
+      silenceMs: 500,
+      adaptive: false,
+    });
+    expect(utterances).toEqual([{ startMs: 0, endMs: 600, reason: 'silence' }]);
+  });
+
+  it('learns a steady noise floor and stops treating it as speech', () => {
+    // Music at 0.03 is well over the fixed threshold; without adaptation it never ends.
+    const music = loud(300, 0.03);
+    expect(run(music, { adaptive: false, maxUtteranceMs: 60_000 }).utterances).toHaveLength(1);
+
+    const { vad } = run(music, { adaptive: true });
+    const state = vad.current();
+    expect(state.floor).toBeGreaterThan(0.02);
+    expect(state.threshold).toBeGreaterThan(0.03);
+    expect(state.speaking).toBe(false);
+  });
+
+  it('still hears a speaker over the learned floor', () => {
+    const { utterances } = run([...loud(300, 0.03), ...loud(10, 0.2), ...loud(30, 0.03)], { silenceMs: 1000 });
+    expect(utterances.at(-1)).toEqual({ startMs: 30_000, endMs: 31_000, reason: 'silence' });
+  });
+
+  it('never drops below the configured threshold in a silent room', () => {
+    const { vad } = run(quiet(100, 0));
+    expect(vad.current().threshold).toBe(0.012);
+  });
+});
+
+describe('calibrateThreshold', () => {
+  it('sets the threshold a ratio above the median room level', () => {
+    const result = calibrateThreshold([0.004, 0.005, 0.2, 0.005, 0.006], 3);
+    expect(result).toEqual({ floor: 0.005, threshold: 0.015 });
+  });
+
+  it('clamps to the usable range and needs samples', () => {
+    expect(calibrateThreshold([0])?.threshold).toBe(0.002);
+    expect(calibrateThreshold([0.5])?.threshold).toBe(0.08);
+    expect(calibrateThreshold([])).toBeNull();
+  });
+});
+
+describe('toDecibels', () => {
+  it('converts amplitude to dBFS', () => {
+    expect(toDecibels(1)).toBe(0);
+    expect(toDecibels(0.1)).toBeCloseTo(-20);
+    expect(toDecibels(0)).toBe(-Infinity);
+  });
+});
@@ -0,0 +1,147 @@
+// Energy-based voice activity detection, fed one frame of samples at a time.
+// The live microphone path and recording import both run through this, so a
+// recorded sermon splits where the same sermon spoken live would have.
+//
+// A fixed threshold fails both ways: music in a loud sanctuary reads as
+// endless speech, a soft speaker in a quiet room never crosses it. So the
+// engine tracks the ambient noise floor and only counts a frame as speech when
+// it clears both the configured threshold and a multiple of that floor.
+
+export interface VadConfig {
+  /** RMS amplitude (0..1) a frame must reach to count as speech. */
+  threshold: number;
+  /** Trailing silence that ends an utterance. */
+  silenceMs: number;
+  /** Utterances shorter than this are dropped as blips. */
+  minSpeechMs: number;
+  /** Long utterances are cut here so segments stay reasonable. */
+  maxUtteranceMs: number;
+  /** Learn the noise floor and raise the threshold above it. */
+  adaptive: boolean;
+  /** Speech must be this many times louder than the noise floor (3 ≈ +10 dB). */
+  floorRatio: number;
+  /** Length of one frame; speech is taken to start at the beginning of its first loud frame. */
+  frameMs: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  threshold: 0.012,
+  silenceMs: 2000,
+  minSpeechMs: 400,
+  maxUtteranceMs: 20000,
+  adaptive: true,
+  floorRatio: 3,
+  frameMs: 100,
+};
+
+// Per-frame smoothing for the noise floor. It falls fast, so every pause
+// re-anchors it, and rises slowly, so only sound that never lets up (music,
+// air handling) ends up counted as background. It rises slower still during
+// speech so a long run-on sentence is not learned as noise.
+const FLOOR_FALL = 0.3;
+const FLOOR_RISE = 0.02;
+const FLOOR_RISE_SPEAKING = 0.002;
+/** Once speaking, quieter syllables down to this share of the threshold still count. */
+const HANGOVER = 0.75;
+
+export function rms(samples: ArrayLike<number>, start = 0, end = samples.length): number {
+  if (end <= start) return 0;
+  let sum = 0;
+  for (let i = start; i < end; i += 1) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (end - start));
+}
+
+export interface VadUtterance {
+  /** Same clock as the `nowMs` passed in. */
+  startMs: number;
+  endMs: number;
+  reason: 'silence' | 'max-length' | 'flush';
+}
+
+export interface VadLevel {
+  level: number;
+  floor: number;
+  /** Threshold in effect: the configured one, or higher over a noisy floor. */
+  threshold: number;
+  speaking: boolean;
+}
+
+export interface Vad {
+  /** Feeds one frame ending at `nowMs`; returns the utterance that frame ended, if any. */
+  processFrame: (samples: ArrayLike<number>, nowMs: number) => VadUtterance | null;
+  /** As `processFrame`, for callers that already measured the frame's RMS. */
+  processLevel: (level: number, nowMs: number) => VadUtterance | null;
+  /** Ends the utterance in progress, e.g. when recording stops. */
+  flush: () => VadUtterance | null;
+  current: () => VadLevel;
+}
+
+export function createVad(overrides: Partial<VadConfig> = {}, initialFloor = 0): Vad {
+  const config = { ...DEFAULT_VAD_CONFIG, ...overrides };
+  let floor = initialFloor;
+  let level = 0;
+  let speaking = false;
+  let speechStart = 0;
+  let lastVoice = 0;
+
+  const effectiveThreshold = () => (config.adaptive ? Math.max(config.threshold, floor * config.floorRatio) : config.threshold);
+
+  const end = (endMs: number, reason: VadUtterance['reason']): VadUtterance | null => {
+    speaking = false;
+    return endMs - speechStart >= config.minSpeechMs ? { startMs: speechStart, endMs, reason } : null;
+  };
+
+  const processLevel = (frameLevel: number, nowMs: number): VadUtterance | null => {
+    level = frameLevel;
+    const threshold = effectiveThreshold();
+    const voiced = frameLevel >= (speaking ? threshold * HANGOVER : threshold);
+
+    if (config.adaptive) {
+      const rate = frameLevel < floor ? FLOOR_FALL : speaking ? FLOOR_RISE_SPEAKING : FLOOR_RISE;
+      floor += (frameLevel - floor) * rate;
+    }
+
+    if (voiced) {
+      if (!speaking) {
+        speaking = true;
+        speechStart = nowMs - config.frameMs;
+      }
+      lastVoice = nowMs;
+      if (nowMs - speechStart >= config.maxUtteranceMs) return end(nowMs, 'max-length');
+    } else if (speaking && nowMs - lastVoice >= config.silenceMs) {
+      return end(lastVoice, 'silence');
+    }
+    return null;
+  };
+
+  return {
+    processFrame: (samples, nowMs) => processLevel(rms(samples), nowMs),
+    processLevel,
+    flush: () => (speaking ? end(lastVoice, 'flush') : null),
+    current: () => ({ level, floor, threshold: effectiveThreshold(), speaking }),
+  };
+}
+
+/** Bounds for a calibrated threshold, matching the settings slider. */
+export const VAD_THRESHOLD_MIN = 0.002;
+export const VAD_THRESHOLD_MAX = 0.08;
+
+/**
+ * Suggests a threshold from levels sampled while the room was quiet. The
+ * median ignores a cough or a door; the threshold sits `floorRatio` above it.
+ */
+export function calibrateThreshold(
+  levels: number[],
+  floorRatio = DEFAULT_VAD_CONFIG.floorRatio,
+): { floor: number; threshold: number } | null {
+  if (levels.length === 0) return null;
+  const sorted = [...levels].sort((a, b) => a - b);
+  const floor = sorted[Math.floor(sorted.length / 2)];
+  const threshold = Math.min(VAD_THRESHOLD_MAX, Math.max(VAD_THRESHOLD_MIN, floor * floorRatio));
+  return { floor, threshold: Math.round(threshold * 1000) / 1000 };
+}
+
+/** Amplitude as dBFS, for display. */
+export function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
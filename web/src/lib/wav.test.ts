@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wav';
+
+describe('encodeWav', () => {
+  it('writes a mono 16-bit PCM header and clamped samples', () => {
+    const buffer = encodeWav(new Float32Array([0, 1, -1, 2]), 16000);
+    const view = new DataView(buffer);
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+
+    expect(buffer.byteLength).toBe(44 + 8);
+    expect(text(0)).toBe('RIFF');
+    expect(text(8)).toBe('WAVE');
+    expect(text(36)).toBe('data');
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map((i) => view.getInt16(44 + i * 2, true))).toEqual([0, 32767, -32768, 32767]);
+  });
+});
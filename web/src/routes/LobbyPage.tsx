@@ -0,0 +1,27 @@
+import { useNavigate } from 'react-router-dom';
+import { CreateSession } from '@/components/CreateSession';
+import { sessionPath } from '@/constants/routes';
+import type { SessionDto } from '@/types/api';
+
+interface LobbyPageProps {
+  username: string;
+  onSignOut: () => void;
+}
+
+export function LobbyPage({ username, onSignOut }: LobbyPageProps) {
+  const navigate = useNavigate();
+
+  // Hand the already-fetched session to SessionPage so it can skip a round-trip.
+  const open = (session: SessionDto) => navigate(sessionPath(session.code), { state: { session } });
+
+  return (
+    <CreateSession
+      username={username}
+      onCreated={open}
+      onImport={(session, recording) => navigate(sessionPath(session.code), { state: { session, recording } })}
+      onJoin={(code) => navigate(sessionPath(code))}
+      onOpen={open}
+      onSignOut={onSignOut}
+    />
+  );
+}
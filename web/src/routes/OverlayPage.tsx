@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { OverlayView } from '@/components/OverlayView';
+import { parseOverlayConfig } from '@/lib/overlay';
+
+/**
+ * `/s/:code/overlay?size=48&position=bottom&lines=2&hideMatches=1` — options
+ * are documented on {@link parseOverlayConfig}. No loading or error chrome:
+ * on a live stream an empty overlay is better than a message.
+ */
+export function OverlayPage() {
+  const { code: rawCode = '' } = useParams();
+  const [params] = useSearchParams();
+  const config = useMemo(() => parseOverlayConfig(params), [params]);
+  return <OverlayView key={rawCode.toUpperCase()} sessionCode={rawCode.toUpperCase()} config={config} />;
+}
@@ -0,0 +1,38 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PresenterView } from '@/components/PresenterView';
+import { ROUTES } from '@/constants/routes';
+import { useSessionByCode } from '@/hooks/useSessionByCode';
+
+export function PresenterPage() {
+  const { code: rawCode = '' } = useParams();
+  const code = rawCode.toUpperCase();
+  const navigate = useNavigate();
+  const { session, error } = useSessionByCode(code);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-black p-4 text-center text-white">
+        <div className="space-y-1">
+          <h1 className="text-lg font-semibold">Session {code} unavailable</h1>
+          <p className="text-sm text-white/60">{error}</p>
+        </div>
+        <Button variant="secondary" onClick={() => navigate(ROUTES.lobby)}>
+          Back to lobby
+        </Button>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center gap-2 bg-black text-sm text-white/60">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading session {code}…
+      </div>
+    );
+  }
+
+  return <PresenterView key={session.code} session={session} />;
+}
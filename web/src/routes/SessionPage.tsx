@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SessionView } from '@/components/SessionView';
+import { ROUTES, segmentPath, sessionPath } from '@/constants/routes';
+import { useSessionByCode } from '@/hooks/useSessionByCode';
+import type { SessionDto } from '@/types/api';
+
+interface SessionPageProps {
+  username: string;
+}
+
+export function SessionPage({ username }: SessionPageProps) {
+  const { code: rawCode = '', segmentId } = useParams();
+  const code = rawCode.toUpperCase();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const state = location.state as { session?: SessionDto; recording?: File } | null;
+  const handedOver = state?.session;
+
+  // Take the recording out of history state so a reload or Back/Forward does
+  // not import it a second time.
+  const [recording] = useState(() => state?.recording ?? null);
+  useEffect(() => {
+    if (state?.recording) navigate(location.pathname, { replace: true, state: { session: state.session } });
+  }, [state, location.pathname, navigate]);
+
+  const { session, error } = useSessionByCode(code, handedOver);
+
+  // Keep the address bar in sync with the focused segment without piling up
+  // history entries, so Back still leaves the session.
+  const handleSegmentFocus = useCallback(
+    (id: string | null) => {
+      navigate(id ? segmentPath(code, id) : sessionPath(code), { replace: true });
+    },
+    [code, navigate],
+  );
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 text-center">
+        <div className="space-y-1">
+          <h1 className="text-lg font-semibold">Session {code} unavailable</h1>
+          <p className="text-sm text-muted-foreground">{error}</p>
+        </div>
+        <Button variant="secondary" onClick={() => navigate(ROUTES.lobby)}>
+          Back to lobby
+        </Button>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading session {code}…
+      </div>
+    );
+  }
+
+  return (
+    <SessionView
+      key={session.code}
+      session={session}
+      username={username}
+      focusSegmentId={segmentId ?? null}
+      onSegmentFocus={handleSegmentFocus}
+      onBack={() => navigate(ROUTES.lobby)}
+      importRecording={recording}
+    />
+  );
+}
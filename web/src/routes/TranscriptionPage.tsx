@@ -1,74 +1,43 @@
-import { useEffect, useState } from 'react';
-import { toast } from 'sonner';
+import { useState } from 'react';
+import { Navigate, Route, Routes, useMatch, useNavigate } from 'react-router-dom';
 import { AuthGate } from '@/components/AuthGate';
-import { CreateSession } from '@/components/CreateSession';
-import { SessionView } from '@/components/SessionView';
+import { ROUTES } from '@/constants/routes';
 import { authService } from '@/services/authService';
-import { sessionService } from '@/services/sessionService';
-import type { SessionDto } from '@/types/api';
+import { LobbyPage } from './LobbyPage';
+import { OverlayPage } from './OverlayPage';
+import { PresenterPage } from './PresenterPage';
+import { SessionPage } from './SessionPage';
 
-type Phase = 'auth' | 'lobby' | 'session';
+function storedUsername(): string {
+  const user = authService.getStoredUsername();
+  return user && authService.getStoredToken() ? user : '';
+}
 
 export function TranscriptionPage() {
-  const [phase, setPhase] = useState<Phase>('auth');
-  const [username, setUsername] = useState<string>('');
-  const [session, setSession] = useState<SessionDto | null>(null);
-
-  useEffect(() => {
-    const storedUser = authService.getStoredUsername();
-    const storedToken = authService.getStoredToken();
-    if (storedUser && storedToken) {
-      setUsername(storedUser);
-      setPhase('lobby');
-    }
-  }, []);
+  const navigate = useNavigate();
+  const [username, setUsername] = useState<string>(storedUsername);
+  const onOverlay = useMatch(ROUTES.overlay) !== null;
 
-  if (phase === 'auth') {
-    return (
-      <AuthGate
-        onAuthenticated={(name) => {
-          setUsername(name);
-          setPhase('lobby');
-        }}
-      />
-    );
+  // The gate renders in place of whatever route was requested, so a deep link
+  // opened by a first-time visitor lands on that session right after claiming.
+  if (!username) {
+    return <AuthGate onAuthenticated={setUsername} overlay={onOverlay} />;
   }
 
-  if (phase === 'lobby' || !session) {
-    return (
-      <CreateSession
-        username={username}
-        onCreated={(s) => {
-          setSession(s);
-          setPhase('session');
-        }}
-        onJoin={async (code) => {
-          try {
-            const s = await sessionService.get(code);
-            setSession(s);
-            setPhase('session');
-          } catch (err) {
-            toast.error(err instanceof Error ? err.message : 'Failed to join session.');
-          }
-        }}
-        onSignOut={() => {
-          authService.signOut();
-          setUsername('');
-          setSession(null);
-          setPhase('auth');
-        }}
-      />
-    );
-  }
+  const signOut = () => {
+    authService.signOut();
+    setUsername('');
+    navigate(ROUTES.lobby);
+  };
 
   return (
-    <SessionView
-      session={session}
-      username={username}
-      onBack={() => {
-        setSession(null);
-        setPhase('lobby');
-      }}
-    />
+    <Routes>
+      <Route path={ROUTES.lobby} element={<LobbyPage username={username} onSignOut={signOut} />} />
+      <Route path={ROUTES.session} element={<SessionPage username={username} />} />
+      <Route path={ROUTES.segment} element={<SessionPage username={username} />} />
+      <Route path={ROUTES.present} element={<PresenterPage />} />
+      <Route path={ROUTES.overlay} element={<OverlayPage />} />
+      <Route path="*" element={<Navigate to={ROUTES.lobby} replace />} />
+    </Routes>
   );
 }
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryAudioStore,
+  locateInArchive,
+  recordingBlob,
+  recordingFilename,
+  startArchiveRecorder,
+  type ArchivedRecording,
+} from './audioArchive';
+
+const recording = (id: string, startedAt: string, endedAt: string | null): ArchivedRecording => ({
+  id,
+  sessionCode: 'ABC123',
+  mimeType: 'audio/webm;codecs=opus',
+  startedAt,
+  endedAt,
+  bytes: 0,
+  chunkCount: 0,
+});
+
+describe('locateInArchive', () => {
+  const recordings = [
+    recording('first', '2024-05-05T10:00:00Z', '2024-05-05T10:10:00Z'),
+    recording('second', '2024-05-05T10:20:00Z', null),
+  ];
+
+  it('maps a moment to the recording running then and its offset', () => {
+    expect(locateInArchive(recordings, '2024-05-05T10:01:30Z')).toEqual({ recording: recordings[0], offsetMs: 90_000 });
+    expect(locateInArchive(recordings, '2024-05-05T11:00:00Z')?.recording.id).toBe('second');
+  });
+
+  it('returns null for gaps between recordings', () => {
+    expect(locateInArchive(recordings, '2024-05-05T10:15:00Z')).toBeNull();
+    expect(locateInArchive(recordings, 'not a date')).toBeNull();
+  });
+});
+
+describe('recordingFilename', () => {
+  it('names the file after the session and container', () => {
+    const r = recording('r', '2024-05-05T10:00:00Z', null);
+    expect(recordingFilename({ title: 'Sunday Service', code: 'ABC123' }, r)).toBe('sunday-service-ABC123.webm');
+    expect(recordingFilename({ title: 'Sunday Service', code: 'ABC123' }, { ...r, mimeType: 'audio/mp4' }, 2)).toBe(
+      'sunday-service-ABC123-part-2.m4a',
+    );
+  });
+});
+
+class FakeMediaRecorder extends EventTarget {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = (type: string) => type.startsWith('audio/webm');
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType: string;
+  constructor(_stream: MediaStream, options: { mimeType?: string }) {
+    super();
+    this.mimeType = options.mimeType ?? '';
+    FakeMediaRecorder.instances.push(this);
+  }
+  start() {
+    this.state = 'recording';
+  }
+  emit(text: string) {
+    this.dispatchEvent(Object.assign(new Event('dataavailable'), { data: new Blob([text]) }));
+  }
+  stop() {
+    this.emit('!');
+    this.state = 'inactive';
+    this.dispatchEvent(new Event('stop'));
+  }
+}
+
+describe('startArchiveRecorder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeMediaRecorder.instances = [];
+  });
+
+  it('stores chunks in order and finishes the recording on stop', async () => {
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    const store = createMemoryAudioStore();
+    const archive = startArchiveRecorder({ stream: {} as MediaStream, sessionCode: 'ABC123', store })!;
+    const recorder = FakeMediaRecorder.instances[0];
+
+    recorder.emit('ab');
+    recorder.emit('cd');
+    const finished = await archive.stop();
+
+    expect(finished.mimeType).toBe('audio/webm;codecs=opus');
+    expect(finished.chunkCount).toBe(3);
+    expect(finished.endedAt).not.toBeNull();
+    expect(await store.listRecordings('ABC123')).toEqual([finished]);
+    expect(await (await recordingBlob(store, finished)).text()).toBe('abcd!');
+  });
+
+  it('is unavailable without MediaRecorder', () => {
+    vi.stubGlobal('MediaRecorder', undefined);
+    expect(startArchiveRecorder({ stream: {} as MediaStream, sessionCode: 'ABC123', store: createMemoryAudioStore() })).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import { slugify } from '@/lib/transcriptExport';
+
+// Local copy of what the microphone heard. Each start/stop (or reconnect) of
+// live transcription is one recording: MediaRecorder chunks appended in order,
+// plus the wall-clock time recording began so transcript timestamps can be
+// turned into offsets within the audio.
+
+export interface ArchivedRecording {
+  id: string;
+  sessionCode: string;
+  mimeType: string;
+  /** Wall-clock time of the first recorded sample; playback offsets count from here. */
+  startedAt: string;
+  endedAt: string | null;
+  bytes: number;
+  chunkCount: number;
+}
+
+export interface ArchivedChunk {
+  recordingId: string;
+  index: number;
+  blob: Blob;
+}
+
+export interface AudioArchiveStore {
+  listRecordings: (sessionCode: string) => Promise<ArchivedRecording[]>;
+  putRecording: (recording: ArchivedRecording) => Promise<void>;
+  putChunk: (chunk: ArchivedChunk) => Promise<void>;
+  /** Chunks of one recording, in recording order. */
+  getChunks: (recordingId: string) => Promise<Blob[]>;
+}
+
+const DB_NAME = 'hoptranscribe-audio';
+const RECORDINGS = 'recordings';
+const CHUNKS = 'chunks';
+
+export function createIndexedDbAudioStore(): AudioArchiveStore {
+  const db = () =>
+    openDatabase(DB_NAME, 1, (database) => {
+      if (!database.objectStoreNames.contains(RECORDINGS)) {
+        database.createObjectStore(RECORDINGS, { keyPath: 'id' }).createIndex('sessionCode', 'sessionCode');
+      }
+      if (!database.objectStoreNames.contains(CHUNKS)) {
+        database.createObjectStore(CHUNKS, { keyPath: ['recordingId', 'index'] });
+      }
+    });
+  return {
+    listRecordings: async (sessionCode) => {
+      const tx = (await db()).transaction(RECORDINGS, 'readonly');
+      const index = tx.objectStore(RECORDINGS).index('sessionCode');
+      return requestToPromise(index.getAll(sessionCode) as IDBRequest<ArchivedRecording[]>);
+    },
+    putRecording: async (recording) => {
+      const tx = (await db()).transaction(RECORDINGS, 'readwrite');
+      tx.objectStore(RECORDINGS).put(recording);
+      await transactionDone(tx);
+    },
+    putChunk: async (chunk) => {
+      const tx = (await db()).transaction(CHUNKS, 'readwrite');
+      tx.objectStore(CHUNKS).put(chunk);
+      await transactionDone(tx);
+    },
+    getChunks: async (recordingId) => {
+      const tx = (await db()).transaction(CHUNKS, 'readonly');
+      const range = IDBKeyRange.bound([recordingId, 0], [recordingId, Number.MAX_SAFE_INTEGER]);
+      const chunks = await requestToPromise(tx.objectStore(CHUNKS).getAll(range) as IDBRequest<ArchivedChunk[]>);
+      return chunks.map((c) => c.blob);
+    },
+  };
+}
+
+/** Non-durable fallback (private browsing without IndexedDB) and test double. */
+export function createMemoryAudioStore(): AudioArchiveStore {
+  const recordings = new Map<string, ArchivedRecording>();
+  const chunks: ArchivedChunk[] = [];
+  return {
+    listRecordings: async (sessionCode) => [...recordings.values()].filter((r) => r.sessionCode === sessionCode),
+    putRecording: async (recording) => {
+      recordings.set(recording.id, { ...recording });
+    },
+    putChunk: async (chunk) => {
+      chunks.push(chunk);
+    },
+    getChunks: async (recordingId) =>
+      chunks
+        .filter((c) => c.recordingId === recordingId)
+        .sort((a, b) => a.index - b.index)
+        .map((c) => c.blob),
+  };
+}
+
+export function createDefaultAudioStore(): AudioArchiveStore {
+  return isIndexedDbAvailable() ? createIndexedDbAudioStore() : createMemoryAudioStore();
+}
+
+/**
+ * Finds the recording that was running at `at` (an ISO timestamp, e.g. a
+ * segment's `startedAt`) and how far into it that moment is. When recordings
+ * overlap, the one that started last wins.
+ */
+export function locateInArchive(
+  recordings: ArchivedRecording[],
+  at: string,
+): { recording: ArchivedRecording; offsetMs: number } | null {
+  const t = Date.parse(at);
+  if (!Number.isFinite(t)) return null;
+  let best: ArchivedRecording | null = null;
+  for (const r of recordings) {
+    const start = Date.parse(r.startedAt);
+    const end = r.endedAt ? Date.parse(r.endedAt) : Number.POSITIVE_INFINITY;
+    if (t < start || t > end) continue;
+    if (!best || start > Date.parse(best.startedAt)) best = r;
+  }
+  return best ? { recording: best, offsetMs: t - Date.parse(best.startedAt) } : null;
+}
+
+export async function recordingBlob(store: AudioArchiveStore, recording: ArchivedRecording): Promise<Blob> {
+  return new Blob(await store.getChunks(recording.id), { type: recording.mimeType });
+}
+
+export const EXTENSIONS: Record<string, string> = { webm: 'webm', ogg: 'ogg', mp4: 'm4a' };
+
+export function recordingFilename(
+  session: { title: string; code: string },
+  recording: ArchivedRecording,
+  part?: number,
+): string {
+  const container = recording.mimeType.split(/[/;]/)[1] ?? '';
+  const extension = EXTENSIONS[container] ?? 'webm';
+  return `${slugify(session.title)}-${session.code}${part ? `-part-${part}` : ''}.${extension}`;
+}
+
+// Opus at speech bitrates: about 15 MB per hour.
+export const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+export const AUDIO_BITS_PER_SECOND = 32000;
+
+export interface ArchiveRecorder {
+  recording: () => ArchivedRecording;
+  /** Stops recording and resolves once every chunk has been written. */
+  stop: () => Promise<ArchivedRecording>;
+}
+
+export interface StartArchiveOptions {
+  stream: MediaStream;
+  sessionCode: string;
+  store: AudioArchiveStore;
+  /** How often MediaRecorder hands over a chunk; bounds what a crash can lose. */
+  timesliceMs?: number;
+  onChange?: (recording: ArchivedRecording) => void;
+  onError?: (error: Error) => void;
+}
+
+/** Starts recording `stream` into the archive, or returns null where MediaRecorder is unavailable. */
+export function startArchiveRecorder({
+  stream,
+  sessionCode,
+  store,
+  timesliceMs = 5000,
+  onChange,
+  onError,
+}: StartArchiveOptions): ArchiveRecorder | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeType = PREFERRED_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: AUDIO_BITS_PER_SECOND });
+
+  let recording: ArchivedRecording = {
+    id: crypto.randomUUID(),
+    sessionCode,
+    mimeType: recorder.mimeType || mimeType || 'audio/webm',
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    bytes: 0,
+    chunkCount: 0,
+  };
+
+  // Writes are chained so chunks land in order and stop() can wait for the last one.
+  let writes: Promise<void> = Promise.resolve();
+  const write = (task: () => Promise<void>) => {
+    writes = writes.then(task).catch((err: unknown) => {
+      onError?.(err instanceof Error ? err : new Error('Could not save recorded audio.'));
+    });
+  };
+  const save = () => {
+    const snapshot = recording;
+    write(() => store.putRecording(snapshot));
+    onChange?.(snapshot);
+  };
+
+  recorder.addEventListener('dataavailable', (event) => {
+    if (event.data.size === 0) return;
+    const chunk: ArchivedChunk = { recordingId: recording.id, index: recording.chunkCount, blob: event.data };
+    recording = { ...recording, bytes: recording.bytes + event.data.size, chunkCount: recording.chunkCount + 1 };
+    write(() => store.putChunk(chunk));
+    save();
+  });
+
+  // The recorder also stops by itself when the mic tracks end (transcription closed first).
+  const stopped = new Promise<void>((resolve) => {
+    recorder.addEventListener('stop', () => {
+      recording = { ...recording, endedAt: new Date().toISOString() };
+      save();
+      resolve();
+    });
+  });
+
+  recorder.start(timesliceMs);
+  save();
+
+  return {
+    recording: () => recording,
+    stop: async () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      await writes;
+      return recording;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { audioConstraints, listAudioInputs } from './audioInput';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('audioConstraints', () => {
+  it('pins the chosen device and applies processing flags', () => {
+    expect(
+      audioConstraints('desk', { echoCancellation: false, noiseSuppression: true, autoGainControl: false }),
+    ).toEqual({
+      audio: {
+        deviceId: { exact: 'desk' },
+        channelCount: 1,
+        echoCancellation: false,
+        noiseSuppression: true,
+        autoGainControl: false,
+      },
+    });
+  });
+
+  it('leaves the device to the browser when none is chosen', () => {
+    const audio = audioConstraints(undefined).audio as MediaTrackConstraints;
+    expect(audio.deviceId).toBeUndefined();
+    expect(audio.echoCancellation).toBe(true);
+  });
+});
+
+describe('listAudioInputs', () => {
+  it('keeps real microphones and names unlabelled ones', async () => {
+    const devices = [
+      { kind: 'audioinput', deviceId: 'default', label: 'Default' },
+      { kind: 'audioinput', deviceId: 'desk', label: 'USB Audio CODEC' },
+      { kind: 'videoinput', deviceId: 'cam', label: 'Camera' },
+      { kind: 'audioinput', deviceId: 'builtin', label: '' },
+    ];
+    vi.stubGlobal('navigator', { mediaDevices: { enumerateDevices: async () => devices } });
+
+    expect(await listAudioInputs()).toEqual([
+      { deviceId: 'desk', label: 'USB Audio CODEC' },
+      { deviceId: 'builtin', label: 'Microphone 2' },
+    ]);
+  });
+
+  it('returns nothing where media devices are unavailable', async () => {
+    vi.stubGlobal('navigator', {});
+    expect(await listAudioInputs()).toEqual([]);
+  });
+});
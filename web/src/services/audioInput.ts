@@ -0,0 +1,57 @@
+// Microphone selection and capture constraints, shared by the live
+// connection, calibration and the settings preview so all three hear the
+// same input with the same processing.
+
+/** Browser-side processing applied to the microphone before we see it. */
+export interface AudioProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessing = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export function audioProcessingOf(source: AudioProcessing): AudioProcessing {
+  return {
+    echoCancellation: source.echoCancellation,
+    noiseSuppression: source.noiseSuppression,
+    autoGainControl: source.autoGainControl,
+  };
+}
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** `deviceId` empty or unset means the browser's default input. */
+export function audioConstraints(
+  deviceId?: string,
+  processing: AudioProcessing = DEFAULT_AUDIO_PROCESSING,
+): MediaStreamConstraints {
+  return {
+    audio: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      channelCount: 1,
+      echoCancellation: processing.echoCancellation,
+      noiseSuppression: processing.noiseSuppression,
+      autoGainControl: processing.autoGainControl,
+    },
+  };
+}
+
+/**
+ * Lists audio inputs. Browsers hide labels until the page has had microphone
+ * access, so unlabelled devices get a numbered placeholder.
+ */
+export async function listAudioInputs(): Promise<AudioInputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((d) => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }));
+}
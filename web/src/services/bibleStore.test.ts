@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedBible } from '@/lib/bibleText';
+import type { ScriptureMatchDto } from '@/types/api';
+import { createMemoryBibleStore, lookupPassage, withLocalQuotes } from './bibleStore';
+
+const kjv: ParsedBible = {
+  version: 'KJV',
+  name: 'King James Version',
+  verses: [
+    { version: 'KJV', book: 'Romans', chapter: 8, verse: 28, text: 'And we know that all things work together for good to them that love God.' },
+    { version: 'KJV', book: 'Romans', chapter: 8, verse: 29, text: 'For whom he did foreknow, he also did predestinate.' },
+    { version: 'KJV', book: 'Romans', chapter: 8, verse: 30, text: 'Moreover whom he did predestinate, them he also called.' },
+  ],
+};
+
+const web: ParsedBible = {
+  version: 'WEB',
+  name: 'World English Bible',
+  verses: [{ version: 'WEB', book: 'Psalms', chapter: 23, verse: 1, text: 'Yahweh is my shepherd: I shall lack nothing.' }],
+};
+
+const match = (overrides: Partial<ScriptureMatchDto>): ScriptureMatchDto => ({
+  reference: 'Romans 8:28',
+  book: 'Romans',
+  chapter: 8,
+  verseStart: 28,
+  verseEnd: null,
+  version: 'KJV',
+  quote: '',
+  confidence: 0.99,
+  rank: 0,
+  ...overrides,
+});
+
+async function loadedStore() {
+  const store = createMemoryBibleStore();
+  await store.putVersion(kjv);
+  await store.putVersion(web);
+  return store;
+}
+
+describe('bible store', () => {
+  it('lists and removes versions', async () => {
+    const store = await loadedStore();
+    expect((await store.listVersions()).map((v) => [v.version, v.verseCount])).toEqual([
+      ['KJV', 3],
+      ['WEB', 1],
+    ]);
+    await store.removeVersion('KJV');
+    expect((await store.listVersions()).map((v) => v.version)).toEqual(['WEB']);
+    expect(await store.getVerses('KJV', 'Romans', 8, 28, 30)).toEqual([]);
+  });
+});
+
+describe('lookupPassage', () => {
+  it('expands a verse range in order', async () => {
+    const passage = await lookupPassage(await loadedStore(), { book: 'Romans', chapter: 8, verseStart: 29, verseEnd: 30 }, 'KJV');
+    expect(passage?.verses.map((v) => v.verse)).toEqual([29, 30]);
+    expect(passage?.text).toBe(`${kjv.verses[1].text} ${kjv.verses[2].text}`);
+  });
+
+  it('falls back to another loaded version', async () => {
+    const passage = await lookupPassage(await loadedStore(), { book: 'Psalms', chapter: 23, verseStart: 1 }, 'NKJV');
+    expect(passage?.version).toBe('WEB');
+  });
+
+  it('returns null when nothing loaded has the passage', async () => {
+    expect(await lookupPassage(await loadedStore(), { book: 'Jude', chapter: 1, verseStart: 3 }, 'KJV')).toBeNull();
+  });
+});
+
+describe('withLocalQuotes', () => {
+  it('fills missing quotes from the match version', async () => {
+    const [filled] = await withLocalQuotes(await loadedStore(), [match({ verseEnd: 29 })]);
+    expect(filled.quote).toBe(`${kjv.verses[0].text} ${kjv.verses[1].text}`);
+  });
+
+  it('keeps quotes that agree and replaces ones that do not', async () => {
+    const store = await loadedStore();
+    const agreeing = match({ quote: 'all things work together for good' });
+    const wrong = match({ quote: 'In the beginning God created the heaven and the earth.' });
+    const [kept, replaced] = await withLocalQuotes(store, [agreeing, wrong]);
+    expect(kept).toBe(agreeing);
+    expect(replaced.quote).toBe(kjv.verses[0].text);
+  });
+
+  it('leaves matches in versions that are not loaded', async () => {
+    const nkjv = match({ version: 'NKJV' });
+    expect(await withLocalQuotes(await loadedStore(), [nkjv])).toEqual([nkjv]);
+  });
+});
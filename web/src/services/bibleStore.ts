@@ -0,0 +1,149 @@
+import { joinVerses, quoteAgrees, type BibleVerse, type BibleVersionInfo, type ParsedBible } from '@/lib/bibleText';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import type { ScriptureMatchDto } from '@/types/api';
+
+// Bible versions imported into this browser, one row per verse keyed by
+// version/book/chapter/verse so a passage is a single key-range read. Nothing
+// here touches the network: once a version is loaded, quotes and previews
+// keep working in a building with no signal.
+
+export interface BibleStore {
+  listVersions: () => Promise<BibleVersionInfo[]>;
+  /** Replaces any earlier import of the same version. */
+  putVersion: (bible: ParsedBible) => Promise<BibleVersionInfo>;
+  removeVersion: (version: string) => Promise<void>;
+  /** Verses `verseStart..verseEnd` of one chapter, in order; empty when the version lacks them. */
+  getVerses: (version: string, book: string, chapter: number, verseStart: number, verseEnd: number) => Promise<BibleVerse[]>;
+}
+
+export interface PassageRef {
+  book: string;
+  chapter: number;
+  verseStart: number;
+  verseEnd?: number | null;
+}
+
+export interface PassageText {
+  version: string;
+  verses: BibleVerse[];
+  /** The verses joined into one quote. */
+  text: string;
+}
+
+const DB_NAME = 'hoptranscribe-bible';
+const VERSIONS = 'versions';
+const VERSES = 'verses';
+
+function describe(bible: ParsedBible): BibleVersionInfo {
+  return {
+    version: bible.version,
+    name: bible.name,
+    verseCount: bible.verses.length,
+    importedAt: new Date().toISOString(),
+  };
+}
+
+export function createIndexedDbBibleStore(): BibleStore {
+  const db = () =>
+    openDatabase(DB_NAME, 1, (database) => {
+      if (!database.objectStoreNames.contains(VERSIONS)) {
+        database.createObjectStore(VERSIONS, { keyPath: 'version' });
+      }
+      if (!database.objectStoreNames.contains(VERSES)) {
+        database.createObjectStore(VERSES, { keyPath: ['version', 'book', 'chapter', 'verse'] });
+      }
+    });
+  // Arrays sort after every string and number, so [version, []] bounds all of a version's keys.
+  const versionRange = (version: string) => IDBKeyRange.bound([version], [version, []]);
+  return {
+    listVersions: async () => {
+      const tx = (await db()).transaction(VERSIONS, 'readonly');
+      return requestToPromise(tx.objectStore(VERSIONS).getAll() as IDBRequest<BibleVersionInfo[]>);
+    },
+    putVersion: async (bible) => {
+      const info = describe(bible);
+      const tx = (await db()).transaction([VERSIONS, VERSES], 'readwrite');
+      const verses = tx.objectStore(VERSES);
+      verses.delete(versionRange(bible.version));
+      for (const verse of bible.verses) verses.put(verse);
+      tx.objectStore(VERSIONS).put(info);
+      await transactionDone(tx);
+      return info;
+    },
+    removeVersion: async (version) => {
+      const tx = (await db()).transaction([VERSIONS, VERSES], 'readwrite');
+      tx.objectStore(VERSES).delete(versionRange(version));
+      tx.objectStore(VERSIONS).delete(version);
+      await transactionDone(tx);
+    },
+    getVerses: async (version, book, chapter, verseStart, verseEnd) => {
+      const tx = (await db()).transaction(VERSES, 'readonly');
+      const range = IDBKeyRange.bound([version, book, chapter, verseStart], [version, book, chapter, verseEnd]);
+      return requestToPromise(tx.objectStore(VERSES).getAll(range) as IDBRequest<BibleVerse[]>);
+    },
+  };
+}
+
+/** Non-durable fallback (private browsing without IndexedDB) and test double. */
+export function createMemoryBibleStore(): BibleStore {
+  const versions = new Map<string, BibleVersionInfo>();
+  const verses = new Map<string, BibleVerse[]>();
+  return {
+    listVersions: async () => [...versions.values()],
+    putVersion: async (bible) => {
+      const info = describe(bible);
+      versions.set(bible.version, info);
+      verses.set(bible.version, bible.verses.map((v) => ({ ...v })));
+      return info;
+    },
+    removeVersion: async (version) => {
+      versions.delete(version);
+      verses.delete(version);
+    },
+    getVerses: async (version, book, chapter, verseStart, verseEnd) =>
+      (verses.get(version) ?? [])
+        .filter((v) => v.book === book && v.chapter === chapter && v.verse >= verseStart && v.verse <= verseEnd)
+        .sort((a, b) => a.verse - b.verse),
+  };
+}
+
+export function createDefaultBibleStore(): BibleStore {
+  return isIndexedDbAvailable() ? createIndexedDbBibleStore() : createMemoryBibleStore();
+}
+
+async function readPassage(store: BibleStore, version: string, ref: PassageRef): Promise<PassageText | null> {
+  const verses = await store.getVerses(version, ref.book, ref.chapter, ref.verseStart, ref.verseEnd ?? ref.verseStart);
+  return verses.length > 0 ? { version, verses, text: joinVerses(verses) } : null;
+}
+
+/**
+ * The passage in `version`, or in the first other loaded version that has it
+ * when that one was never imported. Null when no loaded version has it.
+ */
+export async function lookupPassage(store: BibleStore, ref: PassageRef, version: string): Promise<PassageText | null> {
+  const exact = await readPassage(store, version, ref);
+  if (exact) return exact;
+  for (const other of await store.listVersions()) {
+    if (other.version === version) continue;
+    const passage = await readPassage(store, other.version, ref);
+    if (passage) return passage;
+  }
+  return null;
+}
+
+/**
+ * Quotes filled from, and checked against, the loaded text of each match's own
+ * version: a missing quote (a detected or hand-added reference) is filled in,
+ * and one that doesn't read like the stored verses is replaced by them. Matches
+ * in versions that aren't loaded are left as they are.
+ */
+export async function withLocalQuotes(store: BibleStore, matches: ScriptureMatchDto[]): Promise<ScriptureMatchDto[]> {
+  return Promise.all(
+    matches.map(async (match) => {
+      const passage = await readPassage(store, match.version, match);
+      if (!passage) return match;
+      if (match.quote && quoteAgrees(match.quote, passage.text)) return match;
+      return { ...match, quote: passage.text };
+    }),
+  );
+}
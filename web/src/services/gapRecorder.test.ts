@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { recordGap } from './gapRecorder';
+
+class FakeMediaRecorder extends EventTarget {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = (type: string) => type.startsWith('audio/ogg');
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType: string;
+  constructor(_stream: MediaStream, options: { mimeType?: string }) {
+    super();
+    this.mimeType = options.mimeType ?? '';
+    FakeMediaRecorder.instances.push(this);
+  }
+  start() {
+    this.state = 'recording';
+  }
+  emit(text: string) {
+    this.dispatchEvent(Object.assign(new Event('dataavailable'), { data: new Blob([text]) }));
+  }
+  stop() {
+    this.state = 'inactive';
+    this.dispatchEvent(new Event('stop'));
+  }
+}
+
+const fakeStream = () => {
+  const track = { stop: vi.fn() };
+  return { stream: { getTracks: () => [track] } as unknown as MediaStream, track };
+};
+
+describe('recordGap', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    FakeMediaRecorder.instances = [];
+  });
+
+  it('returns the audio recorded until stopped and releases the microphone', async () => {
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    const { stream, track } = fakeStream();
+    const gap = recordGap(stream)!;
+
+    FakeMediaRecorder.instances[0].emit('ab');
+    FakeMediaRecorder.instances[0].emit('cd');
+    const clip = await gap.stop();
+
+    expect(clip?.fileName).toBe('gap.ogg');
+    expect(await clip?.blob.text()).toBe('abcd');
+    expect(Date.parse(clip!.endedAt)).toBeGreaterThanOrEqual(Date.parse(gap.startedAt));
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('stops on its own after the cap and keeps what it had', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    const gap = recordGap(fakeStream().stream, 5000)!;
+    const recorder = FakeMediaRecorder.instances[0];
+
+    recorder.emit('ab');
+    vi.advanceTimersByTime(5000);
+    expect(recorder.state).toBe('inactive');
+
+    expect(await (await gap.stop())?.blob.text()).toBe('ab');
+  });
+
+  it('returns null when nothing was captured, or without MediaRecorder', async () => {
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    expect(await recordGap(fakeStream().stream)!.stop()).toBeNull();
+
+    vi.stubGlobal('MediaRecorder', undefined);
+    expect(recordGap(fakeStream().stream)).toBeNull();
+  });
+});
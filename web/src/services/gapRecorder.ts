@@ -0,0 +1,61 @@
+import { AUDIO_BITS_PER_SECOND, EXTENSIONS, PREFERRED_TYPES } from './audioArchive';
+import { audioConstraints, type AudioProcessing } from './audioInput';
+
+// While the realtime connection is down the microphone keeps recording here,
+// so once it is back the gap can be transcribed in one go instead of lost.
+
+/** Longest stretch kept; at speech bitrates this stays well under the upload limit. */
+export const MAX_GAP_MS = 10 * 60_000;
+
+export interface GapRecording {
+  startedAt: string;
+  /** Stops recording and releases the microphone; null if nothing was captured. */
+  stop: () => Promise<{ blob: Blob; endedAt: string; fileName: string } | null>;
+}
+
+/** Records `stream` until stopped (or `maxMs` passes), or returns null where MediaRecorder is unavailable. */
+export function recordGap(stream: MediaStream, maxMs = MAX_GAP_MS): GapRecording | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeType = PREFERRED_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: AUDIO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  const startedAt = new Date().toISOString();
+  let endedAt = startedAt;
+
+  recorder.addEventListener('dataavailable', (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  });
+  const stopped = new Promise<void>((resolve) => {
+    recorder.addEventListener('stop', () => {
+      endedAt = new Date().toISOString();
+      resolve();
+    });
+  });
+  const cap = setTimeout(() => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  }, maxMs);
+  recorder.start(1000);
+
+  return {
+    startedAt,
+    stop: async () => {
+      clearTimeout(cap);
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      stream.getTracks().forEach((t) => t.stop());
+      if (chunks.length === 0) return null;
+      const type = recorder.mimeType || mimeType || 'audio/webm';
+      const container = type.split(/[/;]/)[1] ?? '';
+      return { blob: new Blob(chunks, { type }), endedAt, fileName: `gap.${EXTENSIONS[container] ?? 'webm'}` };
+    },
+  };
+}
+
+/** Opens the microphone with the session's settings and starts recording the gap. */
+export async function openGapRecorder(deviceId?: string, processing?: AudioProcessing): Promise<GapRecording | null> {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const stream = await navigator.mediaDevices.getUserMedia(audioConstraints(deviceId, processing));
+  const recording = recordGap(stream);
+  if (!recording) stream.getTracks().forEach((t) => t.stop());
+  return recording;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createMatchQueue } from './matchQueue';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('createMatchQueue', () => {
+  it('lets every segment finish instead of cancelling the previous one', async () => {
+    const queue = createMatchQueue({ concurrency: 2 });
+    const first = deferred<string>();
+    const a = queue.run('a', () => first.promise);
+    const b = queue.run('b', async () => 'b');
+    first.resolve('a');
+    expect(await Promise.all([a, b])).toEqual(['a', 'b']);
+  });
+
+  it('runs at most `concurrency` tasks and starts the rest in order', async () => {
+    const queue = createMatchQueue({ concurrency: 1 });
+    const started: string[] = [];
+    const gate = deferred<void>();
+    const a = queue.run('a', async () => {
+      started.push('a');
+      await gate.promise;
+      return 1;
+    });
+    const b = queue.run('b', async () => {
+      started.push('b');
+      return 2;
+    });
+    await Promise.resolve();
+    expect(started).toEqual(['a']);
+    gate.resolve();
+    expect(await Promise.all([a, b])).toEqual([1, 2]);
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('replaces an earlier request for the same key', async () => {
+    const queue = createMatchQueue();
+    const slow = deferred<string>();
+    let aborted = false;
+    const stale = queue.run('a', (signal) => {
+      signal.addEventListener('abort', () => (aborted = true));
+      return slow.promise;
+    });
+    const fresh = queue.run('a', async () => 'edited');
+    slow.resolve('original');
+    expect(await stale).toBeNull();
+    expect(await fresh).toBe('edited');
+    expect(aborted).toBe(true);
+  });
+
+  it('resolves cancelled work with null and still reports real failures', async () => {
+    const queue = createMatchQueue({ concurrency: 1 });
+    const gate = deferred<void>();
+    const running = queue.run('a', () => gate.promise.then(() => 'a'));
+    const waiting = queue.run('b', async () => 'b');
+    queue.cancelAll();
+    gate.resolve();
+    expect(await running).toBeNull();
+    expect(await waiting).toBeNull();
+    await expect(queue.run('c', async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,77 @@
+// Runs scripture match lookups for transcript segments. Each segment keeps its
+// own request: a new utterance never cancels an earlier segment's lookup, only
+// a newer request for the same segment (an edit, say) replaces it. At most
+// `concurrency` lookups run at once; the rest wait in arrival order.
+
+export interface MatchQueue {
+  /** Resolves with the task's result, or null if it was cancelled or replaced first. */
+  run: <T>(key: string, task: (signal: AbortSignal) => Promise<T>) => Promise<T | null>;
+  cancel: (key: string) => void;
+  cancelAll: () => void;
+}
+
+export const MATCH_QUEUE_CONCURRENCY = 2;
+
+interface Job {
+  key: string;
+  task: (signal: AbortSignal) => Promise<unknown>;
+  ctrl: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+}
+
+export function createMatchQueue({ concurrency = MATCH_QUEUE_CONCURRENCY }: { concurrency?: number } = {}): MatchQueue {
+  const waiting: Job[] = [];
+  const running = new Map<string, Job>();
+  let active = 0;
+
+  const drop = (job: Job) => {
+    job.ctrl.abort();
+    job.resolve(null);
+  };
+
+  const pump = () => {
+    while (active < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      active += 1;
+      running.set(job.key, job);
+      job
+        .task(job.ctrl.signal)
+        .then(
+          (value) => job.resolve(job.ctrl.signal.aborted ? null : value),
+          (err) => (job.ctrl.signal.aborted ? job.resolve(null) : job.reject(err)),
+        )
+        .finally(() => {
+          active -= 1;
+          if (running.get(job.key) === job) running.delete(job.key);
+          pump();
+        });
+    }
+  };
+
+  const cancel = (key: string) => {
+    const index = waiting.findIndex((j) => j.key === key);
+    if (index >= 0) drop(waiting.splice(index, 1)[0]);
+    const job = running.get(key);
+    if (job) {
+      running.delete(key);
+      drop(job);
+    }
+  };
+
+  return {
+    run: <T>(key: string, task: (signal: AbortSignal) => Promise<T>) => {
+      cancel(key);
+      return new Promise<T | null>((resolve, reject) => {
+        waiting.push({ key, task, ctrl: new AbortController(), resolve: resolve as (value: unknown) => void, reject });
+        pump();
+      });
+    },
+    cancel,
+    cancelAll: () => {
+      for (const job of waiting.splice(0)) drop(job);
+      for (const job of running.values()) drop(job);
+      running.clear();
+    },
+  };
+}
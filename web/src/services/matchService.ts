@@ -5,16 +5,23 @@ import type { MatchResponse } from '@/types/api';
 export interface MatchInput {
   sessionCode: string;
   utterance: string;
+  /** What was said just before, so a verse split across segments can still be matched. */
+  context?: string;
   preferredVersion?: string;
   n?: number;
 }
 
 export const matchService = {
-  match: (input: MatchInput) =>
-    apiClient.post<MatchResponse>(API_ENDPOINTS.match, {
-      sessionCode: input.sessionCode,
-      utterance: input.utterance,
-      preferredVersion: input.preferredVersion ?? 'NKJV',
-      n: input.n ?? 3,
-    }),
+  match: (input: MatchInput, signal?: AbortSignal) =>
+    apiClient.post<MatchResponse>(
+      API_ENDPOINTS.match,
+      {
+        sessionCode: input.sessionCode,
+        utterance: input.utterance,
+        context: input.context,
+        preferredVersion: input.preferredVersion ?? 'NKJV',
+        n: input.n ?? 3,
+      },
+      signal,
+    ),
 };
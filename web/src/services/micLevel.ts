@@ -0,0 +1,40 @@
+import { rms } from '@/lib/vad';
+import { audioConstraints, type AudioProcessing } from '@/services/audioInput';
+
+// A microphone opened only to measure it, for calibration before recording.
+// Uses the same capture constraints as the live connection so the levels it
+// reports are the levels the VAD will see.
+
+export interface MicLevel {
+  /** RMS amplitude of the most recent ~40 ms of audio. */
+  read: () => number;
+  close: () => Promise<void>;
+}
+
+export async function openMicLevel(deviceId?: string, processing?: AudioProcessing): Promise<MicLevel> {
+  const stream = await navigator.mediaDevices.getUserMedia(audioConstraints(deviceId, processing));
+  const AudioCtx =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const ctx = new AudioCtx();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    read: () => {
+      analyser.getFloatTimeDomainData(samples);
+      return rms(samples);
+    },
+    close: async () => {
+      stream.getTracks().forEach((t) => t.stop());
+      try {
+        source.disconnect();
+        await ctx.close();
+      } catch {
+        /* ignore */
+      }
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPartialRelay } from './partialRelay';
+
+describe('createPartialRelay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the first line at once and coalesces the rest into one trailing send', async () => {
+    const send = vi.fn(async () => undefined);
+    const relay = createPartialRelay({ send, intervalMs: 300 });
+
+    relay.push('For');
+    relay.push('For God');
+    relay.push('For God so');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send.mock.calls).toEqual([['For']]);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(send.mock.calls).toEqual([['For'], ['For God so']]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for a slow request before sending the next line', async () => {
+    let release: () => void = () => undefined;
+    const send = vi.fn(
+      (_text: string) =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+    );
+    const relay = createPartialRelay({ send, intervalMs: 100 });
+
+    relay.push('one');
+    relay.push('one two');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenLastCalledWith('one two');
+  });
+
+  it('clears without waiting for the throttle window', async () => {
+    const send = vi.fn(async () => undefined);
+    const relay = createPartialRelay({ send, intervalMs: 300 });
+
+    relay.push('Let us pray');
+    await vi.advanceTimersByTimeAsync(0);
+    relay.push('Let us pray together');
+    relay.clear();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send.mock.calls).toEqual([['Let us pray'], ['']]);
+  });
+
+  it('reports failures and keeps relaying', async () => {
+    const onError = vi.fn();
+    const send = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(undefined);
+    const relay = createPartialRelay({ send, intervalMs: 100, onError });
+
+    relay.push('a');
+    await vi.advanceTimersByTimeAsync(0);
+    relay.push('a b');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'offline' }));
+    expect(send).toHaveBeenLastCalledWith('a b');
+  });
+});
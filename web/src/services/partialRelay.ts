@@ -0,0 +1,77 @@
+// Forwards the owner's live transcript line to the API so viewers see it
+// before the segment is final. Deltas arrive many times per second; this
+// sends at most one request per `intervalMs`, always with the newest text,
+// and never more than one request at a time.
+
+export interface PartialRelayOptions {
+  send: (text: string) => Promise<unknown>;
+  intervalMs?: number;
+  onError?: (err: unknown) => void;
+}
+
+export interface PartialRelay {
+  /** Records the current line; it goes out on the next free slot. */
+  push: (text: string) => void;
+  /** Tells viewers the line is done (finalized or recording stopped). */
+  clear: () => void;
+  dispose: () => void;
+}
+
+export const PARTIAL_RELAY_INTERVAL_MS = 300;
+
+export function createPartialRelay({
+  send,
+  intervalMs = PARTIAL_RELAY_INTERVAL_MS,
+  onError,
+}: PartialRelayOptions): PartialRelay {
+  let latest = '';
+  let lastSent = '';
+  let lastSentAt = -Infinity;
+  let inFlight = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+
+  const pump = () => {
+    if (disposed || inFlight || timer !== null || latest === lastSent) return;
+    const wait = lastSentAt + intervalMs - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(() => {
+        timer = null;
+        pump();
+      }, wait);
+      return;
+    }
+    const text = latest;
+    inFlight = true;
+    lastSent = text;
+    lastSentAt = Date.now();
+    send(text)
+      .catch((err) => onError?.(err))
+      .finally(() => {
+        inFlight = false;
+        pump();
+      });
+  };
+
+  return {
+    push: (text) => {
+      latest = text.trim();
+      pump();
+    },
+    clear: () => {
+      latest = '';
+      // A clear should not wait out the throttle window behind a stale line.
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      lastSentAt = -Infinity;
+      pump();
+    },
+    dispose: () => {
+      disposed = true;
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
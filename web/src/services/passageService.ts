@@ -0,0 +1,9 @@
+import { API_ENDPOINTS } from '@/constants/apiConstants';
+import { apiClient } from './apiClient';
+import type { PassageDto } from '@/types/api';
+
+export const passageService = {
+  /** A whole chapter in one version; the server caches what the model returns. */
+  getChapter: (book: string, chapter: number, version: string) =>
+    apiClient.get<PassageDto>(API_ENDPOINTS.passage(book, chapter, version)),
+};
@@ -1,9 +1,14 @@
 import { API_ENDPOINTS } from '@/constants/apiConstants';
 import { apiClient } from './apiClient';
 import type {
+  MatchStatus,
   PaginatedResult,
+  RecordingState,
   ScriptureMatchDto,
+  SegmentKind,
   SessionDto,
+  SessionNotesDto,
+  SessionTranslationsDto,
   TranscriptSegmentDto,
 } from '@/types/api';
 
@@ -13,24 +18,83 @@ export interface CreateSessionInput {
 }
 
 export interface AppendTranscriptInput {
+  /** Client-generated id; re-sending the same id returns the stored segment instead of a duplicate. */
+  id?: string;
   text: string;
+  kind?: SegmentKind;
   startedAt: string;
   endedAt: string;
   matches?: ScriptureMatchDto[];
 }
 
+export interface UpdateTranscriptInput {
+  text: string;
+  /** Replaces the segment's suggestions when given; pinned, rejected and manual matches are kept. */
+  matches?: ScriptureMatchDto[];
+}
+
+export interface AddMatchInput {
+  book: string;
+  chapter: number;
+  verseStart: number;
+  verseEnd?: number | null;
+  version: string;
+  quote?: string;
+}
+
+export interface SessionListFilter {
+  /** Case-insensitive match against the title or session code. */
+  search?: string;
+  status?: SessionDto['status'];
+  /** ISO timestamp; sessions created at or after this instant. */
+  from?: string;
+  /** ISO timestamp; sessions created before this instant. */
+  to?: string;
+}
+
 export const sessionService = {
-  list: (page = 1, pageSize = 20) =>
-    apiClient.get<PaginatedResult<SessionDto>>(
-      `${API_ENDPOINTS.sessions.list}?page=${page}&pageSize=${pageSize}`,
-    ),
+  list: (page = 1, pageSize = 20, filter: SessionListFilter = {}) => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (filter.search?.trim()) params.set('search', filter.search.trim());
+    if (filter.status) params.set('status', filter.status);
+    if (filter.from) params.set('from', filter.from);
+    if (filter.to) params.set('to', filter.to);
+    return apiClient.get<PaginatedResult<SessionDto>>(`${API_ENDPOINTS.sessions.list}?${params.toString()}`);
+  },
   get: (code: string) => apiClient.get<SessionDto>(API_ENDPOINTS.sessions.one(code)),
   create: (input: CreateSessionInput) =>
     apiClient.post<SessionDto>(API_ENDPOINTS.sessions.list, input),
   end: (code: string) => apiClient.patch<SessionDto>(API_ENDPOINTS.sessions.end(code)),
+  /** Mirrors the owner's capture state to viewers; pausing does not touch the realtime connection. */
+  setRecordingState: (code: string, state: RecordingState) =>
+    apiClient.patch<SessionDto>(API_ENDPOINTS.sessions.recording(code), { state }),
+  /** Applies to transcription and matching from now on; viewers hear of it through SessionUpdated. */
+  setLanguage: (code: string, language: string) =>
+    apiClient.patch<SessionDto>(API_ENDPOINTS.sessions.language(code), { language }),
   remove: (code: string) => apiClient.delete<void>(API_ENDPOINTS.sessions.one(code)),
   listTranscripts: (code: string) =>
     apiClient.get<TranscriptSegmentDto[]>(API_ENDPOINTS.sessions.transcripts(code)),
+  /** The transcript in a viewer's language; translates a batch of new segments per call. */
+  listTranslations: (code: string, language: string) =>
+    apiClient.get<SessionTranslationsDto>(API_ENDPOINTS.sessions.translations(code, language)),
+  /** Outline, cited scriptures and summary of an ended session; ask again while `status` is pending. */
+  getNotes: (code: string) => apiClient.get<SessionNotesDto>(API_ENDPOINTS.sessions.notes(code)),
+  /** Owner-only; queues the outline and summary to be written again. */
+  regenerateNotes: (code: string) => apiClient.post<SessionNotesDto>(API_ENDPOINTS.sessions.regenerateNotes(code)),
   appendTranscript: (code: string, input: AppendTranscriptInput) =>
     apiClient.post<TranscriptSegmentDto>(API_ENDPOINTS.sessions.transcripts(code), input),
+  /** Relays the owner's live line to viewers; an empty string clears it. */
+  sendPartial: (code: string, text: string) =>
+    apiClient.post<void>(API_ENDPOINTS.sessions.partial(code), { text }),
+  updateTranscript: (code: string, segmentId: string, input: UpdateTranscriptInput) =>
+    apiClient.patch<TranscriptSegmentDto>(API_ENDPOINTS.sessions.transcript(code, segmentId), input),
+  deleteTranscript: (code: string, segmentId: string) =>
+    apiClient.delete<void>(API_ENDPOINTS.sessions.transcript(code, segmentId)),
+  setMatchStatus: (code: string, segmentId: string, matchId: string, status: MatchStatus) =>
+    apiClient.patch<TranscriptSegmentDto>(API_ENDPOINTS.sessions.match(code, segmentId, matchId), { status }),
+  addMatch: (code: string, segmentId: string, input: AddMatchInput) =>
+    apiClient.post<TranscriptSegmentDto>(API_ENDPOINTS.sessions.matches(code, segmentId), {
+      ...input,
+      quote: input.quote ?? '',
+    }),
 };
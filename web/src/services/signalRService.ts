@@ -1,19 +1,24 @@
 import * as signalR from '@microsoft/signalr';
 import { API_BASE_URL } from '@/constants/apiConstants';
 import { authService } from './authService';
-import type { SessionDto, TranscriptSegmentDto } from '@/types/api';
+import type { SessionDto, SessionViewerDto, TranscriptSegmentDto } from '@/types/api';
 
 export interface SessionHubEvents {
   onTranscriptAppended?: (payload: { sessionCode: string; segment: TranscriptSegmentDto }) => void;
+  onTranscriptUpdated?: (payload: { sessionCode: string; segment: TranscriptSegmentDto }) => void;
+  onTranscriptDeleted?: (payload: { sessionCode: string; segmentId: string }) => void;
+  /** The owner's in-progress line; an empty `text` means it was finalized or abandoned. */
+  onPartialUpdated?: (payload: { sessionCode: string; text: string }) => void;
   onSessionUpdated?: (payload: { sessionCode: string; session: SessionDto }) => void;
-  onViewerJoined?: (payload: { username: string }) => void;
-  onViewerLeft?: (payload: { username: string }) => void;
+  onViewerJoined?: (payload: SessionViewerDto) => void;
+  onViewerLeft?: (payload: Pick<SessionViewerDto, 'username' | 'connectionId'>) => void;
   onStateChange?: (state: signalR.HubConnectionState) => void;
 }
 
 export interface SessionHubClient {
   connection: signalR.HubConnection;
-  join: (sessionCode: string) => Promise<void>;
+  /** Subscribes to the session and resolves with everyone currently watching it. */
+  join: (sessionCode: string) => Promise<SessionViewerDto[]>;
   leave: (sessionCode: string) => Promise<void>;
   stop: () => Promise<void>;
 }
@@ -35,6 +40,15 @@ export async function connectSessionHub(events: SessionHubEvents): Promise<Sessi
   if (events.onTranscriptAppended) {
     connection.on('TranscriptAppended', events.onTranscriptAppended);
   }
+  if (events.onTranscriptUpdated) {
+    connection.on('TranscriptUpdated', events.onTranscriptUpdated);
+  }
+  if (events.onTranscriptDeleted) {
+    connection.on('TranscriptDeleted', events.onTranscriptDeleted);
+  }
+  if (events.onPartialUpdated) {
+    connection.on('PartialUpdated', events.onPartialUpdated);
+  }
   if (events.onSessionUpdated) {
     connection.on('SessionUpdated', events.onSessionUpdated);
   }
@@ -54,8 +68,9 @@ export async function connectSessionHub(events: SessionHubEvents): Promise<Sessi
 
   const join = async (sessionCode: string) => {
     if (connection.state === signalR.HubConnectionState.Connected) {
-      await connection.invoke('JoinSession', sessionCode);
+      return (await connection.invoke<SessionViewerDto[] | null>('JoinSession', sessionCode)) ?? [];
     }
+    return [];
   };
   const leave = async (sessionCode: string) => {
     if (connection.state === signalR.HubConnectionState.Connected) {
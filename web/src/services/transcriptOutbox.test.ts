@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from './apiClient';
+import {
+  createMemoryOutboxStore,
+  createTranscriptOutbox,
+  isPermanentOutboxError,
+  type OutboxEntry,
+} from './transcriptOutbox';
+import type { TranscriptSegmentDto } from '@/types/api';
+
+const backoff = { baseMs: 1000, maxMs: 8000, jitter: 0 };
+
+function input(id: string, text = `segment ${id}`) {
+  return { id, text, startedAt: '2026-05-10T15:00:00.000Z', endedAt: '2026-05-10T15:00:02.000Z' };
+}
+
+function delivered(entry: OutboxEntry): TranscriptSegmentDto {
+  return { ...entry.input, matches: [] };
+}
+
+describe('createTranscriptOutbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('persists an entry and removes it once the server acknowledges it', async () => {
+    const store = createMemoryOutboxStore();
+    const onDelivered = vi.fn();
+    const outbox = createTranscriptOutbox({ store, backoff, send: async (e) => delivered(e), onDelivered });
+
+    await outbox.enqueue('ABC123', input('a'));
+    await vi.runAllTimersAsync();
+
+    expect(onDelivered).toHaveBeenCalledWith(expect.objectContaining({ id: 'a', attempts: 1 }), expect.objectContaining({ id: 'a' }));
+    expect(outbox.entries()).toEqual([]);
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('backs off while the network is down and delivers in order once it returns', async () => {
+    let online = false;
+    const sent: string[] = [];
+    const send = vi.fn(async (entry: OutboxEntry) => {
+      if (!online) throw new TypeError('Failed to fetch');
+      sent.push(entry.id);
+      return delivered(entry);
+    });
+    const outbox = createTranscriptOutbox({ store: createMemoryOutboxStore(), backoff, send });
+
+    await outbox.enqueue('ABC123', input('a'));
+    await vi.advanceTimersByTimeAsync(0);
+    await outbox.enqueue('ABC123', input('b'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    // One probe only; the second entry waits behind the backoff timer.
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.entries().map((e) => [e.id, e.status])).toEqual([
+      ['a', 'queued'],
+      ['b', 'queued'],
+    ]);
+    expect(outbox.entries()[0].lastError).toBe('Failed to fetch');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    online = true;
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sent).toEqual(['a', 'b']);
+    expect(outbox.entries()).toEqual([]);
+  });
+
+  it('parks permanently rejected entries and keeps delivering the rest', async () => {
+    const send = vi.fn(async (entry: OutboxEntry) => {
+      if (entry.id === 'bad') throw new ApiError(403, '', 'Only the session owner can append transcripts.');
+      return delivered(entry);
+    });
+    const outbox = createTranscriptOutbox({ store: createMemoryOutboxStore(), backoff, send });
+
+    await outbox.enqueue('ABC123', input('bad'));
+    await outbox.enqueue('ABC123', input('good'));
+    await vi.runAllTimersAsync();
+
+    expect(outbox.entries()).toEqual([
+      expect.objectContaining({ id: 'bad', status: 'failed', lastError: 'Only the session owner can append transcripts.' }),
+    ]);
+
+    send.mockImplementation(async (entry) => delivered(entry));
+    await outbox.retryNow();
+    expect(outbox.entries()).toEqual([]);
+  });
+
+  it('keeps sending from memory when the store refuses writes', async () => {
+    const store = createMemoryOutboxStore();
+    let full = true;
+    const put = store.put;
+    store.put = async (entry) => {
+      if (full) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      return put(entry);
+    };
+    const onDelivered = vi.fn();
+    const outbox = createTranscriptOutbox({ store, backoff, send: async (e) => delivered(e), onDelivered });
+
+    await outbox.enqueue('ABC123', input('a'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Marking the entry as sending failed, so it waits for the backoff instead of sticking.
+    expect(onDelivered).not.toHaveBeenCalled();
+    expect(outbox.entries().map((e) => e.status)).toEqual(['queued']);
+
+    full = false;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onDelivered).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), expect.objectContaining({ id: 'a' }));
+    expect(outbox.entries()).toEqual([]);
+  });
+
+  it('counts an entry as delivered even when the store cannot forget it', async () => {
+    const store = createMemoryOutboxStore();
+    store.delete = async () => {
+      throw new DOMException('The transaction was aborted', 'AbortError');
+    };
+    const send = vi.fn(async (e: OutboxEntry) => delivered(e));
+    const onDelivered = vi.fn();
+    const outbox = createTranscriptOutbox({ store, backoff, send, onDelivered });
+
+    await outbox.enqueue('ABC123', input('a'));
+    await vi.runAllTimersAsync();
+    await outbox.retryNow();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(onDelivered).toHaveBeenCalledTimes(1);
+    expect(outbox.entries()).toEqual([]);
+  });
+
+  it('replays entries left over from a previous page load', async () => {
+    const leftover: OutboxEntry = {
+      id: 'x',
+      sessionCode: 'ABC123',
+      input: input('x'),
+      status: 'sending',
+      attempts: 2,
+      lastError: null,
+      createdAt: 1,
+    };
+    const store = createMemoryOutboxStore([leftover]);
+    const send = vi.fn(async (entry: OutboxEntry) => delivered(entry));
+    const outbox = createTranscriptOutbox({ store, backoff, send });
+
+    const loaded = await outbox.load();
+    expect(loaded[0].status).toBe('queued');
+
+    await vi.runAllTimersAsync();
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: 'x', attempts: 3 }));
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('lets the caller discard an entry', async () => {
+    const store = createMemoryOutboxStore();
+    const outbox = createTranscriptOutbox({
+      store,
+      backoff,
+      send: () => Promise.reject(new ApiError(404, '', 'Session not found.')),
+    });
+
+    await outbox.enqueue('ABC123', input('a'));
+    await vi.runAllTimersAsync();
+    await outbox.discard('a');
+
+    expect(outbox.entries()).toEqual([]);
+    expect(await store.getAll()).toEqual([]);
+  });
+});
+
+describe('isPermanentOutboxError', () => {
+  it.each([
+    [new ApiError(400, ''), true],
+    [new ApiError(404, ''), true],
+    [new ApiError(401, ''), false],
+    [new ApiError(429, ''), false],
+    [new ApiError(503, ''), false],
+    [new TypeError('Failed to fetch'), false],
+  ])('%s → %s', (err, expected) => {
+    expect(isPermanentOutboxError(err)).toBe(expected);
+  });
+});
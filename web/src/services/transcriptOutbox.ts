@@ -0,0 +1,266 @@
+import { backoffDelay, type BackoffOptions } from '@/lib/backoff';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import { ApiError } from './apiClient';
+import type { AppendTranscriptInput } from './sessionService';
+import type { TranscriptSegmentDto } from '@/types/api';
+
+// Durable queue for transcript segments the API has not acknowledged yet.
+// Every segment goes through here: it is written to IndexedDB first, then
+// POSTed with a client-generated id so a replay after a lost response is
+// de-duplicated by the server instead of appended twice.
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  /** Client-generated segment id; the server keeps it as the segment's id. */
+  id: string;
+  sessionCode: string;
+  input: AppendTranscriptInput & { id: string };
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: number;
+}
+
+export interface OutboxStore {
+  getAll: () => Promise<OutboxEntry[]>;
+  put: (entry: OutboxEntry) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+const DB_NAME = 'hoptranscribe-outbox';
+const STORE = 'segments';
+
+export function createIndexedDbOutboxStore(): OutboxStore {
+  const db = () =>
+    openDatabase(DB_NAME, 1, (database) => {
+      if (!database.objectStoreNames.contains(STORE)) {
+        database.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    });
+  return {
+    getAll: async () => {
+      const tx = (await db()).transaction(STORE, 'readonly');
+      return requestToPromise(tx.objectStore(STORE).getAll() as IDBRequest<OutboxEntry[]>);
+    },
+    put: async (entry) => {
+      const tx = (await db()).transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(entry);
+      await transactionDone(tx);
+    },
+    delete: async (id) => {
+      const tx = (await db()).transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).delete(id);
+      await transactionDone(tx);
+    },
+  };
+}
+
+/** Non-durable fallback (private browsing without IndexedDB) and test double. */
+export function createMemoryOutboxStore(initial: OutboxEntry[] = []): OutboxStore {
+  const entries = new Map(initial.map((e) => [e.id, e]));
+  return {
+    getAll: async () => [...entries.values()],
+    put: async (entry) => {
+      entries.set(entry.id, { ...entry });
+    },
+    delete: async (id) => {
+      entries.delete(id);
+    },
+  };
+}
+
+export function createDefaultOutboxStore(): OutboxStore {
+  return isIndexedDbAvailable() ? createIndexedDbOutboxStore() : createMemoryOutboxStore();
+}
+
+/**
+ * Client errors that will fail the same way on every retry. 401 is left out
+ * on purpose: the user can sign in again in another tab and the queue resumes.
+ */
+export function isPermanentOutboxError(err: unknown): boolean {
+  return err instanceof ApiError && err.status >= 400 && err.status < 500 && ![401, 408, 429].includes(err.status);
+}
+
+export const OUTBOX_BACKOFF: BackoffOptions = { baseMs: 1000, maxMs: 30_000, jitter: 0.3 };
+
+export interface TranscriptOutboxOptions {
+  store: OutboxStore;
+  send: (entry: OutboxEntry) => Promise<TranscriptSegmentDto>;
+  onDelivered?: (entry: OutboxEntry, segment: TranscriptSegmentDto) => void;
+  /** Called with every entry still in the outbox whenever one changes. */
+  onChange?: (entries: OutboxEntry[]) => void;
+  backoff?: BackoffOptions;
+  isPermanentError?: (err: unknown) => boolean;
+}
+
+export interface TranscriptOutbox {
+  /** Reads persisted entries (e.g. after a reload) and starts delivering them. */
+  load: () => Promise<OutboxEntry[]>;
+  enqueue: (sessionCode: string, input: AppendTranscriptInput & { id: string }) => Promise<OutboxEntry>;
+  /** Skips any pending backoff and retries everything, including failed entries. */
+  retryNow: () => Promise<void>;
+  /** Drops an entry without sending it. */
+  discard: (id: string) => Promise<void>;
+  entries: () => OutboxEntry[];
+  dispose: () => void;
+}
+
+export function createTranscriptOutbox({
+  store,
+  send,
+  onDelivered,
+  onChange,
+  backoff = OUTBOX_BACKOFF,
+  isPermanentError = isPermanentOutboxError,
+}: TranscriptOutboxOptions): TranscriptOutbox {
+  const entries = new Map<string, OutboxEntry>();
+  // Failures are counted per outbox, not per entry: when the network is down
+  // every entry fails the same way, and one timer is enough to probe it.
+  let consecutiveFailures = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+  let flushAgain = false;
+  let disposed = false;
+
+  const snapshot = () => [...entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+  const notify = () => onChange?.(snapshot());
+
+  const update = async (entry: OutboxEntry, patch: Partial<OutboxEntry>) => {
+    const next = { ...entry, ...patch };
+    entries.set(entry.id, next);
+    notify();
+    await store.put(next);
+    return next;
+  };
+
+  const schedule = () => {
+    if (timer !== null || disposed) return;
+    const delay = backoffDelay(consecutiveFailures - 1, backoff);
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, delay);
+  };
+
+  const runFlush = async () => {
+    for (const { id } of snapshot()) {
+      if (disposed) return;
+      // Re-read: the entry may have been delivered, discarded or retried meanwhile.
+      const entry = entries.get(id);
+      if (!entry || entry.status === 'failed') continue;
+
+      const sending = await update(entry, { status: 'sending', attempts: entry.attempts + 1 });
+      let segment: TranscriptSegmentDto;
+      try {
+        segment = await send(sending);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (isPermanentError(err)) {
+          await update(sending, { status: 'failed', lastError: message });
+          continue;
+        }
+        await update(sending, { status: 'queued', lastError: message });
+        consecutiveFailures += 1;
+        schedule();
+        return;
+      }
+      entries.delete(id);
+      consecutiveFailures = 0;
+      notify();
+      onDelivered?.(sending, segment);
+      try {
+        await store.delete(id);
+      } catch {
+        /* a copy left behind is re-sent after a reload, and the server treats that as a retry */
+      }
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (flushing) {
+      flushAgain = true;
+      return flushing;
+    }
+    flushing = (async () => {
+      try {
+        do {
+          flushAgain = false;
+          try {
+            await runFlush();
+          } catch {
+            // The store refused a write (quota, private browsing). Memory stays the source
+            // of truth: put back anything caught mid-send and try again after a backoff.
+            for (const entry of entries.values()) {
+              if (entry.status === 'sending') entries.set(entry.id, { ...entry, status: 'queued' });
+            }
+            notify();
+            consecutiveFailures += 1;
+            schedule();
+            return;
+          }
+        } while (flushAgain && timer === null && !disposed);
+      } finally {
+        flushing = null;
+      }
+    })();
+    return flushing;
+  };
+
+  return {
+    load: async () => {
+      for (const entry of await store.getAll()) {
+        if (entries.has(entry.id)) continue;
+        // A reload mid-request leaves the entry "sending"; it was never acknowledged.
+        entries.set(entry.id, entry.status === 'sending' ? { ...entry, status: 'queued' } : entry);
+      }
+      const loaded = snapshot();
+      notify();
+      void flush();
+      return loaded;
+    },
+    enqueue: async (sessionCode, input) => {
+      const entry: OutboxEntry = {
+        id: input.id,
+        sessionCode,
+        input,
+        status: 'queued',
+        attempts: 0,
+        lastError: null,
+        createdAt: Date.now(),
+      };
+      entries.set(entry.id, entry);
+      notify();
+      try {
+        await store.put(entry);
+      } catch {
+        /* still sent from memory; it just won't survive a reload */
+      }
+      // While backing off, wait for the timer instead of hammering a dead network.
+      if (timer === null) void flush();
+      return entry;
+    },
+    retryNow: async () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      consecutiveFailures = 0;
+      for (const entry of snapshot()) {
+        if (entry.status === 'failed') await update(entry, { status: 'queued' }).catch(() => undefined);
+      }
+      await flush();
+    },
+    discard: async (id) => {
+      if (!entries.delete(id)) return;
+      notify();
+      await store.delete(id);
+    },
+    entries: snapshot,
+    dispose: () => {
+      disposed = true;
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
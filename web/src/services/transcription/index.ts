@@ -0,0 +1,31 @@
+import { DEMO_SERMON_SCRIPT } from '@/constants/demoSermon';
+import { openaiRealtimeProvider } from './openaiRealtimeProvider';
+import { createScriptedProvider, scriptToCues } from './scriptedProvider';
+import type { TranscriptionProvider, TranscriptionProviderId } from './types';
+
+export type {
+  TranscribeChunkOptions,
+  TranscriptionEvents,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionSession,
+  TranscriptionStartOptions,
+} from './types';
+export { createRecordingProvider } from './recordingProvider';
+export { createScriptedProvider, scriptToCues } from './scriptedProvider';
+export type { ScriptCue, ScriptedProviderOptions } from './scriptedProvider';
+
+export const TRANSCRIPTION_PROVIDERS: { id: TranscriptionProviderId; label: string; hint: string }[] = [
+  { id: 'openai', label: 'Microphone', hint: 'Live speech transcribed by OpenAI.' },
+  { id: 'scripted', label: 'Demo script', hint: 'Replays a sample sermon offline; no microphone or network needed.' },
+];
+
+const demoProvider = createScriptedProvider({ cues: scriptToCues(DEMO_SERMON_SCRIPT), loop: true });
+
+export function getTranscriptionProvider(id: TranscriptionProviderId): TranscriptionProvider {
+  return id === 'scripted' ? demoProvider : openaiRealtimeProvider;
+}
+
+export function isTranscriptionProviderId(value: string): value is TranscriptionProviderId {
+  return TRANSCRIPTION_PROVIDERS.some((p) => p.id === value);
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRealtimeEventHandler, createSecretCache } from './openaiRealtimeProvider';
+import type { TranscriptionSessionResponse } from '@/types/api';
+
+describe('createRealtimeEventHandler', () => {
+  const clock = (...times: string[]) => {
+    const queue = [...times];
+    return () => new Date(queue.shift() ?? times[times.length - 1]);
+  };
+
+  it('accumulates deltas per item and times utterances back to back', () => {
+    const events = { onReady: vi.fn(), onDelta: vi.fn(), onUtterance: vi.fn() };
+    const handle = createRealtimeEventHandler(
+      events,
+      clock('2024-05-05T10:00:00Z', '2024-05-05T10:00:04Z', '2024-05-05T10:00:09Z'),
+    );
+
+    handle({ type: 'transcription_session.updated' });
+    handle({ type: 'conversation.item.input_audio_transcription.delta', item_id: 'a', delta: 'Jesus' });
+    handle({ type: 'conversation.item.input_audio_transcription.delta', item_id: 'a', delta: ' wept' });
+    handle({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'a', transcript: 'Jesus wept.' });
+    handle({ type: 'conversation.item.input_audio_transcription.delta', item_id: 'b', delta: 'Amen' });
+    handle({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'b', transcript: 'Amen.' });
+
+    expect(events.onReady).toHaveBeenCalledOnce();
+    expect(events.onDelta.mock.calls.map(([d]) => d)).toEqual([
+      { id: 'a', text: 'Jesus' },
+      { id: 'a', text: 'Jesus wept' },
+      { id: 'b', text: 'Amen' },
+    ]);
+    expect(events.onUtterance.mock.calls.map(([u]) => u)).toEqual([
+      { id: 'a', text: 'Jesus wept.', startedAt: '2024-05-05T10:00:00.000Z', endedAt: '2024-05-05T10:00:04.000Z' },
+      { id: 'b', text: 'Amen.', startedAt: '2024-05-05T10:00:04.000Z', endedAt: '2024-05-05T10:00:09.000Z' },
+    ]);
+  });
+
+  it('starts the first utterance after a pause at the resume time', () => {
+    const onUtterance = vi.fn();
+    const handle = createRealtimeEventHandler(
+      { onUtterance },
+      clock('2024-05-05T10:00:00Z', '2024-05-05T10:05:00Z', '2024-05-05T10:05:03Z'),
+    );
+
+    handle({ type: 'transcription_session.updated' });
+    handle.restartClock();
+    handle({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'a', transcript: 'Welcome back.' });
+
+    expect(onUtterance).toHaveBeenCalledWith(
+      expect.objectContaining({ startedAt: '2024-05-05T10:05:00.000Z', endedAt: '2024-05-05T10:05:03.000Z' }),
+    );
+  });
+
+  it('flushes the line in progress as an utterance when the connection drops', () => {
+    const onUtterance = vi.fn();
+    const handle = createRealtimeEventHandler(
+      { onUtterance },
+      clock('2024-05-05T10:00:00Z', '2024-05-05T10:00:06Z'),
+    );
+
+    handle({ type: 'transcription_session.updated' });
+    handle({ type: 'conversation.item.input_audio_transcription.delta', item_id: 'a', delta: 'In the beginning' });
+    handle.flushPartial();
+    handle.flushPartial();
+
+    expect(onUtterance).toHaveBeenCalledOnce();
+    expect(onUtterance).toHaveBeenCalledWith({
+      id: 'a',
+      text: 'In the beginning',
+      startedAt: '2024-05-05T10:00:00.000Z',
+      endedAt: '2024-05-05T10:00:06.000Z',
+    });
+  });
+
+  it('reports protocol errors as non-fatal and ignores empty commits', () => {
+    const onError = vi.fn();
+    const handle = createRealtimeEventHandler({ onError });
+
+    handle({ type: 'error', error: { code: 'input_audio_buffer_commit_empty', message: 'buffer too small' } });
+    handle({ type: 'error', error: { message: 'Rate limited' } });
+    handle('not an event');
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Rate limited' }), false);
+  });
+});
+
+describe('createSecretCache', () => {
+  const secret = (id: string, expiresAt: number): TranscriptionSessionResponse => ({
+    clientSecret: id,
+    expiresAt: new Date(expiresAt).toISOString(),
+    model: 'gpt-realtime-whisper',
+    sdpUrl: 'https://example.test/sdp',
+    sessionId: id,
+    language: 'en',
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('hands a reconnect the secret prefetched while connected', async () => {
+    let issued = 0;
+    const fetchSecret = vi.fn(async () => secret(`s${++issued}`, Date.now() + 600_000));
+    const cache = createSecretCache(fetchSecret);
+
+    const first = await cache.take('ABC123');
+    first.release();
+    const second = await cache.take('ABC123');
+
+    expect(first.secret.clientSecret).toBe('s1');
+    expect(second.secret.clientSecret).toBe('s2');
+    expect(fetchSecret).toHaveBeenCalledTimes(3);
+    second.release();
+  });
+
+  it('renews the spare before it expires, only while a connection holds it', async () => {
+    vi.useFakeTimers();
+    let issued = 0;
+    const fetchSecret = vi.fn(async () => secret(`s${++issued}`, Date.now() + 120_000));
+    const cache = createSecretCache(fetchSecret, { leadMs: 60_000 });
+
+    const held = await cache.take('ABC123');
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetchSecret).toHaveBeenCalledTimes(3);
+
+    held.release();
+    await vi.advanceTimersByTimeAsync(600_000);
+    expect(fetchSecret).toHaveBeenCalledTimes(3);
+  });
+
+  it('fetches a new secret when the spare went stale', async () => {
+    vi.useFakeTimers();
+    let issued = 0;
+    const fetchSecret = vi.fn(async () => secret(`s${++issued}`, Date.now() + 120_000));
+    const cache = createSecretCache(fetchSecret, { leadMs: 60_000 });
+
+    (await cache.take('ABC123')).release();
+    await vi.advanceTimersByTimeAsync(90_000);
+    const next = await cache.take('ABC123');
+
+    expect(next.secret.clientSecret).toBe('s3');
+    next.release();
+  });
+});
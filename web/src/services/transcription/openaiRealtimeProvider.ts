@@ -0,0 +1,218 @@
+import { API_ENDPOINTS } from '@/constants/apiConstants';
+import { apiClient } from '@/services/apiClient';
+import { connectRealtime } from '@/services/webrtcService';
+import type { AudioTranscriptionResponse, TranscriptionSessionResponse } from '@/types/api';
+import type { TranscriptionEvents, TranscriptionProvider } from './types';
+
+/**
+ * Translates OpenAI realtime data-channel events into provider events. Kept
+ * separate from the connection so the protocol handling can be tested alone.
+ * `restartClock` makes the next utterance start now, e.g. after a pause, rather
+ * than where the previous one ended. `flushPartial` turns a line still being
+ * transcribed into an utterance, for when the connection drops mid-sentence.
+ */
+export function createRealtimeEventHandler(events: TranscriptionEvents, now: () => Date = () => new Date()) {
+  let startedAt = '';
+  let partialItem: string | null = null;
+  let partialText = '';
+
+  const handle = (event: unknown) => {
+    if (!event || typeof event !== 'object') return;
+    const data = event as {
+      type?: string;
+      transcript?: string;
+      delta?: string;
+      item_id?: string;
+      error?: { message?: string; code?: string };
+    };
+
+    switch (data.type) {
+      case 'session.created':
+      case 'transcription_session.created':
+      case 'transcription_session.updated':
+        startedAt = now().toISOString();
+        events.onReady?.();
+        break;
+      case 'conversation.item.input_audio_transcription.delta':
+        if (data.delta) {
+          // Deltas are incremental tokens, not the full transcript. Accumulate
+          // them per item so the live partial shows the whole sentence so far.
+          const itemId = data.item_id ?? 'partial';
+          if (partialItem !== itemId) {
+            partialItem = itemId;
+            partialText = '';
+          }
+          partialText += data.delta;
+          events.onDelta?.({ id: itemId, text: partialText });
+        }
+        break;
+      case 'conversation.item.input_audio_transcription.completed':
+        partialItem = null;
+        partialText = '';
+        if (data.transcript) {
+          const endedAt = now().toISOString();
+          events.onUtterance?.({
+            id: data.item_id ?? crypto.randomUUID(),
+            text: data.transcript,
+            startedAt: startedAt || endedAt,
+            endedAt,
+          });
+          startedAt = endedAt;
+        }
+        break;
+      case 'error':
+        // Committing a near-silent buffer is expected with client-side VAD;
+        // ignore it instead of surfacing a spurious error to the user.
+        if (data.error?.code === 'input_audio_buffer_commit_empty') break;
+        events.onError?.(new Error(data.error?.message ?? 'Unknown realtime error'), false);
+        break;
+      default:
+        break;
+    }
+  };
+
+  return Object.assign(handle, {
+    restartClock: () => {
+      startedAt = now().toISOString();
+    },
+    flushPartial: () => {
+      const text = partialText.trim();
+      const id = partialItem;
+      partialItem = null;
+      partialText = '';
+      if (!text || !id) return;
+      const endedAt = now().toISOString();
+      events.onUtterance?.({ id, text, startedAt: startedAt || endedAt, endedAt });
+      startedAt = endedAt;
+    },
+  });
+}
+
+/**
+ * Keeps a fresh client secret on hand per session code so a reconnect does not
+ * wait on the API, or fail on a secret that expired while the connection was up.
+ * Secrets are used once: taking one prefetches the next, which is renewed
+ * `leadMs` before it expires for as long as a connection holds the session.
+ */
+export function createSecretCache(
+  fetchSecret: (sessionCode: string) => Promise<TranscriptionSessionResponse>,
+  { leadMs = 60_000, now = Date.now }: { leadMs?: number; now?: () => number } = {},
+) {
+  const entries = new Map<
+    string,
+    { next: Promise<TranscriptionSessionResponse> | null; holders: number; timer: ReturnType<typeof setTimeout> | null }
+  >();
+
+  const fresh = (secret: TranscriptionSessionResponse) => Date.parse(secret.expiresAt) - leadMs > now();
+
+  const prefetch = (sessionCode: string) => {
+    const entry = entries.get(sessionCode);
+    if (!entry) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = null;
+    const next = fetchSecret(sessionCode);
+    entry.next = next;
+    next.then(
+      (secret) => {
+        if (entry.next !== next || entry.holders === 0) return;
+        const renewIn = Math.max(0, Date.parse(secret.expiresAt) - leadMs - now());
+        if (Number.isFinite(renewIn)) entry.timer = setTimeout(() => prefetch(sessionCode), renewIn);
+      },
+      () => {
+        if (entry.next === next) entry.next = null;
+      },
+    );
+  };
+
+  return {
+    /** A secret to connect with, plus a release for when that connection ends. */
+    async take(sessionCode: string): Promise<{ secret: TranscriptionSessionResponse; release: () => void }> {
+      let entry = entries.get(sessionCode);
+      if (!entry) {
+        entry = { next: null, holders: 0, timer: null };
+        entries.set(sessionCode, entry);
+      }
+      const cached = await entry.next?.catch(() => null);
+      entry.next = null;
+      const secret = cached && fresh(cached) ? cached : await fetchSecret(sessionCode);
+      entry.holders += 1;
+      prefetch(sessionCode);
+      let released = false;
+      const held = entry;
+      return {
+        secret,
+        release: () => {
+          if (released) return;
+          released = true;
+          held.holders -= 1;
+          // The prefetched secret stays for a reconnect until it expires, but is no longer renewed.
+          if (held.holders === 0 && held.timer) {
+            clearTimeout(held.timer);
+            held.timer = null;
+          }
+        },
+      };
+    },
+  };
+}
+
+const secrets = createSecretCache((sessionCode) =>
+  apiClient.post<TranscriptionSessionResponse>(API_ENDPOINTS.openai.transcriptionSession, { sessionCode }),
+);
+
+/** Live microphone transcription over the OpenAI realtime WebRTC API. */
+export const openaiRealtimeProvider: TranscriptionProvider = {
+  id: 'openai',
+  async start({ sessionCode, deviceId, processing, vad, language }, events) {
+    const { secret, release } = await secrets.take(sessionCode);
+    const onMessage = createRealtimeEventHandler(events);
+    let conn;
+    try {
+      conn = await connectRealtime({
+        session: secret,
+        deviceId,
+        processing,
+        language,
+        vad,
+        onLevel: events.onLevel,
+        onOpen: events.onOpen,
+        // Keep whatever was mid-sentence when the connection went.
+        onClose: () => {
+          onMessage.flushPartial();
+          events.onClose?.();
+        },
+        onError: (err) => {
+          onMessage.flushPartial();
+          events.onError?.(err, true);
+        },
+        onMessage,
+      });
+    } catch (err) {
+      release();
+      throw err;
+    }
+    events.onAudio?.(conn.micStream);
+    return {
+      stop: async () => {
+        release();
+        await conn.close();
+      },
+      switchInput: async (nextDeviceId, nextProcessing) => {
+        events.onAudio?.(await conn.switchInput(nextDeviceId, nextProcessing));
+      },
+      pause: conn.pause,
+      resume: async () => {
+        onMessage.restartClock();
+        conn.resume();
+      },
+      setLanguage: conn.setLanguage,
+    };
+  },
+  async transcribeChunk(audio, { sessionCode, fileName = 'chunk.wav' }) {
+    const form = new FormData();
+    form.append('sessionCode', sessionCode);
+    form.append('file', audio, fileName);
+    const result = await apiClient.upload<AudioTranscriptionResponse>(API_ENDPOINTS.openai.transcriptions, form);
+    return result.text;
+  },
+};
@@ -0,0 +1,105 @@
+import { encodeWav } from '@/lib/wav';
+import { segmentBySilence } from '@/lib/silenceSegmenter';
+import type { TranscriptionProvider } from './types';
+
+// Imports a recorded sermon: decode the file, split it at pauses with the same
+// energy rules the live microphone uses, and send each span through another
+// provider's `transcribeChunk`. Utterances are stamped from file offsets, so a
+// 40-minute recording reads as 40 minutes however fast it was transcribed.
+
+export interface RecordingProviderOptions {
+  file: Blob & { name?: string };
+  /** Provider that turns each chunk of audio into text. */
+  transcriber: TranscriptionProvider;
+  /** Wall-clock time that offset 0 of the recording maps to. */
+  startsAt: string;
+}
+
+/** Speech models want 16 kHz mono; resampling also keeps uploads small. */
+const SAMPLE_RATE = 16000;
+/** Audio kept either side of a speech span so clipped word edges still transcribe. */
+const PAD_MS = 250;
+
+async function decodeToMono(file: Blob): Promise<Float32Array> {
+  const AudioCtx =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const ctx = new AudioCtx();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error('Could not read that recording. Try a WAV, MP3, M4A or WebM file.');
+  } finally {
+    void ctx.close().catch(() => undefined);
+  }
+  // Rendering through a one-channel offline context downmixes and resamples in one pass.
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * SAMPLE_RATE)), SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
+
+export function createRecordingProvider({ file, transcriber, startsAt }: RecordingProviderOptions): TranscriptionProvider {
+  return {
+    id: 'recording',
+    async start({ sessionCode, vad }, events) {
+      const transcribeChunk = transcriber.transcribeChunk;
+      if (!transcribeChunk) throw new Error('The selected transcription source cannot import recordings.');
+
+      let stopped = false;
+      const origin = new Date(startsAt).getTime();
+      const at = (offsetMs: number) => new Date(origin + offsetMs).toISOString();
+      const importId = crypto.randomUUID();
+      const baseName = (file.name ?? 'recording').replace(/\.[^.]+$/, '');
+
+      const run = async () => {
+        let samples: Float32Array;
+        try {
+          samples = await decodeToMono(file);
+        } catch (err) {
+          events.onError?.(err instanceof Error ? err : new Error('Could not read that recording.'), false);
+          events.onEnd?.(false);
+          return;
+        }
+        if (stopped) return;
+
+        const spans = segmentBySilence(samples, SAMPLE_RATE, vad);
+        const toIndex = (ms: number) => Math.min(samples.length, Math.max(0, Math.round((ms * SAMPLE_RATE) / 1000)));
+        events.onReady?.();
+        events.onProgress?.(0);
+
+        for (let i = 0; i < spans.length && !stopped; i += 1) {
+          const span = spans[i];
+          const chunk = samples.subarray(toIndex(span.startMs - PAD_MS), toIndex(span.endMs + PAD_MS));
+          const audio = new Blob([encodeWav(chunk, SAMPLE_RATE)], { type: 'audio/wav' });
+          try {
+            const text = (await transcribeChunk(audio, { sessionCode, fileName: `${baseName}-${i + 1}.wav` })).trim();
+            if (text) {
+              events.onUtterance?.({ id: `${importId}-${i + 1}`, text, startedAt: at(span.startMs), endedAt: at(span.endMs) });
+            }
+          } catch (err) {
+            // One failed chunk should not sink the whole import; the rest still lands.
+            events.onError?.(err instanceof Error ? err : new Error(`Chunk ${i + 1} failed to transcribe.`), false);
+          }
+          events.onProgress?.((i + 1) / spans.length);
+        }
+        if (stopped) return;
+        if (spans.length === 0) events.onError?.(new Error('No speech was found in that recording.'), false);
+        events.onEnd?.(spans.length > 0);
+      };
+
+      events.onOpen?.();
+      const done = run();
+      return {
+        async stop() {
+          stopped = true;
+          // Let the chunk already in flight land, like a live stop flushing its last words.
+          await done;
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScriptedProvider, scriptToCues } from './scriptedProvider';
+
+describe('scriptToCues', () => {
+  it('times each non-empty line at the given speaking rate', () => {
+    const cues = scriptToCues('For God so loved\n\n  the world  \n', { wordsPerMinute: 60, pauseMs: 500 });
+    expect(cues).toEqual([
+      { text: 'For God so loved', startMs: 0, endMs: 4000 },
+      { text: 'the world', startMs: 4500, endMs: 6500 },
+    ]);
+  });
+});
+
+describe('createScriptedProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-05T10:00:00Z'));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const cues = [
+    { text: 'Jesus wept', startMs: 0, endMs: 1000 },
+    { text: 'Amen', startMs: 2000, endMs: 2500 },
+  ];
+
+  it('speaks each cue word by word and commits it at its end time', async () => {
+    const events = { onReady: vi.fn(), onDelta: vi.fn(), onUtterance: vi.fn() };
+    await createScriptedProvider({ cues, connectMs: 100 }).start({ sessionCode: 'ABC123' }, events);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(events.onReady).toHaveBeenCalledOnce();
+    expect(events.onDelta).toHaveBeenLastCalledWith({ id: 'scripted-1', text: 'Jesus' });
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(events.onDelta).toHaveBeenLastCalledWith({ id: 'scripted-1', text: 'Jesus wept' });
+    expect(events.onUtterance).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(events.onUtterance.mock.calls).toEqual([
+      [
+        {
+          id: 'scripted-1',
+          text: 'Jesus wept',
+          startedAt: '2024-05-05T10:00:00.100Z',
+          endedAt: '2024-05-05T10:00:01.100Z',
+        },
+      ],
+      [
+        {
+          id: 'scripted-2',
+          text: 'Amen',
+          startedAt: '2024-05-05T10:00:02.100Z',
+          endedAt: '2024-05-05T10:00:02.600Z',
+        },
+      ],
+    ]);
+  });
+
+  it('flushes the words spoken so far on stop', async () => {
+    const onUtterance = vi.fn();
+    const session = await createScriptedProvider({ cues, connectMs: 0 }).start({ sessionCode: 'ABC123' }, { onUtterance });
+
+    await vi.advanceTimersByTimeAsync(100);
+    await session.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onUtterance).toHaveBeenCalledOnce();
+    expect(onUtterance).toHaveBeenCalledWith(expect.objectContaining({ text: 'Jesus' }));
+  });
+
+  it('starts over after the last cue when looping', async () => {
+    const onUtterance = vi.fn();
+    await createScriptedProvider({ cues, connectMs: 0, loop: true }).start({ sessionCode: 'ABC123' }, { onUtterance });
+
+    await vi.advanceTimersByTimeAsync(2500 + 3000 + 1000);
+
+    expect(onUtterance.mock.calls.map(([u]) => u.text)).toEqual(['Jesus wept', 'Amen', 'Jesus wept']);
+    expect(onUtterance.mock.calls[2][0].startedAt).toBe('2024-05-05T10:00:05.500Z');
+  });
+
+  it('answers chunk transcription with the script lines in turn', async () => {
+    const provider = createScriptedProvider({ cues });
+    const chunk = new Blob([]);
+
+    const texts = [];
+    for (let i = 0; i < 3; i += 1) texts.push(await provider.transcribeChunk?.(chunk, { sessionCode: 'ABC123' }));
+
+    expect(texts).toEqual(['Jesus wept', 'Amen', 'Jesus wept']);
+  });
+});
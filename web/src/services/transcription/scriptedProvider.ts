@@ -0,0 +1,164 @@
+import type { TranscriptionEvents, TranscriptionProvider, TranscriptionSession } from './types';
+
+// Replays a fixed script as if it were being spoken: word-by-word deltas, then
+// one utterance per cue at the cue's end time. Nothing touches the network or
+// the microphone, so it is safe for demos, rehearsal and tests.
+
+export interface ScriptCue {
+  text: string;
+  /** Offset from the start of playback. */
+  startMs: number;
+  endMs: number;
+}
+
+export interface ScriptedProviderOptions {
+  cues: ScriptCue[];
+  /** Played alongside the cues, e.g. the WAV fixture they were transcribed from. */
+  audioUrl?: string;
+  /** Start over from the first cue once the last one has been spoken. */
+  loop?: boolean;
+  /** Pretend connection time before the first cue starts. */
+  connectMs?: number;
+}
+
+const LOOP_GAP_MS = 3000;
+
+/**
+ * Times plain text as speech: each non-empty line becomes one cue, spoken at
+ * `wordsPerMinute` with `pauseMs` between lines.
+ */
+export function scriptToCues(
+  script: string,
+  { wordsPerMinute = 150, pauseMs = 1200 }: { wordsPerMinute?: number; pauseMs?: number } = {},
+): ScriptCue[] {
+  const msPerWord = 60000 / wordsPerMinute;
+  const cues: ScriptCue[] = [];
+  let at = 0;
+  for (const line of script.split(/\r?\n/)) {
+    const text = line.trim().replace(/\s+/g, ' ');
+    if (!text) continue;
+    const duration = Math.round(text.split(' ').length * msPerWord);
+    cues.push({ text, startMs: at, endMs: at + duration });
+    at += duration + pauseMs;
+  }
+  return cues;
+}
+
+type Step =
+  | { atMs: number; kind: 'delta'; cue: number; words: number }
+  | { atMs: number; kind: 'utterance'; cue: number };
+
+function buildSteps(cues: ScriptCue[]): Step[] {
+  const steps: Step[] = [];
+  cues.forEach((cue, index) => {
+    const words = cue.text.split(/\s+/).filter(Boolean);
+    const span = Math.max(0, cue.endMs - cue.startMs);
+    words.forEach((_, i) => {
+      steps.push({ atMs: cue.startMs + Math.round((span * i) / words.length), kind: 'delta', cue: index, words: i + 1 });
+    });
+    steps.push({ atMs: cue.endMs, kind: 'utterance', cue: index });
+  });
+  // Stable sort keeps each cue's own deltas ahead of its utterance on ties.
+  return steps.sort((a, b) => a.atMs - b.atMs);
+}
+
+export function createScriptedProvider({
+  cues,
+  audioUrl,
+  loop = false,
+  connectMs = 300,
+}: ScriptedProviderOptions): TranscriptionProvider {
+  const steps = buildSteps(cues);
+  const lengthMs = cues.reduce((end, cue) => Math.max(end, cue.endMs), 0);
+  let nextChunkCue = 0;
+
+  return {
+    id: 'scripted',
+    async start(_options, events: TranscriptionEvents): Promise<TranscriptionSession> {
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let origin = 0;
+      let pass = 0;
+      let seq = 0;
+      // The cue currently being "spoken", so stop() can flush what was said so far.
+      let speaking: { cue: number; words: number; id: string } | null = null;
+      const audio = audioUrl && typeof Audio !== 'undefined' ? new Audio(audioUrl) : null;
+
+      const at = (offsetMs: number) => new Date(origin + pass * (lengthMs + LOOP_GAP_MS) + offsetMs).toISOString();
+      const wordsOf = (cue: number, count: number) => cues[cue].text.split(/\s+/).filter(Boolean).slice(0, count).join(' ');
+
+      const emitUtterance = (cue: number, text: string, endedAt: string) => {
+        const id = speaking?.id ?? `scripted-${++seq}`;
+        speaking = null;
+        if (text) events.onUtterance?.({ id, text, startedAt: at(cues[cue].startMs), endedAt });
+      };
+
+      const speak = (step: Step) => {
+        if (step.kind === 'delta') {
+          if (speaking?.cue !== step.cue) speaking = { cue: step.cue, words: 0, id: `scripted-${++seq}` };
+          speaking.words = step.words;
+          events.onDelta?.({ id: speaking.id, text: wordsOf(step.cue, step.words) });
+        } else {
+          emitUtterance(step.cue, cues[step.cue].text, at(cues[step.cue].endMs));
+        }
+      };
+
+      const run = (index: number, previousAtMs: number) => {
+        // Steps due at the same moment run together rather than a tick apart.
+        while (index < steps.length && steps[index].atMs <= previousAtMs) {
+          speak(steps[index]);
+          index += 1;
+        }
+        if (index >= steps.length) {
+          if (!loop) return;
+          timer = setTimeout(() => {
+            timer = null;
+            if (stopped) return;
+            pass += 1;
+            if (audio) audio.currentTime = 0;
+            run(0, 0);
+          }, lengthMs - previousAtMs + LOOP_GAP_MS);
+          return;
+        }
+        const step = steps[index];
+        timer = setTimeout(() => {
+          timer = null;
+          if (stopped) return;
+          speak(step);
+          run(index + 1, step.atMs);
+        }, step.atMs - previousAtMs);
+      };
+
+      timer = setTimeout(() => {
+        timer = null;
+        if (stopped) return;
+        events.onOpen?.();
+        origin = Date.now();
+        events.onReady?.();
+        audio?.play().catch((err: unknown) => {
+          events.onError?.(err instanceof Error ? err : new Error('Could not play the audio fixture.'), false);
+        });
+        run(0, 0);
+      }, connectMs);
+
+      return {
+        async stop() {
+          if (stopped) return;
+          stopped = true;
+          if (timer) clearTimeout(timer);
+          timer = null;
+          audio?.pause();
+          // Like the microphone providers, keep whatever was spoken before stop.
+          if (speaking) emitUtterance(speaking.cue, wordsOf(speaking.cue, speaking.words), new Date().toISOString());
+        },
+      };
+    },
+    // Whatever audio comes in, the "transcript" is the next line of the script.
+    async transcribeChunk() {
+      if (cues.length === 0) return '';
+      const cue = cues[nextChunkCue % cues.length];
+      nextChunkCue += 1;
+      return cue.text;
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import type { VadConfig, VadLevel } from '@/lib/vad';
+import type { AudioProcessing } from '@/services/audioInput';
+import type { RealtimeDelta, RealtimeUtterance } from '@/types/realtime';
+
+// A transcription provider turns speech (or a stand-in for it) into live
+// deltas and finished utterances. `useTranscription` owns connection state and
+// reconnects; providers only know how to start and stop one session.
+
+export interface TranscriptionStartOptions {
+  sessionCode: string;
+  /** Microphone to capture from; providers without audio input ignore it. */
+  deviceId?: string;
+  /** Browser processing on the microphone; defaults to all on. */
+  processing?: AudioProcessing;
+  /** Where speech splits into utterances; providers without real audio ignore it. */
+  vad?: Partial<VadConfig>;
+  /** ISO 639-1 code, or 'auto' to detect; the session's language when unset. */
+  language?: string;
+}
+
+export interface TranscriptionEvents {
+  /** Transport is up (e.g. data channel open); transcription may not have started. */
+  onOpen?: () => void;
+  /** Transcription is running; utterance timing starts here. */
+  onReady?: () => void;
+  /** Live audio being transcribed, for callers that keep a copy (the audio archive). */
+  onAudio?: (stream: MediaStream) => void;
+  /** Microphone level once per VAD frame, for a meter. */
+  onLevel?: (level: VadLevel) => void;
+  /** The whole in-progress line so far, not just the newest token. */
+  onDelta?: (delta: RealtimeDelta) => void;
+  onUtterance?: (utterance: RealtimeUtterance) => void;
+  /** `fatal` errors have ended the session and are worth a reconnect; others leave it running. */
+  onError?: (error: Error, fatal: boolean) => void;
+  /** The session ended without `stop()` being called. */
+  onClose?: () => void;
+  /**
+   * A finite source (an imported recording) is done. `completed` is false when
+   * it could not be processed at all, e.g. an undecodable file.
+   */
+  onEnd?: (completed: boolean) => void;
+  /** Share of a finite source processed so far, 0..1. */
+  onProgress?: (fraction: number) => void;
+}
+
+export interface TranscribeChunkOptions {
+  sessionCode: string;
+  /** Names the upload; providers may use it to pick a decoder. */
+  fileName?: string;
+}
+
+export interface TranscriptionSession {
+  /** Ends the session, flushing any utterance in progress first. */
+  stop: () => Promise<void>;
+  /** Changes microphone mid-session; absent for providers without live audio. */
+  switchInput?: (deviceId: string | undefined, processing?: AudioProcessing) => Promise<void>;
+  /** Stops transcribing without disconnecting, keeping what was already said; absent if unsupported. */
+  pause?: () => Promise<void>;
+  resume?: () => Promise<void>;
+  /** Switches transcription language without reconnecting; absent if unsupported. */
+  setLanguage?: (language: string) => void;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  start: (options: TranscriptionStartOptions, events: TranscriptionEvents) => Promise<TranscriptionSession>;
+  /** One-shot transcription of a short clip, for sources that are not live (recording import). */
+  transcribeChunk?: (audio: Blob, options: TranscribeChunkOptions) => Promise<string>;
+}
+
+export type TranscriptionProviderId = 'openai' | 'scripted' | 'recording';
@@ -1,17 +1,39 @@
+import { createVad, DEFAULT_VAD_CONFIG, type VadConfig, type VadLevel } from '@/lib/vad';
+import { audioConstraints, type AudioProcessing } from '@/services/audioInput';
 import type { TranscriptionSessionResponse } from '@/types/api';
 
 export interface RealtimeConnection {
   pc: RTCPeerConnection;
   dataChannel: RTCDataChannel;
+  /** The stream currently being sent; replaced by `switchInput`. */
   micStream: MediaStream;
   close: () => Promise<void>;
+  /**
+   * Moves capture to another microphone (or re-opens the same one with new
+   * processing) without renegotiating, so the realtime session and its
+   * transcript carry on. Resolves with the new stream.
+   */
+  switchInput: (deviceId: string | undefined, processing?: AudioProcessing) => Promise<MediaStream>;
+  /**
+   * Mutes the microphone and suspends utterance detection, committing what was
+   * already said. The peer connection stays up so resuming is instant.
+   */
+  pause: () => Promise<void>;
+  resume: () => void;
+  /** Changes the transcription language for what is said from now on. */
+  setLanguage: (language: string) => void;
 }
 
 export interface ConnectOptions {
   session: TranscriptionSessionResponse;
   deviceId?: string;
-  /** Trailing silence (ms) before an utterance is committed. Defaults to 2000. */
-  silenceMs?: number;
+  processing?: AudioProcessing;
+  /** ISO 639-1 code or 'auto'; defaults to the language the client secret was issued for. */
+  language?: string;
+  /** Utterance detection tuning; unset fields use `DEFAULT_VAD_CONFIG`. */
+  vad?: Partial<VadConfig>;
+  /** Called once per VAD frame with the mic level, for meters. */
+  onLevel?: (level: VadLevel) => void;
   onOpen?: () => void;
   onClose?: () => void;
   onError?: (error: Error) => void;
@@ -22,25 +44,14 @@ export interface ConnectOptions {
 // boundaries on the client by measuring mic energy and commit the audio buffer
 // after a short pause. Committing is what makes OpenAI emit a
 // `conversation.item.input_audio_transcription.completed` event.
-const VAD = {
-  /** RMS amplitude (0..1) above which we treat the frame as speech. */
-  threshold: 0.012,
-  /** Default trailing silence required to end an utterance. */
-  defaultSilenceMs: 2000,
-  /** Ignore blips shorter than this so we don't commit near-empty buffers. */
-  minSpeechMs: 400,
-  /** Force a commit on very long utterances so segments stay reasonable. */
-  maxUtteranceMs: 20000,
-  /** How often to sample mic energy. */
-  intervalMs: 100,
-} as const;
 
 type StopVad = (flush?: boolean) => Promise<void>;
 
 function startSilenceDetection(
   stream: MediaStream,
   dataChannel: RTCDataChannel,
-  silenceMs: number = VAD.defaultSilenceMs,
+  config: Partial<VadConfig> = {},
+  onLevel?: (level: VadLevel) => void,
 ): StopVad {
   const AudioCtx =
     window.AudioContext ?? (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
@@ -50,10 +61,8 @@ function startSilenceDetection(
   analyser.fftSize = 2048;
   source.connect(analyser);
   const samples = new Float32Array(analyser.fftSize);
-
-  let speaking = false;
-  let speechStart = 0;
-  let lastVoice = 0;
+  const frameMs = config.frameMs ?? DEFAULT_VAD_CONFIG.frameMs;
+  const vad = createVad({ ...config, frameMs });
 
   const commit = () => {
     if (dataChannel.readyState === 'open') {
@@ -63,30 +72,13 @@ function startSilenceDetection(
 
   const timer = window.setInterval(() => {
     analyser.getFloatTimeDomainData(samples);
-    let sum = 0;
-    for (let i = 0; i < samples.length; i += 1) sum += samples[i] * samples[i];
-    const rms = Math.sqrt(sum / samples.length);
-    const now = performance.now();
-
-    if (rms >= VAD.threshold) {
-      if (!speaking) {
-        speaking = true;
-        speechStart = now;
-      }
-      lastVoice = now;
-      if (now - speechStart >= VAD.maxUtteranceMs) {
-        commit();
-        speaking = false;
-      }
-    } else if (speaking && now - lastVoice >= silenceMs) {
-      if (now - speechStart >= VAD.minSpeechMs) commit();
-      speaking = false;
-    }
-  }, VAD.intervalMs);
+    if (vad.processFrame(samples, performance.now())) commit();
+    onLevel?.(vad.current());
+  }, frameMs);
 
   return async (flush = false) => {
     window.clearInterval(timer);
-    if (flush && speaking) commit();
+    if (flush && vad.current().speaking) commit();
     try {
       source.disconnect();
     } catch {
@@ -101,15 +93,10 @@ function startSilenceDetection(
 }
 
 export async function connectRealtime(opts: ConnectOptions): Promise<RealtimeConnection> {
-  const { session, deviceId, silenceMs, onOpen, onClose, onError, onMessage } = opts;
-
-  const constraints: MediaStreamConstraints = {
-    audio: deviceId
-      ? { deviceId: { exact: deviceId }, channelCount: 1, echoCancellation: true, noiseSuppression: true }
-      : { channelCount: 1, echoCancellation: true, noiseSuppression: true },
-  };
+  const { session, deviceId, processing, language = session.language, vad, onLevel, onOpen, onClose, onError, onMessage } =
+    opts;
 
-  const micStream = await navigator.mediaDevices.getUserMedia(constraints);
+  let micStream = await navigator.mediaDevices.getUserMedia(audioConstraints(deviceId, processing));
   const pc = new RTCPeerConnection();
 
   pc.addEventListener('iceconnectionstatechange', () => {
@@ -120,12 +107,13 @@ export async function connectRealtime(opts: ConnectOptions): Promise<RealtimeCon
 
   const audioTrack = micStream.getAudioTracks()[0];
   if (!audioTrack) throw new Error('No audio track available from microphone.');
-  pc.addTrack(audioTrack, micStream);
+  const sender = pc.addTrack(audioTrack, micStream);
 
   let stopVad: StopVad | null = null;
+  let paused = false;
 
   const dataChannel = pc.createDataChannel('oai-events');
-  dataChannel.addEventListener('open', () => {
+  const sendSessionUpdate = (lang: string) =>
     dataChannel.send(
       JSON.stringify({
         type: 'session.update',
@@ -139,7 +127,8 @@ export async function connectRealtime(opts: ConnectOptions): Promise<RealtimeCon
               },
               transcription: {
                 model: session.model,
-                language: session.language,
+                // Left out for 'auto' so the model detects it.
+                language: lang === 'auto' ? undefined : lang,
               },
               // gpt-realtime-whisper has no server VAD; we segment client-side.
               turn_detection: null,
@@ -148,7 +137,10 @@ export async function connectRealtime(opts: ConnectOptions): Promise<RealtimeCon
         },
       }),
     );
-    stopVad = startSilenceDetection(micStream, dataChannel, silenceMs);
+  let currentLanguage = language;
+  dataChannel.addEventListener('open', () => {
+    sendSessionUpdate(currentLanguage);
+    if (!paused) stopVad = startSilenceDetection(micStream, dataChannel, vad, onLevel);
     onOpen?.();
   });
   dataChannel.addEventListener('close', () => onClose?.());
@@ -164,26 +156,33 @@ export async function connectRealtime(opts: ConnectOptions): Promise<RealtimeCon
     }
   });
 
-  const offer = await pc.createOffer();
-  await pc.setLocalDescription(offer);
-
-  const sdpResponse = await fetch(session.sdpUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${session.clientSecret}`,
-      'Content-Type': 'application/sdp',
-    },
-    body: offer.sdp ?? '',
-  });
+  // Reconnects call this repeatedly; a failed negotiation must not leave the mic open.
+  try {
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+
+    const sdpResponse = await fetch(session.sdpUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.clientSecret}`,
+        'Content-Type': 'application/sdp',
+      },
+      body: offer.sdp ?? '',
+    });
+
+    if (!sdpResponse.ok) {
+      const text = await sdpResponse.text().catch(() => '');
+      throw new Error(`SDP exchange failed (${sdpResponse.status}): ${text}`);
+    }
 
-  if (!sdpResponse.ok) {
-    const text = await sdpResponse.text().catch(() => '');
-    throw new Error(`SDP exchange failed (${sdpResponse.status}): ${text}`);
+    const answerSdp = await sdpResponse.text();
+    await pc.setRemoteDescription({ type: 'answer', sdp: answerSdp });
+  } catch (err) {
+    pc.close();
+    micStream.getTracks().forEach((t) => t.stop());
+    throw err;
   }
 
-  const answerSdp = await sdpResponse.text();
-  await pc.setRemoteDescription({ type: 'answer', sdp: answerSdp });
-
   const close = async () => {
     try {
       // Flush any in-progress utterance so its transcript isn't lost on stop.
@@ -206,5 +205,48 @@ export async function connectRealtime(opts: ConnectOptions): Promise<RealtimeCon
     micStream.getTracks().forEach((t) => t.stop());
   };
 
-  return { pc, dataChannel, micStream, close };
+  const connection: RealtimeConnection = {
+    pc,
+    dataChannel,
+    micStream,
+    close,
+    switchInput: async (nextDeviceId, nextProcessing) => {
+      // Open the new input before touching the old one, so a failure leaves capture running.
+      const next = await navigator.mediaDevices.getUserMedia(audioConstraints(nextDeviceId, nextProcessing));
+      const track = next.getAudioTracks()[0];
+      if (!track) {
+        next.getTracks().forEach((t) => t.stop());
+        throw new Error('No audio track available from microphone.');
+      }
+      track.enabled = !paused;
+      await sender.replaceTrack(track);
+      // Commit what the old input heard so the cut does not merge two utterances.
+      await stopVad?.(true);
+      if (stopVad) stopVad = startSilenceDetection(next, dataChannel, vad, onLevel);
+      micStream.getTracks().forEach((t) => t.stop());
+      micStream = next;
+      connection.micStream = next;
+      return next;
+    },
+    pause: async () => {
+      if (paused) return;
+      paused = true;
+      await stopVad?.(true);
+      stopVad = null;
+      // A disabled track sends silence, which keeps the session (and any archive recorder) running.
+      micStream.getAudioTracks().forEach((t) => (t.enabled = false));
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      micStream.getAudioTracks().forEach((t) => (t.enabled = true));
+      if (dataChannel.readyState === 'open') stopVad = startSilenceDetection(micStream, dataChannel, vad, onLevel);
+    },
+    setLanguage: (next) => {
+      currentLanguage = next;
+      // Before the channel opens, the initial session.update picks it up.
+      if (dataChannel.readyState === 'open') sendSessionUpdate(next);
+    },
+  };
+  return connection;
 }
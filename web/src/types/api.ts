@@ -25,11 +25,27 @@ export interface SessionDto {
   ownerUsername: string;
   status: 'active' | 'ended';
   language: string;
+  /** Whether the owner is capturing right now; viewers show a paused badge from this. */
+  recordingState?: RecordingState;
   createdAt: string;
   endedAt: string | null;
   segmentCount: number;
 }
 
+export type RecordingState = 'idle' | 'recording' | 'paused';
+
+/** `pause` segments are markers for a paused stretch, not speech. */
+export type SegmentKind = 'speech' | 'pause' | 'gap';
+
+/** One hub connection watching a session — a user with two tabs open appears twice. */
+export interface SessionViewerDto {
+  connectionId: string;
+  username: string;
+  joinedAt: string;
+}
+
+export type MatchStatus = 'suggested' | 'pinned' | 'rejected';
+
 export interface ScriptureMatchDto {
   id?: string;
   reference: string;
@@ -41,16 +57,44 @@ export interface ScriptureMatchDto {
   quote: string;
   confidence: number;
   rank: number;
+  /** Owner curation; absent on matches that have not been saved yet. */
+  status?: MatchStatus;
+  source?: 'matcher' | 'manual';
 }
 
 export interface TranscriptSegmentDto {
   id: string;
   text: string;
+  /** Absent on segments stored before pause markers existed; treat as speech. */
+  kind?: SegmentKind;
   startedAt: string;
   endedAt: string;
+  /** Set once the owner has corrected the text. */
+  editedAt?: string | null;
   matches: ScriptureMatchDto[];
 }
 
+export interface TranslatedQuoteDto {
+  matchId: string;
+  version: string;
+  quote: string;
+}
+
+export interface SegmentTranslationDto {
+  segmentId: string;
+  language: string;
+  text: string;
+  /** Quotes of the segment's matches in the language's equivalent Bible version. */
+  quotes: TranslatedQuoteDto[];
+}
+
+export interface SessionTranslationsDto {
+  language: string;
+  translations: SegmentTranslationDto[];
+  /** Segments the server has yet to translate; ask again while non-zero. */
+  pending: number;
+}
+
 export interface TranscriptionSessionResponse {
   clientSecret: string;
   expiresAt: string;
@@ -60,6 +104,59 @@ export interface TranscriptionSessionResponse {
   language: string;
 }
 
+export interface AudioTranscriptionResponse {
+  text: string;
+  model: string;
+}
+
 export interface MatchResponse {
   matches: ScriptureMatchDto[];
 }
+
+export interface PassageVerseDto {
+  verse: number;
+  text: string;
+}
+
+/** One chapter of one version, as the passage viewer compares them. */
+export interface PassageDto {
+  book: string;
+  chapter: number;
+  version: string;
+  verses: PassageVerseDto[];
+}
+
+/** A main point of the sermon, anchored to the segment where it begins. */
+export interface OutlinePointDto {
+  title: string;
+  detail: string;
+  segmentId: string;
+  startedAt: string;
+}
+
+/** A passage cited in the sermon, where it first came up. */
+export interface CitedScriptureDto {
+  reference: string;
+  version: string;
+  quote: string;
+  segmentId: string;
+  startedAt: string;
+}
+
+/** Written in the background once a session ends; redone when the owner edits the transcript. */
+export interface SermonNotesDto {
+  summary: string;
+  outline: OutlinePointDto[];
+  scriptures: CitedScriptureDto[];
+  /** The model that wrote the outline and summary, or "extractive" when drawn from the transcript. */
+  generator: string;
+  generatedAt: string;
+}
+
+/** The notes endpoint's answer: stored notes, if any, and whether newer ones are being written. */
+export interface SessionNotesDto {
+  /** `pending` while notes are queued or being written (poll again), `missing` when none were ever written. */
+  status: 'pending' | 'ready' | 'missing';
+  /** While pending, the notes from before the owner's latest edits. */
+  notes: SermonNotesDto | null;
+}
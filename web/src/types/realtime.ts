@@ -3,6 +3,9 @@ export type RealtimeConnectionState =
   | 'connecting'
   | 'connected'
   | 'recording'
+  | 'paused'
+  /** Connection lost; waiting to retry or retrying. */
+  | 'reconnecting'
   | 'closing'
   | 'error';
 